@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
-  invokeBedrockWithJSON,
-  BedrockTimeoutError,
-  BedrockAuthError,
+  invokeLLMWithJSON,
+  parseLLMJSON,
+  createLLMEventStream,
+  getLLMErrorResponse,
   JSONParseError,
-} from "@/lib/bedrock-client";
+} from "@/lib/llm-provider";
+import { acceptsEventStream } from "@/lib/sse";
+import { estimateNodeCost, formatCost, UsageAssumptions } from "@/lib/cost-estimator";
+import { redactNode } from "@/lib/sensitive-properties";
+import { EDGE_KINDS } from "@/lib/edge-metadata";
+import type { Node, EdgeData } from "@/types";
 
 // Request types
 interface NodeData {
@@ -14,8 +20,8 @@ interface NodeData {
 }
 
 type AnalyzeRequest =
-  | { type: "node"; nodeData: NodeData }
-  | { type: "connection"; source: NodeData; target: NodeData };
+  | { type: "node"; nodeData: NodeData; assumptions?: UsageAssumptions }
+  | { type: "connection"; source: NodeData; target: NodeData; relationship?: EdgeData };
 
 // Response types
 interface NodeAnalysisResponse {
@@ -38,63 +44,76 @@ function buildNodeAnalysisPrompt(nodeData: NodeData): string {
 Return a JSON object with exactly these fields:
 - "analysis": A single sentence summary of this resource
 - "suggestions": An array of exactly 3 short critical tips for security or cost optimization
-- "cost_est": A string estimate like "$18/mo" or "$0.10/request"
 
 Output ONLY valid JSON, no markdown.`;
 }
 
+/**
+ * Describes what the user said the connection is (kind, protocol, ports, label)
+ */
+function describeRelationship(relationship: EdgeData | undefined): string {
+  if (!relationship?.kind || !(relationship.kind in EDGE_KINDS)) return "";
+
+  const details = [`Relationship: ${EDGE_KINDS[relationship.kind].label}`];
+  if (relationship.protocol) details.push(`protocol ${relationship.protocol.toUpperCase()}`);
+  if (Array.isArray(relationship.ports)) {
+    details.push(relationship.ports.length > 0 ? `ports ${relationship.ports.join(", ")}` : "no ports open");
+  }
+  if (relationship.direction === "two-way") details.push("traffic in both directions");
+  if (relationship.label) details.push(`labelled "${relationship.label}"`);
+  return `\n${details.join(", ")}.`;
+}
+
 /**
  * Builds a prompt for connection analysis
  */
-function buildConnectionPrompt(source: NodeData, target: NodeData): string {
-  return `User connected ${source.type} to ${target.type}.
+function buildConnectionPrompt(source: NodeData, target: NodeData, relationship?: EdgeData): string {
+  return `User connected ${source.type} to ${target.type}.${describeRelationship(relationship)}
   
 Return a JSON object with exactly these fields:
 - "message": A short explanation of this connection (1-2 sentences)
-- "terraform_snippet": Valid HCL code for security group rule or IAM policy to enable this connection
+- "terraform_snippet": Valid HCL code for the security group rule, IAM policy or trigger that enables this kind of connection
 
 Output ONLY valid JSON, no markdown.`;
 }
 
 /**
  * Validates node analysis response structure
+ * The cost estimate is added by the caller from the local price catalog.
  */
-function validateNodeAnalysis(response: any): NodeAnalysisResponse {
-  if (!response.analysis || typeof response.analysis !== "string") {
+function validateNodeAnalysis(response: unknown): Omit<NodeAnalysisResponse, "cost_est"> {
+  const { analysis, suggestions } = (response ?? {}) as { analysis?: unknown; suggestions?: unknown };
+
+  if (!analysis || typeof analysis !== "string") {
     throw new JSONParseError("Missing or invalid 'analysis' field");
   }
 
-  if (!Array.isArray(response.suggestions) || response.suggestions.length !== 3) {
+  if (
+    !Array.isArray(suggestions) ||
+    suggestions.length !== 3 ||
+    !suggestions.every((suggestion) => typeof suggestion === "string")
+  ) {
     throw new JSONParseError("'suggestions' must be an array of exactly 3 strings");
   }
 
-  if (!response.cost_est || typeof response.cost_est !== "string") {
-    throw new JSONParseError("Missing or invalid 'cost_est' field");
-  }
-
-  return {
-    analysis: response.analysis,
-    suggestions: response.suggestions,
-    cost_est: response.cost_est,
-  };
+  return { analysis, suggestions };
 }
 
 /**
  * Validates connection analysis response structure
  */
-function validateConnectionAnalysis(response: any): ConnectionAnalysisResponse {
-  if (!response.message || typeof response.message !== "string") {
+function validateConnectionAnalysis(response: unknown): ConnectionAnalysisResponse {
+  const { message, terraform_snippet } = (response ?? {}) as { message?: unknown; terraform_snippet?: unknown };
+
+  if (!message || typeof message !== "string") {
     throw new JSONParseError("Missing or invalid 'message' field");
   }
 
-  if (!response.terraform_snippet || typeof response.terraform_snippet !== "string") {
+  if (!terraform_snippet || typeof terraform_snippet !== "string") {
     throw new JSONParseError("Missing or invalid 'terraform_snippet' field");
   }
 
-  return {
-    message: response.message,
-    terraform_snippet: response.terraform_snippet,
-  };
+  return { message, terraform_snippet };
 }
 
 /**
@@ -103,19 +122,37 @@ function validateConnectionAnalysis(response: any): ConnectionAnalysisResponse {
 export async function POST(request: NextRequest) {
   try {
     const body: AnalyzeRequest = await request.json();
+    // Clients that accept server-sent events get the JSON as it is generated
+    const stream = acceptsEventStream(request);
 
     // Handle node analysis
     if (body.type === "node") {
-      const prompt = buildNodeAnalysisPrompt(body.nodeData);
-      const response = await invokeBedrockWithJSON(prompt);
-      const validatedResponse = validateNodeAnalysis(response);
-      return NextResponse.json(validatedResponse);
+      // Sensitive values (e.g. passwords) never go into a prompt, whatever the client sent
+      const prompt = buildNodeAnalysisPrompt(redactNode(body.nodeData));
+
+      // Costs come from the price catalog so they are stable and add up across nodes
+      const cost = estimateNodeCost(body.nodeData as unknown as Node, body.assumptions);
+      const complete = (response: unknown): NodeAnalysisResponse => ({
+        ...validateNodeAnalysis(response),
+        cost_est: cost.note ?? `${formatCost(cost.monthly)}/mo`,
+      });
+
+      if (stream) {
+        return createLLMEventStream(prompt, "analyze", request.signal, (text) => complete(parseLLMJSON(text)));
+      }
+      return NextResponse.json(complete(await invokeLLMWithJSON(prompt, "analyze")));
     }
 
     // Handle connection analysis
     if (body.type === "connection") {
-      const prompt = buildConnectionPrompt(body.source, body.target);
-      const response = await invokeBedrockWithJSON(prompt);
+      const prompt = buildConnectionPrompt(redactNode(body.source), redactNode(body.target), body.relationship);
+
+      if (stream) {
+        return createLLMEventStream(prompt, "analyze", request.signal, (text) =>
+          validateConnectionAnalysis(parseLLMJSON(text))
+        );
+      }
+      const response = await invokeLLMWithJSON(prompt, "analyze");
       const validatedResponse = validateConnectionAnalysis(response);
       return NextResponse.json(validatedResponse);
     }
@@ -126,33 +163,8 @@ export async function POST(request: NextRequest) {
       { status: 400 }
     );
   } catch (error) {
-    // Handle specific error types
-    if (error instanceof BedrockTimeoutError) {
-      return NextResponse.json(
-        { error: "AI service timeout. Please try again." },
-        { status: 504 }
-      );
-    }
-
-    if (error instanceof BedrockAuthError) {
-      return NextResponse.json(
-        { error: "Authentication failed. Check AWS credentials." },
-        { status: 401 }
-      );
-    }
-
-    if (error instanceof JSONParseError) {
-      return NextResponse.json(
-        { error: `AI returned invalid response: ${error.message}` },
-        { status: 500 }
-      );
-    }
-
-    // Generic error
-    console.error("AI interaction error:", error);
-    return NextResponse.json(
-      { error: "An unexpected error occurred." },
-      { status: 500 }
-    );
+    const { status, error: message } = getLLMErrorResponse(error);
+    if (status === 500) console.error("AI interaction error:", error);
+    return NextResponse.json({ error: message }, { status });
   }
 }
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { invokeLLMWithJSON, getLLMErrorResponse, JSONParseError } from "@/lib/llm-provider";
+import { readBlueprint, buildDiagramFromBlueprint, BlueprintResult } from "@/lib/diagram-blueprint";
+import { getResourceDefinitions } from "@/lib/resource-registry";
+import { getAllowedParents } from "@/lib/containers";
+import { getCompatibleTypes } from "@/lib/connection-rules";
+import { PropertyField } from "@/lib/resource-schemas";
+
+// Request type
+interface DiagramRequest {
+  description: string;
+}
+
+// Response type: nodes laid out from (100, 100), ready for the canvas
+type DiagramResponse = BlueprintResult;
+
+// Longest description accepted, to keep the prompt bounded
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * Describes a setting for the prompt, with its sub-settings for lists of objects and groups
+ */
+function describeField(field: PropertyField): string {
+  if (field.options) {
+    return `${field.name} (one of: ${field.options.join(", ")})`;
+  }
+  if (field.fields) {
+    const shape = field.type === "group" ? "object" : "list of objects";
+    return `${field.name} (${shape} with ${field.fields.map(describeField).join(", ")})`;
+  }
+  return `${field.name} (${field.type === "map" ? "map of strings" : field.type})`;
+}
+
+/**
+ * Describes every resource type the canvas supports: settings, where it can be
+ * placed and what it can connect to
+ */
+function describeResourceTypes(): string {
+  return getResourceDefinitions()
+    .map(({ id: type, label, schema }) => {
+      const fields = schema.fields.map(describeField).join(", ");
+      const parents = getAllowedParents(type);
+      const connects = getCompatibleTypes(type);
+      return [
+        `- ${type}: ${label}`,
+        `  properties: ${fields}`,
+        parents.length > 0 ? `  may be placed in: ${parents.join(", ")}` : "  always top level",
+        `  may connect to: ${connects.length > 0 ? connects.join(", ") : "nothing"}`,
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Builds a prompt for generating a diagram from a description
+ */
+function buildDiagramPrompt(description: string): string {
+  return `You are a Senior Cloud Architect designing an AWS architecture on a diagram canvas.
+
+Architecture description: '${description}'
+
+Supported resource types:
+${describeResourceTypes()}
+
+Return a JSON object with exactly these fields:
+- "resources": An array of objects with "id" (short unique name), "type" (one of the types above), "label" (display name), "properties" (only the properties listed for that type) and optionally "parent" (id of the VPC, availability zone or subnet it is placed in)
+- "connections": An array of objects with "from" and "to" resource ids, only between types that may connect
+
+Use only the listed types; leave out services that are not supported.
+Output ONLY valid JSON, no markdown.`;
+}
+
+/**
+ * POST handler for diagram endpoint
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: DiagramRequest = await request.json();
+
+    // Validate request body
+    if (!body.description || typeof body.description !== "string" || !body.description.trim()) {
+      return NextResponse.json(
+        { error: "Missing or invalid 'description' field" },
+        { status: 400 }
+      );
+    }
+
+    if (body.description.length > MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `'description' must be at most ${MAX_DESCRIPTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const response = await invokeLLMWithJSON(buildDiagramPrompt(body.description.trim()), "diagram");
+    const blueprint = readBlueprint(response);
+    if (!blueprint) {
+      throw new JSONParseError("Missing or invalid 'resources' field");
+    }
+
+    // Repair or drop anything the canvas cannot represent before it reaches the client
+    const result: DiagramResponse = buildDiagramFromBlueprint(blueprint);
+    if (result.nodes.length === 0) {
+      return NextResponse.json(
+        { error: "The description did not produce any supported resources", issues: result.issues },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    const { status, error: message } = getLLMErrorResponse(error);
+    if (status === 500) console.error("AI interaction error:", error);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -1,15 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
-  invokeBedrock,
+  invokeLLM,
   stripMarkdown,
-  BedrockTimeoutError,
-  BedrockAuthError,
-} from "@/lib/bedrock-client";
+  createLLMEventStream,
+  getLLMErrorResponse,
+} from "@/lib/llm-provider";
+import { acceptsEventStream } from "@/lib/sse";
+import {
+  ChatTurn,
+  GraphContext,
+  truncateConversation,
+  formatGraphContext,
+} from "@/lib/conversation-context";
 
 // Request type
 interface RefineRequest {
   currentCode: string;
   userInstruction: string;
+  // Earlier turns of the chat, oldest first
+  history?: ChatTurn[];
+  // Resources and connections on the canvas
+  graph?: GraphContext;
 }
 
 // Response type
@@ -17,16 +28,70 @@ interface RefineResponse {
   code: string;
 }
 
+// Token budgets for the context around the code; older turns are summarised
+const HISTORY_TOKEN_BUDGET = 2000;
+const GRAPH_TOKEN_BUDGET = 2000;
+
+function isChatTurn(value: unknown): value is ChatTurn {
+  const turn = value as ChatTurn;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (turn.role === "user" || turn.role === "assistant") &&
+    typeof turn.content === "string"
+  );
+}
+
+function isGraphContext(value: unknown): value is GraphContext {
+  const graph = value as GraphContext;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray(graph.resources) &&
+    Array.isArray(graph.connections)
+  );
+}
+
+/**
+ * Formats earlier turns so follow-up instructions ("do the same for the other
+ * bucket") can be resolved
+ */
+function formatHistory(history: ChatTurn[]): string {
+  const { turns, summary } = truncateConversation(history, HISTORY_TOKEN_BUDGET);
+  const lines = turns.map((turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`);
+  if (summary) lines.unshift(summary);
+  return lines.join("\n\n");
+}
+
 /**
  * Builds a prompt for code refinement
  */
-function buildRefinePrompt(currentCode: string, userInstruction: string): string {
-  return `Current Terraform Code:
+function buildRefinePrompt(
+  currentCode: string,
+  userInstruction: string,
+  history: ChatTurn[] = [],
+  graph?: GraphContext
+): string {
+  const sections: string[] = [];
+
+  if (graph) {
+    sections.push(`Diagram (resources on the canvas with their Terraform addresses, and connections between them):
+${formatGraphContext(graph, GRAPH_TOKEN_BUDGET)}`);
+  }
+
+  if (history.length > 0) {
+    sections.push(`Conversation so far:
+${formatHistory(history)}`);
+  }
+
+  sections.push(`Current Terraform Code:
 ${currentCode}
 
 User Instruction: '${userInstruction}'
 
-Task: Update the code to match the instruction. Output ONLY the raw valid HCL code. No markdown, no explanations, no code fences.`;
+Task: Update the code to match the instruction. Use the conversation and the diagram to resolve references to earlier changes or resources. Output ONLY the raw valid HCL code. No markdown, no explanations, no code fences.`);
+
+  return sections.join("\n\n");
 }
 
 /**
@@ -51,9 +116,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build prompt and invoke Bedrock
-    const prompt = buildRefinePrompt(body.currentCode, body.userInstruction);
-    const response = await invokeBedrock(prompt);
+    if (body.history !== undefined && (!Array.isArray(body.history) || !body.history.every(isChatTurn))) {
+      return NextResponse.json(
+        { error: "Invalid 'history' field: expected an array of { role, content } turns" },
+        { status: 400 }
+      );
+    }
+
+    if (body.graph !== undefined && !isGraphContext(body.graph)) {
+      return NextResponse.json(
+        { error: "Invalid 'graph' field: expected { resources, connections }" },
+        { status: 400 }
+      );
+    }
+
+    // Build prompt and invoke the configured model
+    const prompt = buildRefinePrompt(body.currentCode, body.userInstruction, body.history, body.graph);
+
+    // Clients that accept server-sent events get the code as it is generated
+    if (acceptsEventStream(request)) {
+      return createLLMEventStream(prompt, "refine", request.signal, (text): RefineResponse => ({
+        code: stripMarkdown(text),
+      }));
+    }
+
+    const response = await invokeLLM(prompt, "refine");
 
     // Strip markdown code fences if present
     const cleanedCode = stripMarkdown(response);
@@ -65,26 +152,8 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(result);
   } catch (error) {
-    // Handle specific error types
-    if (error instanceof BedrockTimeoutError) {
-      return NextResponse.json(
-        { error: "AI service timeout. Please try again." },
-        { status: 504 }
-      );
-    }
-
-    if (error instanceof BedrockAuthError) {
-      return NextResponse.json(
-        { error: "Authentication failed. Check AWS credentials." },
-        { status: 401 }
-      );
-    }
-
-    // Generic error
-    console.error("AI interaction error:", error);
-    return NextResponse.json(
-      { error: "An unexpected error occurred." },
-      { status: 500 }
-    );
+    const { status, error: message } = getLLMErrorResponse(error);
+    if (status === 500) console.error("AI interaction error:", error);
+    return NextResponse.json({ error: message }, { status });
   }
 }
@@ -1,15 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
-  invokeBedrockWithJSON,
-  BedrockTimeoutError,
-  BedrockAuthError,
+  invokeLLMWithJSON,
+  getLLMErrorResponse,
+  LLMTimeoutError,
+  LLMAuthError,
+  LLMUnavailableError,
   JSONParseError,
-} from "@/lib/bedrock-client";
+} from "@/lib/llm-provider";
+import { lintDiagram, LintFinding } from "@/lib/diagram-linter";
+import { redactNodes } from "@/lib/sensitive-properties";
+import { describeEdge } from "@/lib/edge-metadata";
+import type { Node, Edge, EdgeData } from "@/types";
 
 // Request types
 interface SimulateRequest {
   nodes: Array<{ id: string; type: string; data: any }>;
-  edges: Array<{ source: string; target: string }>;
+  edges: Array<{ source: string; target: string; data?: EdgeData }>;
 }
 
 // Response types
@@ -17,6 +23,8 @@ interface SecurityIntercept {
   detected: boolean;
   message: string;
   fix_action: string;
+  // IDs of the lint rules behind the intercept, so the client can apply their fixes
+  rule_ids: string[];
 }
 
 interface SimulateResponse {
@@ -24,7 +32,7 @@ interface SimulateResponse {
   security_intercept: SecurityIntercept;
 }
 
-// Fallback simulation data for Bedrock failures
+// Fallback simulation data for model failures
 const FALLBACK_SIMULATION: SimulateResponse = {
   steps: [
     "Initializing Terraform...",
@@ -38,15 +46,31 @@ const FALLBACK_SIMULATION: SimulateResponse = {
     detected: false,
     message: "No issues detected",
     fix_action: "N/A",
+    rule_ids: [],
   },
 };
 
 /**
- * Detects if the infrastructure graph contains security risks
- * Returns true if S3 or EC2 nodes are present
+ * Builds the security intercept from the diagram linter's security findings
  */
-function detectSecurityRisk(nodes: Array<{ type: string }>): boolean {
-  return nodes.some((n) => n.type === "s3" || n.type === "ec2");
+function buildSecurityIntercept(findings: LintFinding[]): SecurityIntercept {
+  const security = findings.filter((finding) => finding.category === "security");
+  if (security.length === 0) {
+    return FALLBACK_SIMULATION.security_intercept;
+  }
+
+  const fixes = security.flatMap((finding) => (finding.fix ? [finding.fix.label] : []));
+  const manual = security.length - fixes.length;
+
+  return {
+    detected: true,
+    message: `⚠️ Security Warning: ${security.map((finding) => finding.message).join("; ")}`,
+    fix_action: [
+      ...fixes,
+      ...(manual > 0 ? [`${manual} finding${manual === 1 ? "" : "s"} must be resolved on the canvas`] : []),
+    ].join("; "),
+    rule_ids: [...new Set(security.map((finding) => finding.ruleId))],
+  };
 }
 
 /**
@@ -55,74 +79,43 @@ function detectSecurityRisk(nodes: Array<{ type: string }>): boolean {
 function buildSimulationPrompt(
   nodes: any[],
   edges: any[],
-  hasRisk: boolean
+  intercept: SecurityIntercept
 ): string {
   return `Act as a deployment engine. Analyze this infrastructure graph:
 Nodes: ${JSON.stringify(nodes)}
 Edges: ${JSON.stringify(edges)}
-
-Return a JSON object with exactly these fields:
+${intercept.detected ? `\nA security review found: ${intercept.message}\n` : ""}
+Return a JSON object with exactly this field:
 - "steps": An array of 6-8 realistic Terraform deployment log strings (e.g., "Initializing provider...", "Creating aws_instance.web...")
-- "security_intercept": An object with:
-  - "detected": ${hasRisk} (boolean)
-  - "message": ${hasRisk ? 'A realistic security warning about S3 public access or EC2 security groups' : '"No issues detected"'}
-  - "fix_action": ${hasRisk ? 'Description of the fix to apply' : '"N/A"'}
 
 Output ONLY valid JSON, no markdown.`;
 }
 
 /**
- * Validates simulation response structure
+ * Validates simulation response structure and attaches the security intercept
  * Requirements: 4.3, 4.5, 4.6
  */
 function validateSimulation(
-  response: any,
-  expectedSecurityRisk: boolean
+  response: unknown,
+  intercept: SecurityIntercept
 ): SimulateResponse {
+  const { steps } = (response ?? {}) as { steps?: unknown };
+
   // Validate steps array has 6-8 entries
-  if (!Array.isArray(response.steps)) {
+  if (!Array.isArray(steps)) {
     throw new JSONParseError("Missing or invalid 'steps' field - must be an array");
   }
 
-  if (response.steps.length < 6 || response.steps.length > 8) {
-    throw new JSONParseError(
-      `'steps' array must have 6-8 entries, got ${response.steps.length}`
-    );
-  }
-
-  // Validate security_intercept has required fields
-  if (!response.security_intercept || typeof response.security_intercept !== "object") {
-    throw new JSONParseError("Missing or invalid 'security_intercept' field");
-  }
-
-  const intercept = response.security_intercept;
-
-  if (typeof intercept.detected !== "boolean") {
-    throw new JSONParseError("'security_intercept.detected' must be a boolean");
-  }
-
-  if (!intercept.message || typeof intercept.message !== "string") {
-    throw new JSONParseError("Missing or invalid 'security_intercept.message' field");
-  }
-
-  if (!intercept.fix_action || typeof intercept.fix_action !== "string") {
-    throw new JSONParseError("Missing or invalid 'security_intercept.fix_action' field");
-  }
-
-  // Ensure detected boolean matches S3/EC2 presence
-  if (intercept.detected !== expectedSecurityRisk) {
+  if (steps.length < 6 || steps.length > 8) {
     throw new JSONParseError(
-      `'security_intercept.detected' (${intercept.detected}) does not match expected security risk (${expectedSecurityRisk})`
+      `'steps' array must have 6-8 entries, got ${steps.length}`
     );
   }
 
+  // The intercept comes from the diagram linter, not the model, so it is deterministic
   return {
-    steps: response.steps,
-    security_intercept: {
-      detected: intercept.detected,
-      message: intercept.message,
-      fix_action: intercept.fix_action,
-    },
+    steps: steps as SimulateResponse["steps"],
+    security_intercept: intercept,
   };
 }
 
@@ -149,71 +142,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Detect security risks
-    const hasSecurityRisk = detectSecurityRisk(body.nodes);
-
-    // Build prompt and invoke Bedrock
-    const prompt = buildSimulationPrompt(body.nodes, body.edges, hasSecurityRisk);
+    // Detect security risks with the diagram linter
+    const findings = lintDiagram(body.nodes as Node[], body.edges as Edge[]);
+    const securityIntercept = buildSecurityIntercept(findings);
+
+    // Build prompt and invoke the configured model
+    // Edges carry their relationship kind, inferred where the user did not set one
+    const edges = (body.edges as Edge[]).map((edge) => ({
+      source: edge.source,
+      target: edge.target,
+      ...describeEdge(edge, body.nodes as Node[]),
+    }));
+    const prompt = buildSimulationPrompt(redactNodes(body.nodes), edges, securityIntercept);
     
     try {
-      const response = await invokeBedrockWithJSON(prompt);
-      const validatedResponse = validateSimulation(response, hasSecurityRisk);
+      const response = await invokeLLMWithJSON(prompt, "simulate");
+      const validatedResponse = validateSimulation(response, securityIntercept);
       return NextResponse.json(validatedResponse);
-    } catch (bedrockError) {
-      // If Bedrock fails, return fallback simulation data
+    } catch (llmError) {
+      // If the model fails, return fallback simulation data
       if (
-        bedrockError instanceof BedrockTimeoutError ||
-        bedrockError instanceof BedrockAuthError ||
-        bedrockError instanceof JSONParseError
+        llmError instanceof LLMTimeoutError ||
+        llmError instanceof LLMAuthError ||
+        llmError instanceof LLMUnavailableError ||
+        llmError instanceof JSONParseError
       ) {
-        console.warn("Bedrock failed, using fallback simulation:", bedrockError);
+        console.warn("Model failed, using fallback simulation:", llmError);
         
-        // Adjust fallback based on detected security risk
+        // Findings do not depend on the model, so the fallback still reports them
         const fallbackWithRisk: SimulateResponse = {
           ...FALLBACK_SIMULATION,
-          security_intercept: hasSecurityRisk
-            ? {
-                detected: true,
-                message: "⚠️ Security Warning: Potential public access detected on S3 or EC2 resources",
-                fix_action: "Apply security group restrictions and enable encryption",
-              }
-            : FALLBACK_SIMULATION.security_intercept,
+          security_intercept: securityIntercept,
         };
         
         return NextResponse.json(fallbackWithRisk);
       }
       
       // Re-throw unexpected errors
-      throw bedrockError;
+      throw llmError;
     }
   } catch (error) {
-    // Handle specific error types
-    if (error instanceof BedrockTimeoutError) {
-      return NextResponse.json(
-        { error: "AI service timeout. Please try again." },
-        { status: 504 }
-      );
-    }
-
-    if (error instanceof BedrockAuthError) {
-      return NextResponse.json(
-        { error: "Authentication failed. Check AWS credentials." },
-        { status: 401 }
-      );
-    }
-
-    if (error instanceof JSONParseError) {
-      return NextResponse.json(
-        { error: `AI returned invalid response: ${error.message}` },
-        { status: 500 }
-      );
-    }
-
-    // Generic error
-    console.error("Simulation error:", error);
-    return NextResponse.json(
-      { error: "An unexpected error occurred." },
-      { status: 500 }
-    );
+    const { status, error: message } = getLLMErrorResponse(error);
+    if (status === 500) console.error("Simulation error:", error);
+    return NextResponse.json({ error: message }, { status });
   }
 }
@@ -8,23 +8,37 @@ import { CodeDisplayModal } from '@/components/code-display-modal';
 import { KeyboardShortcutsDialog } from '@/components/keyboard-shortcuts-dialog';
 import { ErrorBoundary } from '@/components/error-boundary';
 import { DeploymentTerminal } from '@/components/deployment-terminal';
+import { ProjectMenu } from '@/components/project-menu';
+import { HistoryPanel } from '@/components/history-panel';
+import { ProblemsPanel } from '@/components/problems-panel';
+import { CostPanel } from '@/components/cost-panel';
+import { ImportTerraformDialog } from '@/components/import-terraform-dialog';
+import { DescribeArchitectureDialog } from '@/components/describe-architecture-dialog';
 import { CanvasProvider, useCanvas } from '@/lib/canvas-context';
-import { generateTerraform } from '@/lib/terraform-generator';
+import { generateTerraformModule, TerraformFile } from '@/lib/terraform-generator';
 import { useKeyboardShortcuts } from '@/lib/use-keyboard-shortcuts';
+import { useCanvasPersistence } from '@/lib/use-canvas-persistence';
+import { formatCost } from '@/lib/cost-estimator';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { Code, Menu, X, Settings, Loader2, Keyboard, Play } from 'lucide-react';
+import { Code, Menu, X, Settings, Loader2, Keyboard, Play, Undo2, Redo2, History, FileInput, ShieldAlert, DollarSign, Sparkles } from 'lucide-react';
 import { Toaster, toast } from 'sonner';
 
 function HomeContent() {
-  const { state, setError } = useCanvas();
+  const { state, setError, undo, redo, canUndo, canRedo, lintFindings, costEstimate } = useCanvas();
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [generatedCode, setGeneratedCode] = useState('');
+  const [generatedFiles, setGeneratedFiles] = useState<TerraformFile[]>([]);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isPropertiesOpen, setIsPropertiesOpen] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showSimulator, setShowSimulator] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showDescribe, setShowDescribe] = useState(false);
+  const [showProblems, setShowProblems] = useState(false);
+  const [showCost, setShowCost] = useState(false);
+  const persistence = useCanvasPersistence();
 
   const handleGenerateCode = async () => {
     try {
@@ -34,8 +48,8 @@ function HomeContent() {
       // Simulate async operation for better UX
       await new Promise(resolve => setTimeout(resolve, 100));
       
-      const code = generateTerraform(state.nodes, state.edges);
-      setGeneratedCode(code);
+      const files = generateTerraformModule(state.nodes, state.edges, { includeTfvars: true });
+      setGeneratedFiles(files);
       setIsModalOpen(true);
       
       toast.success('Terraform code generated successfully');
@@ -80,9 +94,100 @@ function HomeContent() {
               <h1 className="text-lg sm:text-xl font-semibold truncate">InfraCanvas</h1>
               <p className="text-xs sm:text-sm text-muted-foreground hidden sm:block">Visual Infrastructure Builder</p>
             </div>
+
+            <ProjectMenu persistence={persistence} />
           </div>
           
           <div className="flex items-center gap-2 flex-shrink-0">
+            {/* Undo / redo / history */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={undo}
+                  disabled={!canUndo}
+                  aria-label="Undo"
+                >
+                  <Undo2 className="h-5 w-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Undo (Ctrl+Z)</p>
+              </TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={redo}
+                  disabled={!canRedo}
+                  aria-label="Redo"
+                >
+                  <Redo2 className="h-5 w-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Redo (Ctrl+Shift+Z)</p>
+              </TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={showHistory ? 'secondary' : 'ghost'}
+                  size="icon"
+                  onClick={() => setShowHistory(!showHistory)}
+                  aria-label="Toggle history"
+                >
+                  <History className="h-5 w-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Edit history</p>
+              </TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={showCost ? 'secondary' : 'ghost'}
+                  size="icon"
+                  onClick={() => setShowCost(!showCost)}
+                  aria-label="Toggle cost estimate"
+                >
+                  <DollarSign className="h-5 w-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Estimated cost: {formatCost(costEstimate.total)}/mo</p>
+              </TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={showProblems ? 'secondary' : 'ghost'}
+                  size="icon"
+                  className="relative"
+                  onClick={() => setShowProblems(!showProblems)}
+                  aria-label="Toggle problems"
+                >
+                  <ShieldAlert className="h-5 w-5" />
+                  {lintFindings.length > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4">
+                      {lintFindings.length}
+                    </span>
+                  )}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Security and best-practice problems</p>
+              </TooltipContent>
+            </Tooltip>
+
             {/* Keyboard shortcuts help button */}
             <Tooltip>
               <TooltipTrigger asChild>
@@ -118,6 +223,42 @@ function HomeContent() {
               </TooltipContent>
             </Tooltip>
             
+            {/* Describe architecture button */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  onClick={() => setShowDescribe(true)}
+                  variant="outline"
+                  size="default"
+                  className="gap-2"
+                >
+                  <Sparkles className="h-4 w-4" />
+                  <span className="hidden sm:inline">Describe</span>
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Generate a diagram from a description</p>
+              </TooltipContent>
+            </Tooltip>
+
+            {/* Import Terraform button */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  onClick={() => setShowImport(true)}
+                  variant="outline"
+                  size="default"
+                  className="gap-2"
+                >
+                  <FileInput className="h-4 w-4" />
+                  <span className="hidden sm:inline">Import .tf</span>
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Import existing Terraform onto the canvas</p>
+              </TooltipContent>
+            </Tooltip>
+
             {/* Simulate Deployment button */}
             <Tooltip>
               <TooltipTrigger asChild>
@@ -191,8 +332,11 @@ function HomeContent() {
           )}
           
           {/* Canvas - takes full width on mobile */}
-          <div className="flex-1 min-w-0">
+          <div className="flex-1 min-w-0 relative">
             <Canvas />
+            <HistoryPanel open={showHistory} onClose={() => setShowHistory(false)} />
+            <ProblemsPanel open={showProblems} onClose={() => setShowProblems(false)} />
+            <CostPanel open={showCost} onClose={() => setShowCost(false)} />
           </div>
           
           {/* Properties Panel - hidden on mobile by default, toggleable */}
@@ -222,7 +366,7 @@ function HomeContent() {
       <CodeDisplayModal
         open={isModalOpen}
         onOpenChange={setIsModalOpen}
-        code={generatedCode}
+        files={generatedFiles}
       />
       
       <DeploymentTerminal
@@ -237,6 +381,16 @@ function HomeContent() {
         onOpenChange={setShowShortcuts}
       />
       
+      <ImportTerraformDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+      />
+
+      <DescribeArchitectureDialog
+        open={showDescribe}
+        onOpenChange={setShowDescribe}
+      />
+      
       <Toaster position="bottom-right" richColors />
     </>
   );
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CodeDisplayModal } from '../code-display-modal';
+import { useCanvas } from '@/lib/canvas-context';
+import { fetchEventStream } from '@/lib/sse';
+import { generateTerraformModule } from '@/lib/terraform-generator';
+import { Node } from '@/types';
+
+vi.mock('@/lib/canvas-context', async () => {
+  const actual = await vi.importActual('@/lib/canvas-context');
+  return {
+    ...actual,
+    useCanvas: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/sse', async () => {
+  const actual = await vi.importActual('@/lib/sse');
+  return {
+    ...actual,
+    fetchEventStream: vi.fn(),
+  };
+});
+
+const PASSWORD = 'hunter2!';
+
+const nodes: Node[] = [
+  {
+    id: 'rds-1',
+    type: 'rds',
+    position: { x: 0, y: 0 },
+    data: { label: 'Orders DB', properties: { engine: 'postgres', credentials: 'variable', masterPassword: PASSWORD } },
+  },
+];
+
+describe('CodeDisplayModal - refining terraform.tfvars', () => {
+  it('should not send sensitive values to the refiner', async () => {
+    const files = generateTerraformModule(nodes, [], { includeTfvars: true });
+    expect(files.find((file) => file.path === 'terraform.tfvars')?.content).toContain(PASSWORD);
+
+    vi.mocked(useCanvas).mockReturnValue({
+      state: { nodes, edges: [] },
+      updateNode: vi.fn(),
+      mergeCanvas: vi.fn(),
+    } as unknown as ReturnType<typeof useCanvas>);
+    const fetchMock = vi.mocked(fetchEventStream);
+    fetchMock.mockImplementation(async (_url, body) => ({
+      code: (body as { currentCode: string }).currentCode.replace('"postgres"', '"mysql"'),
+    }));
+
+    render(<CodeDisplayModal open onOpenChange={vi.fn()} files={files} />);
+    fireEvent.click(screen.getByLabelText('Include terraform.tfvars'));
+    fireEvent.click(screen.getByRole('button', { name: 'terraform.tfvars' }));
+    fireEvent.change(screen.getByPlaceholderText('Type your instruction...'), {
+      target: { value: 'Switch the engine to MySQL' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    const payload = JSON.stringify(fetchMock.mock.calls[0][1]);
+    expect(payload).not.toContain(PASSWORD);
+    expect(payload).toContain('(sensitive)');
+
+    // The proposed change keeps the real value: only the edited line differs
+    expect(await screen.findByText(/"mysql"/)).toBeInTheDocument();
+    expect(screen.queryByText(/\(sensitive\)/)).not.toBeInTheDocument();
+  });
+});
@@ -20,6 +20,8 @@ describe('Properties Panel - Empty State', () => {
 
     (useCanvas as any).mockReturnValue({
       getSelectedNode: mockGetSelectedNode,
+      getSelectedNodes: vi.fn(() => []),
+      getSelectedEdge: vi.fn(() => null),
       updateNode: mockUpdateNode,
     });
 
@@ -55,6 +57,7 @@ describe('Properties Panel - Update Handlers', () => {
 
     (useCanvas as any).mockReturnValue({
       getSelectedNode: mockGetSelectedNode,
+      getSelectedNodes: vi.fn(() => []),
       updateNode: mockUpdateNode,
     });
 
@@ -78,6 +81,24 @@ describe('Properties Panel - Update Handlers', () => {
     });
   });
 
+  it('should mask sensitive fields', () => {
+    vi.mocked(useCanvas).mockReturnValue({
+      getSelectedNode: vi.fn(() => ({
+        id: 'test-rds-1',
+        type: 'rds',
+        position: { x: 0, y: 0 },
+        data: { label: 'Orders DB', properties: { engine: 'postgres', credentials: 'variable', masterPassword: 'hunter2!' } },
+      } as Node)),
+      getSelectedNodes: vi.fn(() => []),
+      updateNode: vi.fn(),
+    } as unknown as ReturnType<typeof useCanvas>);
+
+    render(<PropertiesPanel />);
+
+    expect(screen.getByLabelText(/Password Value/i)).toHaveAttribute('type', 'password');
+    expect(screen.getByLabelText(/Database Name/i)).toHaveAttribute('type', 'text');
+  });
+
   it('should call updateNode when select input changes', async () => {
     const mockUpdateNode = vi.fn();
     const mockGetSelectedNode = vi.fn(() => ({
@@ -97,6 +118,7 @@ describe('Properties Panel - Update Handlers', () => {
 
     (useCanvas as any).mockReturnValue({
       getSelectedNode: mockGetSelectedNode,
+      getSelectedNodes: vi.fn(() => []),
       updateNode: mockUpdateNode,
     });
 
@@ -142,6 +164,7 @@ describe('Properties Panel - Update Handlers', () => {
 
     (useCanvas as any).mockReturnValue({
       getSelectedNode: mockGetSelectedNode,
+      getSelectedNodes: vi.fn(() => []),
       updateNode: mockUpdateNode,
     });
 
@@ -183,6 +206,7 @@ describe('Properties Panel - Update Handlers', () => {
 
     (useCanvas as any).mockReturnValue({
       getSelectedNode: mockGetSelectedNode,
+      getSelectedNodes: vi.fn(() => []),
       updateNode: mockUpdateNode,
     });
 
@@ -225,6 +249,7 @@ describe('Properties Panel - Update Handlers', () => {
 
     (useCanvas as any).mockReturnValue({
       getSelectedNode: mockGetSelectedNode,
+      getSelectedNodes: vi.fn(() => []),
       updateNode: mockUpdateNode,
     });
 
@@ -248,3 +273,139 @@ describe('Properties Panel - Update Handlers', () => {
     });
   });
 });
+
+describe('Properties Panel - Bulk Editing', () => {
+  const makeEc2 = (id: string, ami: string) => ({
+    id,
+    type: 'ec2',
+    position: { x: 100, y: 100 },
+    data: {
+      label: id,
+      properties: { instanceType: 't2.micro', ami, keyName: '', securityGroups: [] },
+    },
+  } as Node);
+
+  it('should show differing values as mixed and update every selected node', () => {
+    const mockUpdateNodes = vi.fn();
+    const nodes = [makeEc2('web-1', 'ami-111'), makeEc2('web-2', 'ami-222')];
+
+    (useCanvas as any).mockReturnValue({
+      getSelectedNode: vi.fn(() => nodes[0]),
+      getSelectedNodes: vi.fn(() => nodes),
+      updateNode: vi.fn(),
+      updateNodes: mockUpdateNodes,
+    });
+
+    render(<PropertiesPanel />);
+
+    expect(screen.getByText('Editing 2 nodes')).toBeInTheDocument();
+    const amiInput = screen.getByLabelText(/AMI ID/i) as HTMLInputElement;
+    expect(amiInput.value).toBe('');
+    expect(amiInput.placeholder).toBe('Mixed');
+
+    fireEvent.change(amiInput, { target: { value: 'ami-333' } });
+
+    expect(mockUpdateNodes).toHaveBeenCalledWith(['web-1', 'web-2'], { ami: 'ami-333' });
+  });
+
+  it('should not offer editing when the selected nodes have different types', () => {
+    const bucket = { ...makeEc2('assets', ''), type: 's3' } as Node;
+
+    (useCanvas as any).mockReturnValue({
+      getSelectedNode: vi.fn(() => bucket),
+      getSelectedNodes: vi.fn(() => [makeEc2('web-1', 'ami-111'), bucket]),
+      updateNode: vi.fn(),
+      updateNodes: vi.fn(),
+    });
+
+    render(<PropertiesPanel />);
+
+    expect(screen.getByText('2 nodes selected')).toBeInTheDocument();
+    expect(screen.queryByLabelText(/AMI ID/i)).not.toBeInTheDocument();
+  });
+});
+
+describe('Properties Panel - Edge Properties', () => {
+  const alb = { id: 'alb-1', type: 'alb', position: { x: 0, y: 0 }, data: { label: 'Front', properties: {} } } as Node;
+  const web = { id: 'ec2-1', type: 'ec2', position: { x: 0, y: 200 }, data: { label: 'Web', properties: {} } } as Node;
+  const edge = { id: 'edge-1', source: 'alb-1', target: 'ec2-1', selected: true };
+
+  it('should edit the selected edge when no node is selected', () => {
+    const mockUpdateEdge = vi.fn();
+
+    vi.mocked(useCanvas).mockReturnValue({
+      getSelectedNode: vi.fn(() => null),
+      getSelectedNodes: vi.fn(() => []),
+      getSelectedEdge: vi.fn(() => edge),
+      state: { nodes: [alb, web], edges: [edge] },
+      updateEdge: mockUpdateEdge,
+    } as unknown as ReturnType<typeof useCanvas>);
+
+    render(<PropertiesPanel />);
+
+    expect(screen.getByText('Connection')).toBeInTheDocument();
+    expect(screen.getByText('Front → Web')).toBeInTheDocument();
+    expect(screen.getByText(/inferred from the connected resources\)/)).toBeInTheDocument();
+    expect((screen.getByLabelText(/Ports Web accepts from Front/i) as HTMLInputElement).value).toBe('80, 443');
+
+    fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'Storefront' } });
+    expect(mockUpdateEdge).toHaveBeenCalledWith('edge-1', { label: 'Storefront' });
+  });
+});
+
+describe('Properties Panel - Compound Fields', () => {
+  const renderNode = (node: Node) => {
+    const mockUpdateNode = vi.fn();
+    vi.mocked(useCanvas).mockReturnValue({
+      getSelectedNode: vi.fn(() => node),
+      getSelectedNodes: vi.fn(() => [node]),
+      updateNode: mockUpdateNode,
+    } as unknown as ReturnType<typeof useCanvas>);
+    render(<PropertiesPanel />);
+    return mockUpdateNode;
+  };
+
+  it('should edit map fields as key/value rows', () => {
+    const mockUpdateNode = renderNode({
+      id: 'lambda-1',
+      type: 'lambda',
+      position: { x: 0, y: 0 },
+      data: { label: 'Worker', properties: { functionName: 'worker', environment: {} } },
+    } as Node);
+
+    fireEvent.click(screen.getAllByRole('button', { name: /Add entry/i })[0]);
+    fireEvent.change(screen.getByLabelText('Environment Variables key 1'), { target: { value: 'LOG_LEVEL' } });
+    fireEvent.change(screen.getByLabelText('Environment Variables value 1'), { target: { value: 'debug' } });
+
+    expect(mockUpdateNode).toHaveBeenLastCalledWith('lambda-1', {
+      label: 'Worker',
+      properties: { functionName: 'worker', environment: { LOG_LEVEL: 'debug' } },
+    });
+  });
+
+  it('should add, edit and remove object list items and edit groups', () => {
+    const properties = { name: 'front', listeners: [{ port: 443, protocol: 'HTTPS' }] };
+    const mockUpdateNode = renderNode({
+      id: 'alb-1',
+      type: 'alb',
+      position: { x: 0, y: 0 },
+      data: { label: 'Front', properties },
+    } as Node);
+    const lastProperties = () => mockUpdateNode.mock.lastCall?.[1].properties;
+
+    fireEvent.change(screen.getByLabelText('Certificate ARN'), { target: { value: 'arn:cert' } });
+    expect(lastProperties().listeners).toEqual([{ port: 443, protocol: 'HTTPS', certificateArn: 'arn:cert' }]);
+
+    fireEvent.click(screen.getByRole('button', { name: /Add listener/i }));
+    expect(lastProperties().listeners).toEqual([
+      { port: 443, protocol: 'HTTPS' },
+      { port: 80, protocol: 'HTTP', certificateArn: '' },
+    ]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove listener 1' }));
+    expect(lastProperties().listeners).toEqual([]);
+
+    fireEvent.change(screen.getByLabelText('Bucket'), { target: { value: 'logs' } });
+    expect(lastProperties().accessLogs).toEqual({ bucket: 'logs' });
+  });
+});
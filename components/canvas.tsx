@@ -1,7 +1,7 @@
 // Canvas component - React Flow infinite canvas
 'use client';
 
-import { useCallback, useRef, DragEvent, useState, useMemo } from 'react';
+import { useCallback, useEffect, useRef, DragEvent, useState, useMemo } from 'react';
 import {
   ReactFlow,
   Background,
@@ -13,34 +13,76 @@ import {
   OnNodesChange,
   OnEdgesChange,
   OnConnect,
+  OnConnectStart,
+  OnConnectEnd,
+  OnNodeDrag,
+  EdgeMouseHandler,
+  MarkerType,
+  OnSelectionChangeFunc,
+  IsValidConnection,
   applyNodeChanges,
   applyEdgeChanges,
   addEdge,
   useReactFlow,
   ReactFlowProvider,
+  Panel,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import { useCanvas } from '@/lib/canvas-context';
-import { resourceSchemas } from '@/lib/resource-schemas';
-import { ResourceTypeId } from '@/types';
+import { getResourceSchema } from '@/lib/resource-schemas';
+import { Node, Edge, ResourceTypeId } from '@/types';
 import { getResourceTypeById } from '@/lib/resource-types';
+import { containerSizes, findDropTarget, getAbsolutePosition, getNodeSize } from '@/lib/containers';
+import { validateConnection } from '@/lib/connection-rules';
+import { EDGE_KINDS, EdgeDescription, describeEdge, getEdgeKind } from '@/lib/edge-metadata';
+import { getIngressRule } from '@/lib/security-groups';
 import { nodeTypes } from '@/components/nodes';
 import { toast } from 'sonner';
 import { ConnectionIntelligenceModal } from '@/components/connection-intelligence-modal';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { LayoutMode } from '@/lib/auto-layout';
+import { ArrowDown, ArrowRight, LayoutGrid, type LucideIcon } from 'lucide-react';
+
+// Duration of the move to auto-layout positions
+const LAYOUT_ANIMATION_MS = 300;
+
+const layoutOptions: Array<{ mode: LayoutMode; label: string; icon: LucideIcon }> = [
+  { mode: 'top-bottom', label: 'Layout top to bottom', icon: ArrowDown },
+  { mode: 'left-right', label: 'Layout left to right', icon: ArrowRight },
+  { mode: 'category', label: 'Group by category', icon: LayoutGrid },
+];
 
 function CanvasContent() {
-  const { state, setNodes, setEdges, addNode, selectNode, setError } = useCanvas();
+  const {
+    state,
+    setNodes,
+    setEdges,
+    addNode,
+    setNodeParent,
+    selectNodes,
+    setError,
+    autoLayout,
+    layoutMode,
+    layoutTransition,
+  } = useCanvas();
   const reactFlowInstance = useReactFlow();
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  // Node a connection is being dragged from, and whether the drag started on its source handle
+  const [pendingConnection, setPendingConnection] = useState<{ nodeId: string; fromSource: boolean } | null>(null);
   const [connectionIntelligence, setConnectionIntelligence] = useState<{
     isOpen: boolean;
     sourceNode: { id: string; type: string; data: any } | null;
     targetNode: { id: string; type: string; data: any } | null;
+    edgeId: string | null;
+    relationship: EdgeDescription | null;
   }>({
     isOpen: false,
     sourceNode: null,
     targetNode: null,
+    edgeId: null,
+    relationship: null,
   });
 
   // Handle node changes (position, selection, etc.)
@@ -79,10 +121,130 @@ function CanvasContent() {
     [state.edges, setEdges, setError]
   );
 
+  // Reject self-loops, duplicates and incompatible resource types while dragging
+  const isValidConnection: IsValidConnection<ReactFlowEdge> = useCallback(
+    (connection) => validateConnection(connection, state.nodes, state.edges).valid,
+    [state.nodes, state.edges]
+  );
+
+  const onConnectStart: OnConnectStart = useCallback((_event, { nodeId, handleType }) => {
+    if (nodeId) {
+      setPendingConnection({ nodeId, fromSource: handleType !== 'target' });
+    }
+  }, []);
+
+  // Explain why a connection dropped on another node was not created
+  const onConnectEnd: OnConnectEnd = useCallback(
+    (_event, connectionState) => {
+      setPendingConnection(null);
+
+      const { fromNode, toNode, fromHandle } = connectionState;
+      if (!fromNode || !toNode || connectionState.isValid) return;
+
+      const fromSource = fromHandle?.type !== 'target';
+      const result = validateConnection(
+        fromSource ? { source: fromNode.id, target: toNode.id } : { source: toNode.id, target: fromNode.id },
+        state.nodes,
+        state.edges
+      );
+      if (!result.valid) {
+        toast.error('Connection not allowed', { description: result.reason });
+      }
+    },
+    [state.nodes, state.edges]
+  );
+
+  // Progress of the auto-layout animation, for the transition it belongs to
+  const [layoutFrame, setLayoutFrame] = useState<{ id: number; progress: number } | null>(null);
+
+  // Animate from the previous positions; the new ones are already in state (and history)
+  useEffect(() => {
+    if (!layoutTransition) return;
+
+    const reducedMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+    const start = performance.now();
+    let frame = 0;
+    const step = (now: number) => {
+      const progress = reducedMotion ? 1 : Math.min(1, (now - start) / LAYOUT_ANIMATION_MS);
+      setLayoutFrame({ id: layoutTransition.id, progress });
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      } else {
+        reactFlowInstance.fitView({ duration: 200, padding: 0.2 });
+      }
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [layoutTransition, reactFlowInstance]);
+
+  const animatedNodes = useMemo(() => {
+    if (!layoutTransition) return state.nodes;
+    const progress = layoutFrame?.id === layoutTransition.id ? layoutFrame.progress : 0;
+    if (progress >= 1) return state.nodes;
+
+    // Ease out so nodes settle into place
+    const eased = 1 - Math.pow(1 - progress, 3);
+    return state.nodes.map((node) => {
+      const from = layoutTransition.from[node.id];
+      if (!from) return node;
+      return {
+        ...node,
+        position: {
+          x: from.x + (node.position.x - from.x) * eased,
+          y: from.y + (node.position.y - from.y) * eased,
+        },
+      };
+    });
+  }, [state.nodes, layoutTransition, layoutFrame]);
+
+  // Mark which nodes would accept the connection being dragged
+  const displayedNodes = useMemo(() => {
+    if (!pendingConnection) return animatedNodes as ReactFlowNode[];
+
+    return animatedNodes.map((node) => {
+      const connection = pendingConnection.fromSource
+        ? { source: pendingConnection.nodeId, target: node.id }
+        : { source: node.id, target: pendingConnection.nodeId };
+      if (node.id === pendingConnection.nodeId) return node as ReactFlowNode;
+
+      const { valid } = validateConnection(connection, state.nodes, state.edges);
+      return { ...node, className: valid ? 'connection-target-valid' : 'connection-target-invalid' } as ReactFlowNode;
+    });
+  }, [pendingConnection, animatedNodes, state.nodes, state.edges]);
+
+  // Draw edges by relationship kind, labelled with their own label or the ports they open
+  const displayedEdges = useMemo(() => {
+    return state.edges.map((edge) => {
+      const config = EDGE_KINDS[getEdgeKind(edge, state.nodes)];
+      const rule = getIngressRule(edge, state.nodes);
+      const label = edge.data?.label || (rule && rule.ports.length > 0
+        ? `${rule.protocol.toUpperCase()} ${rule.ports.join(', ')}`
+        : undefined);
+      const marker = { type: MarkerType.ArrowClosed, color: config.color };
+
+      return {
+        ...edge,
+        label,
+        animated: config.animated,
+        style: { stroke: config.color, strokeWidth: edge.selected ? 3 : 2, strokeDasharray: config.dash },
+        labelStyle: { fill: config.color, fontSize: 11 },
+        markerEnd: marker,
+        markerStart: edge.data?.direction === 'two-way' ? marker : undefined,
+      } as ReactFlowEdge;
+    });
+  }, [state.edges, state.nodes]);
+
   // Handle edge connection (when user connects two nodes)
   const onConnect: OnConnect = useCallback(
     (connection) => {
       try {
+        const validation = validateConnection(connection, state.nodes, state.edges);
+        if (!validation.valid) {
+          toast.error('Connection not allowed', { description: validation.reason });
+          return;
+        }
+
         const newEdge: ReactFlowEdge = {
           id: `edge-${connection.source}-${connection.target}-${Date.now()}`,
           source: connection.source!,
@@ -111,6 +273,8 @@ function CanvasContent() {
               type: targetNode.type,
               data: targetNode.data,
             },
+            edgeId: newEdge.id,
+            relationship: describeEdge(newEdge as Edge, state.nodes),
           });
         }
       } catch (error) {
@@ -125,12 +289,50 @@ function CanvasContent() {
     [state.edges, state.nodes, setEdges, setError]
   );
 
-  // Handle node click for selection
-  const onNodeClick = useCallback(
-    (_event: React.MouseEvent, node: ReactFlowNode) => {
-      selectNode(node.id);
+  // Reopen connection intelligence for an existing edge, e.g. to edit its security group rule
+  const onEdgeDoubleClick: EdgeMouseHandler = useCallback(
+    (_event, edge) => {
+      const sourceNode = state.nodes.find(n => n.id === edge.source);
+      const targetNode = state.nodes.find(n => n.id === edge.target);
+      if (!sourceNode || !targetNode) return;
+
+      setConnectionIntelligence({
+        isOpen: true,
+        sourceNode: { id: sourceNode.id, type: sourceNode.type, data: sourceNode.data },
+        targetNode: { id: targetNode.id, type: targetNode.type, data: targetNode.data },
+        edgeId: edge.id,
+        relationship: describeEdge(edge as Edge, state.nodes),
+      });
+    },
+    [state.nodes]
+  );
+
+  // Keep the selection in canvas state in step with clicks, shift-clicks and box selection
+  const onSelectionChange: OnSelectionChangeFunc = useCallback(
+    ({ nodes }) => {
+      selectNodes(nodes.map((node) => node.id));
     },
-    [selectNode]
+    [selectNodes]
+  );
+
+  // Move dragged nodes into the container they were dropped on (or out to the top level)
+  const onNodeDragStop: OnNodeDrag<ReactFlowNode> = useCallback(
+    (_event, _node, draggedNodes) => {
+      for (const dragged of draggedNodes) {
+        const node = state.nodes.find((n) => n.id === dragged.id);
+        if (!node) continue;
+
+        const position = getAbsolutePosition(node, state.nodes);
+        const size = getNodeSize(node);
+        const center = { x: position.x + size.width / 2, y: position.y + size.height / 2 };
+        const container = findDropTarget(state.nodes, node.type, center, node.id);
+
+        if ((container?.id ?? null) !== (node.parentId ?? null)) {
+          setNodeParent(node.id, container?.id ?? null);
+        }
+      }
+    },
+    [state.nodes, setNodeParent]
   );
 
   // Handle drag over event (required for drop to work)
@@ -178,11 +380,11 @@ function CanvasContent() {
         const nodeId = `${resourceType}-${Date.now()}`;
 
         // Get default properties from schema
-        const schema = resourceSchemas[resourceType];
+        const schema = getResourceSchema(resourceType);
         const defaultProperties = schema?.defaultProperties || {};
 
         // Create the new node
-        const newNode = {
+        const newNode: Node = {
           id: nodeId,
           type: resourceType,
           position,
@@ -190,11 +392,24 @@ function CanvasContent() {
             label: resourceConfig.label,
             properties: defaultProperties,
           },
+          ...containerSizes[resourceType],
         };
 
+        // Dropped on a container: place it inside, positioned relative to the container
+        const container = findDropTarget(state.nodes, resourceType, position);
+        if (container) {
+          const origin = getAbsolutePosition(container, state.nodes);
+          newNode.parentId = container.id;
+          newNode.position = { x: position.x - origin.x, y: position.y - origin.y };
+        }
+
         // Add the node to canvas state
         addNode(newNode);
-        toast.success(`${resourceConfig.label} added to canvas`);
+        toast.success(
+          container
+            ? `${resourceConfig.label} added to ${container.data.label}`
+            : `${resourceConfig.label} added to canvas`
+        );
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to add node';
         setError(errorMessage);
@@ -204,7 +419,7 @@ function CanvasContent() {
         console.error('Drop error:', error);
       }
     },
-    [reactFlowInstance, addNode, setError]
+    [reactFlowInstance, state.nodes, addNode, setError]
   );
 
   // Memoize node color function for MiniMap to prevent recreation on every render
@@ -224,12 +439,17 @@ function CanvasContent() {
       onDragLeave={onDragLeave}
     >
       <ReactFlow
-        nodes={state.nodes as ReactFlowNode[]}
-        edges={state.edges as ReactFlowEdge[]}
+        nodes={displayedNodes}
+        edges={displayedEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
-        onNodeClick={onNodeClick}
+        onEdgeDoubleClick={onEdgeDoubleClick}
+        onConnectStart={onConnectStart}
+        onConnectEnd={onConnectEnd}
+        isValidConnection={isValidConnection}
+        onSelectionChange={onSelectionChange}
+        onNodeDragStop={onNodeDragStop}
         onDrop={onDrop}
         onDragOver={onDragOver}
         nodeTypes={nodeTypes}
@@ -247,6 +467,9 @@ function CanvasContent() {
         // Performance optimizations for larger graphs
         elevateNodesOnSelect={false}
         selectNodesOnDrag={false}
+        // Shift-drag draws a selection box; shift-click (or Ctrl/Cmd-click) adds to the selection
+        selectionKeyCode="Shift"
+        multiSelectionKeyCode={['Shift', 'Meta', 'Control']}
         nodesDraggable={true}
         nodesConnectable={true}
         elementsSelectable={true}
@@ -265,6 +488,29 @@ function CanvasContent() {
           position="bottom-right"
           className="shadow-lg"
         />
+        {state.nodes.length > 0 && (
+          <Panel position="top-left" className="flex gap-1 rounded-lg border bg-card p-1 shadow-lg">
+            {layoutOptions.map(({ mode, label, icon: Icon }) => (
+              <Tooltip key={mode}>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant={layoutMode === mode ? 'secondary' : 'ghost'}
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => autoLayout(mode)}
+                    aria-label={label}
+                  >
+                    <Icon className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{label}</p>
+                  {layoutMode === mode && <p className="text-xs opacity-75 mt-1">Ctrl+Shift+L</p>}
+                </TooltipContent>
+              </Tooltip>
+            ))}
+          </Panel>
+        )}
         <MiniMap 
           pannable
           zoomable
@@ -307,9 +553,13 @@ function CanvasContent() {
       {/* Connection Intelligence Modal */}
       <ConnectionIntelligenceModal
         isOpen={connectionIntelligence.isOpen}
-        onClose={() => setConnectionIntelligence({ isOpen: false, sourceNode: null, targetNode: null })}
+        onClose={() =>
+          setConnectionIntelligence({ isOpen: false, sourceNode: null, targetNode: null, edgeId: null, relationship: null })
+        }
         sourceNode={connectionIntelligence.sourceNode}
         targetNode={connectionIntelligence.targetNode}
+        edgeId={connectionIntelligence.edgeId}
+        relationship={connectionIntelligence.relationship}
       />
     </div>
   );
@@ -1,26 +1,61 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send, Loader2, AlertCircle } from 'lucide-react';
+import { Send, Loader2, AlertCircle, Square } from 'lucide-react';
+import { fetchEventStream, StreamRequestError } from '@/lib/sse';
+import { stripMarkdown } from '@/lib/utils';
+import { ChatTurn, GraphContext, describeCodeChange } from '@/lib/conversation-context';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
+  // Code generated before the response was stopped or timed out, not yet applied
+  partial?: string;
+  // What the model is told this turn said, when it differs from what is shown
+  context?: string;
 }
 
 interface ChatRefinerProps {
   currentCode: string;
-  onCodeUpdate: (newCode: string) => void;
+  // Receives the proposed code and the instruction that produced it
+  onCodeUpdate: (newCode: string, instruction: string) => void;
+  // Called with the code as it streams in, and with null when the stream ends
+  onCodePreview?: (code: string | null) => void;
+  // Resources and connections on the canvas, sent so instructions can refer to them
+  graph?: GraphContext;
 }
 
-export function ChatRefiner({ currentCode, onCodeUpdate }: ChatRefinerProps) {
+export function ChatRefiner({ currentCode, onCodeUpdate, onCodePreview, graph }: ChatRefinerProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [streamedCode, setStreamedCode] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop a response that is still streaming when the refiner closes
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleApplyPartial = (index: number) => {
+    const partial = messages[index]?.partial;
+    if (!partial) return;
+
+    onCodeUpdate(partial, messages[index - 1]?.content ?? 'Partial output');
+    setMessages(prev =>
+      prev.map((message, i) =>
+        i === index ? { role: 'assistant', content: 'Partial output sent to the Code View for review.' } : message
+      )
+    );
+  };
 
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
@@ -30,41 +65,67 @@ export function ChatRefiner({ currentCode, onCodeUpdate }: ChatRefinerProps) {
       content: input.trim(),
     };
 
+    // Earlier turns go with the request so follow-up instructions make sense
+    const history: ChatTurn[] = messages.map(message => ({
+      role: message.role,
+      content: message.context ?? message.content,
+    }));
+
     // Add user message to chat
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
     setError(null);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let received = '';
+
     try {
-      const response = await fetch('/api/refine', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const data = await fetchEventStream<{ code: string }>(
+        '/api/refine',
+        {
           currentCode,
           userInstruction: userMessage.content,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to refine code');
-      }
-
-      const data = await response.json();
+          history,
+          graph,
+        },
+        {
+          signal: controller.signal,
+          onToken: (text) => {
+            received += text;
+            setStreamedCode(received);
+            onCodePreview?.(stripMarkdown(received));
+          },
+        }
+      );
 
-      // Update parent component's code editor
-      onCodeUpdate(data.code);
+      // Hand the proposed code to the parent for review
+      onCodeUpdate(data.code, userMessage.content);
 
       // Add assistant response
       const assistantMessage: Message = {
         role: 'assistant',
-        content: 'Code updated successfully!',
+        content: 'Changes proposed. Review them in the Code View.',
+        context: describeCodeChange(currentCode, data.code),
       };
       setMessages(prev => [...prev, assistantMessage]);
     } catch (err) {
+      const partial = stripMarkdown(err instanceof StreamRequestError ? err.partial : received);
+
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep what was generated so far without applying it
+        setMessages(prev => [
+          ...prev,
+          {
+            role: 'assistant',
+            content: partial ? 'Stopped. The partial output below was not applied.' : 'Stopped.',
+            partial: partial || undefined,
+          },
+        ]);
+        return;
+      }
+
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
       setError(errorMessage);
 
@@ -72,9 +133,13 @@ export function ChatRefiner({ currentCode, onCodeUpdate }: ChatRefinerProps) {
       const errorAssistantMessage: Message = {
         role: 'assistant',
         content: `Error: ${errorMessage}`,
+        partial: partial || undefined,
       };
       setMessages(prev => [...prev, errorAssistantMessage]);
     } finally {
+      abortControllerRef.current = null;
+      setStreamedCode('');
+      onCodePreview?.(null);
       setIsLoading(false);
     }
   };
@@ -126,15 +191,39 @@ export function ChatRefiner({ currentCode, onCodeUpdate }: ChatRefinerProps) {
                   <p className="text-sm whitespace-pre-wrap break-words">
                     {message.content}
                   </p>
+                  {message.partial && (
+                    <>
+                      <pre className="mt-2 max-h-40 overflow-auto rounded bg-background/60 p-2 text-xs text-foreground">
+                        {message.partial}
+                      </pre>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => handleApplyPartial(index)}
+                      >
+                        Apply partial output
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
             ))
           )}
           {isLoading && (
             <div className="flex justify-start">
-              <div className="bg-muted rounded-lg px-4 py-2 flex items-center gap-2">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                <p className="text-sm text-muted-foreground">Processing...</p>
+              <div className="max-w-[80%] bg-muted rounded-lg px-4 py-2">
+                <div className="flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <p className="text-sm text-muted-foreground">
+                    {streamedCode ? 'Writing code...' : 'Processing...'}
+                  </p>
+                </div>
+                {streamedCode && (
+                  <pre className="mt-2 max-h-40 overflow-auto text-xs whitespace-pre-wrap break-words">
+                    {streamedCode}
+                  </pre>
+                )}
               </div>
             </div>
           )}
@@ -162,17 +251,26 @@ export function ChatRefiner({ currentCode, onCodeUpdate }: ChatRefinerProps) {
             disabled={isLoading}
             className="flex-1"
           />
-          <Button
-            onClick={handleSend}
-            disabled={!input.trim() || isLoading}
-            size="icon"
-          >
-            {isLoading ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
+          {isLoading ? (
+            <Button
+              onClick={handleStop}
+              variant="outline"
+              size="icon"
+              aria-label="Stop generating"
+              title="Stop generating"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              size="icon"
+              aria-label="Send"
+            >
               <Send className="h-4 w-4" />
-            )}
-          </Button>
+            </Button>
+          )}
         </div>
       </div>
     </div>
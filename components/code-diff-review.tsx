@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, memo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, X } from 'lucide-react';
+import { applyHunks, DiffHunk, DiffLine, TextDiff } from '@/lib/text-diff';
+import { cn } from '@/lib/utils';
+
+interface CodeDiffReviewProps {
+  path: string;
+  diff: TextDiff;
+  onApply: (code: string) => void;
+  onDiscard: () => void;
+}
+
+const lineStyles: Record<DiffLine['type'], string> = {
+  context: 'text-muted-foreground',
+  add: 'bg-green-500/15 text-green-700 dark:text-green-300',
+  remove: 'bg-red-500/15 text-red-700 dark:text-red-300',
+};
+
+const linePrefixes: Record<DiffLine['type'], string> = {
+  context: ' ',
+  add: '+',
+  remove: '-',
+};
+
+const DiffLineRow = memo(({ line }: { line: DiffLine }) => (
+  <div className={cn('flex font-mono text-xs leading-5', lineStyles[line.type])}>
+    <span className="w-10 shrink-0 select-none pr-2 text-right opacity-60">{line.oldNumber ?? ''}</span>
+    <span className="w-10 shrink-0 select-none pr-2 text-right opacity-60">{line.newNumber ?? ''}</span>
+    <span className="w-4 shrink-0 select-none">{linePrefixes[line.type]}</span>
+    <span className="whitespace-pre">{line.text}</span>
+  </div>
+));
+
+DiffLineRow.displayName = 'DiffLineRow';
+
+/**
+ * Lines of a hunk in display order, numbered as in the old and new text
+ */
+function getHunkLines(hunk: DiffHunk): DiffLine[] {
+  return [
+    ...hunk.before,
+    ...hunk.removed.map((text, i) => ({ type: 'remove' as const, text, oldNumber: hunk.oldStart + i })),
+    ...hunk.added.map((text, i) => ({ type: 'add' as const, text, newNumber: hunk.newStart + i })),
+    ...hunk.after,
+  ];
+}
+
+/**
+ * Unified diff of a proposed change to one file, with accept/reject per hunk
+ */
+export function CodeDiffReview({ path, diff, onApply, onDiscard }: CodeDiffReviewProps) {
+  // Every hunk starts accepted
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(diff.hunks.map((hunk) => hunk.index)));
+
+  const toggleHunk = (index: number, accept: boolean) => {
+    setAccepted((previous) => {
+      const next = new Set(previous);
+      if (accept) {
+        next.add(index);
+      } else {
+        next.delete(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium">Review changes to {path}</p>
+          <p className="text-xs text-muted-foreground">
+            {accepted.size} of {diff.hunks.length} changes accepted
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setAccepted(new Set(diff.hunks.map((hunk) => hunk.index)))}
+          >
+            Accept all
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setAccepted(new Set())}>
+            Reject all
+          </Button>
+          <Button variant="outline" size="sm" onClick={onDiscard}>
+            Discard
+          </Button>
+          <Button size="sm" onClick={() => onApply(applyHunks(diff, accepted))} disabled={accepted.size === 0}>
+            Apply
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-3 overflow-auto p-3">
+        {diff.hunks.map((hunk) => {
+          const isAccepted = accepted.has(hunk.index);
+          return (
+            <div
+              key={hunk.index}
+              className={cn('overflow-hidden rounded-md border', !isAccepted && 'opacity-50')}
+            >
+              <div className="flex items-center justify-between bg-muted px-3 py-1">
+                <span className="font-mono text-xs text-muted-foreground">
+                  @@ -{hunk.oldStart},{hunk.removed.length} +{hunk.newStart},{hunk.added.length} @@
+                </span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant={isAccepted ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => toggleHunk(hunk.index, true)}
+                    aria-pressed={isAccepted}
+                  >
+                    <Check className="mr-1 h-3 w-3" />
+                    Accept
+                  </Button>
+                  <Button
+                    variant={isAccepted ? 'ghost' : 'secondary'}
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => toggleHunk(hunk.index, false)}
+                    aria-pressed={!isAccepted}
+                  >
+                    <X className="mr-1 h-3 w-3" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+              <div className="overflow-x-auto py-1">
+                {getHunkLines(hunk).map((line, i) => (
+                  <DiffLineRow key={i} line={line} />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -9,46 +9,190 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Copy, Check, AlertCircle, MessageSquare, Code as CodeIcon } from 'lucide-react';
+import { Copy, Check, AlertCircle, MessageSquare, Code as CodeIcon, Download, FileCode, FolderOpen, History, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
 import { ChatRefiner } from '@/components/chat-refiner';
+import { CodeDiffReview } from '@/components/code-diff-review';
+import { TerraformFile } from '@/lib/terraform-generator';
+import { createZip } from '@/lib/zip';
+import { diffText, TextDiff } from '@/lib/text-diff';
+import { reconcileTerraformModule } from '@/lib/terraform-reconciler';
+import { useCanvas } from '@/lib/canvas-context';
+import { buildGraphContext } from '@/lib/conversation-context';
+import { maskTfvars, unmaskTfvars } from '@/lib/sensitive-properties';
+import { cn, downloadFile } from '@/lib/utils';
 
 interface CodeDisplayModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  code: string;
+  files: TerraformFile[];
   title?: string;
 }
 
+// A saved state of one file: as generated, after each refinement and after each revert
+interface CodeVersion {
+  label: string;
+  content: string;
+}
+
+// A refinement waiting for review in the diff view
+interface PendingChange {
+  id: number;
+  path: string;
+  label: string;
+  diff: TextDiff;
+}
+
+const EMPTY_CODE = '# No resources to generate';
+// Files whose edits are read back into the canvas
+const SYNCED_PATHS = ['main.tf', 'variables.tf'];
+const TFVARS_PATH = 'terraform.tfvars';
+
 export function CodeDisplayModal({
   open,
   onOpenChange,
-  code,
+  files,
   title = 'Generated Terraform Code',
 }: CodeDisplayModalProps) {
+  const { state, updateNode, mergeCanvas } = useCanvas();
   const [copied, setCopied] = useState(false);
   const [renderError, setRenderError] = useState<string | null>(null);
-  const [currentCode, setCurrentCode] = useState(code);
-  const isEmpty = code.trim() === '# No resources to generate';
+  const [currentFiles, setCurrentFiles] = useState(files);
+  const [selectedPath, setSelectedPath] = useState('main.tf');
+  const [includeTfvars, setIncludeTfvars] = useState(false);
+  // Code streaming in from the chat refiner, shown in place of the selected file
+  const [previewCode, setPreviewCode] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState('code');
+  // Version history per file path; files without an entry are still as generated
+  const [versions, setVersions] = useState<Record<string, CodeVersion[]>>({});
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [versionedFiles, setVersionedFiles] = useState(files);
+  const isEmpty = files.length === 0;
 
-  // Update currentCode when code prop changes
+  // Update currentFiles when the generated module changes
   useEffect(() => {
-    setCurrentCode(code);
-  }, [code]);
+    setCurrentFiles(files);
+  }, [files]);
+
+  // Versions and reviews of the previous module no longer apply once it is regenerated
+  if (versionedFiles !== files) {
+    setVersionedFiles(files);
+    setVersions({});
+    setPendingChange(null);
+  }
+
+  const visibleFiles = currentFiles.filter((file) => includeTfvars || file.path !== TFVARS_PATH);
+  const selectedFile = visibleFiles.find((file) => file.path === selectedPath) ?? visibleFiles[0];
+  const currentCode = selectedFile?.content ?? EMPTY_CODE;
+  const isTfvars = selectedFile?.path === TFVARS_PATH;
+  // Sensitive values (e.g. database passwords) are masked before the file goes to the refiner
+  const variablesFile = currentFiles.find((file) => file.path === 'variables.tf')?.content ?? '';
+  const refineCode = useMemo(
+    () => (isTfvars ? maskTfvars(currentCode, variablesFile) : currentCode),
+    [isTfvars, currentCode, variablesFile]
+  );
+
+  const selectedVersions = useMemo(
+    () => (selectedFile ? versions[selectedFile.path] ?? [] : []),
+    [versions, selectedFile]
+  );
+
+  // The diagram as sent with refine requests
+  const graph = useMemo(() => buildGraphContext(state.nodes, state.edges), [state.nodes, state.edges]);
 
-  const handleCodeUpdate = (newCode: string) => {
-    setCurrentCode(newCode);
-    toast.success('Code updated by AI');
+  // Carries code edits back into the canvas, so the next generation keeps them
+  const syncCanvas = (nextFiles: TerraformFile[]) => {
+    try {
+      const { updates, added, removed, report } = reconcileTerraformModule(nextFiles, state.nodes, state.edges);
+      updates.forEach(({ nodeId, data }) => updateNode(nodeId, data));
+      if (added.nodes.length > 0) {
+        mergeCanvas(added.nodes, added.edges);
+      }
+
+      const changed = updates.filter((update) => update.changed.length > 0 || 'hclOverride' in update.data);
+      const summary = [
+        changed.length > 0 && `${changed.length} resource(s) updated`,
+        added.nodes.length > 0 && `${added.nodes.length} added`,
+        removed.length > 0 && `${removed.length} removed from code (flagged on the canvas)`,
+      ].filter(Boolean);
+      if (summary.length > 0) {
+        toast.info('Canvas updated from code', { description: summary.join(', ') });
+      }
+
+      const warnings = report.filter((entry) => entry.status !== 'merged');
+      if (warnings.length > 0) {
+        toast.warning(`${warnings.length} change(s) could not be kept on the canvas`, {
+          description: warnings.map((entry) => `${entry.address}: ${entry.message}`).join('\n'),
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      toast.error('Could not update the canvas from code', { description: errorMessage });
+    }
+  };
+
+  // Replaces a file's content and records it as a new version
+  const saveVersion = (path: string, content: string, label: string) => {
+    const file = currentFiles.find((candidate) => candidate.path === path);
+    if (!file) return;
+
+    const nextFiles = currentFiles.map((candidate) => (candidate.path === path ? { ...candidate, content } : candidate));
+    setCurrentFiles(nextFiles);
+    setVersions((previous) => ({
+      ...previous,
+      [path]: [...(previous[path] ?? [{ label: 'Generated', content: file.content }]), { label, content }],
+    }));
+
+    if (SYNCED_PATHS.includes(path)) {
+      syncCanvas(nextFiles);
+    }
+  };
+
+  // Refined code is reviewed as a diff before it replaces the file
+  const handleCodeUpdate = (newCode: string, instruction: string) => {
+    if (!selectedFile) return;
+
+    const code = isTfvars ? unmaskTfvars(newCode, selectedFile.content) : newCode;
+    const diff = diffText(selectedFile.content, code);
+    if (diff.hunks.length === 0) {
+      toast.info(`No changes proposed for ${selectedFile.path}`);
+      return;
+    }
+
+    setPendingChange((previous) => ({ id: (previous?.id ?? 0) + 1, path: selectedFile.path, label: instruction, diff }));
+    setActiveTab('code');
+  };
+
+  const handleApplyChange = (code: string) => {
+    if (!pendingChange) return;
+    saveVersion(pendingChange.path, code, pendingChange.label);
+    setPendingChange(null);
+    toast.success(`${pendingChange.path} updated by AI`);
+  };
+
+  const handleRevert = (index: number) => {
+    if (!selectedFile) return;
+    saveVersion(selectedFile.path, selectedVersions[index].content, `Reverted to v${index + 1}`);
+    toast.success(`${selectedFile.path} reverted to v${index + 1}`);
+  };
+
+  const handleIncludeTfvarsChange = (checked: boolean) => {
+    setIncludeTfvars(checked);
+    if (!checked && selectedPath === TFVARS_PATH) {
+      setSelectedPath('main.tf');
+    }
   };
 
   const handleCopy = async () => {
     try {
       await navigator.clipboard.writeText(currentCode);
       setCopied(true);
-      toast.success('Code copied to clipboard');
+      toast.success(`${selectedFile?.path ?? 'Code'} copied to clipboard`);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
       console.error('Failed to copy code:', err);
@@ -58,6 +202,18 @@ export function CodeDisplayModal({
     }
   };
 
+  const handleDownload = () => {
+    try {
+      downloadFile('terraform-module.zip', createZip(visibleFiles), 'application/zip');
+      toast.success('Module downloaded', {
+        description: `${visibleFiles.length} files in terraform-module.zip`,
+      });
+    } catch (err) {
+      console.error('Failed to download module:', err);
+      toast.error('Failed to download module');
+    }
+  };
+
   const renderCodeBlock = () => {
     try {
       return (
@@ -74,7 +230,7 @@ export function CodeDisplayModal({
           showLineNumbers
           wrapLongLines={false}
         >
-          {currentCode}
+          {previewCode ?? currentCode}
         </SyntaxHighlighter>
       );
     } catch (error) {
@@ -101,35 +257,44 @@ export function CodeDisplayModal({
           <DialogTitle className="flex items-center justify-between">
             <span>{title}</span>
             {!isEmpty && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleCopy}
-                className="ml-4"
-              >
-                {copied ? (
-                  <>
-                    <Check className="h-4 w-4 mr-2" />
-                    Copied!
-                  </>
-                ) : (
-                  <>
-                    <Copy className="h-4 w-4 mr-2" />
-                    Copy
-                  </>
-                )}
-              </Button>
+              <div className="flex items-center gap-2 ml-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDownload}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download .zip
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCopy}
+                >
+                  {copied ? (
+                    <>
+                      <Check className="h-4 w-4 mr-2" />
+                      Copied!
+                    </>
+                  ) : (
+                    <>
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy
+                    </>
+                  )}
+                </Button>
+              </div>
             )}
           </DialogTitle>
           <DialogDescription>
             {isEmpty 
               ? 'Add resources to the canvas to generate Terraform code'
-              : 'Review and refine the generated Terraform configuration using the chat interface, or copy it to a .tf file.'
+              : 'Browse the generated module, refine a file using the chat interface, or download the whole module as a .zip.'
             }
           </DialogDescription>
         </DialogHeader>
         
-        <Tabs defaultValue="code" className="flex-1 min-h-0 flex flex-col">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 min-h-0 flex flex-col">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="code" className="gap-2">
               <CodeIcon className="h-4 w-4" />
@@ -142,16 +307,101 @@ export function CodeDisplayModal({
           </TabsList>
           
           <TabsContent value="code" className="flex-1 min-h-0 mt-4">
-            <div className="h-full w-full rounded-md border overflow-auto">
-              {renderCodeBlock()}
+            <div className="h-full flex gap-3 min-h-0">
+              {!isEmpty && (
+                <div className="w-48 shrink-0 flex flex-col rounded-md border">
+                  <p className="flex items-center gap-2 px-3 py-2 border-b text-sm font-medium">
+                    <FolderOpen className="h-4 w-4" />
+                    Module
+                  </p>
+                  <ul className="flex-1 py-1" aria-label="Module files">
+                    {visibleFiles.map((file) => (
+                      <li key={file.path}>
+                        <button
+                          type="button"
+                          onClick={() => setSelectedPath(file.path)}
+                          disabled={pendingChange !== null}
+                          aria-current={file.path === selectedFile?.path ? 'true' : undefined}
+                          className={cn(
+                            'flex w-full items-center gap-2 px-3 py-1.5 text-left font-mono text-xs hover:bg-accent',
+                            file.path === selectedFile?.path && 'bg-accent font-medium'
+                          )}
+                        >
+                          <FileCode className="h-3.5 w-3.5 shrink-0" />
+                          {file.path}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  {selectedVersions.length > 0 && (
+                    <div className="border-t">
+                      <p className="flex items-center gap-2 px-3 py-2 text-sm font-medium">
+                        <History className="h-4 w-4" />
+                        Versions
+                      </p>
+                      <ol className="max-h-48 overflow-auto pb-1" aria-label={`Versions of ${selectedFile?.path}`}>
+                        {selectedVersions.map((version, index) => {
+                          const isCurrent = index === selectedVersions.length - 1;
+                          return (
+                            <li key={index} className="group flex items-center gap-1 px-3 py-1 text-xs">
+                              <span className="shrink-0 font-mono text-muted-foreground">v{index + 1}</span>
+                              <span className={cn('flex-1 truncate', isCurrent && 'font-medium')} title={version.label}>
+                                {version.label}
+                              </span>
+                              {!isCurrent && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleRevert(index)}
+                                  disabled={pendingChange !== null}
+                                  className="shrink-0 rounded p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+                                  aria-label={`Revert to v${index + 1}`}
+                                  title={`Revert to v${index + 1}`}
+                                >
+                                  <RotateCcw className="h-3 w-3" />
+                                </button>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    </div>
+                  )}
+                  <div className="flex items-center space-x-2 px-3 py-2 border-t">
+                    <Checkbox
+                      id="include-tfvars"
+                      checked={includeTfvars}
+                      onCheckedChange={(checked) => handleIncludeTfvarsChange(checked === true)}
+                    />
+                    <Label htmlFor="include-tfvars" className="cursor-pointer text-xs">
+                      Include {TFVARS_PATH}
+                    </Label>
+                  </div>
+                </div>
+              )}
+              <div className="flex-1 min-w-0 rounded-md border overflow-auto">
+                {pendingChange && previewCode === null ? (
+                  <CodeDiffReview
+                    key={pendingChange.id}
+                    path={pendingChange.path}
+                    diff={pendingChange.diff}
+                    onApply={handleApplyChange}
+                    onDiscard={() => setPendingChange(null)}
+                  />
+                ) : (
+                  renderCodeBlock()
+                )}
+              </div>
             </div>
           </TabsContent>
           
-          <TabsContent value="chat" className="flex-1 min-h-0 mt-4">
+          {/* Kept mounted so a streaming response continues while the code view is shown */}
+          <TabsContent value="chat" forceMount className="flex-1 min-h-0 mt-4 data-[state=inactive]:hidden">
             <div className="h-full">
               <ChatRefiner
-                currentCode={currentCode}
+                currentCode={refineCode}
                 onCodeUpdate={handleCodeUpdate}
+                onCodePreview={setPreviewCode}
+                graph={graph}
               />
             </div>
           </TabsContent>
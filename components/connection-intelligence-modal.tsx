@@ -11,6 +11,9 @@ import {
 import { Button } from '@/components/ui/button';
 import { Loader2, Copy, Check, Link2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { redactNode } from '@/lib/sensitive-properties';
+import { EdgePortsEditor } from '@/components/edge-ports-editor';
+import { EdgeDescription } from '@/lib/edge-metadata';
 
 interface ConnectionAnalysisResponse {
   message: string;
@@ -22,6 +25,10 @@ interface ConnectionIntelligenceModalProps {
   onClose: () => void;
   sourceNode: { id: string; type: string; data: any } | null;
   targetNode: { id: string; type: string; data: any } | null;
+  // Edge being inspected, whose security group rule can be edited here
+  edgeId?: string | null;
+  // What the edge stands for, sent with the analysis request
+  relationship?: EdgeDescription | null;
 }
 
 export function ConnectionIntelligenceModal({
@@ -29,6 +36,8 @@ export function ConnectionIntelligenceModal({
   onClose,
   sourceNode,
   targetNode,
+  edgeId,
+  relationship,
 }: ConnectionIntelligenceModalProps) {
   const [analysis, setAnalysis] = useState<ConnectionAnalysisResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -57,13 +66,14 @@ export function ConnectionIntelligenceModal({
             source: {
               id: sourceNode.id,
               type: sourceNode.type,
-              data: sourceNode.data,
+              data: redactNode(sourceNode).data,
             },
             target: {
               id: targetNode.id,
               type: targetNode.type,
-              data: targetNode.data,
+              data: redactNode(targetNode).data,
             },
+            relationship: relationship ?? undefined,
           }),
         });
 
@@ -84,7 +94,7 @@ export function ConnectionIntelligenceModal({
     };
 
     fetchConnectionAnalysis();
-  }, [isOpen, sourceNode, targetNode]);
+  }, [isOpen, sourceNode, targetNode, relationship]);
 
   const handleCopyCode = async () => {
     if (!analysis?.terraform_snippet) return;
@@ -116,6 +126,8 @@ export function ConnectionIntelligenceModal({
         </DialogHeader>
 
         <div className="space-y-4 mt-4">
+          {edgeId && <EdgePortsEditor edgeId={edgeId} />}
+
           {isLoading && (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -0,0 +1,110 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useCanvas } from '@/lib/canvas-context';
+import { formatCost, UsageAssumptions } from '@/lib/cost-estimator';
+import { DollarSign, X } from 'lucide-react';
+
+interface CostPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const assumptionFields: Array<{ name: keyof UsageAssumptions; label: string; step: number; scale?: number }> = [
+  { name: 'requestsPerMonth', label: 'Requests / month', step: 100000 },
+  { name: 'storageGb', label: 'GB stored', step: 1 },
+  { name: 'lambdaDurationMs', label: 'Lambda duration (ms)', step: 10 },
+  // Edited as a percentage, stored as a ratio
+  { name: 'readRatio', label: 'Reads (%)', step: 5, scale: 100 },
+];
+
+export function CostPanel({ open, onClose }: CostPanelProps) {
+  const { state, costEstimate, usageAssumptions, setUsageAssumptions } = useCanvas();
+
+  if (!open) return null;
+
+  const handleAssumptionChange = (name: keyof UsageAssumptions, raw: string, scale = 1) => {
+    const value = parseFloat(raw);
+    if (isNaN(value) || value < 0) return;
+    const next = value / scale;
+    setUsageAssumptions({ ...usageAssumptions, [name]: name === 'readRatio' ? Math.min(next, 1) : next });
+  };
+
+  const labelOf = (nodeId: string) => state.nodes.find((node) => node.id === nodeId)?.data.label ?? nodeId;
+
+  // Most expensive first; free resources are left out
+  const priced = costEstimate.nodes
+    .filter((cost) => cost.monthly > 0 || cost.note)
+    .sort((a, b) => b.monthly - a.monthly);
+
+  return (
+    <Card className="absolute top-3 left-3 z-20 w-72 shadow-lg gap-2 py-3">
+      <CardHeader className="px-3 flex flex-row items-center justify-between">
+        <div className="flex items-center gap-2">
+          <DollarSign className="h-4 w-4 text-green-500" />
+          <CardTitle className="text-sm">Estimated cost</CardTitle>
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose} aria-label="Close cost estimate">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="px-3 space-y-3">
+        <div className="flex items-baseline justify-between">
+          <span className="text-xs text-muted-foreground">Monthly total</span>
+          <span className="text-lg font-semibold">{formatCost(costEstimate.total)}</span>
+        </div>
+
+        <ScrollArea className="h-44">
+          {priced.length === 0 ? (
+            <p className="py-4 text-center text-xs text-muted-foreground">No billable resources on the canvas</p>
+          ) : (
+            <ul className="space-y-2 pr-2">
+              {priced.map((cost) => (
+                <li key={cost.nodeId} className="text-xs">
+                  <div className="flex justify-between gap-2 font-medium">
+                    <span className="truncate">{labelOf(cost.nodeId)}</span>
+                    <span>{formatCost(cost.monthly)}</span>
+                  </div>
+                  {cost.note && <p className="text-[10px] text-amber-600">{cost.note}</p>}
+                  {cost.items.map((item) => (
+                    <div key={item.description} className="flex justify-between gap-2 text-[10px] text-muted-foreground">
+                      <span className="truncate">{item.description}</span>
+                      <span>{formatCost(item.monthly)}</span>
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+
+        <div className="border-t pt-2">
+          <p className="mb-2 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+            Usage assumptions
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {assumptionFields.map(({ name, label, step, scale }) => (
+              <div key={name} className="space-y-1">
+                <Label htmlFor={`usage-${name}`} className="text-[10px]">{label}</Label>
+                <Input
+                  id={`usage-${name}`}
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={usageAssumptions[name] * (scale ?? 1)}
+                  onChange={(e) => handleAssumptionChange(name, e.target.value, scale)}
+                  className="h-7 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-[10px] text-muted-foreground">On-demand us-east-1 prices; excludes data transfer.</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,12 +9,16 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { AlertTriangle } from 'lucide-react';
+import { useCanvas } from '@/lib/canvas-context';
+import { lintDiagram, applyLintFixes } from '@/lib/diagram-linter';
+import { redactNodes } from '@/lib/sensitive-properties';
 import type { Node, Edge } from '@/types';
 
 interface SecurityIntercept {
   detected: boolean;
   message: string;
   fix_action: string;
+  rule_ids: string[];
 }
 
 interface SimulationResponse {
@@ -35,6 +39,7 @@ export function DeploymentTerminal({
   nodes,
   edges,
 }: DeploymentTerminalProps) {
+  const { setNodes } = useCanvas();
   const [logs, setLogs] = useState<string[]>([]);
   const [isRunning, setIsRunning] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
@@ -65,7 +70,7 @@ export function DeploymentTerminal({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ nodes, edges }),
+        body: JSON.stringify({ nodes: redactNodes(nodes), edges }),
       });
 
       if (!response.ok) {
@@ -115,6 +120,15 @@ export function DeploymentTerminal({
     setLogs(prev => [...prev, securityIntercept.fix_action]);
     await new Promise(resolve => setTimeout(resolve, 600));
 
+    // Apply the linter fixes behind the intercept to the diagram
+    const fixes = lintDiagram(nodes, edges)
+      .filter((finding) => securityIntercept.rule_ids.includes(finding.ruleId))
+      .flatMap((finding) => (finding.fix ? [finding.fix] : []));
+    if (fixes.length > 0) {
+      setNodes(applyLintFixes(nodes, fixes));
+      setLogs(prev => [...prev, `✔ Applied ${fixes.length} fix${fixes.length === 1 ? '' : 'es'} to the diagram`]);
+    }
+
     // Resume animation
     setIsPaused(false);
     setIsRunning(true);
@@ -126,7 +140,7 @@ export function DeploymentTerminal({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ nodes, edges }),
+        body: JSON.stringify({ nodes: redactNodes(nodes), edges }),
       });
 
       if (!response.ok) {
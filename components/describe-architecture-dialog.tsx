@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useCanvas } from '@/lib/canvas-context';
+import { BlueprintIssue, BlueprintIssueStatus, BlueprintResult } from '@/lib/diagram-blueprint';
+import { cn } from '@/lib/utils';
+import { AlertCircle, Loader2, MinusCircle, Sparkles, Wrench } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface DescribeArchitectureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Where the route lays out the generated diagram
+const GENERATED_ORIGIN = { x: 100, y: 100 };
+
+const issueStyles: Record<BlueprintIssueStatus, { icon: typeof Wrench; className: string }> = {
+  repaired: { icon: Wrench, className: 'text-blue-600' },
+  rejected: { icon: MinusCircle, className: 'text-muted-foreground' },
+};
+
+function IssueRow({ issue }: { issue: BlueprintIssue }) {
+  const { icon: Icon, className } = issueStyles[issue.status];
+
+  return (
+    <li className="flex items-start gap-2 text-xs py-1">
+      <Icon className={cn('h-3.5 w-3.5 mt-0.5 shrink-0', className)} />
+      <div className="min-w-0">
+        <span className="font-mono">{issue.subject}</span>
+        <p className="text-muted-foreground">{issue.message}</p>
+      </div>
+    </li>
+  );
+}
+
+export function DescribeArchitectureDialog({ open, onOpenChange }: DescribeArchitectureDialogProps) {
+  const { state, mergeCanvas, replaceCanvas } = useCanvas();
+  const [description, setDescription] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [result, setResult] = useState<BlueprintResult | null>(null);
+  const [error, setError] = useState<{ message: string; issues: BlueprintIssue[] } | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setDescription('');
+      setResult(null);
+      setError(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleGenerate = async () => {
+    if (!description.trim() || isGenerating) return;
+
+    setIsGenerating(true);
+    setResult(null);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/diagram', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ description: description.trim() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError({ message: data.error || 'Failed to generate the diagram', issues: data.issues ?? [] });
+        return;
+      }
+
+      setResult(data as BlueprintResult);
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : 'An unexpected error occurred', issues: [] });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleMerge = () => {
+    if (!result) return;
+
+    // Place the generated diagram to the right of the existing one; children move with their containers
+    let offset = { x: 0, y: 0 };
+    if (state.nodes.length > 0) {
+      const maxX = Math.max(...state.nodes.map((node) => node.position.x));
+      const minY = Math.min(...state.nodes.map((node) => node.position.y));
+      offset = { x: maxX + 250 - GENERATED_ORIGIN.x, y: minY - GENERATED_ORIGIN.y };
+    }
+    const nodes = result.nodes.map((node) =>
+      node.parentId ? node : { ...node, position: { x: node.position.x + offset.x, y: node.position.y + offset.y } }
+    );
+
+    mergeCanvas(nodes, result.edges);
+    toast.success(`Added ${nodes.length} resource${nodes.length === 1 ? '' : 's'}`);
+    handleOpenChange(false);
+  };
+
+  const handleReplace = () => {
+    if (!result) return;
+
+    replaceCanvas(result.nodes, result.edges);
+    toast.success('Diagram replaced', { description: 'Undo restores the previous diagram' });
+    handleOpenChange(false);
+  };
+
+  const issues = result?.issues ?? error?.issues ?? [];
+  const hasDiagram = state.nodes.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>Describe your architecture</DialogTitle>
+          <DialogDescription>
+            Describe the services and how they connect. Supported resources are placed on the canvas; anything else is listed below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Serverless API with API Gateway, two Lambdas and a DynamoDB table behind WAF"
+          aria-label="Architecture description"
+          maxLength={2000}
+          className="min-h-28 w-full resize-none rounded-md border bg-transparent p-3 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleGenerate}
+          disabled={!description.trim() || isGenerating}
+          className="gap-2 self-start"
+        >
+          {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+          {isGenerating ? 'Generating...' : 'Generate'}
+        </Button>
+
+        {(result || error) && (
+          <div className="flex flex-col min-h-0 rounded-md border">
+            <p className="px-3 py-2 border-b text-sm font-medium">
+              {result
+                ? `${result.nodes.length} resource${result.nodes.length === 1 ? '' : 's'}, ${result.edges.length} connection${result.edges.length === 1 ? '' : 's'}`
+                : 'Nothing to add'}
+            </p>
+            <ScrollArea className="max-h-56 px-3">
+              {error && (
+                <div className="flex items-start gap-2 py-3 text-xs text-destructive">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  <span>{error.message}</span>
+                </div>
+              )}
+              {issues.length > 0 ? (
+                <ul className="py-2">
+                  {issues.map((issue, index) => (
+                    <IssueRow key={`${issue.subject}-${index}`} issue={issue} />
+                  ))}
+                </ul>
+              ) : (
+                result && <p className="py-3 text-xs text-muted-foreground">Every suggestion fits the canvas.</p>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          {hasDiagram && (
+            <Button variant="outline" onClick={handleReplace} disabled={!result}>
+              Replace diagram
+            </Button>
+          )}
+          <Button onClick={handleMerge} disabled={!result}>
+            {hasDiagram ? 'Add to diagram' : 'Add to canvas'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useCanvas } from '@/lib/canvas-context';
+import { getIngressRule, parsePorts } from '@/lib/security-groups';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { ShieldCheck } from 'lucide-react';
+
+interface EdgePortsEditorProps {
+  edgeId: string;
+}
+
+/**
+ * Edits the ports an edge opens in the security group of the resource it reaches.
+ * Renders nothing for edges that carry no network traffic.
+ */
+export function EdgePortsEditor({ edgeId }: EdgePortsEditorProps) {
+  const { state, updateEdge } = useCanvas();
+  const edge = state.edges.find((candidate) => candidate.id === edgeId);
+  const rule = edge ? getIngressRule(edge, state.nodes) : null;
+  const ports = rule?.ports.join(', ') ?? '';
+  const [text, setText] = useState(ports);
+
+  // Follow changes made elsewhere (undo, reset)
+  useEffect(() => {
+    setText(ports);
+  }, [ports]);
+
+  if (!rule) return null;
+
+  const commit = () => {
+    const parsed = parsePorts(text);
+    setText(parsed.join(', '));
+    if (parsed.join(', ') !== ports) {
+      updateEdge(edgeId, { ports: parsed });
+    }
+  };
+
+  return (
+    <div className="space-y-1.5 sm:space-y-2">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-semibold">Security Group Rule</h3>
+      </div>
+      <Label htmlFor={`ports-${edgeId}`} className="text-xs sm:text-sm">
+        Ports {rule.server.data.label} accepts from {rule.client.data.label}
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id={`ports-${edgeId}`}
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+          }}
+          placeholder="No traffic allowed"
+          className="text-sm"
+        />
+        {rule.custom && (
+          <Button variant="outline" size="sm" onClick={() => updateEdge(edgeId, { ports: undefined })}>
+            Reset
+          </Button>
+        )}
+      </div>
+      <p className="text-[10px] sm:text-xs text-muted-foreground">
+        Comma-separated {rule.protocol.toUpperCase()} ports{rule.custom ? '' : ', inferred from the connected resources'}
+      </p>
+    </div>
+  );
+}
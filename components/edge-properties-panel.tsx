@@ -0,0 +1,138 @@
+'use client';
+
+import { useCanvas } from '@/lib/canvas-context';
+import { EDGE_KINDS, EDGE_PROTOCOLS, EDGE_DIRECTIONS, getEdgeKind } from '@/lib/edge-metadata';
+import { Edge, EdgeData, EdgeKind, EdgeProtocol, EdgeDirection } from '@/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { EdgePortsEditor } from '@/components/edge-ports-editor';
+import { Link2 } from 'lucide-react';
+
+interface EdgePropertiesPanelProps {
+  edge: Edge;
+}
+
+/**
+ * Edits the metadata of the selected edge: relationship kind, protocol, direction,
+ * label and the ports it opens
+ */
+export function EdgePropertiesPanel({ edge }: EdgePropertiesPanelProps) {
+  const { state, updateEdge } = useCanvas();
+  const source = state.nodes.find((node) => node.id === edge.source);
+  const target = state.nodes.find((node) => node.id === edge.target);
+  const kind = getEdgeKind(edge, state.nodes);
+  const update = (data: Partial<EdgeData>) => updateEdge(edge.id, data);
+
+  return (
+    <div className="w-72 sm:w-80 lg:w-80 border-l bg-background">
+      <ScrollArea className="h-screen">
+        <div className="p-3 sm:p-4 space-y-3 sm:space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Link2 className="h-4 w-4 sm:h-5 sm:w-5" style={{ color: EDGE_KINDS[kind].color }} />
+                <CardTitle className="text-base sm:text-lg">Connection</CardTitle>
+              </div>
+              <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                {source?.data.label ?? edge.source} → {target?.data.label ?? edge.target}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3 sm:space-y-4">
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label htmlFor="edge-kind" className="text-xs sm:text-sm">Relationship</Label>
+                <div className="flex gap-2">
+                  <Select value={kind} onValueChange={(value) => update({ kind: value as EdgeKind })}>
+                    <SelectTrigger id="edge-kind" className="text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(EDGE_KINDS) as EdgeKind[]).map((option) => (
+                        <SelectItem key={option} value={option} className="text-sm">
+                          {EDGE_KINDS[option].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {edge.data?.kind && (
+                    <Button variant="outline" size="sm" onClick={() => update({ kind: undefined })}>
+                      Reset
+                    </Button>
+                  )}
+                </div>
+                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                  {EDGE_KINDS[kind].description}
+                  {edge.data?.kind ? '' : ' (inferred from the connected resources)'}
+                </p>
+              </div>
+
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label htmlFor="edge-protocol" className="text-xs sm:text-sm">Protocol</Label>
+                <Select
+                  value={edge.data?.protocol ?? 'tcp'}
+                  onValueChange={(value) => update({ protocol: value as EdgeProtocol })}
+                >
+                  <SelectTrigger id="edge-protocol" className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EDGE_PROTOCOLS.map((option) => (
+                      <SelectItem key={option} value={option} className="text-sm">
+                        {option.toUpperCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label htmlFor="edge-direction" className="text-xs sm:text-sm">Direction</Label>
+                <Select
+                  value={edge.data?.direction ?? 'one-way'}
+                  onValueChange={(value) => update({ direction: value as EdgeDirection })}
+                >
+                  <SelectTrigger id="edge-direction" className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(EDGE_DIRECTIONS) as EdgeDirection[]).map((option) => (
+                      <SelectItem key={option} value={option} className="text-sm">
+                        {EDGE_DIRECTIONS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label htmlFor="edge-label" className="text-xs sm:text-sm">Label</Label>
+                <Input
+                  id="edge-label"
+                  type="text"
+                  value={edge.data?.label ?? ''}
+                  onChange={(e) => update({ label: e.target.value || undefined })}
+                  placeholder="e.g. Orders API"
+                  className="text-sm"
+                />
+                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                  Shown on the canvas and used to describe the generated rules
+                </p>
+              </div>
+
+              <EdgePortsEditor edgeId={edge.id} />
+            </CardContent>
+          </Card>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { useCanvas } from '@/lib/canvas-context';
+import { cn } from '@/lib/utils';
+import { History, X } from 'lucide-react';
+
+interface HistoryPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function HistoryPanel({ open, onClose }: HistoryPanelProps) {
+  const { history, jumpToHistory } = useCanvas();
+
+  if (!open) return null;
+
+  // Newest first, keeping the original index to mark undone (future) entries
+  const entries = history.entries
+    .map((entry, index) => ({ ...entry, index }))
+    .reverse();
+
+  return (
+    <Card className="absolute top-3 right-3 z-20 w-64 shadow-lg gap-2 py-3">
+      <CardHeader className="px-3 flex flex-row items-center justify-between">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-primary" />
+          <CardTitle className="text-sm">History</CardTitle>
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose} aria-label="Close history">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="px-2">
+        <ScrollArea className="h-64">
+          <ul className="space-y-0.5 pr-2">
+            {entries.map((entry) => {
+              const isCurrent = entry.index === history.index;
+              const isUndone = entry.index > history.index;
+
+              return (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => jumpToHistory(entry.id)}
+                    className={cn(
+                      'w-full text-left rounded-md px-2 py-1.5 text-xs transition-colors hover:bg-muted',
+                      isCurrent && 'bg-primary/10 text-primary font-medium',
+                      isUndone && 'text-muted-foreground/60 line-through'
+                    )}
+                    aria-current={isCurrent ? 'step' : undefined}
+                  >
+                    <span className="block truncate">{entry.label}</span>
+                    <span className="block text-[10px] text-muted-foreground">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
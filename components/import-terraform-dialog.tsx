@@ -0,0 +1,172 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useCanvas } from '@/lib/canvas-context';
+import { importTerraform, ImportReportEntry, ImportReportStatus } from '@/lib/terraform-importer';
+import { cn } from '@/lib/utils';
+import { AlertCircle, AlertTriangle, CheckCircle2, GitMerge, MinusCircle, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ImportTerraformDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const statusStyles: Record<ImportReportStatus, { icon: typeof CheckCircle2; className: string }> = {
+  imported: { icon: CheckCircle2, className: 'text-green-600' },
+  merged: { icon: GitMerge, className: 'text-blue-600' },
+  warning: { icon: AlertTriangle, className: 'text-yellow-600' },
+  skipped: { icon: MinusCircle, className: 'text-muted-foreground' },
+};
+
+function ReportRow({ entry }: { entry: ImportReportEntry }) {
+  const { icon: Icon, className } = statusStyles[entry.status];
+
+  return (
+    <li className="flex items-start gap-2 text-xs py-1">
+      <Icon className={cn('h-3.5 w-3.5 mt-0.5 shrink-0', className)} />
+      <div className="min-w-0">
+        <span className="font-mono">{entry.address}</span>
+        <span className="text-muted-foreground"> (line {entry.line})</span>
+        <p className="text-muted-foreground">{entry.message}</p>
+      </div>
+    </li>
+  );
+}
+
+export function ImportTerraformDialog({ open, onOpenChange }: ImportTerraformDialogProps) {
+  const { state, mergeCanvas } = useCanvas();
+  const [source, setSource] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Place imported resources to the right of the existing diagram
+  const origin = useMemo(() => {
+    if (state.nodes.length === 0) return { x: 100, y: 100 };
+    const maxX = Math.max(...state.nodes.map((node) => node.position.x));
+    const minY = Math.min(...state.nodes.map((node) => node.position.y));
+    return { x: maxX + 250, y: minY };
+  }, [state.nodes]);
+
+  // Parse as the user types so the report doubles as a preview
+  const preview = useMemo(() => {
+    if (!source.trim()) return null;
+    try {
+      return { result: importTerraform(source, { origin }), error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Failed to parse Terraform' };
+    }
+  }, [source, origin]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      const contents = await Promise.all(files.map((file) => file.text()));
+      setSource(contents.join('\n\n'));
+    }
+    // Reset so selecting the same file again still triggers a change
+    event.target.value = '';
+  };
+
+  const openFilePicker = () => {
+    fileInputRef.current?.click();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setSource('');
+    onOpenChange(nextOpen);
+  };
+
+  const handleImport = () => {
+    const result = preview?.result;
+    if (!result || result.nodes.length === 0) return;
+
+    mergeCanvas(result.nodes, result.edges);
+
+    const skipped = result.report.filter((entry) => entry.status === 'skipped').length;
+    toast.success(`Imported ${result.nodes.length} resource${result.nodes.length === 1 ? '' : 's'}`, {
+      description: skipped > 0 ? `${skipped} block${skipped === 1 ? ' was' : 's were'} skipped` : undefined,
+    });
+    handleOpenChange(false);
+  };
+
+  const nodeCount = preview?.result?.nodes.length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>Import Terraform</DialogTitle>
+          <DialogDescription>
+            Paste HCL or upload .tf files. Supported resources become nodes; everything else is listed below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2 flex-1 min-h-0">
+          <div className="flex flex-col gap-2 min-h-0">
+            <textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder={'resource "aws_instance" "web" {\n  instance_type = "t3.micro"\n}'}
+              spellCheck={false}
+              aria-label="Terraform source"
+              className="flex-1 min-h-64 w-full resize-none rounded-md border bg-transparent p-3 font-mono text-xs outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            />
+            <Button variant="outline" size="sm" onClick={openFilePicker} className="gap-2 self-start">
+              <Upload className="h-4 w-4" />
+              Upload .tf files
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".tf,.hcl,text/plain"
+              multiple
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+
+          <div className="flex flex-col min-h-0 rounded-md border">
+            <p className="px-3 py-2 border-b text-sm font-medium">Import report</p>
+            <ScrollArea className="h-72 px-3">
+              {!preview && (
+                <p className="py-3 text-xs text-muted-foreground">Nothing to import yet.</p>
+              )}
+              {preview?.error && (
+                <div className="flex items-start gap-2 py-3 text-xs text-destructive">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  <span>{preview.error}</span>
+                </div>
+              )}
+              {preview?.result && (
+                <ul className="py-2">
+                  {preview.result.report.map((entry, index) => (
+                    <ReportRow key={`${entry.address}-${index}`} entry={entry} />
+                  ))}
+                </ul>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={nodeCount === 0}>
+            {nodeCount > 0 ? `Import ${nodeCount} resource${nodeCount === 1 ? '' : 's'}` : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -25,24 +25,29 @@ export function KeyboardShortcutsDialog({
     {
       category: 'Node Operations',
       items: [
-        { keys: ['Delete', 'Backspace'], description: 'Delete selected node' },
-        { keys: [modKey, 'C'], description: 'Copy selected node' },
-        { keys: [modKey, 'V'], description: 'Paste node' },
-        { keys: [modKey, 'D'], description: 'Duplicate selected node' },
-        { keys: ['Esc'], description: 'Deselect node' },
+        { keys: ['Delete', 'Backspace'], description: 'Delete selected nodes' },
+        { keys: [modKey, 'C'], description: 'Copy selected nodes' },
+        { keys: [modKey, 'V'], description: 'Paste nodes (also from another tab)' },
+        { keys: [modKey, 'D'], description: 'Duplicate selected nodes' },
+        { keys: ['Esc'], description: 'Clear selection' },
       ],
     },
     {
       category: 'Canvas Actions',
       items: [
+        { keys: [modKey, 'Z'], description: 'Undo' },
+        { keys: [modKey, 'Shift', 'Z'], description: 'Redo' },
         { keys: [modKey, 'G'], description: 'Generate Terraform code' },
-        { keys: [modKey, 'A'], description: 'Select node' },
+        { keys: [modKey, 'Shift', 'L'], description: 'Auto-layout the diagram' },
+        { keys: [modKey, 'A'], description: 'Select all nodes' },
       ],
     },
     {
       category: 'Navigation',
       items: [
         { keys: ['Mouse Drag'], description: 'Pan canvas' },
+        { keys: ['Shift', 'Mouse Drag'], description: 'Select nodes in a box' },
+        { keys: ['Shift', 'Click'], description: 'Add to selection' },
         { keys: ['Scroll'], description: 'Zoom in/out' },
         { keys: ['Double Click'], description: 'Zoom to fit' },
       ],
@@ -1,25 +1,27 @@
-// API Gateway custom node component
+// Availability zone container node component
 'use client';
 
 import { memo } from 'react';
 import { NodeProps } from '@xyflow/react';
-import BaseNode, { BaseNodeData } from './base-node';
+import ContainerNode from './container-node';
+import { BaseNodeData } from './base-node';
 import { getResourceTypeById } from '@/lib/resource-types';
 
-function APIGatewayNode(props: NodeProps) {
-  const config = getResourceTypeById('apigateway');
+function AZNode(props: NodeProps) {
+  const config = getResourceTypeById('az');
   const data = props.data as unknown as BaseNodeData;
   
   return (
-    <BaseNode
+    <ContainerNode
       id={props.id}
       data={data}
       selected={props.selected}
       iconUrl={config.iconUrl}
-      color="bg-gradient-to-br from-pink-500 to-pink-600"
+      color={config.color}
       category={config.label}
+      detail={data.properties?.zone}
     />
   );
 }
 
-export default memo(APIGatewayNode);
+export default memo(AZNode);
@@ -6,6 +6,8 @@ import { Handle, Position, NodeProps } from '@xyflow/react';
 import { X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useCanvas } from '@/lib/canvas-context';
+import LintBadge from './lint-badge';
+import CostLabel from './cost-label';
 
 export interface BaseNodeData {
   label: string;
@@ -45,6 +47,9 @@ function BaseNode({ id, data, selected, iconUrl, color, category }: BaseNodeProp
         <X className="w-4 h-4" />
       </button>
 
+      {/* Linter findings */}
+      <LintBadge nodeId={id} className="-top-2 -left-2" />
+
       {/* Connection handles */}
       <Handle
         type="target"
@@ -75,6 +80,9 @@ function BaseNode({ id, data, selected, iconUrl, color, category }: BaseNodeProp
           selected && '!bg-blue-500'
         )}
       />
+
+      {/* Estimated monthly cost */}
+      <CostLabel nodeId={id} className="-bottom-5" />
     </div>
   );
 }
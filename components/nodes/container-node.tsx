@@ -0,0 +1,98 @@
+// Resizable container node (VPC, availability zone, subnet) that other nodes can be placed in
+'use client';
+
+import { memo, useCallback } from 'react';
+import { Handle, NodeResizer, Position } from '@xyflow/react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useCanvas } from '@/lib/canvas-context';
+import LintBadge from './lint-badge';
+import { BaseNodeData } from './base-node';
+
+export interface ContainerNodeProps {
+  id: string;
+  data: BaseNodeData;
+  selected?: boolean;
+  iconUrl: string;
+  // Border and background classes for the container area
+  color: string;
+  category: string;
+  // Extra detail shown next to the label (e.g. the CIDR block)
+  detail?: string;
+}
+
+function ContainerNode({ id, data, selected, iconUrl, color, category, detail }: ContainerNodeProps) {
+  const { deleteNode } = useCanvas();
+
+  const handleDelete = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    deleteNode(id);
+  }, [id, deleteNode]);
+
+  return (
+    <div
+      className={cn(
+        'relative group h-full w-full rounded-lg border-2 border-dashed transition-colors',
+        color,
+        selected && 'border-solid'
+      )}
+    >
+      <NodeResizer
+        isVisible={selected}
+        minWidth={160}
+        minHeight={100}
+        lineClassName="!border-blue-500"
+        handleClassName="!w-2.5 !h-2.5 !bg-blue-500 !border-white"
+      />
+
+      {/* Delete button - shows on hover */}
+      <button
+        onClick={handleDelete}
+        className={cn(
+          'absolute -top-3 -right-3 w-6 h-6 rounded-full bg-red-500 text-white',
+          'flex items-center justify-center shadow-md',
+          'opacity-0 group-hover:opacity-100 transition-opacity duration-200',
+          'hover:bg-red-600 hover:scale-110 z-10'
+        )}
+        aria-label="Delete container"
+      >
+        <X className="w-4 h-4" />
+      </button>
+
+      {/* Linter findings */}
+      <LintBadge nodeId={id} className="-top-3 -left-3" />
+
+      <Handle
+        type="target"
+        position={Position.Top}
+        className={cn(
+          'w-3 h-3 !bg-gray-400 border-2 border-white transition-all',
+          selected && '!bg-blue-500'
+        )}
+      />
+
+      {/* Header: icon, label and type in the top-left corner */}
+      <div className="absolute top-2 left-2 flex items-center gap-2 pointer-events-none select-none">
+        <img src={iconUrl} alt={category} className="w-6 h-6 object-contain" />
+        <div className="leading-tight">
+          <p className="text-xs font-semibold">{data.label}</p>
+          <p className="text-[10px] text-muted-foreground">
+            {category}
+            {detail && <span className="font-mono"> · {detail}</span>}
+          </p>
+        </div>
+      </div>
+
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        className={cn(
+          'w-3 h-3 !bg-gray-400 border-2 border-white transition-all',
+          selected && '!bg-blue-500'
+        )}
+      />
+    </div>
+  );
+}
+
+export default memo(ContainerNode);
@@ -0,0 +1,35 @@
+// Monthly cost estimate shown under a node
+'use client';
+
+import { memo } from 'react';
+import { cn } from '@/lib/utils';
+import { useCanvas } from '@/lib/canvas-context';
+import { formatCost } from '@/lib/cost-estimator';
+
+interface CostLabelProps {
+  nodeId: string;
+  className?: string;
+}
+
+function CostLabel({ nodeId, className }: CostLabelProps) {
+  const { costEstimate } = useCanvas();
+  const cost = costEstimate.nodes.find((candidate) => candidate.nodeId === nodeId);
+
+  // Free resources (VPCs, subnets) get no label
+  if (!cost || (cost.monthly === 0 && !cost.note)) return null;
+
+  return (
+    <span
+      className={cn(
+        'absolute left-1/2 -translate-x-1/2 whitespace-nowrap rounded px-1 text-[10px] font-medium',
+        'bg-background/80 text-muted-foreground pointer-events-none',
+        className
+      )}
+      title={cost.note}
+    >
+      {cost.note ? 'no price' : `${formatCost(cost.monthly)}/mo`}
+    </span>
+  );
+}
+
+export default memo(CostLabel);
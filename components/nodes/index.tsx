@@ -1,38 +1,30 @@
 // Export all custom node components and node type mapping
 'use client';
 
-import EC2Node from './ec2-node';
-import LambdaNode from './lambda-node';
+import { NodeTypes } from '@xyflow/react';
+import { getResourceDefinitions } from '@/lib/resource-registry';
+import ResourceNode from './resource-node';
 import VPCNode from './vpc-node';
-import ALBNode from './alb-node';
-import APIGatewayNode from './apigateway-node';
-import S3Node from './s3-node';
-import RDSNode from './rds-node';
-import DynamoDBNode from './dynamodb-node';
-import WAFNode from './waf-node';
+import SubnetNode from './subnet-node';
+import AZNode from './az-node';
 
-// Node types mapping for React Flow
-export const nodeTypes = {
-  ec2: EC2Node,
-  lambda: LambdaNode,
+// Container types with their own component; every other resource is drawn by ResourceNode
+const containerNodeTypes: NodeTypes = {
   vpc: VPCNode,
-  alb: ALBNode,
-  apigateway: APIGatewayNode,
-  s3: S3Node,
-  rds: RDSNode,
-  dynamodb: DynamoDBNode,
-  waf: WAFNode,
+  subnet: SubnetNode,
+  az: AZNode,
 };
 
-export { 
-  EC2Node, 
-  LambdaNode,
+// Node types mapping for React Flow, one entry per registered resource type
+export const nodeTypes: NodeTypes = Object.fromEntries(
+  getResourceDefinitions().map((definition) => [definition.id, containerNodeTypes[definition.id] ?? ResourceNode])
+);
+
+export {
+  ResourceNode,
   VPCNode,
-  ALBNode,
-  APIGatewayNode,
-  S3Node, 
-  RDSNode,
-  DynamoDBNode,
-  WAFNode,
+  SubnetNode,
+  AZNode,
 };
 export { default as BaseNode } from './base-node';
+export { default as ContainerNode } from './container-node';
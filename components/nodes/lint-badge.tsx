@@ -0,0 +1,60 @@
+// Badge showing diagram linter findings on a node
+'use client';
+
+import { memo, useMemo } from 'react';
+import { AlertCircle, AlertTriangle, Info } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useCanvas } from '@/lib/canvas-context';
+import { getHighestSeverity, LintSeverity } from '@/lib/diagram-linter';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+export const severityStyles: Record<LintSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: 'bg-red-500 text-white' },
+  warning: { icon: AlertTriangle, className: 'bg-amber-400 text-amber-950' },
+  info: { icon: Info, className: 'bg-sky-500 text-white' },
+};
+
+interface LintBadgeProps {
+  nodeId: string;
+  className?: string;
+}
+
+function LintBadge({ nodeId, className }: LintBadgeProps) {
+  const { lintFindings } = useCanvas();
+  const findings = useMemo(
+    () => lintFindings.filter((finding) => finding.nodeId === nodeId),
+    [lintFindings, nodeId]
+  );
+  const severity = getHighestSeverity(findings);
+
+  if (!severity) return null;
+
+  const { icon: Icon, className: colors } = severityStyles[severity];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            'absolute flex items-center gap-0.5 rounded-full px-1.5 h-5 text-[10px] font-semibold shadow-md z-10',
+            colors,
+            className
+          )}
+          aria-label={`${findings.length} problem${findings.length === 1 ? '' : 's'}`}
+        >
+          <Icon className="w-3 h-3" />
+          {findings.length}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-64">
+        <ul className="space-y-1">
+          {findings.map((finding) => (
+            <li key={finding.ruleId}>{finding.message}</li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+export default memo(LintBadge);
@@ -1,4 +1,4 @@
-// Application Load Balancer custom node component
+// Custom node component for any registered resource type, drawn from its resource definition
 'use client';
 
 import { memo } from 'react';
@@ -6,20 +6,20 @@ import { NodeProps } from '@xyflow/react';
 import BaseNode, { BaseNodeData } from './base-node';
 import { getResourceTypeById } from '@/lib/resource-types';
 
-function ALBNode(props: NodeProps) {
-  const config = getResourceTypeById('alb');
+function ResourceNode(props: NodeProps) {
+  const config = getResourceTypeById(props.type);
   const data = props.data as unknown as BaseNodeData;
-  
+
   return (
     <BaseNode
       id={props.id}
       data={data}
       selected={props.selected}
       iconUrl={config.iconUrl}
-      color="bg-gradient-to-br from-purple-400 to-purple-500"
+      color={config.color}
       category={config.label}
     />
   );
 }
 
-export default memo(ALBNode);
+export default memo(ResourceNode);
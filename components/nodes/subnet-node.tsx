@@ -0,0 +1,28 @@
+// Subnet container node component
+'use client';
+
+import { memo } from 'react';
+import { NodeProps } from '@xyflow/react';
+import ContainerNode from './container-node';
+import { BaseNodeData } from './base-node';
+import { getResourceTypeById } from '@/lib/resource-types';
+
+function SubnetNode(props: NodeProps) {
+  const config = getResourceTypeById('subnet');
+  const data = props.data as unknown as BaseNodeData;
+  const isPublic = Boolean(data.properties?.public);
+  
+  return (
+    <ContainerNode
+      id={props.id}
+      data={data}
+      selected={props.selected}
+      iconUrl={config.iconUrl}
+      color={isPublic ? 'border-green-500 bg-green-500/5' : config.color}
+      category={isPublic ? `Public ${config.label}` : `Private ${config.label}`}
+      detail={data.properties?.cidrBlock}
+    />
+  );
+}
+
+export default memo(SubnetNode);
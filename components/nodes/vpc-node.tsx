@@ -1,9 +1,10 @@
-// VPC custom node component
+// VPC container node component
 'use client';
 
 import { memo } from 'react';
 import { NodeProps } from '@xyflow/react';
-import BaseNode, { BaseNodeData } from './base-node';
+import ContainerNode from './container-node';
+import { BaseNodeData } from './base-node';
 import { getResourceTypeById } from '@/lib/resource-types';
 
 function VPCNode(props: NodeProps) {
@@ -11,13 +12,14 @@ function VPCNode(props: NodeProps) {
   const data = props.data as unknown as BaseNodeData;
   
   return (
-    <BaseNode
+    <ContainerNode
       id={props.id}
       data={data}
       selected={props.selected}
       iconUrl={config.iconUrl}
-      color="bg-gradient-to-br from-purple-500 to-purple-600"
+      color={config.color}
       category={config.label}
+      detail={data.properties?.cidrBlock}
     />
   );
 }
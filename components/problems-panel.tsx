@@ -0,0 +1,97 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { severityStyles } from '@/components/nodes/lint-badge';
+import { useCanvas } from '@/lib/canvas-context';
+import { applyLintFixes, LintFix } from '@/lib/diagram-linter';
+import { cn } from '@/lib/utils';
+import { ShieldAlert, Wrench, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ProblemsPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ProblemsPanel({ open, onClose }: ProblemsPanelProps) {
+  const { state, lintFindings, setNodes, selectNode } = useCanvas();
+
+  if (!open) return null;
+
+  const fixes = lintFindings.flatMap((finding) => (finding.fix ? [finding.fix] : []));
+
+  const applyFixes = (toApply: LintFix[]) => {
+    setNodes(applyLintFixes(state.nodes, toApply));
+    toast.success(toApply.length === 1 ? toApply[0].label : `Applied ${toApply.length} fixes`);
+  };
+
+  const labelOf = (nodeId: string) => state.nodes.find((node) => node.id === nodeId)?.data.label ?? nodeId;
+
+  return (
+    <Card className="absolute bottom-3 left-1/2 -translate-x-1/2 z-20 w-[28rem] max-w-[calc(100%-1.5rem)] shadow-lg gap-2 py-3">
+      <CardHeader className="px-3 flex flex-row items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-4 w-4 text-primary" />
+          <CardTitle className="text-sm">Problems ({lintFindings.length})</CardTitle>
+        </div>
+        <div className="flex items-center gap-1">
+          {fixes.length > 1 && (
+            <Button variant="outline" size="sm" className="h-6 text-xs gap-1" onClick={() => applyFixes(fixes)}>
+              <Wrench className="h-3 w-3" />
+              Fix all ({fixes.length})
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose} aria-label="Close problems">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="px-2">
+        {lintFindings.length === 0 ? (
+          <p className="px-2 py-4 text-center text-xs text-muted-foreground">No problems found in the diagram</p>
+        ) : (
+          <ScrollArea className="h-56">
+            <ul className="space-y-0.5 pr-2">
+              {lintFindings.map((finding) => {
+                const { icon: Icon, className } = severityStyles[finding.severity];
+
+                return (
+                  <li
+                    key={`${finding.nodeId}:${finding.ruleId}`}
+                    className="flex items-start gap-2 rounded-md px-2 py-1.5 text-xs hover:bg-muted"
+                  >
+                    <span className={cn('mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded-full', className)}>
+                      <Icon className="h-3 w-3" />
+                    </span>
+                    <button
+                      onClick={() => selectNode(finding.nodeId)}
+                      className="min-w-0 flex-1 text-left"
+                    >
+                      <span className="block">{finding.message}</span>
+                      <span className="block text-[10px] text-muted-foreground">
+                        {finding.ruleId} · {labelOf(finding.nodeId)}
+                      </span>
+                    </button>
+                    {finding.fix && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => applyFixes([finding.fix!])}
+                        title={finding.fix.label}
+                      >
+                        Fix
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
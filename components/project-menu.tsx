@@ -0,0 +1,183 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { FilePlus, Pencil, Trash2, Download, Upload, type LucideIcon } from 'lucide-react';
+import { PROJECT_FILE_EXTENSION } from '@/lib/canvas-storage';
+import type { CanvasPersistence } from '@/lib/use-canvas-persistence';
+
+type DialogMode = 'create' | 'rename' | 'delete' | null;
+
+interface ProjectActionButtonProps {
+  icon: LucideIcon;
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+}
+
+function ProjectActionButton({ icon: Icon, label, onClick, disabled }: ProjectActionButtonProps) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onClick}
+          disabled={disabled}
+          aria-label={label}
+        >
+          <Icon className="h-4 w-4" />
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>{label}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+interface ProjectMenuProps {
+  persistence: CanvasPersistence;
+}
+
+export function ProjectMenu({ persistence }: ProjectMenuProps) {
+  const {
+    projects,
+    activeProject,
+    lastSavedAt,
+    switchProject,
+    createProject,
+    renameProject,
+    deleteProject,
+    exportProject,
+    importProjectFile,
+  } = persistence;
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+  const [projectName, setProjectName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const openDialog = (mode: DialogMode) => {
+    setProjectName(mode === 'rename' ? activeProject?.name ?? '' : '');
+    setDialogMode(mode);
+  };
+
+  const handleConfirm = () => {
+    if (dialogMode === 'create') {
+      createProject(projectName);
+    } else if (dialogMode === 'rename' && activeProject) {
+      renameProject(activeProject.id, projectName);
+    } else if (dialogMode === 'delete' && activeProject) {
+      deleteProject(activeProject.id);
+    }
+    setDialogMode(null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      await importProjectFile(file);
+    }
+    // Reset so selecting the same file again still triggers a change
+    event.target.value = '';
+  };
+
+  const openFilePicker = () => {
+    fileInputRef.current?.click();
+  };
+
+  return (
+    <div className="hidden md:flex items-center gap-1">
+      <Select value={activeProject?.id ?? ''} onValueChange={switchProject}>
+        <SelectTrigger className="w-44 h-8 text-sm" aria-label="Switch project">
+          <SelectValue placeholder="Loading project..." />
+        </SelectTrigger>
+        <SelectContent>
+          {projects.map((project) => (
+            <SelectItem key={project.id} value={project.id} className="text-sm">
+              {project.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <ProjectActionButton icon={FilePlus} label="New project" onClick={() => openDialog('create')} />
+      <ProjectActionButton icon={Pencil} label="Rename project" onClick={() => openDialog('rename')} disabled={!activeProject} />
+      <ProjectActionButton icon={Trash2} label="Delete project" onClick={() => openDialog('delete')} disabled={!activeProject} />
+      <ProjectActionButton icon={Download} label="Export project file" onClick={exportProject} disabled={!activeProject} />
+      <ProjectActionButton icon={Upload} label="Import project file" onClick={openFilePicker} />
+
+      {lastSavedAt && (
+        <span className="hidden xl:inline text-xs text-muted-foreground ml-1">
+          Saved {new Date(lastSavedAt).toLocaleTimeString()}
+        </span>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {dialogMode === 'create' && 'New Project'}
+              {dialogMode === 'rename' && 'Rename Project'}
+              {dialogMode === 'delete' && 'Delete Project'}
+            </DialogTitle>
+            <DialogDescription>
+              {dialogMode === 'delete'
+                ? `"${activeProject?.name}" and its diagram will be permanently removed from this browser.`
+                : 'Projects are saved automatically in this browser.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {dialogMode !== 'delete' && (
+            <Input
+              autoFocus
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+              placeholder="Project name"
+            />
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogMode(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={dialogMode === 'delete' ? 'destructive' : 'default'}
+              onClick={handleConfirm}
+            >
+              {dialogMode === 'create' && 'Create'}
+              {dialogMode === 'rename' && 'Rename'}
+              {dialogMode === 'delete' && 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,9 +2,13 @@
 
 import { useCanvas } from '@/lib/canvas-context';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { getResourceTypeById } from '@/lib/resource-types';
-import { resourceSchemas, PropertyField } from '@/lib/resource-schemas';
+import { getResourceSchema, PropertyField } from '@/lib/resource-schemas';
+import { redactNode } from '@/lib/sensitive-properties';
+import { EdgePropertiesPanel } from '@/components/edge-properties-panel';
+import { Node } from '@/types';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -16,21 +20,27 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { useState, useCallback, useMemo, memo, useEffect } from 'react';
-import { Loader2, Sparkles, DollarSign, Lightbulb } from 'lucide-react';
+import { fetchEventStream } from '@/lib/sse';
+import { useState, useCallback, useMemo, memo, useEffect, useEffectEvent } from 'react';
+import { Loader2, Sparkles, DollarSign, Lightbulb, FileCode, Plus, X } from 'lucide-react';
 
 // Memoized field renderer component to prevent unnecessary re-renders
 const PropertyFieldRenderer = memo(({ 
   field, 
   currentValue, 
+  mixed,
   validationError,
   onPropertyChange 
 }: { 
   field: PropertyField;
   currentValue: any;
+  // The selected nodes have different values, so none is shown
+  mixed?: boolean;
   validationError?: string;
   onPropertyChange: (fieldName: string, value: any) => void;
 }) => {
+  const placeholder = mixed ? 'Mixed' : field.placeholder;
+
   switch (field.type) {
     case 'text':
       return (
@@ -41,10 +51,11 @@ const PropertyFieldRenderer = memo(({
           </Label>
           <Input
             id={field.name}
-            type="text"
+            type={field.sensitive ? 'password' : 'text'}
+            autoComplete={field.sensitive ? 'new-password' : undefined}
             value={currentValue || ''}
             onChange={(e) => onPropertyChange(field.name, e.target.value)}
-            placeholder={field.placeholder}
+            placeholder={placeholder}
             className="text-sm"
           />
           {field.description && (
@@ -68,7 +79,7 @@ const PropertyFieldRenderer = memo(({
             type="number"
             value={currentValue ?? ''}
             onChange={(e) => onPropertyChange(field.name, Number(e.target.value))}
-            placeholder={field.placeholder}
+            placeholder={placeholder}
             className="text-sm"
           />
           {field.description && (
@@ -86,7 +97,7 @@ const PropertyFieldRenderer = memo(({
           <div className="flex items-center space-x-2">
             <Checkbox
               id={field.name}
-              checked={currentValue ?? false}
+              checked={mixed ? 'indeterminate' : currentValue ?? false}
               onCheckedChange={(checked) => onPropertyChange(field.name, checked)}
             />
             <Label htmlFor={field.name} className="cursor-pointer text-xs sm:text-sm">
@@ -111,7 +122,7 @@ const PropertyFieldRenderer = memo(({
             onValueChange={(value) => onPropertyChange(field.name, value)}
           >
             <SelectTrigger id={field.name} className="text-sm">
-              <SelectValue placeholder={field.placeholder || 'Select an option'} />
+              <SelectValue placeholder={placeholder || 'Select an option'} />
             </SelectTrigger>
             <SelectContent>
               {field.options?.map((option) => (
@@ -145,7 +156,7 @@ const PropertyFieldRenderer = memo(({
                 .filter((item) => item !== '');
               onPropertyChange(field.name, arrayValue);
             }}
-            placeholder={field.placeholder}
+            placeholder={placeholder}
             className="text-sm"
           />
           <p className="text-[10px] sm:text-xs text-muted-foreground">
@@ -157,6 +168,46 @@ const PropertyFieldRenderer = memo(({
         </div>
       );
 
+    case 'map':
+      return (
+        <MapFieldEditor
+          key={field.name}
+          field={field}
+          currentValue={currentValue}
+          mixed={mixed}
+          onPropertyChange={onPropertyChange}
+        />
+      );
+
+    case 'objectList':
+      return (
+        <ObjectListFieldEditor
+          key={field.name}
+          field={field}
+          currentValue={currentValue}
+          mixed={mixed}
+          onPropertyChange={onPropertyChange}
+        />
+      );
+
+    case 'group':
+      return (
+        <div key={field.name} className="space-y-1.5 sm:space-y-2">
+          <Label className="text-xs sm:text-sm">{field.label}</Label>
+          <div className="rounded-md border p-2 sm:p-3">
+            <SubFieldList
+              fields={field.fields ?? []}
+              idPrefix={field.name}
+              value={isPlainObject(currentValue) ? currentValue : {}}
+              onChange={(value) => onPropertyChange(field.name, value)}
+            />
+          </div>
+          {field.description && (
+            <p className="text-[10px] sm:text-xs text-muted-foreground">{field.description}</p>
+          )}
+        </div>
+      );
+
     default:
       return null;
   }
@@ -164,6 +215,174 @@ const PropertyFieldRenderer = memo(({
 
 PropertyFieldRenderer.displayName = 'PropertyFieldRenderer';
 
+interface CompoundFieldProps {
+  field: PropertyField;
+  currentValue: unknown;
+  mixed?: boolean;
+  onPropertyChange: (fieldName: string, value: unknown) => void;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Renders the sub-fields of an objectList item or a group; each change replaces the whole object
+ */
+function SubFieldList({
+  fields,
+  idPrefix,
+  value,
+  onChange,
+}: {
+  fields: PropertyField[];
+  // Keeps the input ids of nested fields unique
+  idPrefix: string;
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+}) {
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      {fields.map((subField) => (
+        <PropertyFieldRenderer
+          key={subField.name}
+          field={{ ...subField, name: `${idPrefix}-${subField.name}` }}
+          currentValue={value[subField.name] ?? subField.defaultValue}
+          onPropertyChange={(_, subValue) => onChange({ ...value, [subField.name]: subValue })}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Reads key/value rows into a map, leaving out rows without a key
+ */
+function rowsToMap(rows: Array<[string, string]>): Record<string, string> {
+  return Object.fromEntries(rows.filter(([key]) => key.trim() !== '').map(([key, value]) => [key.trim(), value]));
+}
+
+/**
+ * Edits a map field as key/value rows
+ */
+function MapFieldEditor({ field, currentValue, mixed, onPropertyChange }: CompoundFieldProps) {
+  const saved = JSON.stringify(isPlainObject(currentValue) ? currentValue : {});
+  const [rows, setRows] = useState<Array<[string, string]>>(() => Object.entries(JSON.parse(saved)));
+  const [seen, setSeen] = useState(saved);
+
+  // Follow changes made elsewhere (undo, other selected nodes), keeping rows whose key is still empty
+  if (saved !== seen) {
+    setSeen(saved);
+    if (JSON.stringify(rowsToMap(rows)) !== saved) {
+      setRows(Object.entries(JSON.parse(saved)));
+    }
+  }
+
+  const update = (next: Array<[string, string]>) => {
+    setRows(next);
+    onPropertyChange(field.name, rowsToMap(next));
+  };
+
+  return (
+    <div className="space-y-1.5 sm:space-y-2">
+      <Label className="text-xs sm:text-sm">{field.label}</Label>
+      {rows.map(([key, value], index) => (
+        <div key={index} className="flex gap-1.5">
+          <Input
+            aria-label={`${field.label} key ${index + 1}`}
+            value={key}
+            onChange={(e) => update(rows.map((row, i) => (i === index ? [e.target.value, row[1]] : row)))}
+            placeholder="Key"
+            className="text-sm"
+          />
+          <Input
+            aria-label={`${field.label} value ${index + 1}`}
+            value={value}
+            onChange={(e) => update(rows.map((row, i) => (i === index ? [row[0], e.target.value] : row)))}
+            placeholder="Value"
+            className="text-sm"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="shrink-0"
+            aria-label={`Remove ${key || `entry ${index + 1}`}`}
+            onClick={() => update(rows.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {mixed && <p className="text-[10px] sm:text-xs text-muted-foreground">Mixed</p>}
+      <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setRows([...rows, ['', '']])}>
+        <Plus className="h-3 w-3" />
+        Add entry
+      </Button>
+      {field.description && (
+        <p className="text-[10px] sm:text-xs text-muted-foreground">{field.description}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Edits an objectList field as a card per item, with the sub-fields inside
+ */
+function ObjectListFieldEditor({ field, currentValue, mixed, onPropertyChange }: CompoundFieldProps) {
+  const items = Array.isArray(currentValue) ? currentValue.filter(isPlainObject) : [];
+  const itemLabel = field.itemLabel ?? 'Item';
+  const update = (next: Array<Record<string, unknown>>) => onPropertyChange(field.name, next);
+
+  // New items start from the defaults of the sub-fields
+  const addItem = () =>
+    update([
+      ...items,
+      Object.fromEntries(
+        (field.fields ?? [])
+          .filter((subField) => subField.defaultValue !== undefined)
+          .map((subField) => [subField.name, subField.defaultValue])
+      ),
+    ]);
+
+  return (
+    <div className="space-y-1.5 sm:space-y-2">
+      <Label className="text-xs sm:text-sm">{field.label}</Label>
+      {items.map((item, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-2 sm:p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">
+              {itemLabel} {index + 1}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label={`Remove ${itemLabel.toLowerCase()} ${index + 1}`}
+              onClick={() => update(items.filter((_, i) => i !== index))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          <SubFieldList
+            fields={field.fields ?? []}
+            idPrefix={`${field.name}-${index}`}
+            value={item}
+            onChange={(value) => update(items.map((candidate, i) => (i === index ? value : candidate)))}
+          />
+        </div>
+      ))}
+      {mixed && <p className="text-[10px] sm:text-xs text-muted-foreground">Mixed</p>}
+      <Button variant="outline" size="sm" className="h-7 text-xs" onClick={addItem}>
+        <Plus className="h-3 w-3" />
+        Add {itemLabel.toLowerCase()}
+      </Button>
+      {field.description && (
+        <p className="text-[10px] sm:text-xs text-muted-foreground">{field.description}</p>
+      )}
+    </div>
+  );
+}
+
 // AI Analysis interfaces
 interface NodeAnalysisResponse {
   analysis: string;
@@ -171,65 +390,95 @@ interface NodeAnalysisResponse {
   cost_est: string;
 }
 
+/**
+ * Reads the "analysis" sentence out of a JSON response that is still streaming
+ */
+function readPartialAnalysis(text: string): string {
+  const match = text.match(/"analysis"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  return match ? match[1].replace(/\\(.)/g, '$1') : '';
+}
+
 export default function PropertiesPanel() {
-  const { getSelectedNode, updateNode, setError } = useCanvas();
-  const selectedNode = getSelectedNode();
+  const { getSelectedNode, getSelectedNodes, getSelectedEdge, updateNode, updateNodes, usageAssumptions } = useCanvas();
+  const primaryNode = getSelectedNode();
+  const selectedNodes = getSelectedNodes();
+  // Several selected nodes of one type are edited together; other multi-selections are not editable
+  const isBulk = selectedNodes.length > 1;
+  const canBulkEdit = isBulk && selectedNodes.every((node) => node.type === selectedNodes[0].type);
+  const selectedNode = isBulk ? (canBulkEdit ? primaryNode ?? selectedNodes[0] : null) : primaryNode;
+  // AI analysis covers a single resource
+  const analyzedNode = isBulk ? null : selectedNode;
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [aiAnalysis, setAiAnalysis] = useState<NodeAnalysisResponse | null>(null);
   const [isLoadingAnalysis, setIsLoadingAnalysis] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [streamedAnalysis, setStreamedAnalysis] = useState('');
+
+  // Reads the node as it is now, so property edits do not start a new analysis
+  const fetchAnalysis = useEffectEvent(async (signal: AbortSignal) => {
+    if (!analyzedNode) return;
+    let received = '';
+
+    setIsLoadingAnalysis(true);
+    setAnalysisError(null);
+    setStreamedAnalysis('');
+
+    try {
+      const data = await fetchEventStream<NodeAnalysisResponse>(
+        '/api/analyze',
+        {
+          type: 'node',
+          nodeData: {
+            id: analyzedNode.id,
+            type: analyzedNode.type,
+            data: redactNode(analyzedNode).data,
+          },
+          assumptions: usageAssumptions,
+        },
+        {
+          signal,
+          onToken: (text) => {
+            received += text;
+            setStreamedAnalysis(readPartialAnalysis(received));
+          },
+        }
+      );
+      setAiAnalysis(data);
+    } catch (error) {
+      // Another node was selected; its analysis replaces this one
+      if (signal.aborted) return;
+      const errorMessage = error instanceof Error ? error.message : 'Failed to fetch AI analysis';
+      setAnalysisError(errorMessage);
+      console.error('AI analysis error:', error);
+    } finally {
+      if (!signal.aborted) setIsLoadingAnalysis(false);
+    }
+  });
 
   // Fetch AI analysis when node is selected
+  const analyzedNodeId = analyzedNode?.id;
+  const analyzedNodeType = analyzedNode?.type;
   useEffect(() => {
-    if (!selectedNode) {
+    if (!analyzedNodeId) {
       setAiAnalysis(null);
       setAnalysisError(null);
       return;
     }
 
-    const fetchAnalysis = async () => {
-      setIsLoadingAnalysis(true);
-      setAnalysisError(null);
-      
-      try {
-        const response = await fetch('/api/analyze', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            type: 'node',
-            nodeData: {
-              id: selectedNode.id,
-              type: selectedNode.type,
-              data: selectedNode.data,
-            },
-          }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to fetch analysis');
-        }
-
-        const data: NodeAnalysisResponse = await response.json();
-        setAiAnalysis(data);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Failed to fetch AI analysis';
-        setAnalysisError(errorMessage);
-        console.error('AI analysis error:', error);
-      } finally {
-        setIsLoadingAnalysis(false);
-      }
-    };
-
-    fetchAnalysis();
-  }, [selectedNode?.id, selectedNode?.type]);
+    const controller = new AbortController();
+    fetchAnalysis(controller.signal);
+    return () => controller.abort();
+  }, [analyzedNodeId, analyzedNodeType]);
 
   // Memoize property change handler
   const handlePropertyChange = useCallback((fieldName: string, value: any) => {
     if (!selectedNode) return;
     
+    if (canBulkEdit) {
+      updateNodes(selectedNodes.map((node) => node.id), { [fieldName]: value });
+      return;
+    }
+
     try {
       // Clear validation error for this field
       setValidationErrors(prev => {
@@ -258,20 +507,43 @@ export default function PropertiesPanel() {
       });
       console.error('Property update error:', error);
     }
-  }, [selectedNode, updateNode, setError]);
+  }, [selectedNode, selectedNodes, canBulkEdit, updateNode, updateNodes]);
 
   // Memoize resource type and schema to prevent recalculation
+  const selectedType = selectedNode?.type;
   const resourceInfo = useMemo(() => {
-    if (!selectedNode) return null;
+    if (!selectedType) return null;
     
-    const resourceType = getResourceTypeById(selectedNode.type);
-    const schema = resourceSchemas[selectedNode.type];
+    const resourceType = getResourceTypeById(selectedType);
+    const schema = getResourceSchema(selectedType);
     
     return { resourceType, schema };
-  }, [selectedNode?.type]);
+  }, [selectedType]);
+
+  if (isBulk && !canBulkEdit) {
+    return (
+      <div className="w-72 sm:w-80 lg:w-80 border-l bg-background p-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base sm:text-lg">{selectedNodes.length} nodes selected</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              Select nodes of the same type to edit their properties together
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
-  // Empty state when no node is selected
+  // Empty state when no node is selected, unless an edge is
   if (!selectedNode || !resourceInfo) {
+    const selectedEdge = getSelectedEdge();
+    if (selectedEdge) {
+      return <EdgePropertiesPanel edge={selectedEdge} />;
+    }
+
     return (
       <div className="w-72 sm:w-80 lg:w-80 border-l bg-background p-4">
         <Card>
@@ -306,20 +578,44 @@ export default function PropertiesPanel() {
                 <CardTitle className="text-base sm:text-lg">{resourceType.label}</CardTitle>
               </div>
               <p className="text-xs sm:text-sm text-muted-foreground mt-1">
-                {selectedNode.data.label}
+                {canBulkEdit ? `Editing ${selectedNodes.length} nodes` : selectedNode.data.label}
               </p>
             </CardHeader>
             <CardContent>
+              {!canBulkEdit && typeof selectedNode.data.hclOverride === 'string' && (
+                <div className="mb-3 sm:mb-4 rounded-md border border-amber-500/40 bg-amber-500/10 p-2 text-xs space-y-2">
+                  <div className="flex items-start gap-2">
+                    <FileCode className="h-4 w-4 shrink-0 text-amber-600" />
+                    <p>
+                      This resource is generated from HCL kept from the Chat Refiner. Property changes
+                      do not affect the code until the HCL is discarded.
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => updateNode(selectedNode.id, { hclOverride: undefined })}
+                  >
+                    Discard HCL
+                  </Button>
+                </div>
+              )}
               <div className="space-y-3 sm:space-y-4">
                 {schema.fields.map((field) => {
-                  const properties = selectedNode.data.properties as Record<string, any>;
-                  const currentValue = properties[field.name] ?? field.defaultValue;
+                  const valueOf = (node: Node) =>
+                    (node.data.properties as Record<string, unknown>)[field.name] ?? field.defaultValue;
+                  const currentValue = valueOf(selectedNode);
+                  const mixed =
+                    canBulkEdit &&
+                    selectedNodes.some((node) => JSON.stringify(valueOf(node)) !== JSON.stringify(currentValue));
                   
                   return (
                     <PropertyFieldRenderer
                       key={field.name}
                       field={field}
-                      currentValue={currentValue}
+                      currentValue={mixed ? undefined : currentValue}
+                      mixed={mixed}
                       validationError={validationErrors[field.name]}
                       onPropertyChange={handlePropertyChange}
                     />
@@ -330,71 +626,80 @@ export default function PropertiesPanel() {
           </Card>
 
           {/* AI Analysis Card */}
-          <Card>
-            <CardHeader>
-              <div className="flex items-center gap-2">
-                <Sparkles className="h-4 w-4 text-primary" />
-                <CardTitle className="text-base sm:text-lg">AI Analysis</CardTitle>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {isLoadingAnalysis && (
-                <div className="flex items-center justify-center py-6">
-                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
-                </div>
-              )}
-
-              {analysisError && (
-                <div className="text-xs sm:text-sm text-destructive">
-                  {analysisError}
+          {!canBulkEdit && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Sparkles className="h-4 w-4 text-primary" />
+                  <CardTitle className="text-base sm:text-lg">AI Analysis</CardTitle>
                 </div>
-              )}
-
-              {aiAnalysis && !isLoadingAnalysis && !analysisError && (
-                <div className="space-y-4">
-                  {/* Analysis Summary */}
-                  <div>
+              </CardHeader>
+              <CardContent>
+                {isLoadingAnalysis && (
+                  streamedAnalysis ? (
                     <p className="text-xs sm:text-sm text-muted-foreground">
-                      {aiAnalysis.analysis}
+                      {streamedAnalysis}
+                      <Loader2 className="inline-block ml-1 h-3 w-3 animate-spin text-primary" />
                     </p>
+                  ) : (
+                    <div className="flex items-center justify-center py-6">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                  )
+                )}
+
+                {analysisError && (
+                  <div className="text-xs sm:text-sm text-destructive">
+                    {analysisError}
                   </div>
+                )}
 
-                  {/* Suggestions */}
-                  <div>
-                    <div className="flex items-center gap-2 mb-2">
-                      <Lightbulb className="h-4 w-4 text-amber-500" />
-                      <h4 className="text-xs sm:text-sm font-semibold">Suggestions</h4>
+                {aiAnalysis && !isLoadingAnalysis && !analysisError && (
+                  <div className="space-y-4">
+                    {/* Analysis Summary */}
+                    <div>
+                      <p className="text-xs sm:text-sm text-muted-foreground">
+                        {aiAnalysis.analysis}
+                      </p>
                     </div>
-                    <ul className="space-y-2">
-                      {aiAnalysis.suggestions.map((suggestion, index) => (
-                        <li key={index} className="text-xs sm:text-sm text-muted-foreground flex items-start gap-2">
-                          <span className="text-primary mt-0.5">•</span>
-                          <span>{suggestion}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
 
-                  {/* Cost Estimate */}
-                  <div>
-                    <div className="flex items-center gap-2 mb-1">
-                      <DollarSign className="h-4 w-4 text-green-500" />
-                      <h4 className="text-xs sm:text-sm font-semibold">Cost Estimate</h4>
+                    {/* Suggestions */}
+                    <div>
+                      <div className="flex items-center gap-2 mb-2">
+                        <Lightbulb className="h-4 w-4 text-amber-500" />
+                        <h4 className="text-xs sm:text-sm font-semibold">Suggestions</h4>
+                      </div>
+                      <ul className="space-y-2">
+                        {aiAnalysis.suggestions.map((suggestion, index) => (
+                          <li key={index} className="text-xs sm:text-sm text-muted-foreground flex items-start gap-2">
+                            <span className="text-primary mt-0.5">•</span>
+                            <span>{suggestion}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+
+                    {/* Cost Estimate */}
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <DollarSign className="h-4 w-4 text-green-500" />
+                        <h4 className="text-xs sm:text-sm font-semibold">Cost Estimate</h4>
+                      </div>
+                      <p className="text-xs sm:text-sm text-muted-foreground">
+                        {aiAnalysis.cost_est}
+                      </p>
                     </div>
-                    <p className="text-xs sm:text-sm text-muted-foreground">
-                      {aiAnalysis.cost_est}
-                    </p>
                   </div>
-                </div>
-              )}
+                )}
 
-              {!aiAnalysis && !isLoadingAnalysis && !analysisError && (
-                <p className="text-xs sm:text-sm text-muted-foreground">
-                  AI analysis will appear here
-                </p>
-              )}
-            </CardContent>
-          </Card>
+                {!aiAnalysis && !isLoadingAnalysis && !analysisError && (
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    AI analysis will appear here
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </ScrollArea>
     </div>
@@ -9,13 +9,14 @@ import { ResourceCategory } from '@/types';
 const categoryLabels: Record<ResourceCategory, string> = {
   compute: 'Compute',
   network: 'Network',
+  integration: 'App Integration',
   database: 'Database',
   storage: 'Storage',
   security: 'Security',
 };
 
 export function Sidebar() {
-  const categories: ResourceCategory[] = ['compute', 'network', 'database', 'storage', 'security'];
+  const categories: ResourceCategory[] = ['compute', 'network', 'integration', 'database', 'storage', 'security'];
   const [draggingId, setDraggingId] = useState<string | null>(null);
 
   const onDragStart = (
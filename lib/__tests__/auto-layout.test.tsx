@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Node, Edge, ResourceTypeId } from '@/types';
+import { layoutDiagram } from '../auto-layout';
+import { getAbsolutePosition, getNodeSize } from '../containers';
+
+function makeNode(id: string, type: ResourceTypeId, parentId?: string): Node {
+  return { id, type, position: { x: 500, y: 500 }, data: { label: id, properties: {} }, ...(parentId ? { parentId } : {}) };
+}
+
+const nodes: Node[] = [
+  makeNode('table', 'dynamodb'),
+  makeNode('fn', 'lambda'),
+  makeNode('api', 'apigateway'),
+  makeNode('bucket', 's3'),
+];
+const edges: Edge[] = [
+  { id: 'e1', source: 'api', target: 'fn' },
+  { id: 'e2', source: 'fn', target: 'table' },
+];
+
+function positionsOf(laidOut: Node[]): Record<string, { x: number; y: number }> {
+  return Object.fromEntries(laidOut.map((node) => [node.id, node.position]));
+}
+
+describe('layoutDiagram', () => {
+  it('should place connected resources in successive layers', () => {
+    const vertical = positionsOf(layoutDiagram(nodes, edges, 'top-bottom', { origin: { x: 0, y: 0 } }));
+    const horizontal = positionsOf(layoutDiagram(nodes, edges, 'left-right', { origin: { x: 0, y: 0 } }));
+
+    expect(vertical.api.y).toBeLessThan(vertical.fn.y);
+    expect(vertical.fn.y).toBeLessThan(vertical.table.y);
+    // Unconnected resources share the first layer
+    expect(vertical.bucket.y).toBe(vertical.api.y);
+    expect(horizontal.api.x).toBeLessThan(horizontal.fn.x);
+    expect(horizontal.fn.x).toBeLessThan(horizontal.table.x);
+  });
+
+  it('should put each resource category in its own column', () => {
+    const positions = positionsOf(layoutDiagram(nodes, edges, 'category'));
+
+    // Compute (Lambda), database (DynamoDB) and storage (S3) columns, left to right
+    expect(positions.fn.x).toBeLessThan(positions.table.x);
+    expect(positions.table.x).toBeLessThan(positions.bucket.x);
+  });
+
+  it('should keep the diagram where it was and leave the input untouched', () => {
+    const laidOut = layoutDiagram(nodes, edges, 'top-bottom');
+
+    expect(Math.min(...laidOut.map((node) => node.position.x))).toBe(500);
+    expect(Math.min(...laidOut.map((node) => node.position.y))).toBe(500);
+    expect(nodes.every((node) => node.position.x === 500 && node.position.y === 500)).toBe(true);
+  });
+
+  it('should keep resources inside their containers and grow containers to fit', () => {
+    const nested = [
+      makeNode('vpc', 'vpc'),
+      makeNode('subnet', 'subnet', 'vpc'),
+      ...['a', 'b', 'c', 'd', 'e'].map((id) => makeNode(id, 'ec2', 'subnet')),
+    ];
+
+    const laidOut = layoutDiagram(nested, [], 'left-right');
+    const byId = new Map(laidOut.map((node) => [node.id, node]));
+
+    expect(byId.get('a')!.parentId).toBe('subnet');
+    for (const [child, parent] of [['a', 'subnet'], ['e', 'subnet'], ['subnet', 'vpc']]) {
+      const inner = getAbsolutePosition(byId.get(child)!, laidOut);
+      const outer = getAbsolutePosition(byId.get(parent)!, laidOut);
+      expect(inner.x).toBeGreaterThanOrEqual(outer.x);
+      expect(inner.x + getNodeSize(byId.get(child)!).width).toBeLessThanOrEqual(outer.x + getNodeSize(byId.get(parent)!).width);
+      expect(inner.y + getNodeSize(byId.get(child)!).height).toBeLessThanOrEqual(outer.y + getNodeSize(byId.get(parent)!).height);
+    }
+  });
+
+  it('should never place two top-level resources on top of each other', () => {
+    const types: ResourceTypeId[] = ['ec2', 'lambda', 'rds', 's3', 'dynamodb', 'alb', 'waf'];
+    const graph = fc
+      .array(fc.constantFrom(...types), { minLength: 1, maxLength: 8 })
+      .chain((nodeTypes) =>
+        fc.tuple(
+          fc.constant(nodeTypes),
+          fc.array(fc.tuple(fc.nat(nodeTypes.length - 1), fc.nat(nodeTypes.length - 1)), { maxLength: 10 })
+        )
+      );
+
+    fc.assert(
+      fc.property(graph, fc.constantFrom('top-bottom' as const, 'left-right' as const, 'category' as const), ([nodeTypes, links], mode) => {
+        const graphNodes = nodeTypes.map((type, i) => makeNode(`n${i}`, type));
+        const graphEdges = links.map(([source, target], i) => ({ id: `e${i}`, source: `n${source}`, target: `n${target}` }));
+
+        const laidOut = layoutDiagram(graphNodes, graphEdges, mode);
+        for (const a of laidOut) {
+          for (const b of laidOut) {
+            if (a.id >= b.id) continue;
+            const [sizeA, sizeB] = [getNodeSize(a), getNodeSize(b)];
+            const overlaps =
+              a.position.x < b.position.x + sizeB.width &&
+              b.position.x < a.position.x + sizeA.width &&
+              a.position.y < b.position.y + sizeB.height &&
+              b.position.y < a.position.y + sizeA.height;
+            expect(overlaps).toBe(false);
+          }
+        }
+      })
+    );
+  });
+});
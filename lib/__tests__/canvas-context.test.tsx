@@ -164,3 +164,60 @@ describe('Canvas Context - Property Update Handlers', () => {
     });
   });
 });
+
+describe('Canvas Context - Multi-selection', () => {
+  const makeNode = (id: string): Node => ({
+    id,
+    type: 'ec2',
+    position: { x: 0, y: 0 },
+    data: { label: id, properties: { instanceType: 't2.micro' } },
+  });
+
+  it('should track every selected node and mark them for React Flow', () => {
+    const { result } = renderHook(() => useCanvas(), { wrapper: CanvasProvider });
+
+    act(() => {
+      result.current.mergeCanvas([makeNode('a'), makeNode('b'), makeNode('c')], []);
+      result.current.selectNodes(['a']);
+      result.current.selectNodes(['a', 'c']);
+    });
+
+    expect(result.current.state.selectedNodeIds).toEqual(['a', 'c']);
+    // The node added last is the one the properties panel follows
+    expect(result.current.state.selectedNodeId).toBe('c');
+    expect(result.current.state.nodes.map((node) => Boolean(node.selected))).toEqual([true, false, true]);
+    expect(result.current.getSelectedNodes().map((node) => node.id)).toEqual(['a', 'c']);
+    // Selecting does not create history entries
+    expect(result.current.history.entries).toHaveLength(2);
+  });
+
+  it('should edit and delete the selected nodes as one undoable step each', () => {
+    const { result } = renderHook(() => useCanvas(), { wrapper: CanvasProvider });
+
+    act(() => {
+      result.current.mergeCanvas([makeNode('a'), makeNode('b'), makeNode('c')], []);
+      result.current.updateNodes(['a', 'b'], { instanceType: 't3.large' });
+    });
+
+    expect(result.current.state.nodes.map((node) => (node.data.properties as Record<string, unknown>).instanceType)).toEqual([
+      't3.large',
+      't3.large',
+      't2.micro',
+    ]);
+    expect(result.current.history.entries.at(-1)?.label).toBe('Edit 2 nodes');
+
+    act(() => {
+      result.current.selectNodes(['a', 'b']);
+      result.current.deleteNodes(['a', 'b']);
+    });
+
+    expect(result.current.state.nodes.map((node) => node.id)).toEqual(['c']);
+    expect(result.current.state.selectedNodeIds).toEqual([]);
+    expect(result.current.state.selectedNodeId).toBeNull();
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.state.nodes).toHaveLength(3);
+  });
+});
@@ -0,0 +1,290 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { withHistory, createHistoryState, CanvasHistoryState } from '../canvas-history';
+import { CanvasProvider, useCanvas } from '../canvas-context';
+import { CanvasState, CanvasAction, Node } from '@/types';
+
+// Minimal reducer covering the actions exercised below
+function testReducer(state: CanvasState, action: CanvasAction): CanvasState {
+  switch (action.type) {
+    case 'ADD_NODE':
+      return { ...state, nodes: [...state.nodes, action.payload] };
+    case 'UPDATE_NODE':
+      return {
+        ...state,
+        nodes: state.nodes.map((node) =>
+          node.id === action.payload.id ? { ...node, data: { ...node.data, ...action.payload.data } } : node
+        ),
+      };
+    case 'DELETE_NODE':
+      return { ...state, nodes: state.nodes.filter((node) => node.id !== action.payload) };
+    case 'SET_NODES':
+      return { ...state, nodes: action.payload };
+    case 'ADD_EDGE':
+      return { ...state, edges: [...state.edges, action.payload] };
+    case 'UPDATE_EDGE':
+      return {
+        ...state,
+        edges: state.edges.map((edge) =>
+          edge.id === action.payload.id ? { ...edge, data: { ...edge.data, ...action.payload.data } } : edge
+        ),
+      };
+    case 'SET_EDGES':
+      return { ...state, edges: action.payload };
+    case 'SELECT_NODE':
+      return { ...state, selectedNodeId: action.payload, selectedNodeIds: action.payload ? [action.payload] : [] };
+    case 'LOAD_CANVAS':
+    case 'REPLACE_CANVAS':
+      return { ...state, ...action.payload, selectedNodeId: null, selectedNodeIds: [] };
+    case 'MERGE_CANVAS':
+      return { ...state, nodes: [...state.nodes, ...action.payload.nodes], edges: [...state.edges, ...action.payload.edges] };
+    default:
+      return state;
+  }
+}
+
+const emptyState: CanvasState = { nodes: [], edges: [], selectedNodeId: null, selectedNodeIds: [] };
+
+function makeNode(id: string, label = id): Node {
+  return {
+    id,
+    type: 'ec2',
+    position: { x: 0, y: 0 },
+    data: { label, properties: {} },
+  };
+}
+
+function run(reducer: ReturnType<typeof withHistory>, actions: CanvasAction[], start = createHistoryState(emptyState)) {
+  return actions.reduce<CanvasHistoryState>((history, action) => reducer(history, action), start);
+}
+
+describe('withHistory', () => {
+  it('should undo and redo node additions', () => {
+    const reducer = withHistory(testReducer);
+    let history = run(reducer, [
+      { type: 'ADD_NODE', payload: makeNode('a') },
+      { type: 'ADD_NODE', payload: makeNode('b') },
+    ]);
+
+    expect(history.present.nodes).toHaveLength(2);
+
+    history = reducer(history, { type: 'UNDO' });
+    expect(history.present.nodes.map((n) => n.id)).toEqual(['a']);
+
+    history = reducer(history, { type: 'REDO' });
+    expect(history.present.nodes.map((n) => n.id)).toEqual(['a', 'b']);
+  });
+
+  it('should restore a deleted node on undo', () => {
+    const reducer = withHistory(testReducer);
+    let history = run(reducer, [
+      { type: 'ADD_NODE', payload: makeNode('a', 'Web Server') },
+      { type: 'DELETE_NODE', payload: 'a' },
+    ]);
+
+    expect(history.entries[history.index].label).toBe('Delete Web Server');
+
+    history = reducer(history, { type: 'UNDO' });
+    expect(history.present.nodes[0].data.label).toBe('Web Server');
+  });
+
+  it('should discard redo entries after a new action', () => {
+    const reducer = withHistory(testReducer);
+    let history = run(reducer, [
+      { type: 'ADD_NODE', payload: makeNode('a') },
+      { type: 'ADD_NODE', payload: makeNode('b') },
+      { type: 'UNDO' },
+      { type: 'ADD_NODE', payload: makeNode('c') },
+    ]);
+
+    expect(history.present.nodes.map((n) => n.id)).toEqual(['a', 'c']);
+    history = reducer(history, { type: 'REDO' });
+    expect(history.present.nodes.map((n) => n.id)).toEqual(['a', 'c']);
+  });
+
+  it('should coalesce rapid property edits of the same node', () => {
+    let clock = 0;
+    const reducer = withHistory(testReducer, { now: () => clock, coalesceWindowMs: 500 });
+    let history = run(reducer, [{ type: 'ADD_NODE', payload: makeNode('a') }]);
+
+    for (const value of ['w', 'we', 'web']) {
+      clock += 100;
+      history = reducer(history, {
+        type: 'UPDATE_NODE',
+        payload: { id: 'a', data: { properties: { name: value } } },
+      });
+    }
+
+    expect(history.entries).toHaveLength(3); // initial, add, one coalesced edit
+    history = reducer(history, { type: 'UNDO' });
+    expect(history.present.nodes[0].data.properties).toEqual({});
+  });
+
+  it('should not coalesce edits separated by more than the window', () => {
+    let clock = 0;
+    const reducer = withHistory(testReducer, { now: () => clock, coalesceWindowMs: 500 });
+    let history = run(reducer, [{ type: 'ADD_NODE', payload: makeNode('a') }]);
+
+    history = reducer(history, { type: 'UPDATE_NODE', payload: { id: 'a', data: { properties: { v: 1 } } } });
+    clock += 1000;
+    history = reducer(history, { type: 'UPDATE_NODE', payload: { id: 'a', data: { properties: { v: 2 } } } });
+
+    expect(history.entries).toHaveLength(4);
+  });
+
+  it('should coalesce drag moves delivered through SET_NODES', () => {
+    let clock = 0;
+    const reducer = withHistory(testReducer, { now: () => clock });
+    let history = run(reducer, [{ type: 'ADD_NODE', payload: makeNode('a') }]);
+
+    for (let x = 1; x <= 20; x++) {
+      clock += 16;
+      const moved = { ...history.present.nodes[0], position: { x, y: x } };
+      history = reducer(history, { type: 'SET_NODES', payload: [moved] });
+    }
+
+    expect(history.entries).toHaveLength(3);
+    expect(history.entries[2].label).toBe('Move a');
+  });
+
+  it('should record connection edits per edge and undo them', () => {
+    let clock = 0;
+    const reducer = withHistory(testReducer, { now: () => clock, coalesceWindowMs: 500 });
+    let history = run(reducer, [
+      { type: 'ADD_EDGE', payload: { id: 'e1', source: 'a', target: 'b' } },
+      { type: 'ADD_EDGE', payload: { id: 'e2', source: 'a', target: 'c' } },
+    ]);
+
+    for (const ports of [[80], [80, 443]]) {
+      clock += 100;
+      history = reducer(history, { type: 'UPDATE_EDGE', payload: { id: 'e1', data: { ports } } });
+    }
+    clock += 100;
+    history = reducer(history, { type: 'UPDATE_EDGE', payload: { id: 'e2', data: { ports: [22] } } });
+
+    expect(history.entries.map((entry) => entry.label)).toEqual([
+      'Initial state',
+      'Add connection',
+      'Add connection',
+      'Edit connection',
+      'Edit connection',
+    ]);
+    history = reducer(history, { type: 'UNDO' });
+    expect(history.present.edges.map((edge) => edge.data)).toEqual([{ ports: [80, 443] }, undefined]);
+    history = reducer(history, { type: 'UNDO' });
+    expect(history.present.edges.map((edge) => edge.data)).toEqual([undefined, undefined]);
+  });
+
+  it('should record edge data changes delivered through SET_EDGES', () => {
+    const reducer = withHistory(testReducer);
+    let history = run(reducer, [{ type: 'ADD_EDGE', payload: { id: 'e1', source: 'a', target: 'b' } }]);
+
+    history = reducer(history, { type: 'SET_EDGES', payload: [{ ...history.present.edges[0], data: { ports: [80] } }] });
+
+    expect(history.entries).toHaveLength(3);
+  });
+
+  it('should ignore selection-only changes', () => {
+    const reducer = withHistory(testReducer);
+    let history = run(reducer, [{ type: 'ADD_NODE', payload: makeNode('a') }]);
+    const entryCount = history.entries.length;
+
+    const selected = { ...history.present.nodes[0], selected: true } as Node;
+    history = reducer(history, { type: 'SET_NODES', payload: [selected] });
+    history = reducer(history, { type: 'SELECT_NODE', payload: 'a' });
+
+    expect(history.entries).toHaveLength(entryCount);
+    expect(history.present.selectedNodeId).toBe('a');
+  });
+
+  it('should enforce the history size limit', () => {
+    const reducer = withHistory(testReducer, { limit: 5 });
+    const actions: CanvasAction[] = Array.from({ length: 10 }, (_, i) => ({
+      type: 'ADD_NODE',
+      payload: makeNode(`n${i}`),
+    }));
+
+    const history = run(reducer, actions);
+
+    expect(history.entries).toHaveLength(5);
+    expect(history.index).toBe(4);
+  });
+
+  it('should jump to an arbitrary history entry', () => {
+    const reducer = withHistory(testReducer);
+    let history = run(reducer, [
+      { type: 'ADD_NODE', payload: makeNode('a') },
+      { type: 'ADD_NODE', payload: makeNode('b') },
+      { type: 'ADD_NODE', payload: makeNode('c') },
+    ]);
+
+    history = reducer(history, { type: 'JUMP_TO_HISTORY', payload: history.entries[1].id });
+    expect(history.present.nodes.map((n) => n.id)).toEqual(['a']);
+    expect(history.index).toBe(1);
+  });
+
+  it('should record a merged import as a single undoable entry', () => {
+    const reducer = withHistory(testReducer);
+    let history = run(reducer, [{ type: 'ADD_NODE', payload: makeNode('a') }]);
+
+    history = reducer(history, {
+      type: 'MERGE_CANVAS',
+      payload: { nodes: [makeNode('x'), makeNode('y')], edges: [{ id: 'e', source: 'x', target: 'y' }] },
+    });
+    expect(history.entries[history.index].label).toBe('Add 2 nodes');
+
+    history = reducer(history, { type: 'UNDO' });
+    expect(history.present.nodes.map((n) => n.id)).toEqual(['a']);
+    expect(history.present.edges).toEqual([]);
+  });
+
+  it('should keep the previous diagram undoable when it is replaced', () => {
+    const reducer = withHistory(testReducer);
+    let history = run(reducer, [{ type: 'ADD_NODE', payload: makeNode('a') }]);
+
+    history = reducer(history, { type: 'REPLACE_CANVAS', payload: { nodes: [makeNode('x')], edges: [] } });
+    expect(history.entries[history.index].label).toBe('Replace diagram');
+
+    history = reducer(history, { type: 'UNDO' });
+    expect(history.present.nodes.map((n) => n.id)).toEqual(['a']);
+  });
+
+  it('should start a fresh history when a canvas is loaded', () => {
+    const reducer = withHistory(testReducer);
+    let history = run(reducer, [{ type: 'ADD_NODE', payload: makeNode('a') }]);
+
+    history = reducer(history, { type: 'LOAD_CANVAS', payload: { nodes: [makeNode('x')], edges: [] } });
+
+    expect(history.entries).toHaveLength(1);
+    expect(history.entries[0].label).toBe('Open project');
+    expect(history.present.nodes.map((n) => n.id)).toEqual(['x']);
+  });
+});
+
+describe('Canvas Context - Undo/Redo', () => {
+  it('should expose undo and redo through the context', () => {
+    const { result } = renderHook(() => useCanvas(), { wrapper: CanvasProvider });
+
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => {
+      result.current.addNode(makeNode('ec2-1', 'EC2 Instance'));
+    });
+
+    expect(result.current.canUndo).toBe(true);
+    expect(result.current.history.entries.map((e) => e.label)).toEqual(['Initial state', 'Add EC2 Instance']);
+
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(result.current.state.nodes).toHaveLength(0);
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => {
+      result.current.redo();
+    });
+
+    expect(result.current.state.nodes).toHaveLength(1);
+  });
+});
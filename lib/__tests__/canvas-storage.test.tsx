@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CANVAS_SCHEMA_VERSION,
+  CanvasStorage,
+  CanvasStorageError,
+  createProject,
+  deleteProject,
+  getActiveProjectId,
+  getProjectFileName,
+  importProject,
+  listProjects,
+  loadProject,
+  migrateCanvasDocument,
+  parseCanvasDocument,
+  renameProject,
+  saveProject,
+  serializeCanvasDocument,
+  setActiveProjectId,
+} from '../canvas-storage';
+import { Node, Edge } from '@/types';
+
+function createMemoryStorage(): CanvasStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+const ec2Node: Node = {
+  id: 'ec2-1',
+  type: 'ec2',
+  position: { x: 10, y: 20 },
+  data: { label: 'Web Server', properties: { instanceType: 't2.micro' } },
+};
+
+const s3Node: Node = {
+  id: 's3-1',
+  type: 's3',
+  position: { x: 100, y: 200 },
+  data: { label: 'Assets', properties: { bucketName: 'assets' } },
+};
+
+const edge: Edge = { id: 'edge-1', source: 'ec2-1', target: 's3-1', type: 'default' };
+
+describe('canvas-storage', () => {
+  let storage: CanvasStorage;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+  });
+
+  describe('project lifecycle', () => {
+    it('should create, save and load a project', () => {
+      const created = createProject('My Diagram', storage);
+      saveProject(created.project.id, [ec2Node, s3Node], [edge], storage);
+
+      const loaded = loadProject(created.project.id, storage);
+
+      expect(loaded?.project.name).toBe('My Diagram');
+      expect(loaded?.nodes).toEqual([ec2Node, s3Node]);
+      expect(loaded?.edges).toEqual([edge]);
+      expect(loaded?.schemaVersion).toBe(CANVAS_SCHEMA_VERSION);
+    });
+
+    it('should list multiple projects', () => {
+      createProject('First', storage);
+      createProject('Second', storage);
+
+      const names = listProjects(storage).map((project) => project.name);
+      expect(names).toHaveLength(2);
+      expect(names).toEqual(expect.arrayContaining(['First', 'Second']));
+    });
+
+    it('should rename a project without touching its diagram', () => {
+      const created = createProject('Old Name', storage);
+      saveProject(created.project.id, [ec2Node], [], storage);
+
+      renameProject(created.project.id, 'New Name', storage);
+
+      const loaded = loadProject(created.project.id, storage);
+      expect(loaded?.project.name).toBe('New Name');
+      expect(loaded?.nodes).toEqual([ec2Node]);
+      expect(listProjects(storage)[0].name).toBe('New Name');
+    });
+
+    it('should delete a project and clear it as active', () => {
+      const created = createProject('Doomed', storage);
+      setActiveProjectId(created.project.id, storage);
+
+      deleteProject(created.project.id, storage);
+
+      expect(loadProject(created.project.id, storage)).toBeNull();
+      expect(listProjects(storage)).toHaveLength(0);
+      expect(getActiveProjectId(storage)).toBeNull();
+    });
+
+    it('should throw when saving a project that does not exist', () => {
+      expect(() => saveProject('missing', [], [], storage)).toThrow(CanvasStorageError);
+    });
+  });
+
+  describe('serialization', () => {
+    it('should strip transient React Flow fields when serializing', () => {
+      const created = createProject('Transient', storage);
+      const selectedNode = { ...ec2Node, selected: true, measured: { width: 64, height: 64 } } as Node;
+
+      const json = serializeCanvasDocument({ ...created, nodes: [selectedNode] });
+      const parsed = JSON.parse(json);
+
+      expect(parsed.nodes[0]).toEqual(ec2Node);
+    });
+
+    it('should keep edge settings through a save and load', () => {
+      const created = createProject('Ports', storage);
+      const configured = { ...edge, selected: true, data: { ports: [8080, 8443] } } as Edge;
+      saveProject(created.project.id, [ec2Node, s3Node], [configured], storage);
+
+      expect(loadProject(created.project.id, storage)?.edges).toEqual([{ ...edge, data: { ports: [8080, 8443] } }]);
+    });
+
+    it('should keep the connection kind, protocol, direction and label', () => {
+      const data = { kind: 'network', protocol: 'udp', direction: 'two-way', label: 'Metrics' };
+      const created = createProject('Metadata', storage);
+      const json = serializeCanvasDocument({ ...created, nodes: [ec2Node, s3Node], edges: [{ ...edge, data } as Edge] });
+
+      expect(JSON.parse(json).edges[0].data).toEqual(data);
+      expect(parseCanvasDocument(json).edges[0].data).toEqual(data);
+    });
+
+    it('should drop edges that reference missing nodes', () => {
+      const created = createProject('Dangling', storage);
+      const json = serializeCanvasDocument({ ...created, nodes: [ec2Node], edges: [edge] });
+
+      expect(parseCanvasDocument(json).edges).toEqual([]);
+    });
+
+    it('should keep container placement and drop references to missing containers', () => {
+      const created = createProject('Containers', storage);
+      const vpcNode: Node = {
+        id: 'vpc-1',
+        type: 'vpc',
+        position: { x: 0, y: 0 },
+        width: 400,
+        height: 300,
+        data: { label: 'Main', properties: {} },
+      };
+      const child: Node = { ...ec2Node, parentId: 'vpc-1' };
+      const orphan: Node = { ...s3Node, parentId: 'vpc-missing' };
+
+      // Children listed before their container are reordered for React Flow
+      const json = serializeCanvasDocument({ ...created, nodes: [child, vpcNode, orphan] });
+      const { nodes } = parseCanvasDocument(json);
+
+      expect(nodes.map((node) => node.id)).toEqual(['vpc-1', 'ec2-1', 's3-1']);
+      expect(nodes[0]).toMatchObject({ width: 400, height: 300 });
+      expect(nodes[1].parentId).toBe('vpc-1');
+      expect(nodes[2].parentId).toBeUndefined();
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseCanvasDocument('{not json')).toThrow(CanvasStorageError);
+    });
+
+    it('should import a project file as a new project', () => {
+      const original = createProject('Shared', storage);
+      const json = serializeCanvasDocument({ ...original, nodes: [ec2Node, s3Node], edges: [edge] });
+
+      const imported = importProject(json, storage);
+
+      expect(imported.project.id).not.toBe(original.project.id);
+      expect(imported.nodes).toHaveLength(2);
+      expect(listProjects(storage)).toHaveLength(2);
+    });
+
+    it('should build a safe file name', () => {
+      expect(getProjectFileName('Prod VPC / v2')).toBe('prod-vpc-v2.infracanvas.json');
+      expect(getProjectFileName('!!!')).toBe('project.infracanvas.json');
+    });
+  });
+
+  describe('migrations', () => {
+    it('should upgrade a legacy unversioned document', () => {
+      const migrated = migrateCanvasDocument({ nodes: [ec2Node], edges: [] });
+
+      expect(migrated.schemaVersion).toBe(CANVAS_SCHEMA_VERSION);
+      expect(migrated.project.name).toBe('Imported Project');
+      expect(migrated.nodes).toEqual([ec2Node]);
+    });
+
+    it('should refuse documents from a newer schema version', () => {
+      expect(() =>
+        migrateCanvasDocument({
+          schemaVersion: CANVAS_SCHEMA_VERSION + 1,
+          project: { id: 'p', name: 'Future' },
+          nodes: [],
+          edges: [],
+        })
+      ).toThrow(/schema version/);
+    });
+  });
+});
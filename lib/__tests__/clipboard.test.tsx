@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge, ResourceTypeId } from '@/types';
+import { copySelection, serializeClipboard, parseClipboard, pasteClipboard, PASTE_OFFSET } from '../clipboard';
+
+function makeNode(id: string, type: ResourceTypeId, position: { x: number; y: number }, parentId?: string): Node {
+  return { id, type, position, data: { label: id, properties: {} }, ...(parentId ? { parentId } : {}) };
+}
+
+const nodes: Node[] = [
+  makeNode('vpc', 'vpc', { x: 0, y: 0 }),
+  makeNode('subnet', 'subnet', { x: 20, y: 40 }, 'vpc'),
+  makeNode('web', 'ec2', { x: 10, y: 50 }, 'subnet'),
+  { ...makeNode('db', 'rds', { x: 500, y: 0 }), selected: true },
+  makeNode('bucket', 's3', { x: 800, y: 0 }),
+];
+const edges: Edge[] = [
+  { id: 'e1', source: 'web', target: 'db' },
+  { id: 'e2', source: 'web', target: 'bucket' },
+];
+
+describe('copySelection', () => {
+  it('should copy container contents and only the connections between copied nodes', () => {
+    const payload = copySelection(nodes, edges, ['subnet', 'db'])!;
+
+    expect(payload.nodes.map((node) => node.id)).toEqual(['subnet', 'web', 'db']);
+    expect(payload.edges.map((edge) => edge.id)).toEqual(['e1']);
+    // The subnet was copied without its VPC, so it keeps its place on screen at the top level
+    expect(payload.nodes[0].parentId).toBeUndefined();
+    expect(payload.nodes[0].position).toEqual({ x: 20, y: 40 });
+    expect(payload.nodes[1].parentId).toBe('subnet');
+    expect(payload.nodes[2]).not.toHaveProperty('selected');
+  });
+
+  it('should keep the settings of copied connections', () => {
+    const configured = [{ ...edges[0], selected: true, data: { ports: [5432] } }, edges[1]];
+    const payload = parseClipboard(serializeClipboard(copySelection(nodes, configured, ['web', 'db'])!))!;
+
+    expect(payload.edges).toEqual([{ id: 'e1', source: 'web', target: 'db', data: { ports: [5432] } }]);
+    expect(pasteClipboard(payload, nodes, 'p').edges[0].data).toEqual({ ports: [5432] });
+  });
+
+  it('should keep the connection kind, protocol and label through copy and paste', () => {
+    const data = { kind: 'invokes', protocol: 'https', label: 'Orders API' } as const;
+    const payload = parseClipboard(serializeClipboard(copySelection(nodes, [{ ...edges[0], data }], ['web', 'db'])!))!;
+
+    expect(pasteClipboard(payload, nodes, 'p').edges).toEqual([
+      { id: 'edge-ec2-p-0-rds-p-1-p', source: 'ec2-p-0', target: 'rds-p-1', data },
+    ]);
+  });
+
+  it('should return null when nothing is selected', () => {
+    expect(copySelection(nodes, edges, [])).toBeNull();
+  });
+});
+
+describe('parseClipboard', () => {
+  it('should read copied diagrams and ignore other text', () => {
+    const payload = copySelection(nodes, edges, ['vpc'])!;
+
+    expect(parseClipboard(serializeClipboard(payload))).toEqual(payload);
+    expect(parseClipboard('ami-123456')).toBeNull();
+    expect(parseClipboard(JSON.stringify({ nodes: payload.nodes, edges: [] }))).toBeNull();
+  });
+});
+
+describe('pasteClipboard', () => {
+  it('should give the copies new ids and keep their containers and connections', () => {
+    const payload = copySelection(nodes, edges, ['subnet', 'db'])!;
+    const { nodes: pasted, edges: pastedEdges } = pasteClipboard(payload, nodes, 'p');
+
+    expect(pasted.map((node) => node.id)).toEqual(['subnet-p-0', 'ec2-p-1', 'rds-p-2']);
+    expect(pasted[1].parentId).toBe('subnet-p-0');
+    expect(pasted[1].position).toEqual({ x: 10, y: 50 });
+    expect(pastedEdges).toEqual([{ id: 'edge-ec2-p-1-rds-p-2-p', source: 'ec2-p-1', target: 'rds-p-2' }]);
+  });
+
+  it('should offset copies from nodes already at the same place', () => {
+    const payload = copySelection(nodes, edges, ['db'])!;
+
+    expect(pasteClipboard(payload, [], 'a').nodes[0].position).toEqual({ x: 500, y: 0 });
+    const first = pasteClipboard(payload, nodes, 'a').nodes;
+    expect(first[0].position).toEqual({ x: 500 + PASTE_OFFSET, y: PASTE_OFFSET });
+    // Pasting again moves the next copy further along
+    const second = pasteClipboard(payload, [...nodes, ...first], 'b').nodes;
+    expect(second[0].position).toEqual({ x: 500 + PASTE_OFFSET * 2, y: PASTE_OFFSET * 2 });
+  });
+});
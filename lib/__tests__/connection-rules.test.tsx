@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { areTypesCompatible, validateConnection, validateEdges } from '../connection-rules';
+import { connectionSemantics } from '../connection-semantics';
+import { Node, Edge, ResourceTypeId } from '@/types';
+
+function makeNode(id: string, type: ResourceTypeId): Node {
+  return { id, type, position: { x: 0, y: 0 }, data: { label: id, properties: {} } };
+}
+
+const nodes = [makeNode('web', 'ec2'), makeNode('db', 'rds'), makeNode('bucket', 's3'), makeNode('shield', 'waf')];
+
+describe('connection rules', () => {
+  it('should allow every pair that has connection semantics', () => {
+    for (const key of Object.keys(connectionSemantics)) {
+      const [caller, callee] = key.split(':') as [ResourceTypeId, ResourceTypeId];
+      expect(areTypesCompatible(caller, callee), key).toBe(true);
+      expect(areTypesCompatible(callee, caller), key).toBe(true);
+    }
+  });
+
+  it('should accept compatible connections in either direction', () => {
+    expect(validateConnection({ source: 'web', target: 'db' }, nodes, [])).toEqual({ valid: true });
+    expect(validateConnection({ source: 'db', target: 'web' }, nodes, [])).toEqual({ valid: true });
+  });
+
+  it('should reject self-loops, duplicates and missing nodes', () => {
+    const edges: Edge[] = [{ id: 'e1', source: 'web', target: 'db' }];
+
+    expect(validateConnection({ source: 'web', target: 'web' }, nodes, [])).toMatchObject({ valid: false });
+    expect(validateConnection({ source: 'db', target: 'web' }, nodes, edges)).toEqual({
+      valid: false,
+      reason: 'db and web are already connected',
+    });
+    expect(validateConnection({ source: 'web', target: null }, nodes, [])).toMatchObject({ valid: false });
+  });
+
+  it('should explain which types an incompatible resource can connect to', () => {
+    const result = validateConnection({ source: 'shield', target: 'bucket' }, nodes, []);
+
+    expect(result).toEqual({
+      valid: false,
+      reason: 'WAF / Firewall cannot connect to S3 Bucket. WAF / Firewall can connect to: Application Load Balancer, CloudFront Distribution',
+    });
+  });
+
+  it('should split loaded edges into valid and invalid ones', () => {
+    const edges: Edge[] = [
+      { id: 'e1', source: 'web', target: 'bucket' },
+      { id: 'e2', source: 'bucket', target: 'web' },
+      { id: 'e3', source: 'bucket', target: 'shield' },
+      { id: 'e4', source: 'web', target: 'missing' },
+    ];
+
+    const { valid, invalid } = validateEdges(nodes, edges);
+
+    expect(valid.map((edge) => edge.id)).toEqual(['e1']);
+    expect(invalid.map(({ edge }) => edge.id)).toEqual(['e2', 'e3', 'e4']);
+    expect(invalid[1].reason).toContain('S3 Bucket cannot connect to WAF / Firewall');
+  });
+});
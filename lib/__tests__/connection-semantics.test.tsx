@@ -0,0 +1,239 @@
+import { describe, it, expect } from 'vitest';
+import { getConnectionSemantic, connectionSemantics } from '../connection-semantics';
+import { generateTerraform } from '../terraform-generator';
+import { Node, Edge, ResourceTypeId } from '@/types';
+
+function makeNode(id: string, type: ResourceTypeId, label: string, properties: Record<string, unknown> = {}): Node {
+  return { id, type, position: { x: 0, y: 0 }, data: { label, properties } };
+}
+
+function edge(source: string, target: string): Edge {
+  return { id: `edge-${source}-${target}`, source, target };
+}
+
+/**
+ * Extracts a single resource block from generated code
+ */
+function getBlock(code: string, type: string, name: string): string {
+  const start = code.indexOf(`resource "${type}" "${name}" {`);
+  if (start === -1) return '';
+  const end = code.indexOf('\n}', start);
+  return code.slice(start, end + 2);
+}
+
+const vpc = makeNode('vpc-1', 'vpc', 'Main', { cidrBlock: '10.0.0.0/16' });
+const ec2 = makeNode('ec2-1', 'ec2', 'Web', { ami: 'ami-123', instanceType: 't2.micro' });
+const alb = makeNode('alb-1', 'alb', 'Front', { name: 'front', scheme: 'internet-facing' });
+const lambda = makeNode('lambda-1', 'lambda', 'Worker', { functionName: 'worker', runtime: 'nodejs20.x' });
+const table = makeNode('dynamodb-1', 'dynamodb', 'Orders', { tableName: 'orders', hashKey: 'id' });
+const api = makeNode('apigateway-1', 'apigateway', 'Public API', { name: 'public', protocolType: 'HTTP' });
+const waf = makeNode('waf-1', 'waf', 'Shield', { name: 'shield', scope: 'REGIONAL' });
+const bucket = makeNode('s3-1', 's3', 'Assets', { bucketName: 'assets' });
+
+describe('connection semantics', () => {
+  it('should look up semantics in either edge direction', () => {
+    expect(getConnectionSemantic('lambda', 'dynamodb')).toEqual({
+      semantic: connectionSemantics['lambda:dynamodb'],
+      reversed: false,
+    });
+    expect(getConnectionSemantic('dynamodb', 'lambda')?.reversed).toBe(true);
+    expect(getConnectionSemantic('s3', 'ec2')).toBeNull();
+  });
+
+  it('should place an EC2 instance connected to a VPC in one of its subnets', () => {
+    const code = generateTerraform([vpc, ec2], [edge('ec2-1', 'vpc-1')]);
+
+    expect(getBlock(code, 'aws_instance', 'web')).toContain('subnet_id = aws_subnet.main_subnet_a.id');
+    expect(getBlock(code, 'aws_subnet', 'main_subnet_a')).toContain('vpc_id            = aws_vpc.main.id');
+    expect(code).toContain('data "aws_availability_zones" "available"');
+    // The reference already orders the resources, so no depends_on is needed (it would form a cycle)
+    expect(code).not.toContain('depends_on');
+  });
+
+  it('should grant a Lambda function access to a connected DynamoDB table', () => {
+    const code = generateTerraform([lambda, table], [edge('lambda-1', 'dynamodb-1')]);
+
+    const policy = getBlock(code, 'aws_iam_role_policy', 'worker_orders_access');
+    expect(policy).toContain('role = aws_iam_role.worker_role.id');
+    expect(policy).toContain('"dynamodb:PutItem"');
+    expect(policy).toContain('Resource = [aws_dynamodb_table.orders.arn, "${aws_dynamodb_table.orders.arn}/index/*"]');
+
+    const fn = getBlock(code, 'aws_lambda_function', 'worker');
+    expect(fn).toContain('environment {');
+    expect(fn).toContain('ORDERS_TABLE_NAME = aws_dynamodb_table.orders.name');
+    expect(code).not.toContain('depends_on');
+  });
+
+  it('should wire the same resources when the edge is drawn the other way', () => {
+    const forward = generateTerraform([lambda, table], [edge('lambda-1', 'dynamodb-1')]);
+    const backward = generateTerraform([lambda, table], [edge('dynamodb-1', 'lambda-1')]);
+
+    expect(backward).toBe(forward);
+  });
+
+  it('should attach EC2 instances behind a load balancer', () => {
+    const code = generateTerraform(
+      [vpc, alb, ec2],
+      [edge('alb-1', 'vpc-1'), edge('alb-1', 'ec2-1'), edge('ec2-1', 'vpc-1')]
+    );
+
+    expect(getBlock(code, 'aws_lb', 'front')).toContain(
+      'subnets         = [aws_subnet.main_subnet_a.id, aws_subnet.main_subnet_b.id]'
+    );
+    expect(getBlock(code, 'aws_lb', 'front')).not.toContain('# Add subnet IDs');
+    expect(getBlock(code, 'aws_lb_target_group', 'front_tg')).toContain('vpc_id   = aws_vpc.main.id');
+    expect(getBlock(code, 'aws_lb_listener', 'front_http')).toContain('load_balancer_arn = aws_lb.front.arn');
+    expect(getBlock(code, 'aws_lb_target_group_attachment', 'front_web')).toContain(
+      'target_id        = aws_instance.web.id'
+    );
+    // Subnets shared by several connections are only emitted once
+    expect(code.match(/resource "aws_subnet" "main_subnet_a"/g)).toHaveLength(1);
+  });
+
+  it('should fall back to the default VPC for target groups without a VPC', () => {
+    const code = generateTerraform([alb, ec2], [edge('alb-1', 'ec2-1')]);
+
+    expect(code).toContain('data "aws_vpc" "default"');
+    expect(getBlock(code, 'aws_lb_target_group', 'front_tg')).toContain('vpc_id   = data.aws_vpc.default.id');
+  });
+
+  it('should integrate API Gateway with Lambda and associate WAF with the ALB', () => {
+    const code = generateTerraform([api, lambda, waf, alb], [edge('apigateway-1', 'lambda-1'), edge('waf-1', 'alb-1')]);
+
+    expect(getBlock(code, 'aws_apigatewayv2_integration', 'public_api_worker')).toContain(
+      'integration_uri        = aws_lambda_function.worker.invoke_arn'
+    );
+    expect(getBlock(code, 'aws_apigatewayv2_route', 'public_api_default')).toContain('route_key = "$default"');
+    expect(getBlock(code, 'aws_lambda_permission', 'public_api_worker_invoke')).toContain(
+      'principal     = "apigateway.amazonaws.com"'
+    );
+    expect(getBlock(code, 'aws_wafv2_web_acl_association', 'shield_front')).toContain(
+      'resource_arn = aws_lb.front.arn'
+    );
+  });
+
+  it('should trigger a Lambda function from an EventBridge rule and an SNS topic', () => {
+    const rule = makeNode('eventbridge-1', 'eventbridge', 'Nightly', { scheduleExpression: 'rate(1 day)' });
+    const topic = makeNode('sns-1', 'sns', 'Alerts', { topicName: 'alerts' });
+    const code = generateTerraform([rule, topic, lambda], [edge('eventbridge-1', 'lambda-1'), edge('lambda-1', 'sns-1')]);
+
+    expect(getBlock(code, 'aws_cloudwatch_event_target', 'nightly_worker')).toContain(
+      'arn  = aws_lambda_function.worker.arn'
+    );
+    expect(getBlock(code, 'aws_lambda_permission', 'nightly_worker_invoke')).toContain(
+      'principal     = "events.amazonaws.com"'
+    );
+    // Drawn from the function, the edge means publishing rather than a subscription
+    expect(getBlock(code, 'aws_iam_role_policy', 'worker_alerts_access')).toContain('"sns:Publish"');
+    expect(getBlock(code, 'aws_lambda_function', 'worker')).toContain('ALERTS_TOPIC_ARN = aws_sns_topic.alerts.arn');
+    expect(code).not.toContain('aws_sns_topic_subscription');
+  });
+
+  it('should give a Lambda function the URL of a connected queue', () => {
+    const queue = makeNode('sqs-1', 'sqs', 'Jobs', { queueName: 'jobs' });
+    const code = generateTerraform([lambda, queue], [edge('lambda-1', 'sqs-1')]);
+
+    expect(getBlock(code, 'aws_iam_role_policy', 'worker_jobs_access')).toContain('"sqs:SendMessage"');
+    expect(getBlock(code, 'aws_lambda_function', 'worker')).toContain('JOBS_QUEUE_URL = aws_sqs_queue.jobs.url');
+  });
+
+  it('should encrypt a secret with a connected KMS key', () => {
+    const secret = makeNode('secretsmanager-1', 'secretsmanager', 'Api Key', { secretName: 'api-key' });
+    const key = makeNode('kms-1', 'kms', 'Secrets Key', {});
+    const code = generateTerraform([secret, key], [edge('secretsmanager-1', 'kms-1')]);
+
+    expect(getBlock(code, 'aws_secretsmanager_secret', 'api_key')).toContain('kms_key_id = aws_kms_key.secrets_key.arn');
+  });
+
+  it('should keep depends_on for pairs without semantics', () => {
+    const code = generateTerraform([bucket, ec2], [edge('s3-1', 'ec2-1')]);
+
+    expect(getBlock(code, 'aws_instance', 'web')).toContain('depends_on = [aws_s3_bucket.assets]');
+  });
+});
+
+describe('container placement', () => {
+  const inside = (node: Node, parentId: string): Node => ({ ...node, parentId });
+
+  const zone = makeNode('az-1', 'az', 'Zone A', { zone: 'eu-west-1a' });
+  const privateA = makeNode('subnet-1', 'subnet', 'Private A', { cidrBlock: '10.0.1.0/24', public: false });
+  const privateB = makeNode('subnet-2', 'subnet', 'Private B', { cidrBlock: '10.0.2.0/24', public: false });
+  const publicA = makeNode('subnet-3', 'subnet', 'Public A', { cidrBlock: '10.0.10.0/24', public: true });
+  const db = makeNode('rds-1', 'rds', 'Orders DB', { engine: 'postgres' });
+
+  it('should place resources in the subnet and availability zone they are drawn in', () => {
+    const code = generateTerraform(
+      [vpc, inside(zone, 'vpc-1'), inside(privateA, 'az-1'), inside(ec2, 'subnet-1')],
+      []
+    );
+
+    const subnet = getBlock(code, 'aws_subnet', 'private_a');
+    expect(subnet).toContain('cidr_block              = "10.0.1.0/24"');
+    expect(subnet).toContain('vpc_id            = aws_vpc.main.id');
+    expect(subnet).toContain('availability_zone = "eu-west-1a"');
+    expect(getBlock(code, 'aws_instance', 'web')).toContain('subnet_id = aws_subnet.private_a.id');
+    // Availability zones are a grouping only
+    expect(code).not.toContain('aws_resource');
+  });
+
+  it('should build a DB subnet group from the subnets of the same tier', () => {
+    const code = generateTerraform(
+      [vpc, inside(privateA, 'vpc-1'), inside(privateB, 'vpc-1'), inside(publicA, 'vpc-1'), inside(db, 'subnet-1')],
+      []
+    );
+
+    expect(getBlock(code, 'aws_db_subnet_group', 'orders_db_subnets')).toContain(
+      'subnet_ids = [aws_subnet.private_a.id, aws_subnet.private_b.id]'
+    );
+    expect(getBlock(code, 'aws_db_instance', 'orders_db')).toContain(
+      'db_subnet_group_name   = aws_db_subnet_group.orders_db_subnets.name'
+    );
+  });
+
+  it('should prefer containment over an edge to the enclosing VPC', () => {
+    const code = generateTerraform(
+      [vpc, inside(privateA, 'vpc-1'), inside(ec2, 'subnet-1')],
+      [edge('ec2-1', 'vpc-1')]
+    );
+
+    expect(getBlock(code, 'aws_instance', 'web')).toContain('subnet_id = aws_subnet.private_a.id');
+    expect(code).not.toContain('main_subnet_a');
+    expect(code).not.toContain('depends_on');
+  });
+
+  it('should use generated subnets for resources placed directly in a VPC', () => {
+    const code = generateTerraform([vpc, inside(alb, 'vpc-1')], []);
+
+    expect(getBlock(code, 'aws_lb', 'front')).toContain(
+      'subnets         = [aws_subnet.main_subnet_a.id, aws_subnet.main_subnet_b.id]'
+    );
+  });
+
+  it('should run containers and caches in the subnets they are drawn in', () => {
+    const service = makeNode('ecs-1', 'ecs', 'Api', { serviceName: 'api' });
+    const cache = makeNode('elasticache-1', 'elasticache', 'Sessions', { engine: 'redis' });
+    const code = generateTerraform(
+      [vpc, inside(privateA, 'vpc-1'), inside(privateB, 'vpc-1'), inside(service, 'subnet-1'), inside(cache, 'subnet-2')],
+      []
+    );
+
+    expect(getBlock(code, 'aws_ecs_service', 'api')).toContain(
+      'subnets          = [aws_subnet.private_a.id, aws_subnet.private_b.id]'
+    );
+    expect(getBlock(code, 'aws_elasticache_subnet_group', 'sessions_subnets')).toContain(
+      'subnet_ids = [aws_subnet.private_a.id, aws_subnet.private_b.id]'
+    );
+    expect(getBlock(code, 'aws_elasticache_cluster', 'sessions')).toContain(
+      'subnet_group_name  = aws_elasticache_subnet_group.sessions_subnets.name'
+    );
+  });
+
+  it('should attach gateways and security groups to the VPC they are drawn in', () => {
+    const gateway = makeNode('internetgateway-1', 'internetgateway', 'Gateway', {});
+    const group = makeNode('securitygroup-1', 'securitygroup', 'Web SG', { name: 'web', ingressPorts: ['443'] });
+    const code = generateTerraform([vpc, inside(gateway, 'vpc-1'), inside(group, 'vpc-1')], []);
+
+    expect(getBlock(code, 'aws_internet_gateway', 'gateway')).toContain('vpc_id = aws_vpc.main.id');
+    expect(getBlock(code, 'aws_security_group', 'web_sg')).toContain('vpc_id = aws_vpc.main.id');
+  });
+});
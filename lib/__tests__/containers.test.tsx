@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import {
+  canContain,
+  findDropTarget,
+  getAbsolutePosition,
+  getSubtreeIds,
+  orderByParent,
+  setNodeParent,
+} from '../containers';
+import { CanvasProvider, useCanvas } from '../canvas-context';
+import { Node, ResourceTypeId } from '@/types';
+
+function makeNode(
+  id: string,
+  type: ResourceTypeId,
+  position: { x: number; y: number },
+  extra: Partial<Node> = {}
+): Node {
+  return { id, type, position, data: { label: id, properties: {} }, ...extra };
+}
+
+// VPC at (100, 100) containing a subnet at (50, 50) relative, which contains an instance
+const vpc = makeNode('vpc', 'vpc', { x: 100, y: 100 }, { width: 500, height: 400 });
+const subnet = makeNode('subnet', 'subnet', { x: 50, y: 50 }, { parentId: 'vpc', width: 200, height: 150 });
+const web = makeNode('web', 'ec2', { x: 20, y: 30 }, { parentId: 'subnet' });
+const bucket = makeNode('bucket', 's3', { x: 800, y: 100 });
+const nodes = [vpc, subnet, web, bucket];
+
+describe('containers', () => {
+  it('should only accept VPC-scoped resources inside containers', () => {
+    expect(canContain('subnet', 'ec2')).toBe(true);
+    expect(canContain('vpc', 'subnet')).toBe(true);
+    expect(canContain('subnet', 'vpc')).toBe(false);
+    expect(canContain('vpc', 's3')).toBe(false);
+  });
+
+  it('should resolve absolute positions through nested containers', () => {
+    expect(getAbsolutePosition(web, nodes)).toEqual({ x: 170, y: 180 });
+  });
+
+  it('should pick the innermost container that accepts the node', () => {
+    expect(findDropTarget(nodes, 'ec2', { x: 200, y: 200 })?.id).toBe('subnet');
+    expect(findDropTarget(nodes, 'ec2', { x: 500, y: 450 })?.id).toBe('vpc');
+    expect(findDropTarget(nodes, 'ec2', { x: 50, y: 50 })).toBeNull();
+    // Subnets cannot nest, so a subnet dropped on a subnet lands in the VPC
+    expect(findDropTarget(nodes, 'subnet', { x: 200, y: 200 })?.id).toBe('vpc');
+    expect(findDropTarget(nodes, 's3', { x: 200, y: 200 })).toBeNull();
+  });
+
+  it('should never offer a container as a drop target for itself or its children', () => {
+    expect(findDropTarget(nodes, 'subnet', { x: 200, y: 200 }, 'subnet')?.id).toBe('vpc');
+    expect(findDropTarget([vpc, makeNode('az', 'az', { x: 0, y: 0 }, { parentId: 'vpc' })], 'az', { x: 150, y: 150 }, 'vpc')).toBeNull();
+  });
+
+  it('should reparent a node without moving it on screen', () => {
+    const moved = setNodeParent(nodes, 'web', 'vpc');
+    const movedWeb = moved.find((node) => node.id === 'web')!;
+
+    expect(movedWeb.parentId).toBe('vpc');
+    expect(getAbsolutePosition(movedWeb, moved)).toEqual({ x: 170, y: 180 });
+
+    const detached = setNodeParent(moved, 'web', null);
+    const detachedWeb = detached.find((node) => node.id === 'web')!;
+    expect(detachedWeb).not.toHaveProperty('parentId');
+    expect(detachedWeb.position).toEqual({ x: 170, y: 180 });
+  });
+
+  it('should refuse to move a container into its own child', () => {
+    expect(setNodeParent(nodes, 'vpc', 'subnet')).toBe(nodes);
+  });
+
+  it('should order containers before their children', () => {
+    const ordered = orderByParent([web, subnet, bucket, vpc]).map((node) => node.id);
+
+    expect(ordered.indexOf('vpc')).toBeLessThan(ordered.indexOf('subnet'));
+    expect(ordered.indexOf('subnet')).toBeLessThan(ordered.indexOf('web'));
+  });
+
+  it('should collect a container together with everything nested in it', () => {
+    expect([...getSubtreeIds('vpc', nodes)].sort()).toEqual(['subnet', 'vpc', 'web']);
+  });
+});
+
+describe('containers in canvas state', () => {
+  it('should move nodes into containers as an undoable step', () => {
+    const { result } = renderHook(() => useCanvas(), { wrapper: CanvasProvider });
+
+    act(() => {
+      result.current.loadCanvas([vpc, bucket, makeNode('db', 'rds', { x: 150, y: 150 })], []);
+    });
+    act(() => {
+      result.current.setNodeParent('db', 'vpc');
+    });
+
+    expect(result.current.state.nodes.find((node) => node.id === 'db')).toMatchObject({
+      parentId: 'vpc',
+      position: { x: 50, y: 50 },
+    });
+    expect(result.current.history.entries.at(-1)?.label).toBe('Move db into vpc');
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.state.nodes.find((node) => node.id === 'db')?.parentId).toBeUndefined();
+  });
+
+  it('should delete the contents of a deleted container', () => {
+    const { result } = renderHook(() => useCanvas(), { wrapper: CanvasProvider });
+
+    act(() => {
+      result.current.loadCanvas(nodes, [{ id: 'e1', source: 'web', target: 'bucket' }]);
+    });
+    act(() => {
+      result.current.deleteNode('vpc');
+    });
+
+    expect(result.current.state.nodes.map((node) => node.id)).toEqual(['bucket']);
+    expect(result.current.state.edges).toEqual([]);
+  });
+});
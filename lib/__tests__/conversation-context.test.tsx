@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge } from '@/types';
+import {
+  ChatTurn,
+  estimateTokens,
+  truncateConversation,
+  describeCodeChange,
+  buildGraphContext,
+  formatGraphContext,
+} from '../conversation-context';
+
+const turns: ChatTurn[] = [
+  { role: 'user', content: 'Enable versioning on the logs bucket' },
+  { role: 'assistant', content: 'Proposed these changes to the code:\n+ status = "Enabled"' },
+  { role: 'user', content: 'Now do the same for the other bucket' },
+  { role: 'assistant', content: 'Proposed these changes to the code:\n+ status = "Enabled"' },
+];
+
+describe('truncateConversation', () => {
+  it('should keep every turn that fits in the budget', () => {
+    expect(truncateConversation(turns, 1000)).toEqual({ turns, omitted: 0, summary: null });
+  });
+
+  it('should keep the newest turns and summarise the older instructions', () => {
+    const budget = estimateTokens(turns[2].content) + estimateTokens(turns[3].content) + 20;
+
+    const result = truncateConversation(turns, budget);
+
+    expect(result.turns).toEqual(turns.slice(2));
+    expect(result.omitted).toBe(2);
+    expect(result.summary).toBe('Earlier instructions: "Enable versioning on the logs bucket"');
+  });
+
+  it('should not start the kept turns with an assistant reply', () => {
+    const budget = estimateTokens(turns[3].content);
+
+    const result = truncateConversation(turns, budget);
+
+    expect(result.turns).toEqual([]);
+    expect(result.omitted).toBe(4);
+  });
+});
+
+describe('describeCodeChange', () => {
+  it('should list removed and added lines', () => {
+    expect(describeCodeChange('a\nb\nc', 'a\nx\nc')).toBe('Proposed these changes to the code:\n- b\n+ x');
+    expect(describeCodeChange('a', 'a')).toBe('Proposed no changes to the code.');
+  });
+});
+
+describe('buildGraphContext', () => {
+  const nodes: Node[] = [
+    { id: 'vpc-1', type: 'vpc', position: { x: 0, y: 0 }, data: { label: 'Main VPC', properties: { cidrBlock: '10.0.0.0/16' } } },
+    {
+      id: 'ec2-1',
+      type: 'ec2',
+      position: { x: 50, y: 50 },
+      parentId: 'vpc-1',
+      data: { label: 'Web', properties: { instanceType: 't3.micro', ami: 'ami-123' } },
+    },
+    { id: 's3-1', type: 's3', position: { x: 300, y: 0 }, data: { label: 'Assets', properties: { bucketName: 'assets' } } },
+  ];
+  const edges: Edge[] = [{ id: 'edge-ec2-1-s3-1', source: 'ec2-1', target: 's3-1' }];
+
+  it('should describe resources by address with their container and connections', () => {
+    const graph = buildGraphContext(nodes, edges);
+
+    expect(graph.resources[1]).toEqual({
+      address: 'aws_instance.web',
+      type: 'ec2',
+      label: 'Web',
+      properties: { instanceType: 't3.micro', ami: 'ami-123' },
+      container: 'Main VPC',
+    });
+    expect(graph.connections).toEqual([{ from: 'aws_instance.web', to: 'aws_s3_bucket.assets', kind: 'data' }]);
+  });
+
+  it('should leave out properties when the diagram does not fit the budget', () => {
+    const graph = buildGraphContext(nodes, edges);
+    const compact = formatGraphContext(graph, estimateTokens(JSON.stringify(graph)) - 1);
+
+    expect(compact).not.toContain('instanceType');
+    expect(compact).toContain('aws_instance.web');
+  });
+
+  it('should never include sensitive property values', () => {
+    const db: Node = {
+      id: 'rds-1',
+      type: 'rds',
+      position: { x: 0, y: 0 },
+      data: { label: 'Orders DB', properties: { engine: 'postgres', credentials: 'variable', masterPassword: 'hunter2!' } },
+    };
+    const graph = buildGraphContext([db], []);
+
+    expect(graph.resources[0].properties).toEqual({ engine: 'postgres', credentials: 'variable' });
+    // Graphs built by other clients are redacted again before they reach a prompt
+    const sent = { ...graph, resources: [{ ...graph.resources[0], properties: db.data.properties as Record<string, unknown> }] };
+    expect(formatGraphContext(sent, 10_000)).not.toContain('hunter2!');
+  });
+});
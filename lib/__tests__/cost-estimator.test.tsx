@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateNodeCost,
+  estimateDiagramCost,
+  formatCost,
+  priceCatalog,
+  defaultUsageAssumptions,
+  HOURS_PER_MONTH,
+} from '../cost-estimator';
+import { getResourceSchema } from '../resource-schemas';
+import { Node, ResourceTypeId } from '@/types';
+
+function makeNode(id: string, type: ResourceTypeId, properties: Record<string, unknown> = {}): Node {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { label: id, properties: { ...getResourceSchema(type).defaultProperties, ...properties } },
+  };
+}
+
+const optionsOf = (type: ResourceTypeId, field: string) =>
+  getResourceSchema(type).fields.find((candidate) => candidate.name === field)?.options ?? [];
+
+describe('cost estimator', () => {
+  it('should have a price for every priced option in the resource schemas', () => {
+    expect(optionsOf('ec2', 'instanceType').filter((option) => !(option in priceCatalog.ec2.hourly))).toEqual([]);
+    expect(optionsOf('rds', 'instanceClass').filter((option) => !(option in priceCatalog.rds.hourly))).toEqual([]);
+    expect(optionsOf('rds', 'engine').filter((option) => !(option in priceCatalog.rds.engineMultiplier))).toEqual([]);
+    expect(
+      optionsOf('apigateway', 'protocolType').filter((option) => !(option in priceCatalog.apigateway.perMillionRequests))
+    ).toEqual([]);
+    expect(
+      optionsOf('elasticache', 'nodeType').filter((option) => !(option in priceCatalog.elasticache.hourly))
+    ).toEqual([]);
+  });
+
+  it('should price Fargate services by task size', () => {
+    const cost = estimateNodeCost(makeNode('api', 'ecs', { cpu: '512', memory: 1024, desiredCount: 2 }));
+    expect(cost.monthly).toBeCloseTo(
+      (2 * 0.5 * priceCatalog.ecs.perVcpuHour + 2 * 1 * priceCatalog.ecs.perGbHour) * HOURS_PER_MONTH
+    );
+  });
+
+  it('should price instances by the hour', () => {
+    const cost = estimateNodeCost(makeNode('web', 'ec2', { instanceType: 't3.micro' }));
+    expect(cost.monthly).toBeCloseTo(0.0104 * HOURS_PER_MONTH);
+
+    const db = estimateNodeCost(makeNode('db', 'rds', { instanceClass: 'db.t3.micro', engine: 'mysql', allocatedStorage: 100 }));
+    expect(db.items.map((item) => item.description)).toEqual(['db.t3.micro mysql instance', '100 GB storage']);
+    expect(db.monthly).toBeCloseTo(0.017 * HOURS_PER_MONTH + 100 * 0.115);
+  });
+
+  it('should scale usage-priced resources with the assumptions', () => {
+    const fn = makeNode('fn', 'lambda', { memory: 1024 });
+    const usage = { ...defaultUsageAssumptions, requestsPerMonth: 2_000_000, lambdaDurationMs: 500 };
+
+    // 2M requests at $0.20/M plus 2M * 0.5 s * 1 GB of compute
+    expect(estimateNodeCost(fn, usage).monthly).toBeCloseTo(0.4 + 1_000_000 * 0.0000166667);
+    expect(estimateNodeCost(fn, { ...usage, requestsPerMonth: 0 }).monthly).toBe(0);
+  });
+
+  it('should price DynamoDB by billing mode', () => {
+    const usage = { ...defaultUsageAssumptions, requestsPerMonth: 10_000_000, storageGb: 0, readRatio: 0.5 };
+
+    expect(estimateNodeCost(makeNode('t', 'dynamodb', { billingMode: 'PAY_PER_REQUEST' }), usage).monthly).toBeCloseTo(
+      5 * 0.25 + 5 * 1.25
+    );
+    expect(estimateNodeCost(makeNode('t', 'dynamodb', { billingMode: 'PROVISIONED' }), usage).monthly).toBeCloseTo(
+      5 * (0.00065 + 0.00013) * HOURS_PER_MONTH
+    );
+  });
+
+  it('should note configurations missing from the catalog instead of guessing', () => {
+    const cost = estimateNodeCost(makeNode('big', 'ec2', { instanceType: 'p4d.24xlarge' }));
+    expect(cost).toMatchObject({ monthly: 0, items: [], note: 'No price for instance type p4d.24xlarge' });
+  });
+
+  it('should total a diagram, with network containers free', () => {
+    const nodes = [makeNode('vpc', 'vpc'), makeNode('web', 'ec2'), makeNode('alb', 'alb')];
+    const estimate = estimateDiagramCost(nodes);
+
+    expect(estimate.nodes.map((cost) => cost.nodeId)).toEqual(['vpc', 'web', 'alb']);
+    expect(estimate.nodes[0]).toMatchObject({ monthly: 0, items: [] });
+    expect(estimate.total).toBeCloseTo(estimate.nodes[1].monthly + estimate.nodes[2].monthly);
+  });
+
+  it('should format monthly amounts', () => {
+    expect(formatCost(8.468)).toBe('$8.47');
+    expect(formatCost(1234.5)).toBe('$1,234.50');
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('<$0.01');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { readBlueprint, buildDiagramFromBlueprint, DiagramBlueprint } from '../diagram-blueprint';
+import { getResourceSchema } from '../resource-schemas';
+import { getAbsolutePosition, getNodeSize } from '../containers';
+
+const serverless: DiagramBlueprint = {
+  resources: [
+    { id: 'api', type: 'apigateway', label: 'Public API', properties: { name: 'orders-api' } },
+    { id: 'create', type: 'lambda', label: 'Create Order', properties: { runtime: 'python3.12' } },
+    { id: 'orders', type: 'dynamodb', label: 'Orders' },
+  ],
+  connections: [
+    { from: 'api', to: 'create' },
+    { from: 'create', to: 'orders' },
+  ],
+};
+
+describe('readBlueprint', () => {
+  it('should read resources and connections and reject other shapes', () => {
+    expect(readBlueprint({ resources: [{ id: 'a', type: 's3' }, 'junk'] })).toEqual({
+      resources: [{ id: 'a', type: 's3', label: undefined, properties: undefined, parent: undefined }],
+      connections: [],
+    });
+    expect(readBlueprint({ nodes: [] })).toBeNull();
+    expect(readBlueprint('diagram')).toBeNull();
+  });
+});
+
+describe('buildDiagramFromBlueprint', () => {
+  it('should create nodes with schema defaults and connect them', () => {
+    const { nodes, edges, issues } = buildDiagramFromBlueprint(serverless, { idPrefix: 't' });
+
+    expect(issues).toEqual([]);
+    expect(nodes.map((node) => node.type)).toEqual(['apigateway', 'lambda', 'dynamodb']);
+    expect(nodes[1].data).toEqual({
+      label: 'Create Order',
+      properties: { ...getResourceSchema('lambda').defaultProperties, runtime: 'python3.12' },
+    });
+    expect(edges.map((edge) => [edge.source, edge.target])).toEqual([
+      ['apigateway-t-0', 'lambda-t-1'],
+      ['lambda-t-1', 'dynamodb-t-2'],
+    ]);
+    // Dependencies are laid out left to right
+    expect(nodes[0].position.x).toBeLessThan(nodes[1].position.x);
+    expect(nodes[1].position.x).toBeLessThan(nodes[2].position.x);
+  });
+
+  it('should repair near misses and reject what the canvas cannot represent', () => {
+    const { nodes, edges, issues } = buildDiagramFromBlueprint({
+      resources: [
+        { id: 'web', type: 'aws_instance', properties: { instance_type: 'T3.SMALL', colour: 'blue' } },
+        { id: 'queue', type: 'kinesis' },
+        { id: 'db', type: 'rds', properties: { engine: 'cassandra', allocatedStorage: '50' } },
+        { id: 'waf', type: 'waf' },
+      ],
+      connections: [
+        { from: 'web', to: 'db' },
+        { from: 'web', to: 'queue' },
+        { from: 'waf', to: 'db' },
+      ],
+    });
+
+    expect(nodes.map((node) => node.type)).toEqual(['ec2', 'rds', 'waf']);
+    expect(nodes[0].data.properties).toMatchObject({ instanceType: 't3.small' });
+    expect(nodes[0].data.properties).not.toHaveProperty('colour');
+    expect(nodes[1].data.properties).toMatchObject({ engine: 'postgres', allocatedStorage: 50 });
+    expect(edges).toHaveLength(1);
+    expect(issues).toEqual([
+      expect.objectContaining({ status: 'repaired', subject: 'web' }),
+      expect.objectContaining({ status: 'repaired', subject: 'web.instance_type' }),
+      expect.objectContaining({ status: 'rejected', subject: 'web.colour' }),
+      expect.objectContaining({ status: 'rejected', subject: 'queue' }),
+      expect.objectContaining({ status: 'rejected', subject: 'db.engine' }),
+      expect.objectContaining({ status: 'repaired', subject: 'db.allocatedStorage' }),
+      expect.objectContaining({ status: 'rejected', subject: 'web -> queue' }),
+      expect.objectContaining({ status: 'rejected', subject: 'waf -> db' }),
+    ]);
+  });
+
+  it('should read maps, object lists and groups through their sub-fields', () => {
+    const { nodes, issues } = buildDiagramFromBlueprint({
+      resources: [
+        {
+          id: 'front',
+          type: 'alb',
+          properties: {
+            tags: { Team: 'core', Tier: 1 },
+            listeners: { port: 443, protocol: 'https', ssl: true },
+            access_logs: { bucket: 'logs' },
+          },
+        },
+      ],
+      connections: [],
+    });
+
+    expect(nodes[0].data.properties).toMatchObject({
+      tags: { Team: 'core', Tier: '1' },
+      listeners: [{ port: 443, protocol: 'HTTPS' }],
+      accessLogs: { bucket: 'logs' },
+    });
+    expect(issues).toEqual([
+      expect.objectContaining({ status: 'repaired', subject: 'front.tags' }),
+      expect.objectContaining({ status: 'repaired', subject: 'front.listeners' }),
+      expect.objectContaining({ status: 'repaired', subject: 'front.access_logs' }),
+    ]);
+  });
+
+  it('should nest resources in containers that fit them and lift invalid placements', () => {
+    const { nodes, issues } = buildDiagramFromBlueprint({
+      resources: [
+        { id: 'app', type: 'ec2', parent: 'private' },
+        { id: 'private', type: 'subnet', parent: 'main' },
+        { id: 'main', type: 'vpc' },
+        { id: 'assets', type: 's3', parent: 'main' },
+      ],
+      connections: [],
+    });
+    const byType = Object.fromEntries(nodes.map((node) => [node.type, node]));
+
+    // Parents come before their children, as React Flow requires
+    expect(nodes.map((node) => node.type)).toEqual(['vpc', 'subnet', 'ec2', 's3']);
+    expect(byType.ec2.parentId).toBe(byType.subnet.id);
+    expect(byType.subnet.parentId).toBe(byType.vpc.id);
+    expect(byType.s3.parentId).toBeUndefined();
+    expect(issues).toEqual([expect.objectContaining({ status: 'repaired', subject: 'assets' })]);
+
+    // The subnet fits inside the VPC
+    const subnet = getAbsolutePosition(byType.subnet, nodes);
+    const vpc = getAbsolutePosition(byType.vpc, nodes);
+    expect(subnet.x + getNodeSize(byType.subnet).width).toBeLessThanOrEqual(vpc.x + getNodeSize(byType.vpc).width);
+  });
+});
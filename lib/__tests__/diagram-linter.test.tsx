@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { lintDiagram, applyLintFixes, getHighestSeverity } from '../diagram-linter';
+import { getResourceSchema } from '../resource-schemas';
+import { Node, Edge, ResourceTypeId } from '@/types';
+
+function makeNode(id: string, type: ResourceTypeId, properties: Record<string, unknown> = {}, extra: Partial<Node> = {}): Node {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { label: id, properties: { ...getResourceSchema(type).defaultProperties, ...properties } },
+    ...extra,
+  };
+}
+
+const ruleIds = (nodes: Node[], edges: Edge[] = []) => lintDiagram(nodes, edges).map((finding) => finding.ruleId);
+
+describe('diagram linter', () => {
+  it('should flag unencrypted and unversioned buckets with fixes', () => {
+    const bucket = makeNode('bucket', 's3', { encryption: false, versioning: false });
+    const findings = lintDiagram([bucket], []);
+
+    expect(findings.map((finding) => [finding.ruleId, finding.severity])).toEqual([
+      ['S3_UNENCRYPTED', 'error'],
+      ['S3_UNVERSIONED', 'warning'],
+    ]);
+
+    const fixed = applyLintFixes([bucket], findings.map((finding) => finding.fix!));
+    expect(fixed[0].data.properties).toMatchObject({ encryption: true, versioning: true });
+    expect(lintDiagram(fixed, [])).toEqual([]);
+  });
+
+  it('should flag databases in public subnets and fix the subnet', () => {
+    const vpc = makeNode('vpc', 'vpc');
+    const subnet = makeNode('public', 'subnet', { public: true }, { parentId: 'vpc' });
+    const db = makeNode('db', 'rds', {}, { parentId: 'public' });
+
+    const [finding] = lintDiagram([vpc, subnet, db], []);
+    expect(finding).toMatchObject({ ruleId: 'RDS_PUBLIC_SUBNET', nodeId: 'db', category: 'security' });
+    expect(finding.fix).toMatchObject({ nodeId: 'public', properties: { public: false } });
+
+    expect(ruleIds(applyLintFixes([vpc, subnet, db], [finding.fix!]))).toEqual([]);
+  });
+
+  it('should require a WAF in front of internet-facing load balancers', () => {
+    const alb = makeNode('alb', 'alb', { scheme: 'internet-facing' });
+    const waf = makeNode('waf', 'waf');
+
+    expect(ruleIds([alb, waf])).toEqual(['ALB_WITHOUT_WAF', 'WAF_NOT_ATTACHED']);
+    expect(ruleIds([alb, waf], [{ id: 'e1', source: 'waf', target: 'alb' }])).toEqual([]);
+    expect(ruleIds([makeNode('internal', 'alb', { scheme: 'internal' })])).toEqual([]);
+  });
+
+  it('should flag databases connected directly to internet-facing entry points', () => {
+    const alb = makeNode('alb', 'alb');
+    const waf = makeNode('waf', 'waf');
+    const db = makeNode('db', 'rds');
+    const edges: Edge[] = [
+      { id: 'e1', source: 'waf', target: 'alb' },
+      { id: 'e2', source: 'alb', target: 'db' },
+    ];
+
+    const [finding] = lintDiagram([alb, waf, db], edges);
+    expect(finding).toMatchObject({ ruleId: 'RDS_INTERNET_FACING', nodeId: 'db' });
+    expect(finding.fix).toMatchObject({ nodeId: 'alb', properties: { scheme: 'internal' } });
+  });
+
+  it('should check instance access settings and Lambda memory', () => {
+    expect(ruleIds([makeNode('web', 'ec2')])).toEqual(['EC2_NO_KEY_PAIR']);
+    expect(ruleIds([makeNode('web', 'ec2', { keyName: 'ops' })])).toEqual([]);
+    expect(ruleIds([makeNode('fn', 'lambda', { memory: 128 })])).toEqual(['LAMBDA_LOW_MEMORY']);
+    expect(ruleIds([makeNode('fn', 'lambda', { memory: 512 })])).toEqual([]);
+  });
+
+  it('should treat nodes without properties as having none set', () => {
+    const bare = { id: 'bucket', type: 's3', position: { x: 0, y: 0 }, data: { label: 'bucket' } } as unknown as Node;
+    expect(ruleIds([bare])).toEqual(['S3_UNENCRYPTED', 'S3_UNVERSIONED']);
+  });
+
+  it('should order findings by severity and report the highest', () => {
+    const nodes = [makeNode('web', 'ec2'), makeNode('bucket', 's3', { encryption: false, versioning: false })];
+    const findings = lintDiagram(nodes, []);
+
+    expect(findings.map((finding) => finding.severity)).toEqual(['error', 'warning', 'info']);
+    expect(getHighestSeverity(findings)).toBe('error');
+    expect(getHighestSeverity([])).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { ReactNode } from 'react';
+import { renderHook, act, screen, fireEvent } from '@testing-library/react';
+import { inferEdgeKind, getEdgeKind, describeEdge } from '../edge-metadata';
+import { generateTerraform } from '../terraform-generator';
+import { CanvasProvider, useCanvas } from '../canvas-context';
+import { EdgePropertiesPanel } from '@/components/edge-properties-panel';
+import { Node, Edge, EdgeData, ResourceTypeId } from '@/types';
+
+function makeNode(id: string, type: ResourceTypeId, label: string, properties: Record<string, unknown> = {}): Node {
+  return { id, type, position: { x: 0, y: 0 }, data: { label, properties } };
+}
+
+function edge(source: string, target: string, data?: EdgeData): Edge {
+  return { id: `edge-${source}-${target}`, source, target, data };
+}
+
+/**
+ * Extracts a single resource block from generated code
+ */
+function getBlock(code: string, type: string, name: string): string {
+  const start = code.indexOf(`resource "${type}" "${name}" {`);
+  if (start === -1) return '';
+  const end = code.indexOf('\n}', start);
+  return code.slice(start, end + 2);
+}
+
+const web = makeNode('ec2-1', 'ec2', 'Web', { ami: 'ami-123', instanceType: 't2.micro' });
+const api = makeNode('ec2-2', 'ec2', 'API', { ami: 'ami-123', instanceType: 't2.micro' });
+const alb = makeNode('alb-1', 'alb', 'Front', { scheme: 'internal' });
+const db = makeNode('rds-1', 'rds', 'Orders DB', { engine: 'postgres', instanceClass: 'db.t3.micro', allocatedStorage: 20 });
+const worker = makeNode('lambda-1', 'lambda', 'Worker', { functionName: 'worker', runtime: 'nodejs20.x' });
+
+describe('edge kinds', () => {
+  it('should infer the relationship from the connected resource types', () => {
+    expect(inferEdgeKind('alb', 'ec2')).toBe('network');
+    expect(inferEdgeKind('lambda', 'rds')).toBe('network');
+    expect(inferEdgeKind('apigateway', 'lambda')).toBe('invokes');
+    expect(inferEdgeKind('lambda', 'dynamodb')).toBe('data');
+    expect(inferEdgeKind('sqs', 'lambda')).toBe('event');
+    expect(inferEdgeKind('lambda', 'sqs')).toBe('data');
+    expect(inferEdgeKind('kms', 's3')).toBe('iam');
+  });
+
+  it('should prefer the kind set on the edge and describe only what is set', () => {
+    const nodes = [web, db];
+    expect(getEdgeKind(edge('ec2-1', 'rds-1', { kind: 'iam' }), nodes)).toBe('iam');
+    expect(describeEdge(edge('ec2-1', 'rds-1'), nodes)).toEqual({ kind: 'network' });
+    expect(describeEdge(edge('ec2-1', 'rds-1', { protocol: 'tcp', ports: [5433], direction: 'one-way', label: 'Reports' }), nodes)).toEqual({
+      kind: 'network',
+      protocol: 'tcp',
+      ports: [5433],
+      label: 'Reports',
+    });
+  });
+});
+
+describe('edge metadata in generated code', () => {
+  it('should only open ports for network connections', () => {
+    const code = generateTerraform([worker, db], [edge('lambda-1', 'rds-1', { kind: 'iam' })]);
+
+    expect(code).not.toContain('aws_vpc_security_group_ingress_rule');
+    expect(code).not.toContain('vpc_config');
+    expect(code).toContain('secretsmanager:GetSecretValue');
+  });
+
+  it('should use the protocol, direction and label of an edge in its rules', () => {
+    const code = generateTerraform(
+      [web, api],
+      [edge('ec2-1', 'ec2-2', { ports: [5000], protocol: 'udp', direction: 'two-way', label: 'Metrics' })]
+    );
+
+    const rule = getBlock(code, 'aws_vpc_security_group_ingress_rule', 'api_from_web_udp_5000');
+    expect(rule).toContain('ip_protocol                  = "udp"');
+    expect(rule).toContain('description                  = "Metrics"');
+    expect(code).toContain('resource "aws_vpc_security_group_ingress_rule" "web_from_api_udp_5000"');
+  });
+
+  it('should keep tcp and udp rules for the same port apart', () => {
+    const code = generateTerraform(
+      [web, api],
+      [
+        edge('ec2-1', 'ec2-2', { ports: [53] }),
+        { ...edge('ec2-1', 'ec2-2', { ports: [53], protocol: 'udp' }), id: 'edge-dns-udp' },
+      ]
+    );
+
+    expect(getBlock(code, 'aws_vpc_security_group_ingress_rule', 'api_from_web_tcp_53')).toContain('"tcp"');
+    expect(getBlock(code, 'aws_vpc_security_group_ingress_rule', 'api_from_web_udp_53')).toContain('"udp"');
+  });
+
+  it('should serve load balancer targets on the protocol and port of the edge', () => {
+    const code = generateTerraform([alb, web], [edge('alb-1', 'ec2-1', { protocol: 'https', ports: [8443] })]);
+
+    expect(getBlock(code, 'aws_lb_target_group', 'front_tg')).toContain('port     = 8443');
+    expect(getBlock(code, 'aws_lb_target_group', 'front_tg')).toContain('protocol = "HTTPS"');
+    expect(getBlock(code, 'aws_lb_target_group_attachment', 'front_web')).toContain('port             = 8443');
+  });
+});
+
+describe('edge metadata on the canvas', () => {
+  // Shows the properties of the first edge, as the properties panel does for the selected one
+  function FirstEdgePanel() {
+    const { state } = useCanvas();
+    return state.edges[0] ? <EdgePropertiesPanel edge={state.edges[0]} /> : null;
+  }
+
+  it('should undo kind, protocol and label edits made in the edge panel', () => {
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <CanvasProvider>
+        {children}
+        <FirstEdgePanel />
+      </CanvasProvider>
+    );
+    const { result } = renderHook(() => useCanvas(), { wrapper });
+    act(() => {
+      result.current.addNode(web);
+      result.current.addNode(api);
+      result.current.addEdge(edge('ec2-1', 'ec2-2'));
+    });
+    const entries = result.current.history.entries.length;
+
+    act(() => {
+      result.current.updateEdge('edge-ec2-1-ec2-2', { kind: 'invokes', protocol: 'udp' });
+    });
+    fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'Metrics' } });
+
+    expect(result.current.state.edges[0].data).toEqual({ kind: 'invokes', protocol: 'udp', label: 'Metrics' });
+    // Quick successive edits of one edge are a single entry
+    expect(result.current.history.entries).toHaveLength(entries + 1);
+    expect(result.current.history.entries[entries].label).toBe('Edit connection');
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.state.edges[0].data).toBeUndefined();
+    expect(screen.getByLabelText('Label')).toHaveValue('');
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  resolveLLMConfig,
+  invokeLLM,
+  invokeLLMWithJSON,
+  streamLLM,
+  LLMProvider,
+  LLMAuthError,
+  LLMTimeoutError,
+  LLMUnavailableError,
+  JSONParseError,
+} from '../llm-provider';
+import { createOpenAIProvider, createOllamaProvider } from '../http-llm-providers';
+import { createMockProvider } from '../mock-llm-provider';
+import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
+import { createBedrockProvider, getBedrockModelFormat } from '../bedrock-client';
+
+const request = {
+  prompt: 'Hello',
+  route: 'analyze' as const,
+  modelId: 'test-model',
+  temperature: 0.3,
+  maxTokens: 256,
+  signal: new AbortController().signal,
+};
+
+function stubFetch(status: number, body: unknown) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('resolveLLMConfig', () => {
+  it('should default to Bedrock with per-route generation settings', () => {
+    expect(resolveLLMConfig('analyze', {})).toMatchObject({
+      provider: 'bedrock',
+      modelId: 'nvidia.nemotron-nano-12b-v2',
+      region: 'us-east-1',
+      temperature: 0.7,
+    });
+    expect(resolveLLMConfig('refine', {}).temperature).toBe(0.2);
+  });
+
+  it('should let route settings override global ones', () => {
+    const env = {
+      LLM_PROVIDER: 'openai',
+      LLM_MODEL: 'gpt-4o',
+      LLM_REFINE_MODEL: 'gpt-4.1',
+      LLM_REFINE_MAX_TOKENS: '8000',
+      OPENAI_BASE_URL: 'http://localhost:8000/v1',
+    };
+
+    expect(resolveLLMConfig('analyze', env)).toMatchObject({ modelId: 'gpt-4o', baseUrl: 'http://localhost:8000/v1' });
+    expect(resolveLLMConfig('refine', env)).toMatchObject({ modelId: 'gpt-4.1', maxTokens: 8000 });
+  });
+
+  it('should reject unknown providers and invalid numbers', () => {
+    expect(() => resolveLLMConfig('analyze', { LLM_PROVIDER: 'gemini' })).toThrow(LLMUnavailableError);
+    expect(() => resolveLLMConfig('analyze', { LLM_TEMPERATURE: 'warm' })).toThrow(LLMUnavailableError);
+  });
+});
+
+describe('HTTP providers', () => {
+  it('should call an OpenAI-compatible chat completions endpoint', async () => {
+    const fetchMock = stubFetch(200, { choices: [{ message: { content: 'Hi' } }] });
+    const provider = createOpenAIProvider({ baseUrl: 'http://localhost:8000/v1/', apiKey: 'sk-test' });
+
+    await expect(provider.complete(request)).resolves.toBe('Hi');
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:8000/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: 'test-model', temperature: 0.3, max_tokens: 256 });
+  });
+
+  it('should map rejected credentials and unreachable servers to LLM errors', async () => {
+    stubFetch(401, { error: 'bad key' });
+    await expect(createOpenAIProvider({ baseUrl: 'http://x' }).complete(request)).rejects.toBeInstanceOf(LLMAuthError);
+
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed'); }));
+    await expect(createOllamaProvider({ baseUrl: 'http://localhost:11434' }).complete(request)).rejects.toBeInstanceOf(
+      LLMUnavailableError
+    );
+  });
+
+  it('should read Ollama chat responses', async () => {
+    const fetchMock = stubFetch(200, { message: { content: 'Local' } });
+
+    await expect(createOllamaProvider({ baseUrl: 'http://localhost:11434' }).complete(request)).resolves.toBe('Local');
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(init.body as string)).toMatchObject({ stream: false, options: { num_predict: 256 } });
+  });
+});
+
+describe('invokeLLM', () => {
+  it('should answer every route offline with the mock provider', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+
+    const analysis = (await invokeLLMWithJSON('Analyze this AWS resource: {"id":"a","type":"ec2"}.', 'analyze')) as {
+      analysis: string;
+      suggestions: string[];
+    };
+    expect(analysis.suggestions).toHaveLength(3);
+    expect(analysis.analysis).toContain('ec2');
+
+    const simulation = (await invokeLLMWithJSON('Act as a deployment engine.', 'simulate')) as { steps: unknown[] };
+    expect(simulation.steps.length).toBeGreaterThanOrEqual(6);
+
+    const code = 'resource "aws_s3_bucket" "a" {}';
+    await expect(invokeLLM(`Current Terraform Code:\n${code}\n\nUser Instruction: 'x'`, 'refine')).resolves.toBe(code);
+  });
+
+  it('should time out slow providers', async () => {
+    vi.stubEnv('LLM_TIMEOUT_MS', '10');
+    const slow: LLMProvider = {
+      name: 'mock',
+      complete: ({ signal }) =>
+        new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted')))),
+    };
+
+    await expect(invokeLLM('Hello', 'analyze', slow)).rejects.toBeInstanceOf(LLMTimeoutError);
+  });
+
+  it('should parse fenced JSON and reject anything else', async () => {
+    const fenced = createMockProvider(() => '```json\n{"ok": true}\n```');
+    await expect(invokeLLMWithJSON('x', 'analyze', fenced)).resolves.toEqual({ ok: true });
+
+    const prose = createMockProvider(() => 'Sure! Here is the JSON');
+    await expect(invokeLLMWithJSON('x', 'analyze', prose)).rejects.toBeInstanceOf(JSONParseError);
+  });
+});
+
+describe('streamLLM', () => {
+  async function collect(fragments: AsyncIterable<string>) {
+    const received: string[] = [];
+    for await (const fragment of fragments) received.push(fragment);
+    return received;
+  }
+
+  it('should stream from the mock provider and fall back to whole completions', async () => {
+    const code = 'resource "aws_s3_bucket" "a" {\n  bucket = "a"\n}';
+    const prompt = `Current Terraform Code:\n${code}\n\nUser Instruction: 'x'`;
+
+    const fragments = await collect(streamLLM(prompt, 'refine', { provider: createMockProvider() }));
+    expect(fragments.length).toBeGreaterThan(1);
+    expect(fragments.join('')).toBe(code);
+
+    const completeOnly: LLMProvider = { name: 'mock', complete: async () => 'whole' };
+    await expect(collect(streamLLM('x', 'refine', { provider: completeOnly }))).resolves.toEqual(['whole']);
+  });
+
+  it('should read OpenAI-compatible server-sent events', async () => {
+    const body = ['Hel', 'lo'].map((content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+    vi.stubGlobal('fetch', vi.fn(async () => new Response([...body, 'data: [DONE]\n\n'].join(''), { status: 200 })));
+
+    const provider = createOpenAIProvider({ baseUrl: 'http://localhost:8000/v1' });
+    await expect(collect(streamLLM('x', 'analyze', { provider }))).resolves.toEqual(['Hel', 'lo']);
+  });
+
+  it('should throw a timeout after yielding the partial output', async () => {
+    vi.stubEnv('LLM_TIMEOUT_MS', '10');
+    const stalls: LLMProvider = {
+      name: 'mock',
+      complete: async () => '',
+      async *stream({ signal }) {
+        yield 'partial';
+        await new Promise((resolve) => signal.addEventListener('abort', resolve));
+      },
+    };
+
+    const received: string[] = [];
+    const error = await (async () => {
+      for await (const fragment of streamLLM('x', 'refine', { provider: stalls })) received.push(fragment);
+    })().catch((e) => e);
+
+    expect(received).toEqual(['partial']);
+    expect(error).toBeInstanceOf(LLMTimeoutError);
+  });
+
+  it('should stop quietly when the caller cancels', async () => {
+    const controller = new AbortController();
+    const endless: LLMProvider = {
+      name: 'mock',
+      complete: async () => '',
+      async *stream() {
+        while (true) yield 'x';
+      },
+    };
+
+    const received: string[] = [];
+    for await (const fragment of streamLLM('x', 'refine', { provider: endless, signal: controller.signal })) {
+      received.push(fragment);
+      if (received.length === 3) controller.abort();
+    }
+    expect(received).toHaveLength(3);
+  });
+});
+
+describe('Bedrock provider', () => {
+  it('should report a response in an unexpected format as unavailable', async () => {
+    vi.spyOn(BedrockRuntimeClient.prototype, 'send').mockImplementation(async () => ({
+      body: new TextEncoder().encode(JSON.stringify({ output: 'Hi' })),
+    }));
+    const provider = createBedrockProvider({ region: 'us-east-1', accessKeyId: 'AKIA', secretAccessKey: 'secret' });
+
+    await expect(provider.complete(request)).rejects.toBeInstanceOf(LLMUnavailableError);
+  });
+});
+
+describe('getBedrockModelFormat', () => {
+  it('should use the Messages API for Anthropic models and chat completions otherwise', () => {
+    const anthropic = getBedrockModelFormat('us.anthropic.claude-3-5-haiku-20241022-v1:0');
+    expect(anthropic.buildBody(request)).toMatchObject({ anthropic_version: 'bedrock-2023-05-31', max_tokens: 256 });
+    expect(anthropic.readText({ content: [{ type: 'text', text: 'A' }] })).toBe('A');
+    expect(anthropic.readDelta({ type: 'content_block_delta', delta: { text: 'a' } })).toBe('a');
+
+    const nemotron = getBedrockModelFormat('nvidia.nemotron-nano-12b-v2');
+    expect(nemotron.readText({ choices: [{ message: { content: 'B' } }] })).toBe('B');
+    expect(nemotron.readDelta({ choices: [{ delta: { content: 'b' } }] })).toBe('b');
+    expect(nemotron.readText({ content: [{ type: 'text', text: 'A' }] })).toBeUndefined();
+  });
+});
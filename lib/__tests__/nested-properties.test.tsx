@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { generateTerraform } from '../terraform-generator';
+import { importTerraform } from '../terraform-importer';
+import { Node, Edge, ResourceTypeId } from '@/types';
+
+function makeNode(id: string, type: ResourceTypeId, label: string, properties: Record<string, unknown> = {}): Node {
+  return { id, type, position: { x: 0, y: 0 }, data: { label, properties } };
+}
+
+function edge(source: string, target: string): Edge {
+  return { id: `edge-${source}-${target}`, source, target };
+}
+
+/**
+ * Extracts a single resource block from generated code
+ */
+function getBlock(code: string, type: string, name: string): string {
+  const start = code.indexOf(`resource "${type}" "${name}" {`);
+  if (start === -1) return '';
+  const end = code.indexOf('\n}', start);
+  return code.slice(start, end + 2);
+}
+
+const web = makeNode('ec2-1', 'ec2', 'Web', { ami: 'ami-123', instanceType: 't2.micro' });
+
+describe('map properties', () => {
+  it('should write tags after the Name tag, quoting keys that are not identifiers', () => {
+    const tagged = makeNode('ec2-1', 'ec2', 'Web', { tags: { Team: 'core', 'aws:cost-center': '42' } });
+
+    expect(getBlock(generateTerraform([tagged], []), 'aws_instance', 'web')).toContain(
+      '  tags = {\n    Name              = "Web"\n    Team              = "core"\n    "aws:cost-center" = "42"\n  }'
+    );
+  });
+
+  it('should let a Name tag replace the node label', () => {
+    const tagged = makeNode('ec2-1', 'ec2', 'Web', { tags: { Name: 'web-01' } });
+
+    expect(getBlock(generateTerraform([tagged], []), 'aws_instance', 'web')).toContain('  tags = {\n    Name = "web-01"\n  }');
+  });
+
+  it('should merge Lambda environment variables with those added by connections', () => {
+    const table = makeNode('dynamodb-1', 'dynamodb', 'Users', { tableName: 'users' });
+    const worker = makeNode('lambda-1', 'lambda', 'Worker', {
+      functionName: 'worker',
+      environment: { LOG_LEVEL: 'debug', USERS_TABLE_NAME: 'stale', '': 'ignored' },
+    });
+    const code = generateTerraform([table, worker], [edge('lambda-1', 'dynamodb-1')]);
+
+    expect(getBlock(code, 'aws_lambda_function', 'worker')).toContain(
+      '    variables = {\n      LOG_LEVEL        = "debug"\n      USERS_TABLE_NAME = aws_dynamodb_table.users.name\n    }'
+    );
+  });
+});
+
+describe('object list and group properties', () => {
+  it('should declare typed key attributes and global secondary indexes', () => {
+    const table = makeNode('dynamodb-1', 'dynamodb', 'Users', {
+      tableName: 'users',
+      billingMode: 'PROVISIONED',
+      hashKey: 'id',
+      attributes: [{ name: 'createdAt', type: 'N' }],
+      globalSecondaryIndexes: [{ name: 'by-email', hashKey: 'email', rangeKey: 'createdAt', projectionType: 'KEYS_ONLY' }],
+    });
+    const block = getBlock(generateTerraform([table], []), 'aws_dynamodb_table', 'users');
+
+    expect(block).toContain('  attribute {\n    name = "id"\n    type = "S"\n  }');
+    expect(block).toContain('  attribute {\n    name = "email"\n    type = "S"\n  }');
+    expect(block).toContain('  attribute {\n    name = "createdAt"\n    type = "N"\n  }');
+    expect(block).toContain(
+      [
+        '  global_secondary_index {',
+        '    name            = "by-email"',
+        '    hash_key        = "email"',
+        '    range_key       = "createdAt"',
+        '    projection_type = "KEYS_ONLY"',
+        '    read_capacity   = 5',
+        '    write_capacity  = 5',
+        '  }',
+      ].join('\n')
+    );
+  });
+
+  it('should write S3 lifecycle rules with their transition and expiration blocks', () => {
+    const bucket = makeNode('s3-1', 's3', 'Logs', {
+      bucketName: 'logs',
+      lifecycleRules: [
+        { id: 'archive', prefix: 'logs/', enabled: true, transition: { days: 30, storageClass: 'GLACIER' }, expiration: { days: 365 } },
+        { enabled: false, transition: {}, expiration: {} },
+      ],
+    });
+    const block = getBlock(generateTerraform([bucket], []), 'aws_s3_bucket_lifecycle_configuration', 'logs_lifecycle');
+
+    expect(block).toBe(
+      [
+        'resource "aws_s3_bucket_lifecycle_configuration" "logs_lifecycle" {',
+        '  bucket = aws_s3_bucket.logs.id',
+        '',
+        '  rule {',
+        '    id     = "archive"',
+        '    status = "Enabled"',
+        '',
+        '    filter {',
+        '      prefix = "logs/"',
+        '    }',
+        '',
+        '    transition {',
+        '      days          = 30',
+        '      storage_class = "GLACIER"',
+        '    }',
+        '',
+        '    expiration {',
+        '      days = 365',
+        '    }',
+        '  }',
+        '',
+        '  rule {',
+        '    id     = "rule-2"',
+        '    status = "Disabled"',
+        '',
+        '    filter {}',
+        '  }',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('should replace the default listener with the listeners set on a load balancer', () => {
+    const alb = makeNode('alb-1', 'alb', 'Front', {
+      name: 'front',
+      scheme: 'internet-facing',
+      listeners: [{ port: 443, protocol: 'HTTPS', certificateArn: 'arn:cert' }, { port: 443 }, { port: 8080, protocol: 'HTTP' }],
+      accessLogs: { bucket: 'logs', prefix: 'front' },
+    });
+    const code = generateTerraform([alb, web], [edge('alb-1', 'ec2-1')]);
+
+    expect(code).not.toContain('front_http');
+    expect(getBlock(code, 'aws_lb_listener', 'front_listener_443')).toContain('certificate_arn   = "arn:cert"');
+    expect(getBlock(code, 'aws_lb_listener', 'front_listener_8080')).toContain('target_group_arn = aws_lb_target_group.front_tg.arn');
+    expect(code.match(/resource "aws_lb_listener"/g)).toHaveLength(2);
+    expect(code).toContain('resource "aws_vpc_security_group_ingress_rule" "front_public_tcp_8080"');
+    expect(code).not.toContain('front_public_tcp_80"');
+    expect(getBlock(code, 'aws_lb', 'front')).toContain('  access_logs {\n    bucket  = "logs"\n    prefix  = "front"\n    enabled = true\n  }');
+  });
+
+  it('should answer 404 from listeners while no targets are connected', () => {
+    const alb = makeNode('alb-1', 'alb', 'Front', { name: 'front', listeners: [{ port: 80, protocol: 'HTTP' }] });
+
+    expect(getBlock(generateTerraform([alb], []), 'aws_lb_listener', 'front_listener_80')).toContain(
+      '    type = "fixed-response"\n\n    fixed_response {\n      content_type = "text/plain"\n      status_code  = "404"\n    }'
+    );
+  });
+});
+
+describe('importing nested blocks', () => {
+  it('should read tags, key attributes and indexes back into properties', () => {
+    const { nodes } = importTerraform(`
+resource "aws_dynamodb_table" "users" {
+  name     = "users"
+  hash_key = "id"
+
+  attribute {
+    name = "id"
+    type = "S"
+  }
+
+  global_secondary_index {
+    name            = "by-email"
+    hash_key        = "email"
+    projection_type = "ALL"
+  }
+
+  tags = {
+    Name = "Users"
+    Team = "core"
+    Env  = var.environment
+  }
+}
+`);
+
+    expect(nodes[0].data.label).toBe('Users');
+    expect(nodes[0].data.properties).toMatchObject({
+      attributes: [{ name: 'id', type: 'S' }],
+      globalSecondaryIndexes: [{ name: 'by-email', hashKey: 'email', projectionType: 'ALL' }],
+      tags: { Team: 'core' },
+    });
+  });
+});
@@ -16,53 +16,64 @@
 import { describe, it, expect } from 'vitest';
 import fc from 'fast-check';
 import { Node, ResourceTypeId } from '@/types/index';
-import { resourceSchemas, PropertyField } from '@/lib/resource-schemas';
+import { getResourceSchema, PropertyField } from '@/lib/resource-schemas';
+import { getResourceTypes } from '@/lib/resource-types';
+import { generateTerraform } from '@/lib/terraform-generator';
 
 // Arbitraries for generating test data
-const resourceTypeArb = fc.constantFrom<ResourceTypeId>('ec2', 's3', 'rds');
+const resourceTypeArb = fc.constantFrom(...getResourceTypes().map((config) => config.id));
 
 const positionArb = fc.record({
   x: fc.integer({ min: -1000, max: 1000 }),
   y: fc.integer({ min: -1000, max: 1000 }),
 });
 
-// Generate properties that conform to a specific resource schema
-function generateSchemaCompliantProperties(resourceType: ResourceTypeId): fc.Arbitrary<Record<string, any>> {
-  const schema = resourceSchemas[resourceType];
-  const propertyArbitraries: Record<string, fc.Arbitrary<any>> = {};
-
-  for (const field of schema.fields) {
-    switch (field.type) {
-      case 'text':
-        // For required text fields, ensure non-empty strings
-        if (field.required) {
-          propertyArbitraries[field.name] = fc.string({ minLength: 1, maxLength: 100 });
-        } else {
-          propertyArbitraries[field.name] = fc.string({ minLength: 0, maxLength: 100 });
-        }
-        break;
-      case 'number':
-        propertyArbitraries[field.name] = fc.integer({ min: 1, max: 1000 });
-        break;
-      case 'boolean':
-        propertyArbitraries[field.name] = fc.boolean();
-        break;
-      case 'select':
-        if (field.options && field.options.length > 0) {
-          propertyArbitraries[field.name] = fc.constantFrom(...field.options);
-        } else {
-          propertyArbitraries[field.name] = fc.string({ minLength: 1, maxLength: 50 });
-        }
-        break;
-      case 'array':
-        propertyArbitraries[field.name] = fc.array(fc.string(), { maxLength: 10 });
-        break;
-      default:
-        propertyArbitraries[field.name] = fc.anything();
-    }
+// Generate a value that conforms to a schema field, recursing into sub-fields
+function generateFieldValue(field: PropertyField): fc.Arbitrary<unknown> {
+  switch (field.type) {
+    case 'text':
+      // For required text fields, ensure non-empty strings
+      if (field.required) {
+        return fc.string({ minLength: 1, maxLength: 100 });
+      }
+      return fc.string({ minLength: 0, maxLength: 100 });
+    case 'number':
+      return fc.integer({ min: 1, max: 1000 });
+    case 'boolean':
+      return fc.boolean();
+    case 'select':
+      if (field.options && field.options.length > 0) {
+        return fc.constantFrom(...field.options);
+      }
+      return fc.string({ minLength: 1, maxLength: 50 });
+    case 'array':
+      return fc.array(fc.string(), { maxLength: 10 });
+    case 'map':
+      return fc.dictionary(
+        fc.string({ minLength: 1, maxLength: 20 }).filter((key) => key !== '__proto__'),
+        fc.string({ maxLength: 50 }),
+        { maxKeys: 5 }
+      );
+    case 'objectList':
+      return fc.array(generateObjectValue(field.fields ?? []), { maxLength: 3 });
+    case 'group':
+      return generateObjectValue(field.fields ?? []);
+    default:
+      return fc.anything();
+  }
+}
+
+function generateObjectValue(fields: PropertyField[]): fc.Arbitrary<Record<string, unknown>> {
+  const arbitraries: Record<string, fc.Arbitrary<unknown>> = {};
+  for (const field of fields) {
+    arbitraries[field.name] = generateFieldValue(field);
   }
+  return fc.record(arbitraries);
+}
 
-  return fc.record(propertyArbitraries);
+// Generate properties that conform to a specific resource schema
+function generateSchemaCompliantProperties(resourceType: ResourceTypeId): fc.Arbitrary<Record<string, unknown>> {
+  return generateObjectValue(getResourceSchema(resourceType).fields);
 }
 
 // Generate a node with schema-compliant properties
@@ -80,6 +91,10 @@ const schemaCompliantNodeArb = fc
     }));
   }) as fc.Arbitrary<Node>;
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 // Helper function to validate property type matches schema
 function validatePropertyType(value: any, field: PropertyField): boolean {
   switch (field.type) {
@@ -96,21 +111,21 @@ function validatePropertyType(value: any, field: PropertyField): boolean {
       return typeof value === 'string';
     case 'array':
       return Array.isArray(value);
+    case 'map':
+      return isPlainObject(value) && Object.values(value).every((item) => typeof item === 'string');
+    case 'objectList':
+      return Array.isArray(value) && value.every((item) => isPlainObject(item) && isCompliantWith(field.fields ?? [], item));
+    case 'group':
+      return isPlainObject(value) && isCompliantWith(field.fields ?? [], value);
     default:
       return true; // Unknown types pass by default
   }
 }
 
-// Helper function to check if node properties comply with schema
-function isSchemaCompliant(node: Node): boolean {
-  const schema = resourceSchemas[node.type];
-  if (!schema) return false;
-
-  const properties = node.data.properties;
-
-  // Check each field in the schema
-  for (const field of schema.fields) {
-    const value = properties[field.name];
+// Helper function to check values against fields: required ones present, all of the right type
+function isCompliantWith(fields: PropertyField[], values: Record<string, unknown>): boolean {
+  for (const field of fields) {
+    const value = values[field.name];
 
     // Check if required field is present
     if (field.required && (value === undefined || value === null || value === '')) {
@@ -128,9 +143,17 @@ function isSchemaCompliant(node: Node): boolean {
   return true;
 }
 
+// Helper function to check if node properties comply with schema
+function isSchemaCompliant(node: Node): boolean {
+  const schema = getResourceSchema(node.type);
+  if (!schema) return false;
+
+  return isCompliantWith(schema.fields, node.data.properties as Record<string, unknown>);
+}
+
 // Helper function to check if properties have only schema-defined fields
 function hasOnlySchemaFields(node: Node): boolean {
-  const schema = resourceSchemas[node.type];
+  const schema = getResourceSchema(node.type);
   if (!schema) return false;
 
   const properties = node.data.properties;
@@ -464,7 +487,7 @@ describe('Property 4: Property Schema Compliance', () => {
     fc.assert(
       fc.property(resourceTypeArb, fc.uuid(), positionArb, fc.string({ minLength: 1, maxLength: 50 }), (type, id, position, label) => {
         // Given: A node initialized with default properties from schema
-        const schema = resourceSchemas[type];
+        const schema = getResourceSchema(type);
         const defaultProps = { ...schema.defaultProperties };
         
         // Fill in required fields that have empty defaults with valid values
@@ -567,4 +590,115 @@ describe('Property 4: Property Schema Compliance', () => {
       { numRuns: 50 }
     );
   });
+
+  it('should validate map, object list and group properties against their sub-fields', () => {
+    fc.assert(
+      fc.property(
+        fc.uuid(),
+        positionArb,
+        fc.string({ minLength: 1, maxLength: 50 }),
+        generateSchemaCompliantProperties('alb'),
+        (id, position, label, properties) => {
+          // Given: A load balancer with generated tags, listeners and access logs
+          const node: Node = { id, type: 'alb', position, data: { label, properties } };
+
+          // When: We validate the node
+          const isCompliant = isSchemaCompliant(node);
+
+          // Then: The node should be compliant
+          expect(isCompliant).toBe(true);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should detect map entries that are not strings', () => {
+    const node: Node = {
+      id: 'lambda-1',
+      type: 'lambda',
+      position: { x: 0, y: 0 },
+      data: {
+        label: 'Worker',
+        properties: {
+          functionName: 'worker',
+          runtime: 'nodejs20.x',
+          handler: 'index.handler',
+          sourceType: 'archive',
+          environment: { RETRIES: 3 },
+        },
+      },
+    };
+
+    expect(isSchemaCompliant(node)).toBe(false);
+  });
+
+  it('should detect object list items missing a required sub-field', () => {
+    fc.assert(
+      fc.property(fc.uuid(), positionArb, fc.constantFrom('HTTP', 'HTTPS'), (id, position, protocol) => {
+        // Given: A load balancer listener without its required port
+        const node: Node = {
+          id,
+          type: 'alb',
+          position,
+          data: { label: 'Front', properties: { name: 'front', scheme: 'internal', listeners: [{ protocol }] } },
+        };
+
+        // Then: The node should not be compliant
+        expect(isSchemaCompliant(node)).toBe(false);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should detect groups that are not objects', () => {
+    const node: Node = {
+      id: 's3-1',
+      type: 's3',
+      position: { x: 0, y: 0 },
+      data: {
+        label: 'Assets',
+        properties: { bucketName: 'assets', lifecycleRules: [{ id: 'archive', transition: 'GLACIER' }] },
+      },
+    };
+
+    expect(isSchemaCompliant(node)).toBe(false);
+  });
+
+  it('should emit a nested block for every object list item', () => {
+    fc.assert(
+      fc.property(
+        generateSchemaCompliantProperties('dynamodb'),
+        generateSchemaCompliantProperties('s3'),
+        generateSchemaCompliantProperties('alb'),
+        (tableProperties, bucketProperties, albProperties) => {
+          // Given: Schema-compliant nodes with generated object lists
+          const nodes: Node[] = [
+            { id: 'dynamodb-1', type: 'dynamodb', position: { x: 0, y: 0 }, data: { label: 'Table', properties: tableProperties } },
+            { id: 's3-1', type: 's3', position: { x: 0, y: 0 }, data: { label: 'Bucket', properties: bucketProperties } },
+            { id: 'alb-1', type: 'alb', position: { x: 0, y: 0 }, data: { label: 'Front', properties: albProperties } },
+          ];
+
+          // When: We generate the Terraform code
+          const code = generateTerraform(nodes, []);
+          const count = (text: string, pattern: string) => text.split(pattern).length - 1;
+
+          // Then: Each index, lifecycle rule and listener port has its block
+          // (object list fields are generated as arrays of objects)
+          const indexes = tableProperties.globalSecondaryIndexes as unknown[];
+          const rules = bucketProperties.lifecycleRules as unknown[];
+          const listeners = albProperties.listeners as Array<{ port: number }>;
+          expect(count(code, '  global_secondary_index {')).toBe(indexes.length);
+
+          const lifecycleStart = code.indexOf('resource "aws_s3_bucket_lifecycle_configuration"');
+          const lifecycle = lifecycleStart === -1 ? '' : code.slice(lifecycleStart, code.indexOf('\n}', lifecycleStart));
+          expect(count(lifecycle, '\n  rule {')).toBe(rules.length);
+
+          const ports = new Set(listeners.map((listener) => listener.port));
+          expect(count(code, 'resource "aws_lb_listener"')).toBe(ports.size);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
 });
@@ -0,0 +1,170 @@
+/**
+ * Property-Based Test: Reference Integrity
+ *
+ * Property: Every reference in generated Terraform points at a resource,
+ * data source or variable that is defined in the same configuration
+ *
+ * Dangling references (e.g. a Lambda role that is never created) make
+ * `terraform validate` fail, so this is checked across all resource types
+ * and arbitrary connections between them.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Node, Edge, ResourceTypeId } from '@/types';
+import { generateTerraform, generateTerraformModule } from '@/lib/terraform-generator';
+import { getResourceSchema, PropertyField } from '@/lib/resource-schemas';
+import { getResourceTypes } from '@/lib/resource-types';
+import { parseHCL, HCLBlock, HCLValue, isHCLExpression } from '@/lib/hcl-parser';
+import { canContain } from '@/lib/containers';
+
+const resourceTypes = getResourceTypes().map((config) => config.id);
+
+function fieldArb(field: PropertyField): fc.Arbitrary<unknown> {
+  switch (field.type) {
+    case 'select':
+      return fc.constantFrom(...(field.options ?? [field.defaultValue]));
+    case 'boolean':
+      return fc.boolean();
+    case 'number':
+      return fc.integer({ min: 1, max: 1000 });
+    case 'array':
+      return fc.array(fc.stringMatching(/^sg-[a-f0-9]{8}$/), { maxLength: 2 });
+    default:
+      return fc.oneof(fc.constant(''), fc.stringMatching(/^[a-z][a-z0-9-]{0,15}$/));
+  }
+}
+
+// Built once per type; constructing arbitraries inside chain() on every run is slow
+const propertiesArbs = Object.fromEntries(
+  resourceTypes.map((type) => [
+    type,
+    fc.record(Object.fromEntries(getResourceSchema(type).fields.map((field) => [field.name, fieldArb(field)]))),
+  ])
+) as Record<ResourceTypeId, fc.Arbitrary<Record<string, unknown>>>;
+
+const nodeArb = (index: number) =>
+  fc.constantFrom(...resourceTypes).chain((type) =>
+    propertiesArbs[type].map(
+      (properties): Node => ({
+        id: `${type}-${index}`,
+        type,
+        position: { x: 0, y: 0 },
+        // Unique labels keep resource names unique
+        data: { label: `${type} ${index}`, properties },
+      })
+    )
+  );
+
+const diagramArb = fc.integer({ min: 1, max: 8 }).chain((count) =>
+  fc
+    .tuple(
+      fc.tuple(...Array.from({ length: count }, (_, i) => nodeArb(i))),
+      fc.array(fc.tuple(fc.nat(count - 1), fc.nat(count - 1)), { maxLength: count * 2 }),
+      // Candidate container for each node; used when it comes earlier and accepts the node
+      fc.array(fc.nat(count - 1), { minLength: count, maxLength: count })
+    )
+    .map(([generated, pairs, parents]) => {
+      const nodes = generated.map((node, i): Node => {
+        const parent = generated[parents[i]];
+        return parents[i] < i && canContain(parent.type, node.type) ? { ...node, parentId: parent.id } : node;
+      });
+      const edges = pairs
+        .filter(([source, target]) => source !== target)
+        .map(([source, target], i): Edge => ({ id: `edge-${i}`, source: nodes[source].id, target: nodes[target].id }));
+      return { nodes, edges };
+    })
+);
+
+const REFERENCE_PATTERN = /(?<![\w.])(data\.[a-z0-9_]+\.[A-Za-z_][\w-]*|aws_[a-z0-9_]+\.[A-Za-z_][\w-]*|var\.[A-Za-z_][\w-]*)/g;
+
+function collectExpressions(value: HCLValue, out: string[]): void {
+  if (isHCLExpression(value)) {
+    out.push(value.raw);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectExpressions(item, out));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectExpressions(item, out));
+  }
+}
+
+function collectBlockExpressions(block: HCLBlock, out: string[]): void {
+  Object.values(block.attributes).forEach((value) => collectExpressions(value, out));
+  block.blocks.forEach((nested) => collectBlockExpressions(nested, out));
+}
+
+/**
+ * Returns references that do not resolve to a definition in the configuration
+ */
+function findDanglingReferences(code: string): string[] {
+  const blocks = parseHCL(code);
+  const defined = new Set<string>();
+
+  for (const block of blocks) {
+    if (block.type === 'resource') defined.add(`${block.labels[0]}.${block.labels[1]}`);
+    if (block.type === 'data') defined.add(`data.${block.labels[0]}.${block.labels[1]}`);
+    if (block.type === 'variable') defined.add(`var.${block.labels[0]}`);
+  }
+
+  const expressions: string[] = [];
+  blocks.forEach((block) => collectBlockExpressions(block, expressions));
+
+  return expressions
+    .flatMap((raw) => [...raw.matchAll(REFERENCE_PATTERN)].map((match) => match[1]))
+    .filter((reference) => !defined.has(reference));
+}
+
+describe('Property: Reference Integrity', () => {
+  it('should only reference resources defined in the generated configuration', () => {
+    fc.assert(
+      fc.property(diagramArb, ({ nodes, edges }) => {
+        const code = generateTerraform(nodes, edges);
+        expect(findDanglingReferences(code)).toEqual([]);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('should only reference definitions from the module files', () => {
+    fc.assert(
+      fc.property(diagramArb, ({ nodes, edges }) => {
+        const files = generateTerraformModule(nodes, edges, { includeTfvars: true });
+        const code = files
+          .filter((file) => file.path.endsWith('.tf'))
+          .map((file) => file.content)
+          .join('\n');
+        expect(findDanglingReferences(code)).toEqual([]);
+
+        // Every value in terraform.tfvars sets a declared variable
+        const declared = new Set(parseHCL(code).filter((block) => block.type === 'variable').map((block) => block.labels[0]));
+        const tfvars = files.find((file) => file.path === 'terraform.tfvars')?.content ?? '';
+        const assigned = tfvars.split('\n').filter(Boolean).map((line) => line.split('=')[0].trim());
+        expect(assigned.filter((name) => !declared.has(name))).toEqual([]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should create the execution role and package for every Lambda function', () => {
+    fc.assert(
+      fc.property(diagramArb, ({ nodes, edges }) => {
+        const code = generateTerraform(nodes, edges);
+        const blocks = parseHCL(code);
+        const lambdas = blocks.filter((block) => block.type === 'resource' && block.labels[0] === 'aws_lambda_function');
+
+        for (const lambda of lambdas) {
+          const name = lambda.labels[1];
+          const role = lambda.attributes.role;
+          expect(isHCLExpression(role) && role.raw).toBe(`aws_iam_role.${name}_role.arn`);
+          expect(
+            blocks.some(
+              (block) => block.labels[0] === 'aws_iam_role_policy_attachment' && block.labels[1] === `${name}_basic_execution`
+            )
+          ).toBe(true);
+          expect('filename' in lambda.attributes || 's3_bucket' in lambda.attributes).toBe(true);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { resolveResourceNames, assignResourceNames, renameResource } from '../resource-names';
+import { generateTerraform, generateTerraformModule, getResourceAddresses } from '../terraform-generator';
+import { reconcileTerraformModule } from '../terraform-reconciler';
+import { CanvasProvider, useCanvas } from '../canvas-context';
+import { Node } from '@/types';
+
+const makeNode = (id: string, type: string, label: string, extra: Record<string, unknown> = {}): Node => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label, properties: {}, ...extra },
+});
+
+describe('resolveResourceNames', () => {
+  it('should number nodes apart whose labels map to the same name', () => {
+    const nodes = [
+      makeNode('ec2-1', 'ec2', 'EC2 Instance'),
+      makeNode('ec2-2', 'ec2', 'EC2 Instance'),
+      makeNode('ec2-3', 'ec2', 'ec2 instance'),
+    ];
+
+    expect([...resolveResourceNames(nodes).values()]).toEqual(['ec2_instance', 'ec2_instance_2', 'ec2_instance_3']);
+  });
+
+  it('should keep stored names and leave out nodes without a resource block', () => {
+    const nodes = [
+      makeNode('ec2-1', 'ec2', 'Web'),
+      makeNode('ec2-2', 'ec2', 'Renamed', { resourceName: 'web' }),
+      makeNode('az-1', 'az', 'Zone A'),
+    ];
+
+    const names = resolveResourceNames(nodes);
+    expect(names.get('ec2-2')).toBe('web');
+    expect(names.get('ec2-1')).toBe('web_2');
+    expect(names.has('az-1')).toBe(false);
+  });
+});
+
+describe('assignResourceNames', () => {
+  it('should store a name on new nodes and rename a copy that shares one', () => {
+    const original = makeNode('ec2-1', 'ec2', 'Web', { resourceName: 'web', movedFrom: ['server'] });
+    const copy = makeNode('ec2-2', 'ec2', 'Web', { resourceName: 'web', movedFrom: ['server'] });
+
+    const [kept, renamed, added] = assignResourceNames([original, copy, makeNode('s3-1', 's3', 'Assets')]);
+    expect(kept).toBe(original);
+    expect(renamed.data).toMatchObject({ resourceName: 'web_2' });
+    expect(renamed.data.movedFrom).toBeUndefined();
+    expect(added.data.resourceName).toBe('assets');
+  });
+
+  it('should return the same array when every node is named', () => {
+    const nodes = [makeNode('ec2-1', 'ec2', 'Web', { resourceName: 'web' })];
+    expect(assignResourceNames(nodes)).toBe(nodes);
+  });
+});
+
+describe('renameResource', () => {
+  const web = makeNode('ec2-1', 'ec2', 'Web', { resourceName: 'web' });
+  const api = makeNode('ec2-2', 'ec2', 'API', { resourceName: 'api' });
+
+  it('should follow the new label and remember the old name', () => {
+    expect(renameResource(web, 'Frontend', [web, api])).toEqual({ resourceName: 'frontend', movedFrom: ['web'] });
+    expect(renameResource(web, 'api', [web, api])).toEqual({ resourceName: 'api_2', movedFrom: ['web'] });
+    // Labels that map to the same name change nothing
+    expect(renameResource(web, 'WEB', [web, api])).toEqual({});
+  });
+
+  it('should not form a cycle when renamed back to an earlier name', () => {
+    const renamed = makeNode('ec2-1', 'ec2', 'Frontend', { resourceName: 'frontend', movedFrom: ['web', 'site'] });
+    expect(renameResource(renamed, 'Web', [renamed])).toEqual({ resourceName: 'web', movedFrom: ['site', 'frontend'] });
+  });
+});
+
+describe('generated addresses', () => {
+  it('should give duplicate labels distinct addresses', () => {
+    const nodes = [makeNode('ec2-1', 'ec2', 'EC2 Instance'), makeNode('ec2-2', 'ec2', 'EC2 Instance')];
+    const code = generateTerraform(nodes, [{ id: 'edge-1', source: 'ec2-1', target: 'ec2-2' }]);
+
+    expect(code).toContain('resource "aws_instance" "ec2_instance" {');
+    expect(code).toContain('resource "aws_instance" "ec2_instance_2" {');
+    expect(code).toContain('depends_on = [aws_instance.ec2_instance]');
+    expect([...getResourceAddresses(nodes).values()]).toEqual(['aws_instance.ec2_instance', 'aws_instance.ec2_instance_2']);
+  });
+
+  it('should emit moved blocks for a renamed node and the resources named after it', () => {
+    const worker = makeNode('lambda-1', 'lambda', 'Jobs', {
+      resourceName: 'jobs',
+      movedFrom: ['worker', 'processor'],
+      properties: { functionName: 'jobs', runtime: 'nodejs20.x', handler: 'index.handler' },
+    });
+
+    const code = generateTerraform([worker], []);
+    expect(code).toContain('resource "aws_lambda_function" "jobs" {');
+    expect(code).toContain('moved {\n  from = aws_lambda_function.worker\n  to   = aws_lambda_function.processor\n}');
+    expect(code).toContain('moved {\n  from = aws_lambda_function.processor\n  to   = aws_lambda_function.jobs\n}');
+    expect(code).toContain('moved {\n  from = aws_iam_role.processor_role\n  to   = aws_iam_role.jobs_role\n}');
+    // Data sources have no state to move
+    expect(code).not.toContain('from = data.');
+  });
+
+  it('should rename an HCL override with its node', () => {
+    const table = makeNode('dynamodb-1', 'dynamodb', 'Table', { resourceName: 'table' });
+    const api = makeNode('lambda-1', 'lambda', 'API', { resourceName: 'api' });
+    const edges = [{ id: 'edge-1', source: 'lambda-1', target: 'dynamodb-1' }];
+    const files = generateTerraformModule([table, api], edges).map((file) =>
+      file.path === 'main.tf'
+        ? { ...file, content: file.content.replace('  tags = {', '  table_class = "STANDARD_INFREQUENT_ACCESS"\n\n  tags = {') }
+        : file
+    );
+    const [update] = reconcileTerraformModule(files, [table, api], edges).updates;
+    const refined = { ...table, data: { ...table.data, ...update.data } };
+    expect(refined.data.hclOverride).toContain('resource "aws_dynamodb_table" "table"');
+
+    const renamed = { ...refined, data: { ...refined.data, label: 'Orders', ...renameResource(refined, 'Orders', [refined, api]) } };
+    const code = generateTerraform([renamed, api], edges);
+
+    expect(code).toContain('resource "aws_dynamodb_table" "orders" {');
+    expect(code).toContain('table_class = "STANDARD_INFREQUENT_ACCESS"');
+    expect(code).toContain('Resource = [aws_dynamodb_table.orders.arn');
+    expect(code).not.toContain('aws_dynamodb_table.table.');
+    expect(code).toContain('moved {\n  from = aws_dynamodb_table.table\n  to   = aws_dynamodb_table.orders\n}');
+  });
+});
+
+describe('canvas naming', () => {
+  it('should name added nodes uniquely and record renames', () => {
+    const { result } = renderHook(() => useCanvas(), { wrapper: CanvasProvider });
+
+    act(() => {
+      result.current.addNode(makeNode('ec2-1', 'ec2', 'EC2 Instance'));
+      result.current.addNode(makeNode('ec2-2', 'ec2', 'EC2 Instance'));
+    });
+    expect(result.current.state.nodes.map((node) => node.data.resourceName)).toEqual(['ec2_instance', 'ec2_instance_2']);
+
+    act(() => {
+      result.current.updateNode('ec2-2', { label: 'Web' });
+    });
+    expect(result.current.state.nodes[1].data).toMatchObject({ label: 'Web', resourceName: 'web', movedFrom: ['ec2_instance_2'] });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { registerResource, getResourceDefinition, ResourceDefinition } from '../resource-registry';
+import { getResourceTypeById, getResourceTypesByCategory } from '../resource-types';
+import { getResourceSchema } from '../resource-schemas';
+import { areTypesCompatible } from '../connection-rules';
+import { canContain } from '../containers';
+import { generateTerraform, generateTerraformModule, getResourceAddress } from '../terraform-generator';
+import { liftValue, generateDependsOn } from '../terraform-emitter';
+import { ec2 } from '../resources/ec2';
+import { Node } from '@/types';
+
+// An internal module a team might add without touching the core files
+const stream: ResourceDefinition = {
+  id: 'kinesis',
+  label: 'Kinesis Stream',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Analytics/Kinesis-Data-Streams.svg',
+  category: 'integration',
+  description: 'Amazon Kinesis data stream',
+  color: 'bg-gradient-to-br from-purple-500 to-purple-600',
+  schema: {
+    fields: [{ name: 'shardCount', label: 'Shards', type: 'number', defaultValue: 1 }],
+    defaultProperties: { shardCount: 1 },
+  },
+  terraformType: 'aws_kinesis_stream',
+  outputs: [['arn', 'ARN']],
+  emit: (node, resourceName, context) => {
+    const { shardCount } = node.data.properties as { shardCount: number };
+    const lines = [`resource "aws_kinesis_stream" "${resourceName}" {`];
+    lines.push(`  name        = "${resourceName}"`);
+    lines.push(`  shard_count = ${liftValue(node, resourceName, 'shard_count', shardCount, context)}`);
+    const dependsOn = generateDependsOn(node.id, context);
+    if (dependsOn) lines.push(dependsOn.trim());
+    lines.push('}');
+    return lines.join('\n');
+  },
+  requiredProviders: () => [{ name: 'random', source: 'hashicorp/random', version: '~> 3.6' }],
+  connectsTo: ['lambda'],
+  parents: ['vpc'],
+};
+
+registerResource(stream);
+
+const makeNode = (id: string, type: string, label: string, properties: Record<string, unknown> = {}): Node => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label, properties },
+});
+
+describe('resource registry', () => {
+  it('should describe built-in and registered resources from their definitions', () => {
+    expect(getResourceDefinition('ec2')).toBe(ec2);
+    expect(getResourceTypeById('kinesis').label).toBe('Kinesis Stream');
+    expect(getResourceTypesByCategory('integration').map((config) => config.id)).toContain('kinesis');
+    expect(getResourceSchema('kinesis').defaultProperties).toEqual({ shardCount: 1 });
+    expect(getResourceDefinition('unknown')).toBeUndefined();
+  });
+
+  it('should reject a second resource with the same id', () => {
+    expect(() => registerResource({ ...stream, label: 'Another Stream' })).toThrow(
+      'Resource type "kinesis" is already registered'
+    );
+    expect(getResourceTypeById('kinesis').label).toBe('Kinesis Stream');
+  });
+
+  it('should apply the connection and placement rules of a registered resource', () => {
+    expect(areTypesCompatible('lambda', 'kinesis')).toBe(true);
+    expect(areTypesCompatible('kinesis', 's3')).toBe(false);
+    expect(canContain('vpc', 'kinesis')).toBe(true);
+    expect(canContain('subnet', 'kinesis')).toBe(false);
+  });
+
+  it('should generate a registered resource with its providers, outputs and dependencies', () => {
+    const nodes = [makeNode('s3-1', 's3', 'Archive', { bucketName: 'archive' }), makeNode('kinesis-1', 'kinesis', 'Clicks', { shardCount: 2 })];
+    const edges = [{ id: 'edge-1', source: 's3-1', target: 'kinesis-1' }];
+
+    const code = generateTerraform(nodes, edges);
+    expect(code).toContain('resource "aws_kinesis_stream" "clicks" {');
+    expect(code).toContain('  shard_count = 2');
+    expect(code).toContain('depends_on = [aws_s3_bucket.archive]');
+    expect(code).toContain('source  = "hashicorp/random"');
+    expect(getResourceAddress(nodes[1])).toBe('aws_kinesis_stream.clicks');
+
+    const files = generateTerraformModule(nodes, edges);
+    expect(files.find((file) => file.path === 'outputs.tf')?.content).toContain('value       = aws_kinesis_stream.clicks.arn');
+    expect(files.find((file) => file.path === 'variables.tf')?.content).toContain('variable "clicks_shard_count"');
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { ReactNode } from 'react';
+import { renderHook, act, screen, fireEvent } from '@testing-library/react';
+import { getIngressRule, getIngressRules, parsePorts } from '../security-groups';
+import { generateTerraform } from '../terraform-generator';
+import { CanvasProvider, useCanvas } from '../canvas-context';
+import { EdgePortsEditor } from '@/components/edge-ports-editor';
+import { Node, Edge, EdgeData, ResourceTypeId } from '@/types';
+
+function makeNode(id: string, type: ResourceTypeId, label: string, properties: Record<string, unknown> = {}): Node {
+  return { id, type, position: { x: 0, y: 0 }, data: { label, properties } };
+}
+
+function edge(source: string, target: string, data?: EdgeData): Edge {
+  return { id: `edge-${source}-${target}`, source, target, data };
+}
+
+function inside(node: Node, parentId: string): Node {
+  return { ...node, parentId };
+}
+
+/**
+ * Extracts a single resource block from generated code
+ */
+function getBlock(code: string, type: string, name: string): string {
+  const start = code.indexOf(`resource "${type}" "${name}" {`);
+  if (start === -1) return '';
+  const end = code.indexOf('\n}', start);
+  return code.slice(start, end + 2);
+}
+
+const vpc = makeNode('vpc-1', 'vpc', 'Main', { cidrBlock: '10.0.0.0/16' });
+const web = makeNode('ec2-1', 'ec2', 'Web', { ami: 'ami-123', instanceType: 't2.micro' });
+const alb = makeNode('alb-1', 'alb', 'Front', { name: 'front', scheme: 'internet-facing' });
+const db = makeNode('rds-1', 'rds', 'Orders DB', { engine: 'mysql', instanceClass: 'db.t3.micro', allocatedStorage: 20 });
+const cache = makeNode('elasticache-1', 'elasticache', 'Sessions', { engine: 'redis' });
+const worker = makeNode('lambda-1', 'lambda', 'Worker', { functionName: 'worker', runtime: 'nodejs20.x' });
+const bucket = makeNode('s3-1', 's3', 'Assets', { bucketName: 'assets' });
+
+describe('ingress rule inference', () => {
+  const nodes = [web, alb, db, cache, worker, bucket];
+
+  it('should infer ports from the node types in either direction', () => {
+    expect(getIngressRule(edge('alb-1', 'ec2-1'), nodes)).toMatchObject({ client: alb, server: web, ports: [80, 443], custom: false });
+    expect(getIngressRule(edge('rds-1', 'ec2-1'), nodes)).toMatchObject({ client: web, server: db, ports: [3306] });
+    expect(getIngressRule(edge('lambda-1', 'elasticache-1'), nodes)).toMatchObject({ client: worker, ports: [6379] });
+    expect(getIngressRule(edge('lambda-1', 's3-1'), nodes)).toBeNull();
+  });
+
+  it('should prefer the ports set on the edge, including none', () => {
+    const rules = getIngressRules(nodes, [edge('ec2-1', 'rds-1', { ports: [3307] }), edge('alb-1', 'ec2-1', { ports: [] })]);
+    expect(rules.map(({ ports, custom }) => ({ ports, custom }))).toEqual([
+      { ports: [3307], custom: true },
+      { ports: [], custom: true },
+    ]);
+  });
+
+  it('should parse port lists leniently', () => {
+    expect(parsePorts('80, 443 8080,,80')).toEqual([80, 443, 8080]);
+    expect(parsePorts('http, 0, 70000, 22.5')).toEqual([]);
+  });
+});
+
+describe('security group generation', () => {
+  it('should give each instance and database a group in its VPC and let connections in', () => {
+    const code = generateTerraform([vpc, inside(web, 'vpc-1'), inside(db, 'vpc-1')], [edge('ec2-1', 'rds-1')]);
+
+    expect(getBlock(code, 'aws_security_group', 'web_sg')).toContain('vpc_id      = aws_vpc.main.id');
+    expect(getBlock(code, 'aws_vpc_security_group_egress_rule', 'web_egress')).toContain('cidr_ipv4         = "0.0.0.0/0"');
+    expect(getBlock(code, 'aws_instance', 'web')).toContain('vpc_security_group_ids = [aws_security_group.web_sg.id]');
+    expect(getBlock(code, 'aws_db_instance', 'orders_db')).toContain(
+      'vpc_security_group_ids = [aws_security_group.orders_db_sg.id]'
+    );
+
+    const rule = getBlock(code, 'aws_vpc_security_group_ingress_rule', 'orders_db_from_web_tcp_3306');
+    expect(rule).toContain('security_group_id            = aws_security_group.orders_db_sg.id');
+    expect(rule).toContain('referenced_security_group_id = aws_security_group.web_sg.id');
+    expect(rule).toContain('from_port                    = 3306');
+  });
+
+  it('should not add depends_on for connections expressed by ingress rules', () => {
+    const code = generateTerraform([web, db], [edge('ec2-1', 'rds-1')]);
+    expect(getBlock(code, 'aws_db_instance', 'orders_db')).not.toContain('depends_on');
+
+    // With no ports open there is no rule to reference, so the dependency stays explicit
+    const closed = generateTerraform([web, db], [edge('ec2-1', 'rds-1', { ports: [] })]);
+    expect(getBlock(closed, 'aws_db_instance', 'orders_db')).toContain('depends_on = [aws_instance.web]');
+  });
+
+  it('should open internet-facing load balancers to the internet', () => {
+    const code = generateTerraform([alb, web], [edge('alb-1', 'ec2-1')]);
+
+    expect(getBlock(code, 'aws_security_group', 'front_sg')).toContain('vpc_id      = data.aws_vpc.default.id');
+    expect(getBlock(code, 'aws_vpc_security_group_ingress_rule', 'front_public_tcp_443')).toContain('cidr_ipv4         = "0.0.0.0/0"');
+    expect(code).toContain('resource "aws_vpc_security_group_ingress_rule" "web_from_front_tcp_80"');
+    expect(code).toContain('resource "aws_vpc_security_group_ingress_rule" "web_from_front_tcp_443"');
+
+    const internal = generateTerraform([{ ...alb, data: { ...alb.data, properties: { scheme: 'internal' } } }], []);
+    expect(internal).not.toContain('front_public');
+  });
+
+  it('should place a load balancer outside the VPC in the VPC of its targets', () => {
+    const code = generateTerraform([vpc, alb, inside(web, 'vpc-1')], [edge('alb-1', 'ec2-1')]);
+
+    expect(getBlock(code, 'aws_security_group', 'front_sg')).toContain('vpc_id      = aws_vpc.main.id');
+    expect(getBlock(code, 'aws_lb_target_group', 'front_tg')).toContain('vpc_id   = aws_vpc.main.id');
+    expect(getBlock(code, 'aws_lb', 'front')).toContain('aws_subnet.main_subnet_a.id');
+    expect(code).not.toContain('data.aws_vpc.default');
+  });
+
+  it('should write the ports edited on an edge', () => {
+    const code = generateTerraform([alb, web], [edge('alb-1', 'ec2-1', { ports: [8080] })]);
+
+    expect(code).toContain('resource "aws_vpc_security_group_ingress_rule" "web_from_front_tcp_8080"');
+    expect(code).not.toContain('web_from_front_tcp_80"');
+  });
+
+  it('should place a Lambda function reaching a database in its VPC', () => {
+    const code = generateTerraform([vpc, inside(db, 'vpc-1'), worker], [edge('lambda-1', 'rds-1')]);
+
+    const fn = getBlock(code, 'aws_lambda_function', 'worker');
+    expect(fn).toContain('vpc_config {');
+    expect(fn).toContain('subnet_ids         = [aws_subnet.main_subnet_a.id, aws_subnet.main_subnet_b.id]');
+    expect(fn).toContain('security_group_ids = [aws_security_group.worker_sg.id]');
+    expect(getBlock(code, 'aws_security_group', 'worker_sg')).toContain('vpc_id      = aws_vpc.main.id');
+    expect(code).toContain('policy_arn = "arn:aws:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole"');
+    expect(code).toContain('resource "aws_vpc_security_group_ingress_rule" "orders_db_from_worker_tcp_3306"');
+  });
+
+  it('should move the security group with a renamed node', () => {
+    const renamed = { ...web, data: { ...web.data, resourceName: 'web', movedFrom: ['server'] } };
+    const code = generateTerraform([renamed], []);
+
+    expect(code).toContain('moved {\n  from = aws_security_group.server_sg\n  to   = aws_security_group.web_sg\n}');
+    expect(code).toContain('moved {\n  from = aws_vpc_security_group_egress_rule.server_egress\n  to   = aws_vpc_security_group_egress_rule.web_egress\n}');
+  });
+});
+
+describe('edge ports on the canvas', () => {
+  it('should store the ports edited on an edge', () => {
+    const { result } = renderHook(() => useCanvas(), { wrapper: CanvasProvider });
+
+    act(() => {
+      result.current.addEdge(edge('alb-1', 'ec2-1'));
+      result.current.updateEdge('edge-alb-1-ec2-1', { ports: [8080] });
+    });
+    expect(result.current.state.edges[0].data).toEqual({ ports: [8080] });
+  });
+
+  it('should show the previous ports in the editor after an edit is undone', () => {
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <CanvasProvider>
+        {children}
+        <EdgePortsEditor edgeId="edge-alb-1-ec2-1" />
+      </CanvasProvider>
+    );
+    const { result } = renderHook(() => useCanvas(), { wrapper });
+    act(() => {
+      result.current.addNode(alb);
+      result.current.addNode(web);
+      result.current.addEdge(edge('alb-1', 'ec2-1'));
+    });
+
+    const input = screen.getByLabelText('Ports Web accepts from Front');
+    fireEvent.change(input, { target: { value: '8080' } });
+    fireEvent.blur(input);
+    expect(result.current.history.entries.at(-1)?.label).toBe('Edit connection');
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.state.edges[0].data).toBeUndefined();
+    expect(input).toHaveValue('80, 443');
+  });
+});
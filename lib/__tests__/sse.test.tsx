@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseServerSentEvents,
+  fetchEventStream,
+  formatServerSentEvent,
+  createEventStreamResponse,
+  StreamRequestError,
+} from '../sse';
+
+// A byte stream delivering the given chunks in order
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+function stubEventStream(chunks: string[]) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(streamOf(chunks), { status: 200 })));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseServerSentEvents', () => {
+  it('should parse events split across chunks', async () => {
+    const events = [];
+    for await (const event of parseServerSentEvents(streamOf(['event: tok', 'en\ndata: {"text":"a"}\n', '\ndata: [DONE]\n\n']))) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { event: 'token', data: '{"text":"a"}' },
+      { event: 'message', data: '[DONE]' },
+    ]);
+  });
+});
+
+describe('fetchEventStream', () => {
+  it('should report tokens and resolve with the done payload', async () => {
+    stubEventStream([
+      formatServerSentEvent('token', { text: 'resource ' }),
+      formatServerSentEvent('token', { text: '"aws_s3_bucket"' }),
+      formatServerSentEvent('done', { code: 'resource "aws_s3_bucket"' }),
+    ]);
+    const onToken = vi.fn();
+
+    await expect(fetchEventStream('/api/refine', {}, { onToken })).resolves.toEqual({ code: 'resource "aws_s3_bucket"' });
+    expect(onToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep partial output when the route reports an error', async () => {
+    stubEventStream([
+      formatServerSentEvent('token', { text: 'resource' }),
+      formatServerSentEvent('error', { status: 504, error: 'AI service timeout. Please try again.', partial: 'resource' }),
+    ]);
+
+    const error = await fetchEventStream('/api/refine', {}).catch((e) => e);
+    expect(error).toBeInstanceOf(StreamRequestError);
+    expect(error).toMatchObject({ status: 504, partial: 'resource' });
+  });
+
+  it('should report a stream that ends without a result', async () => {
+    stubEventStream([formatServerSentEvent('token', { text: 'res' })]);
+
+    await expect(fetchEventStream('/api/refine', {})).rejects.toMatchObject({ partial: 'res' });
+  });
+
+  it('should surface JSON errors returned before streaming starts', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: "Missing or invalid 'currentCode' field" }, { status: 400 })));
+
+    await expect(fetchEventStream('/api/refine', {})).rejects.toMatchObject({
+      message: "Missing or invalid 'currentCode' field",
+      status: 400,
+    });
+  });
+});
+
+describe('createEventStreamResponse', () => {
+  it('should stream the events written by the callback', async () => {
+    const response = createEventStreamResponse(async (send) => {
+      send('token', { text: 'a' });
+      send('done', { ok: true });
+    });
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(await response.text()).toBe(
+      formatServerSentEvent('token', { text: 'a' }) + formatServerSentEvent('done', { ok: true })
+    );
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { generateTerraform } from '../terraform-generator';
-import { Node, Edge } from '@/types';
+import { Node, Edge, ResourceTypeId } from '@/types';
 
 describe('generateTerraform', () => {
   describe('EC2 resource block generation', () => {
@@ -72,7 +72,8 @@ describe('generateTerraform', () => {
 
       const result = generateTerraform(nodes, edges);
 
-      expect(result).toContain('security_groups = ["sg-123456", "sg-789012"]');
+      // The instance's own security group comes first
+      expect(result).toContain('vpc_security_group_ids = [aws_security_group.secure_server_sg.id, "sg-123456", "sg-789012"]');
     });
 
     it('should sanitize resource names with special characters', () => {
@@ -118,7 +119,7 @@ describe('generateTerraform', () => {
 
       const result = generateTerraform(nodes, edges);
 
-      expect(result).not.toContain('security_groups');
+      expect(result).toContain('vpc_security_group_ids = [aws_security_group.server_sg.id]');
     });
   });
 
@@ -304,7 +305,7 @@ describe('generateTerraform', () => {
       expect(result).toContain('instance_class       = "db.t3.small"');
     });
 
-    it('should include default credentials and skip_final_snapshot', () => {
+    it('should let RDS manage the master password by default', () => {
       const nodes: Node[] = [
         {
           id: 'node-1',
@@ -326,8 +327,55 @@ describe('generateTerraform', () => {
       const result = generateTerraform(nodes, edges);
 
       expect(result).toContain('username             = "admin"');
-      expect(result).toContain('password             = "changeme123"');
+      expect(result).toContain('manage_master_user_password = true');
       expect(result).toContain('skip_final_snapshot  = true');
+      expect(result).not.toMatch(/password\s+= "/);
+    });
+
+    it('should generate a random password stored in Secrets Manager', () => {
+      const nodes: Node[] = [
+        {
+          id: 'node-1',
+          type: 'rds',
+          position: { x: 0, y: 0 },
+          data: {
+            label: 'Test DB',
+            properties: { engine: 'postgres', username: 'app', credentials: 'random' },
+          },
+        },
+      ];
+
+      const result = generateTerraform(nodes, []);
+
+      expect(result).toContain('username             = "app"');
+      expect(result).toContain('password             = random_password.test_db_password.result');
+      expect(result).toContain('resource "random_password" "test_db_password" {');
+      expect(result).toContain('resource "aws_secretsmanager_secret" "test_db_credentials" {');
+      expect(result).toContain('  secret_id = aws_secretsmanager_secret.test_db_credentials.id');
+      expect(result).toContain('    password = random_password.test_db_password.result');
+      expect(result).toContain('source  = "hashicorp/random"');
+      expect(result).not.toContain('manage_master_user_password');
+    });
+
+    it('should take the password from a sensitive variable without writing its value', () => {
+      const nodes: Node[] = [
+        {
+          id: 'node-1',
+          type: 'rds',
+          position: { x: 0, y: 0 },
+          data: {
+            label: 'Test DB',
+            properties: { engine: 'postgres', credentials: 'variable', masterPassword: 's3cret-value' },
+          },
+        },
+      ];
+
+      const result = generateTerraform(nodes, []);
+
+      expect(result).toContain('password             = var.test_db_password');
+      expect(result).toContain('variable "test_db_password" {');
+      expect(result).toContain('  sensitive   = true');
+      expect(result).not.toContain('s3cret-value');
     });
 
     it('should handle RDS instance with minimal properties', () => {
@@ -980,6 +1028,136 @@ describe('generateTerraform', () => {
     });
   });
 
+  describe('Container, messaging and security resources', () => {
+    const makeNode = (type: ResourceTypeId, label: string, properties: Record<string, unknown>): Node => ({
+      id: `${type}-1`,
+      type,
+      position: { x: 0, y: 0 },
+      data: { label, properties },
+    });
+
+    it('should generate an ECS service with its cluster, task definition and default subnets', () => {
+      const result = generateTerraform(
+        [makeNode('ecs', 'Web App', { serviceName: 'web', image: 'nginx:1.27', containerPort: 8080, cpu: '512', memory: 1024, desiredCount: 2 })],
+        []
+      );
+
+      expect(result).toContain('resource "aws_ecs_service" "web_app"');
+      expect(result).toContain('cluster         = aws_ecs_cluster.web_app_cluster.id');
+      expect(result).toContain('task_definition = aws_ecs_task_definition.web_app_task.arn');
+      expect(result).toContain('desired_count   = 2');
+      expect(result).toContain('subnets          = data.aws_subnets.default.ids');
+      expect(result).toContain('resource "aws_ecs_cluster" "web_app_cluster"');
+      expect(result).toContain('cpu                      = "512"');
+      expect(result).toContain('image        = "nginx:1.27"');
+      expect(result).toContain('portMappings = [{ containerPort = 8080, protocol = "tcp" }]');
+      expect(result).toContain('data "aws_subnets" "default"');
+    });
+
+    it('should create the EKS cluster role and wait for its policy', () => {
+      const result = generateTerraform([makeNode('eks', 'Platform', { clusterName: 'platform', version: '1.30' })], []);
+
+      expect(result).toContain('role_arn = aws_iam_role.platform_cluster_role.arn');
+      expect(result).toContain('Principal = { Service = "eks.amazonaws.com" }');
+      expect(result).toContain('policy_arn = "arn:aws:iam::aws:policy/AmazonEKSClusterPolicy"');
+      expect(result).toContain('depends_on = [aws_iam_role_policy_attachment.platform_cluster_policy]');
+    });
+
+    it('should only allocate an Elastic IP for public NAT gateways', () => {
+      const publicGateway = generateTerraform([makeNode('natgateway', 'Egress', { connectivityType: 'public' })], []);
+      const privateGateway = generateTerraform([makeNode('natgateway', 'Egress', { connectivityType: 'private' })], []);
+
+      expect(publicGateway).toContain('allocation_id     = aws_eip.egress_eip.id');
+      expect(publicGateway).toContain('resource "aws_eip" "egress_eip"');
+      expect(privateGateway).toContain('connectivity_type = "private"');
+      expect(privateGateway).not.toContain('aws_eip');
+    });
+
+    it('should add the .fifo suffix to FIFO queue and topic names', () => {
+      const result = generateTerraform(
+        [
+          makeNode('sqs', 'Jobs', { queueName: 'jobs', fifo: true, visibilityTimeout: 60 }),
+          { ...makeNode('sns', 'Events', { topicName: 'events.fifo', fifo: true }), id: 'sns-2' },
+        ],
+        []
+      );
+
+      expect(result).toContain('name                       = "jobs.fifo"');
+      expect(result).toContain('fifo_queue                 = true');
+      expect(result).toContain('visibility_timeout_seconds = 60');
+      expect(result).toContain('name       = "events.fifo"');
+      expect(result).not.toContain('events.fifo.fifo');
+    });
+
+    it('should prefer an event pattern over a schedule for EventBridge rules', () => {
+      const scheduled = generateTerraform([makeNode('eventbridge', 'Nightly', { scheduleExpression: 'cron(0 2 * * ? *)' })], []);
+      const matching = generateTerraform(
+        [makeNode('eventbridge', 'On Upload', { scheduleExpression: 'rate(5 minutes)', eventPattern: '{"source":["aws.s3"]}' })],
+        []
+      );
+
+      expect(scheduled).toContain('schedule_expression = "cron(0 2 * * ? *)"');
+      expect(matching).toContain('event_pattern       = "{\\"source\\":[\\"aws.s3\\"]}"');
+      expect(matching).not.toContain('schedule_expression');
+    });
+
+    it('should open only valid ports on a security group', () => {
+      const result = generateTerraform(
+        [makeNode('securitygroup', 'Web SG', { name: 'web', ingressPorts: ['443', ' 80', 'http', '70000'], ingressCidr: '10.0.0.0/8' })],
+        []
+      );
+
+      expect(result.match(/ingress \{/g)).toHaveLength(2);
+      expect(result).toContain('from_port   = 443');
+      expect(result).toContain('from_port   = 80');
+      expect(result).toContain('cidr_blocks = ["10.0.0.0/8"]');
+      expect(result).toContain('protocol    = "-1"');
+    });
+
+    it('should run Redis clusters on a single node with the engine port', () => {
+      const redis = generateTerraform([makeNode('elasticache', 'Sessions', { engine: 'redis', nodeType: 'cache.t3.small', numCacheNodes: 3 })], []);
+      const memcached = generateTerraform([makeNode('elasticache', 'Sessions', { engine: 'memcached', numCacheNodes: 3 })], []);
+
+      expect(redis).toContain('cluster_id      = "sessions"');
+      expect(redis).toContain('num_cache_nodes = 1');
+      expect(redis).toContain('port            = 6379');
+      expect(memcached).toContain('num_cache_nodes = 3');
+      expect(memcached).toContain('port            = 11211');
+    });
+
+    it('should use a connected bucket as the CloudFront origin', () => {
+      const result = generateTerraform(
+        [makeNode('cloudfront', 'CDN', { priceClass: 'PriceClass_100' }), makeNode('s3', 'Site', { bucketName: 'site' })],
+        [{ id: 'edge-1', source: 'cloudfront-1', target: 's3-1' }]
+      );
+
+      expect(result).toContain('domain_name = aws_s3_bucket.site.bucket_regional_domain_name');
+      expect(result).toContain('cache_policy_id        = "658327ea-f89d-4fab-a63d-7e88639e58f6"');
+      expect(result).toContain('cloudfront_default_certificate = true');
+    });
+
+    it('should enable an authenticator app when Cognito MFA is on', () => {
+      const result = generateTerraform([makeNode('cognito', 'Users', { poolName: 'users', mfa: 'ON', passwordMinLength: 12 })], []);
+
+      expect(result).toContain('mfa_configuration = "ON"');
+      expect(result).toContain('minimum_length = 12');
+      expect(result).toContain('software_token_mfa_configuration {');
+    });
+
+    it('should create a KMS alias when one is set', () => {
+      const result = generateTerraform(
+        [makeNode('kms', 'Data Key', { alias: 'alias/data', enableKeyRotation: true }), makeNode('route53', 'Zone', { domainName: 'example.com' })],
+        []
+      );
+
+      expect(result).toContain('enable_key_rotation     = true');
+      expect(result).toContain('resource "aws_kms_alias" "data_key_alias"');
+      expect(result).toContain('name          = "alias/data"');
+      expect(result).toContain('target_key_id = aws_kms_key.data_key.key_id');
+      expect(result).toContain('resource "aws_route53_zone" "zone"');
+    });
+  });
+
   describe('Complex scenarios', () => {
     it('should generate complete infrastructure with all resource types and dependencies', () => {
       const nodes: Node[] = [
@@ -1057,7 +1235,7 @@ describe('generateTerraform', () => {
       expect(result).toContain('engine               = "postgres"');
       expect(result).toContain('allocated_storage    = 100');
       expect(result).toContain('instance_type = "t3.medium"');
-      expect(result).toContain('security_groups = ["sg-web", "sg-app"]');
+      expect(result).toContain('vpc_security_group_ids = [aws_security_group.app_server_sg.id, "sg-web", "sg-app"]');
     });
   });
 });
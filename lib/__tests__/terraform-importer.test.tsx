@@ -0,0 +1,439 @@
+import { describe, it, expect } from 'vitest';
+import { importTerraform } from '../terraform-importer';
+import { parseHCL, HCLParseError, isHCLExpression } from '../hcl-parser';
+import { generateTerraform } from '../terraform-generator';
+import { Node, Edge } from '@/types';
+
+describe('parseHCL', () => {
+  it('should parse blocks, literals, lists, objects and expressions', () => {
+    const [block] = parseHCL(`
+      # comment
+      resource "aws_instance" "web" {
+        ami           = "ami-123"
+        count         = 2
+        monitoring    = true
+        subnet_id     = aws_subnet.main.id // trailing comment
+        security_groups = ["a", "b"]
+        tags = {
+          Name = "Web Server"
+          "env": "prod"
+        }
+
+        root_block_device {
+          volume_size = 20
+        }
+      }
+    `);
+
+    expect(block.type).toBe('resource');
+    expect(block.labels).toEqual(['aws_instance', 'web']);
+    expect(block.attributes.ami).toBe('ami-123');
+    expect(block.attributes.count).toBe(2);
+    expect(block.attributes.monitoring).toBe(true);
+    expect(block.attributes.security_groups).toEqual(['a', 'b']);
+    expect(block.attributes.tags).toEqual({ Name: 'Web Server', env: 'prod' });
+    expect(block.blocks[0].type).toBe('root_block_device');
+    expect(block.blocks[0].attributes.volume_size).toBe(20);
+
+    const subnet = block.attributes.subnet_id;
+    expect(isHCLExpression(subnet) && subnet.references).toEqual(['aws_subnet.main']);
+  });
+
+  it('should keep interpolated strings, heredocs and operators as expressions', () => {
+    const [block] = parseHCL(`
+      locals {
+        name    = "\${var.prefix}-\${aws_vpc.main.id}"
+        size    = var.large ? 10 : 2
+        policy  = <<-EOT
+          {"Resource": "\${aws_s3_bucket.assets.arn}"}
+        EOT
+        plain   = <<EOT
+hello
+EOT
+      }
+    `);
+
+    const { name, size, policy, plain } = block.attributes;
+    expect(isHCLExpression(name) && name.references).toEqual(['aws_vpc.main']);
+    expect(isHCLExpression(size) && size.raw).toBe('var.large ? 10 : 2');
+    expect(isHCLExpression(policy) && policy.references).toEqual(['aws_s3_bucket.assets']);
+    expect(plain).toBe('hello');
+  });
+
+  it('should report the line of a syntax error', () => {
+    expect(() => parseHCL('resource "aws_vpc" "main" {\n  cidr_block = "10.0.0.0/16"\n')).toThrow(HCLParseError);
+
+    try {
+      parseHCL('variable "x" {\n  default = "unterminated\n}');
+    } catch (error) {
+      expect((error as HCLParseError).line).toBe(2);
+    }
+  });
+});
+
+describe('importTerraform', () => {
+  it('should map supported resources through the resource schemas', () => {
+    const { nodes } = importTerraform(
+      `
+      resource "aws_instance" "web" {
+        ami           = "ami-abc"
+        instance_type = "t3.small"
+        tags = { Name = "Web Server" }
+      }
+
+      resource "aws_lb" "front" {
+        name     = "front"
+        internal = true
+      }
+
+      resource "aws_wafv2_web_acl" "shield" {
+        name  = "shield"
+        scope = "REGIONAL"
+        default_action {
+          block {}
+        }
+      }
+      `,
+      { idPrefix: 'test' }
+    );
+
+    expect(nodes).toHaveLength(3);
+    expect(nodes[0]).toMatchObject({
+      id: 'ec2-test-0',
+      type: 'ec2',
+      data: { label: 'Web Server', properties: { ami: 'ami-abc', instanceType: 't3.small', keyName: '' } },
+    });
+    expect(nodes[1].data.label).toBe('front');
+    expect(nodes[1].data.properties).toMatchObject({ scheme: 'internal' });
+    expect(nodes[2].data.properties).toMatchObject({ defaultAction: 'BLOCK' });
+  });
+
+  it('should rebuild edges from depends_on and attribute references', () => {
+    const { nodes, edges } = importTerraform(
+      `
+      resource "aws_instance" "main" {
+        ami = "ami-0"
+      }
+
+      resource "aws_s3_bucket" "logs" {
+        bucket = "\${aws_instance.main.id}-logs"
+      }
+
+      resource "aws_instance" "app" {
+        ami = "ami-1"
+        depends_on = [aws_s3_bucket.logs]
+      }
+      `,
+      { idPrefix: 't' }
+    );
+
+    const byLabel = (label: string) => nodes.find((node) => node.data.label === label)!.id;
+    const pairs = edges.map((edge) => [edge.source, edge.target]);
+
+    expect(pairs).toEqual([
+      [byLabel('main'), byLabel('logs')],
+      [byLabel('logs'), byLabel('app')],
+    ]);
+
+    // Dependencies are laid out above their dependents
+    const y = (label: string) => nodes.find((node) => node.data.label === label)!.position.y;
+    expect(y('main')).toBeLessThan(y('logs'));
+    expect(y('logs')).toBeLessThan(y('app'));
+  });
+
+  it('should follow references through resources that are not on the canvas', () => {
+    const { nodes, edges } = importTerraform(`
+      resource "aws_vpc" "main" {
+        cidr_block = "10.0.0.0/16"
+      }
+
+      resource "aws_subnet" "private" {
+        vpc_id = aws_vpc.main.id
+      }
+
+      resource "aws_instance" "web" {
+        subnet_id = aws_subnet.private.id
+      }
+
+      resource "aws_lb" "front" {
+        name = "front"
+      }
+
+      resource "aws_lb_target_group" "front_tg" {
+        port = 80
+      }
+
+      resource "aws_lb_listener" "front_http" {
+        load_balancer_arn = aws_lb.front.arn
+        default_action {
+          target_group_arn = aws_lb_target_group.front_tg.arn
+        }
+      }
+
+      resource "aws_lb_target_group_attachment" "front_web" {
+        target_group_arn = aws_lb_target_group.front_tg.arn
+        target_id        = aws_instance.web.id
+      }
+    `);
+
+    const labelOf = (id: string) => nodes.find((node) => node.id === id)?.data.label;
+
+    // Pairs with connection semantics keep the direction they are drawn in (caller to callee)
+    expect(edges.map((edge) => [labelOf(edge.source), labelOf(edge.target)])).toEqual([
+      ['web', 'main'],
+      ['front', 'web'],
+    ]);
+  });
+
+  it('should report references between resources that cannot be connected', () => {
+    const { nodes, edges, report } = importTerraform(`
+      resource "aws_wafv2_web_acl" "shield" {
+        name  = "shield"
+        scope = "REGIONAL"
+      }
+
+      resource "aws_s3_bucket" "logs" {
+        bucket = "\${aws_wafv2_web_acl.shield.name}-logs"
+      }
+    `);
+
+    expect(nodes).toHaveLength(2);
+    expect(edges).toEqual([]);
+    expect(report.at(-1)).toMatchObject({
+      status: 'warning',
+      address: 'aws_wafv2_web_acl.shield -> aws_s3_bucket.logs',
+      line: 7,
+    });
+    expect(report.at(-1)?.message).toContain('WAF / Firewall cannot connect to S3 Bucket');
+  });
+
+  it('should merge companion S3 resources into the bucket node', () => {
+    const { nodes, edges, report } = importTerraform(`
+      resource "aws_s3_bucket" "assets" {
+        bucket = "my-assets"
+      }
+
+      resource "aws_s3_bucket_versioning" "assets_versioning" {
+        bucket = aws_s3_bucket.assets.id
+        versioning_configuration {
+          status = "Enabled"
+        }
+      }
+    `);
+
+    expect(nodes).toHaveLength(1);
+    expect(edges).toHaveLength(0);
+    expect(nodes[0].data.properties).toMatchObject({ bucketName: 'my-assets', versioning: true, encryption: false });
+    expect(report.find((entry) => entry.status === 'merged')?.address).toBe('aws_s3_bucket_versioning.assets_versioning');
+  });
+
+  it('should derive security group ports and KMS aliases from their blocks', () => {
+    const { nodes, report } = importTerraform(`
+      resource "aws_security_group" "web" {
+        name = "web"
+        ingress {
+          from_port   = 443
+          to_port     = 443
+          protocol    = "tcp"
+          cidr_blocks = ["10.0.0.0/8"]
+        }
+      }
+
+      resource "aws_kms_key" "data" {
+        enable_key_rotation = true
+      }
+
+      resource "aws_kms_alias" "data_alias" {
+        name          = "alias/data"
+        target_key_id = aws_kms_key.data.key_id
+      }
+    `);
+
+    expect(nodes.map((node) => node.type)).toEqual(['securitygroup', 'kms']);
+    expect(nodes[0].data.properties).toMatchObject({ name: 'web', ingressPorts: ['443'], ingressCidr: '10.0.0.0/8' });
+    expect(nodes[1].data.properties).toMatchObject({ alias: 'data', enableKeyRotation: true });
+    expect(report.find((entry) => entry.status === 'merged')?.address).toBe('aws_kms_alias.data_alias');
+  });
+
+  it('should import database credentials without keeping a literal password in the HCL', () => {
+    const { nodes } = importTerraform(`
+      resource "aws_db_instance" "legacy" {
+        engine   = "mysql"
+        username = "root"
+        password = "changeme123"
+      }
+
+      resource "aws_db_instance" "orders" {
+        engine   = "postgres"
+        password = var.orders_password
+      }
+
+      resource "aws_db_instance" "audit" {
+        engine                      = "postgres"
+        manage_master_user_password = true
+      }
+    `);
+
+    expect(nodes[0].data.resourceName).toBe('legacy');
+    expect(nodes[0].data.properties).toMatchObject({ username: 'root', credentials: 'variable', masterPassword: 'changeme123' });
+    expect(nodes[1].data.properties).toMatchObject({ credentials: 'variable', masterPassword: '' });
+    expect(nodes[2].data.properties).toMatchObject({ credentials: 'managed' });
+    expect(generateTerraform(nodes, [])).not.toContain('changeme123');
+  });
+
+  it('should list unmapped blocks and values in the report', () => {
+    const { nodes, report } = importTerraform(`
+      provider "aws" {
+        region = "us-east-1"
+      }
+
+      variable "instance_type" {}
+
+      resource "aws_kinesis_stream" "jobs" {
+        name = "jobs"
+      }
+
+      resource "aws_instance" "web" {
+        instance_type = var.instance_type
+      }
+    `);
+
+    expect(nodes).toHaveLength(1);
+    expect(nodes[0].data.properties).toMatchObject({ instanceType: 't2.micro' });
+
+    const skipped = report.filter((entry) => entry.status === 'skipped').map((entry) => entry.address);
+    expect(skipped).toEqual(['provider aws', 'variable instance_type', 'aws_kinesis_stream.jobs']);
+
+    const warning = report.find((entry) => entry.status === 'warning');
+    expect(warning).toMatchObject({ address: 'aws_instance.web', line: 12 });
+    expect(warning?.message).toContain('var.instance_type');
+  });
+
+  it('should report attributes and expressions that are not imported', () => {
+    const { nodes, report } = importTerraform(`
+      resource "aws_instance" "web" {
+        count         = 3
+        ami           = "ami-123"
+        monitoring    = true
+        subnet_id     = aws_subnet.app.id
+        tags          = { for key, value in var.tags : key => upper(value) }
+      }
+
+      resource "aws_lambda_function" "worker" {
+        for_each      = toset(["a", "b"])
+        function_name = "worker"
+
+        environment {
+          variables = {
+            LOG_LEVEL = "debug"
+            BUCKET    = aws_s3_bucket.assets.bucket
+            STAGE     = upper(var.stage)
+          }
+        }
+      }
+    `);
+
+    expect(nodes[1].data.properties).toMatchObject({ environment: { LOG_LEVEL: 'debug' } });
+    const warnings = report
+      .filter((entry) => entry.status === 'warning')
+      .map(({ address, line, message }) => ({ address, line, message }));
+    expect(warnings).toEqual([
+      {
+        address: 'aws_instance.web',
+        line: 2,
+        message: 'count = 3 is not represented on the canvas; imported as a single resource',
+      },
+      { address: 'aws_instance.web', line: 2, message: 'monitoring is not represented on the canvas; left out' },
+      {
+        address: 'aws_instance.web',
+        line: 2,
+        message: 'tags = { for key, value in var.tags : key => upper(value) } is not a literal map; tags were not imported',
+      },
+      {
+        address: 'aws_lambda_function.worker',
+        line: 10,
+        message: 'for_each = toset(["a", "b"]) is not represented on the canvas; imported as a single resource',
+      },
+      {
+        address: 'aws_lambda_function.worker',
+        line: 10,
+        message: 'environment.BUCKET = aws_s3_bucket.assets.bucket is not a literal value; left out of Environment Variables',
+      },
+      {
+        address: 'aws_lambda_function.worker',
+        line: 10,
+        message: 'environment.STAGE = upper(var.stage) is not a literal value; left out of Environment Variables',
+      },
+    ]);
+  });
+
+  it('should round-trip a generated configuration', () => {
+    const original: Node[] = [
+      {
+        id: 'vpc-1',
+        type: 'vpc',
+        position: { x: 0, y: 0 },
+        data: {
+          label: 'Main VPC',
+          properties: { cidrBlock: '10.1.0.0/16', enableDnsHostnames: true, enableDnsSupport: false, tags: { Team: 'core' } },
+        },
+      },
+      {
+        id: 'lambda-1',
+        type: 'lambda',
+        position: { x: 0, y: 0 },
+        data: {
+          label: 'Worker',
+          properties: {
+            functionName: 'worker',
+            runtime: 'python3.12',
+            handler: 'app.main',
+            memory: 256,
+            sourceType: 's3',
+            sourceDir: 'src',
+            s3Bucket: 'artifacts',
+            s3Key: 'worker.zip',
+            environment: { LOG_LEVEL: 'debug' },
+            tags: {},
+          },
+        },
+      },
+      {
+        id: 's3-1',
+        type: 's3',
+        position: { x: 0, y: 0 },
+        data: {
+          label: 'Assets',
+          properties: {
+            bucketName: 'assets',
+            versioning: true,
+            encryption: true,
+            lifecycleRules: [
+              { id: 'archive-logs', prefix: 'logs/', enabled: true, transition: { days: 30, storageClass: 'GLACIER' }, expiration: {} },
+            ],
+            tags: { 'cost-center': '42' },
+          },
+        },
+      },
+    ];
+    const originalEdges: Edge[] = [
+      { id: 'e1', source: 'vpc-1', target: 'lambda-1' },
+      { id: 'e2', source: 'lambda-1', target: 's3-1' },
+    ];
+
+    const { nodes, edges } = importTerraform(generateTerraform(original, originalEdges));
+
+    expect(nodes.map((node) => [node.type, node.data.label, node.data.properties])).toEqual(
+      original.map((node) => [node.type, node.data.label, node.data.properties])
+    );
+
+    const labelOf = (id: string) => nodes.find((node) => node.id === id)?.data.label;
+    expect(edges.map((edge) => [labelOf(edge.source), labelOf(edge.target)])).toEqual(
+      expect.arrayContaining([
+        ['Main VPC', 'Worker'],
+        ['Worker', 'Assets'],
+      ])
+    );
+    expect(edges).toHaveLength(2);
+  });
+});
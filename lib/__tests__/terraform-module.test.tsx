@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { generateTerraform, generateTerraformModule, TerraformFile } from '../terraform-generator';
+import { parseHCL, isHCLExpression } from '../hcl-parser';
+import { Node, Edge, ResourceTypeId } from '@/types';
+
+function makeNode(id: string, type: ResourceTypeId, label: string, properties: Record<string, unknown> = {}): Node {
+  return { id, type, position: { x: 0, y: 0 }, data: { label, properties } };
+}
+
+function getFile(files: TerraformFile[], path: string): string {
+  return files.find((file) => file.path === path)?.content ?? '';
+}
+
+const web = makeNode('ec2-1', 'ec2', 'Web', { ami: 'ami-123', instanceType: 't3.micro', securityGroups: ['sg-1'] });
+const worker = makeNode('lambda-1', 'lambda', 'Worker', { functionName: 'worker', runtime: 'nodejs20.x', memory: 256 });
+const orders = makeNode('dynamodb-1', 'dynamodb', 'Orders', { tableName: 'orders', hashKey: 'pk' });
+const edges: Edge[] = [{ id: 'e1', source: 'lambda-1', target: 'dynamodb-1' }];
+
+describe('generateTerraformModule', () => {
+  it('should split the configuration into the standard module files', () => {
+    const files = generateTerraformModule([web, worker, orders], edges);
+
+    expect(files.map((file) => file.path)).toEqual(['main.tf', 'variables.tf', 'outputs.tf', 'providers.tf']);
+    expect(getFile(files, 'main.tf')).not.toContain('terraform {');
+    expect(getFile(files, 'main.tf')).toContain('resource "aws_iam_role_policy" "worker_orders_access"');
+
+    const providers = getFile(files, 'providers.tf');
+    expect(providers).toContain('source  = "hashicorp/aws"');
+    expect(providers).toContain('source  = "hashicorp/archive"');
+    expect(providers).toContain('provider "aws" {\n  region = var.aws_region\n}');
+  });
+
+  it('should lift editable properties into variables defaulting to their current values', () => {
+    const files = generateTerraformModule([web, worker, orders], edges, { region: 'eu-west-1' });
+    const main = getFile(files, 'main.tf');
+
+    expect(main).toContain('instance_type = var.web_instance_type');
+    expect(main).toContain('memory_size   = var.worker_memory_size');
+    // The key attribute follows hash_key
+    expect(main).toContain('hash_key     = var.orders_hash_key');
+    expect(main).toContain('name = var.orders_hash_key');
+    // Wiring still references resources directly
+    expect(main).toContain('ORDERS_TABLE_NAME = aws_dynamodb_table.orders.name');
+
+    const variables = Object.fromEntries(
+      parseHCL(getFile(files, 'variables.tf')).map((block) => [block.labels[0], block.attributes])
+    );
+    expect(variables.aws_region.default).toBe('eu-west-1');
+    expect(variables.web_instance_type.default).toBe('t3.micro');
+    expect(variables.web_security_groups.default).toEqual(['sg-1']);
+    expect(variables.worker_memory_size.default).toBe(256);
+
+    const type = variables.worker_memory_size.type;
+    expect(isHCLExpression(type) && type.raw).toBe('number');
+  });
+
+  it('should only write terraform.tfvars when requested', () => {
+    expect(generateTerraformModule([web], []).some((file) => file.path === 'terraform.tfvars')).toBe(false);
+
+    const tfvars = getFile(generateTerraformModule([web], [], { includeTfvars: true }), 'terraform.tfvars');
+    expect(tfvars).toMatch(/^aws_region\s+= "us-east-1"$/m);
+    expect(tfvars).toMatch(/^web_ami\s+= "ami-123"$/m);
+    expect(tfvars).toMatch(/^web_security_groups = \["sg-1"\]$/m);
+  });
+
+  it('should output identifiers and endpoints of each resource', () => {
+    const files = generateTerraformModule([web, worker, orders], edges);
+    const outputs = parseHCL(getFile(files, 'outputs.tf'));
+    const values = Object.fromEntries(
+      outputs.map((block) => {
+        const value = block.attributes.value;
+        return [block.labels[0], isHCLExpression(value) ? value.raw : value];
+      })
+    );
+
+    expect(values.web_id).toBe('aws_instance.web.id');
+    expect(values.web_public_ip).toBe('aws_instance.web.public_ip');
+    expect(values.worker_arn).toBe('aws_lambda_function.worker.arn');
+    expect(values.orders_arn).toBe('aws_dynamodb_table.orders.arn');
+  });
+
+  it('should return no files for an empty canvas', () => {
+    expect(generateTerraformModule([], [])).toEqual([]);
+  });
+
+  it('should keep inlining values in single-file output', () => {
+    const code = generateTerraform([web], []);
+
+    expect(code).toContain('instance_type = "t3.micro"');
+    expect(code).not.toContain('var.');
+  });
+
+  it('should declare a database password variable as sensitive and keep its value out of variables.tf', () => {
+    const db = makeNode('rds-1', 'rds', 'Orders DB', { engine: 'postgres', credentials: 'variable', masterPassword: 'hunter2!' });
+    const files = generateTerraformModule([db], [], { includeTfvars: true });
+
+    expect(getFile(files, 'main.tf')).toContain('password             = var.orders_db_password');
+    const [variable] = parseHCL(getFile(files, 'variables.tf')).filter((block) => block.labels[0] === 'orders_db_password');
+    expect(variable.attributes.sensitive).toBe(true);
+    expect(variable.attributes).not.toHaveProperty('default');
+    expect(getFile(files, 'variables.tf')).not.toContain('hunter2!');
+    expect(getFile(files, 'terraform.tfvars')).toMatch(/^orders_db_password\s+= "hunter2!"$/m);
+
+    const unset = makeNode('rds-1', 'rds', 'Orders DB', { engine: 'postgres', credentials: 'variable' });
+    expect(getFile(generateTerraformModule([unset], [], { includeTfvars: true }), 'terraform.tfvars')).not.toContain('orders_db_password');
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge } from '@/types';
+import { generateTerraformModule, TerraformFile } from '../terraform-generator';
+import { reconcileTerraformModule } from '../terraform-reconciler';
+
+const nodes: Node[] = [
+  {
+    id: 'ec2-1',
+    type: 'ec2',
+    position: { x: 0, y: 0 },
+    data: { label: 'Web', properties: { instanceType: 't3.micro', ami: 'ami-123' } },
+  },
+  {
+    id: 's3-1',
+    type: 's3',
+    position: { x: 200, y: 0 },
+    data: { label: 'Assets', properties: { bucketName: 'assets', versioning: false, encryption: true } },
+  },
+];
+const edges: Edge[] = [];
+
+/**
+ * Applies a text edit to the generated main.tf, as a refinement would
+ */
+function refine(edit: (main: string) => string): TerraformFile[] {
+  return generateTerraformModule(nodes, edges).map((file) =>
+    file.path === 'main.tf' ? { ...file, content: edit(file.content) } : file
+  );
+}
+
+describe('reconcileTerraformModule', () => {
+  it('should report nothing for unchanged code', () => {
+    const result = reconcileTerraformModule(generateTerraformModule(nodes, edges), nodes, edges);
+
+    expect(result).toEqual({ updates: [], added: { nodes: [], edges: [] }, removed: [], report: [] });
+  });
+
+  it('should turn edited attributes into property updates', () => {
+    const files = refine((main) => main.replace('var.web_instance_type', '"t3.small"'));
+
+    const { updates } = reconcileTerraformModule(files, nodes, edges);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ nodeId: 'ec2-1', changed: ['Instance Type'] });
+    expect(updates[0].data.properties).toEqual({ instanceType: 't3.small', ami: 'ami-123' });
+    expect(updates[0].data.hclOverride).toBeUndefined();
+  });
+
+  it('should not treat values outside the schema as property edits', () => {
+    const files = refine((main) => main.replace('var.web_instance_type', '"m5.large"'));
+
+    const { updates } = reconcileTerraformModule(files, nodes, edges);
+
+    expect(updates[0].changed).toEqual([]);
+    expect(updates[0].data.properties).toMatchObject({ instanceType: 't3.micro' });
+    expect(updates[0].data.hclOverride).toContain('instance_type = "m5.large"');
+  });
+
+  it('should read companion resources back into properties', () => {
+    const files = refine(
+      (main) =>
+        `${main}\nresource "aws_s3_bucket_versioning" "assets_versioning" {\n  bucket = aws_s3_bucket.assets.id\n\n  versioning_configuration {\n    status = "Enabled"\n  }\n}\n`
+    );
+
+    const { updates } = reconcileTerraformModule(files, nodes, edges);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].data.properties).toMatchObject({ versioning: true });
+    expect(updates[0].data.hclOverride).toBeUndefined();
+  });
+
+  it('should keep what the schema cannot express as an HCL override that the generator emits', () => {
+    const files = refine((main) =>
+      main.replace('instance_type = var.web_instance_type', 'instance_type = var.web_instance_type\n  monitoring    = true')
+    );
+
+    const { updates } = reconcileTerraformModule(files, nodes, edges);
+    const override = updates[0].data.hclOverride!;
+
+    expect(override).toContain('monitoring    = true');
+    // Variables are inlined so the block works wherever it is emitted
+    expect(override).toContain('instance_type = "t3.micro"');
+
+    const updated = nodes.map((node) => (node.id === 'ec2-1' ? { ...node, data: { ...node.data, ...updates[0].data } } : node));
+    expect(generateTerraformModule(updated, edges)[0].content).toContain(override);
+  });
+
+  it('should keep the blocks emitted alongside a node in its override', () => {
+    const refinedNodes: Node[] = [
+      {
+        id: 'lambda-1',
+        type: 'lambda',
+        position: { x: 0, y: 0 },
+        data: { label: 'Api', properties: { runtime: 'nodejs20.x', handler: 'index.handler', sourceDir: 'src' } },
+      },
+      {
+        id: 's3-1',
+        type: 's3',
+        position: { x: 200, y: 0 },
+        data: { label: 'Assets', properties: { bucketName: 'assets', versioning: true, encryption: true } },
+      },
+    ];
+    const files = generateTerraformModule(refinedNodes, edges).map((file) =>
+      file.path === 'main.tf'
+        ? {
+            ...file,
+            content: file.content
+              .replace(/(resource "aws_lambda_function" "api" \{\n)/, '$1  reserved_concurrent_executions = 5\n')
+              .replace(/(resource "aws_s3_bucket" "assets" \{\n)/, '$1  force_destroy = true\n'),
+          }
+        : file
+    );
+
+    const { updates } = reconcileTerraformModule(files, refinedNodes, edges);
+    const updated = refinedNodes.map((node) => {
+      const update = updates.find((candidate) => candidate.nodeId === node.id);
+      return update ? { ...node, data: { ...node.data, ...update.data } } : node;
+    });
+    const code = generateTerraformModule(updated, edges)
+      .filter((file) => file.path === 'main.tf' || file.path === 'outputs.tf')
+      .map((file) => file.content)
+      .join('\n');
+
+    expect(updates.map((update) => update.data.hclOverride)).toEqual([
+      expect.stringContaining('reserved_concurrent_executions = 5'),
+      expect.stringContaining('force_destroy = true'),
+    ]);
+    const declared = new Set(
+      [...code.matchAll(/^(resource|data) "([\w-]+)" "([\w-]+)"/gm)].map(([, kind, type, name]) =>
+        kind === 'data' ? `data.${type}.${name}` : `${type}.${name}`
+      )
+    );
+    const references = [...code.matchAll(/\b(?:data\.[a-z]\w*|aws_\w+)\.[\w-]+/g)].map(([reference]) => reference);
+    expect(references).toEqual(expect.arrayContaining(['aws_iam_role.api_role', 'data.archive_file.api_package']));
+    expect(references.filter((reference) => !declared.has(reference))).toEqual([]);
+    expect([...declared]).toEqual(
+      expect.arrayContaining([
+        'aws_s3_bucket_versioning.assets_versioning',
+        'aws_s3_bucket_server_side_encryption_configuration.assets_encryption',
+      ])
+    );
+  });
+
+  it('should attach unsupported resources to the node they reference', () => {
+    const files = refine(
+      (main) => `${main}\nresource "aws_eip" "web_ip" {\n  instance = aws_instance.web.id\n}\n\nresource "aws_kinesis_stream" "alerts" {\n  name = "alerts"\n}\n`
+    );
+
+    const { updates, report } = reconcileTerraformModule(files, nodes, edges);
+
+    expect(updates[0].data.hclOverride).toContain('resource "aws_eip" "web_ip"');
+    expect(report).toEqual([
+      expect.objectContaining({ status: 'merged', address: 'aws_eip.web_ip' }),
+      expect.objectContaining({ status: 'skipped', address: 'aws_kinesis_stream.alerts' }),
+    ]);
+  });
+
+  it('should add new resources as nodes and flag removed ones', () => {
+    const files = refine((main) =>
+      main
+        .replace(/resource "aws_s3_bucket" "assets" \{[\s\S]*?\n\}\n/, '')
+        .replace(/resource "aws_s3_bucket_server_side_encryption_configuration"[\s\S]*?\n\}\n/, '')
+        .concat('\nresource "aws_dynamodb_table" "orders" {\n  name     = "orders"\n  hash_key = "id"\n}\n')
+    );
+
+    const { added, removed, updates } = reconcileTerraformModule(files, nodes, edges);
+
+    expect(added.nodes).toHaveLength(1);
+    expect(added.nodes[0]).toMatchObject({ type: 'dynamodb', data: { label: 'orders' } });
+    expect(added.nodes[0].position.x).toBeGreaterThan(200);
+    expect(removed).toEqual(['s3-1']);
+    expect(updates).toEqual([expect.objectContaining({ nodeId: 's3-1', data: { removedInCode: true } })]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { diffLines, diffText, applyHunks } from '../text-diff';
+
+const before = `resource "aws_s3_bucket" "logs" {
+  bucket = "logs"
+}
+
+resource "aws_instance" "web" {
+  ami           = "ami-123"
+  instance_type = "t3.micro"
+}`;
+
+const after = `resource "aws_s3_bucket" "logs" {
+  bucket = "logs"
+  tags = {
+    Environment = "dev"
+  }
+}
+
+resource "aws_instance" "web" {
+  ami           = "ami-123"
+  instance_type = "t3.small"
+}`;
+
+describe('diffLines', () => {
+  it('should mark added, removed and unchanged lines with their line numbers', () => {
+    const lines = diffLines('a\nb\nc', 'a\nx\nc');
+
+    expect(lines).toEqual([
+      { type: 'context', text: 'a', oldNumber: 1, newNumber: 1 },
+      { type: 'remove', text: 'b', oldNumber: 2 },
+      { type: 'add', text: 'x', newNumber: 2 },
+      { type: 'context', text: 'c', oldNumber: 3, newNumber: 3 },
+    ]);
+  });
+});
+
+describe('diffText', () => {
+  it('should split separate changes into hunks with surrounding context', () => {
+    const { hunks } = diffText(before, after);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({ oldStart: 3, newStart: 3, removed: [], added: ['  tags = {', '    Environment = "dev"', '  }'] });
+    expect(hunks[0].before.map((line) => line.text)).toEqual(['resource "aws_s3_bucket" "logs" {', '  bucket = "logs"']);
+    expect(hunks[1]).toMatchObject({ oldStart: 7, newStart: 10, removed: ['  instance_type = "t3.micro"'] });
+  });
+
+  it('should not repeat context lines between neighbouring hunks', () => {
+    const { hunks } = diffText('a\nb\nc\nd', 'A\nb\nc\nD');
+    const shown = hunks.flatMap((hunk) => [...hunk.before, ...hunk.after]);
+
+    expect(shown.map((line) => line.text)).toEqual(['b', 'c']);
+  });
+});
+
+describe('applyHunks', () => {
+  it('should apply only the accepted hunks', () => {
+    const diff = diffText(before, after);
+    const merged = applyHunks(diff, new Set([1]));
+
+    expect(merged).toContain('instance_type = "t3.small"');
+    expect(merged).not.toContain('Environment');
+  });
+
+  it('should give the new text when every hunk is accepted and the old text when none are', () => {
+    const text = fc.array(fc.constantFrom('a', 'b', 'c', '', '}'), { maxLength: 12 }).map((lines) => lines.join('\n'));
+
+    fc.assert(
+      fc.property(text, text, (oldText, newText) => {
+        const diff = diffText(oldText, newText);
+        expect(applyHunks(diff, new Set(diff.hunks.map((hunk) => hunk.index)))).toBe(newText);
+        expect(applyHunks(diff, new Set())).toBe(oldText);
+      })
+    );
+  });
+});
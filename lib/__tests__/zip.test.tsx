@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, crc32 } from '../zip';
+
+const decoder = new TextDecoder();
+
+/**
+ * Reads entries back through the central directory, checking each local header
+ */
+function readZip(archive: Uint8Array): Array<{ path: string; content: string; crc: number }> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const end = archive.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const path = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    entries.push({ path, content: decoder.decode(archive.subarray(dataStart, dataStart + size)), crc });
+
+    position += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+describe('createZip', () => {
+  it('should compute standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should store every file so it can be read back', () => {
+    const files = [
+      { path: 'main.tf', content: 'resource "aws_vpc" "main" {}\n' },
+      { path: 'variables.tf', content: '' },
+      { path: 'docs/README.md', content: 'Région ✓' },
+    ];
+
+    const entries = readZip(createZip(files, new Date(2024, 0, 15, 10, 30)));
+
+    expect(entries.map(({ path, content }) => ({ path, content }))).toEqual(files);
+    expect(entries[0].crc).toBe(crc32(new TextEncoder().encode(files[0].content)));
+  });
+
+  it('should produce an empty archive when there are no files', () => {
+    const archive = createZip([]);
+
+    expect(archive).toHaveLength(22);
+    expect(readZip(archive)).toEqual([]);
+  });
+});
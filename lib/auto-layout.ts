@@ -0,0 +1,187 @@
+// Automatic diagram layout: layered by connections, or grouped by resource category
+import { Node, Edge, ResourceCategory } from '@/types';
+import { getResourceTypeById } from '@/lib/resource-types';
+import { containerSizes, getNodeSize, isContainerType } from '@/lib/containers';
+
+/**
+ * top-bottom and left-right place each resource after the ones connected into it;
+ * category gives each resource category its own column
+ */
+export type LayoutMode = 'top-bottom' | 'left-right' | 'category';
+
+export interface LayoutOptions {
+  // Top-left position of the diagram (defaults to the top-left of the current one)
+  origin?: { x: number; y: number };
+}
+
+interface Extent {
+  width: number;
+  height: number;
+}
+
+// Column order of the category layout
+const CATEGORY_ORDER: ResourceCategory[] = ['security', 'network', 'compute', 'integration', 'database', 'storage'];
+
+// Space between nodes in a layer, between layers, and inside containers (the top leaves room for the title)
+const NODE_GAP = 80;
+const LAYER_GAP = 120;
+const CONTAINER_PADDING = 40;
+const CONTAINER_HEADER = 50;
+
+/**
+ * Assigns each node its longest-path depth among its siblings. Bounded by the node
+ * count so cycles cannot loop forever.
+ */
+function computeDepths(ids: string[], links: Array<[string, string]>): Map<string, number> {
+  const depth = new Map(ids.map((id) => [id, 0]));
+
+  for (let pass = 0; pass < ids.length; pass++) {
+    let changed = false;
+    for (const [source, target] of links) {
+      const next = depth.get(source)! + 1;
+      if (next > depth.get(target)! && next < ids.length) {
+        depth.set(target, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return depth;
+}
+
+/**
+ * Groups nodes into layers by depth, ordering each layer by the average position of
+ * the nodes connected into it to reduce crossings
+ */
+function buildLayers(row: Node[], links: Array<[string, string]>): Node[][] {
+  const depth = computeDepths(row.map((node) => node.id), links);
+  const layers: Node[][] = [];
+  for (const node of row) {
+    (layers[depth.get(node.id)!] ??= []).push(node);
+  }
+
+  const order = new Map<string, number>();
+  return layers
+    .filter((layer) => layer !== undefined)
+    .map((layer) => {
+      const weight = (node: Node) => {
+        const incoming = links.filter(([, target]) => target === node.id).map(([source]) => order.get(source));
+        const known = incoming.filter((value): value is number => value !== undefined);
+        return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : Infinity;
+      };
+      const weights = new Map(layer.map((node) => [node.id, weight(node)]));
+      // Stable sort keeps the original order for nodes without placed predecessors
+      const sorted = [...layer].sort((a, b) => {
+        const difference = weights.get(a.id)! - weights.get(b.id)!;
+        return Number.isNaN(difference) ? 0 : difference;
+      });
+      sorted.forEach((node, index) => order.set(node.id, index));
+      return sorted;
+    });
+}
+
+/**
+ * Places groups of nodes one after another along the main axis, each group spread
+ * along the cross axis and centred on the widest
+ */
+function placeGroups(groups: Node[][], horizontal: boolean, start: { x: number; y: number }): Extent {
+  const size = (node: Node) => {
+    const { width, height } = getNodeSize(node);
+    return horizontal ? { main: width, cross: height } : { main: height, cross: width };
+  };
+  const spans = groups.map((group) =>
+    group.reduce((total, node, index) => total + size(node).cross + (index > 0 ? NODE_GAP : 0), 0)
+  );
+  const widest = Math.max(0, ...spans);
+
+  let main = 0;
+  let cross = 0;
+  groups.forEach((group, index) => {
+    let offset = (widest - spans[index]) / 2;
+    const depth = Math.max(...group.map((node) => size(node).main));
+    for (const node of group) {
+      node.position = horizontal
+        ? { x: start.x + main, y: start.y + offset }
+        : { x: start.x + offset, y: start.y + main };
+      offset += size(node).cross + NODE_GAP;
+    }
+    cross = Math.max(cross, offset - NODE_GAP);
+    main += depth + LAYER_GAP;
+  });
+
+  const length = Math.max(0, main - LAYER_GAP);
+  return horizontal ? { width: length, height: cross } : { width: cross, height: length };
+}
+
+/**
+ * Computes new positions for a diagram. Resources inside a container are laid out
+ * within it (containers grow to fit), and connections between resources in
+ * different containers order the containers themselves.
+ * @param nodes - Nodes on the canvas; they are not modified
+ * @param edges - Edges used to order the layers
+ * @param mode - Layout to apply
+ * @param options - Where to place the diagram
+ * @returns The nodes with new positions (and container sizes), in the same order
+ */
+export function layoutDiagram(nodes: Node[], edges: Edge[], mode: LayoutMode, options: LayoutOptions = {}): Node[] {
+  if (nodes.length === 0) return [];
+
+  const copies = nodes.map((node) => ({ ...node, position: { ...node.position } }));
+  const byId = new Map(copies.map((node) => [node.id, node]));
+  const parentOf = (node: Node) => (node.parentId && byId.has(node.parentId) ? node.parentId : undefined);
+  const topLevel = copies.filter((node) => !parentOf(node));
+  const origin = options.origin ?? {
+    x: Math.min(...topLevel.map((node) => node.position.x)),
+    y: Math.min(...topLevel.map((node) => node.position.y)),
+  };
+
+  const children = new Map<string | undefined, Node[]>();
+  for (const node of copies) {
+    const parentId = parentOf(node);
+    children.set(parentId, [...(children.get(parentId) ?? []), node]);
+  }
+
+  // The ancestor of a node (or the node itself) that sits directly in a container
+  const liftTo = (id: string, parentId: string | undefined): string | null => {
+    const seen = new Set<string>();
+    for (let node = byId.get(id); node && !seen.has(node.id); node = byId.get(node.parentId ?? '')) {
+      if (parentOf(node) === parentId) return node.id;
+      seen.add(node.id);
+    }
+    return null;
+  };
+
+  const place = (parentId: string | undefined, start: { x: number; y: number }): Extent => {
+    const row = children.get(parentId) ?? [];
+
+    // Containers are sized bottom-up before their siblings are placed around them
+    for (const node of row) {
+      if (!isContainerType(node.type)) continue;
+      const inner = place(node.id, { x: CONTAINER_PADDING, y: CONTAINER_HEADER });
+      const initial = containerSizes[node.type]!;
+      node.width = Math.max(initial.width, inner.width + CONTAINER_PADDING * 2);
+      node.height = Math.max(initial.height, inner.height + CONTAINER_HEADER + CONTAINER_PADDING);
+    }
+
+    const links: Array<[string, string]> = [];
+    for (const edge of edges) {
+      const [source, target] = [liftTo(edge.source, parentId), liftTo(edge.target, parentId)];
+      if (source && target && source !== target) links.push([source, target]);
+    }
+
+    if (mode === 'category') {
+      // Within a column, resources keep the order their connections give them
+      const ordered = buildLayers(row, links).flat();
+      const columns = CATEGORY_ORDER.map((category) =>
+        ordered.filter((node) => getResourceTypeById(node.type)?.category === category)
+      ).filter((column) => column.length > 0);
+      return placeGroups(columns, true, start);
+    }
+
+    return placeGroups(buildLayers(row, links), mode === 'left-right', start);
+  };
+
+  place(undefined, origin);
+  return copies;
+}
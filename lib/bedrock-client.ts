@@ -1,139 +1,150 @@
-import { BedrockRuntimeClient, InvokeModelCommand } from "@aws-sdk/client-bedrock-runtime";
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+  InvokeModelWithResponseStreamCommand,
+} from "@aws-sdk/client-bedrock-runtime";
+import { LLMAuthError, LLMUnavailableError } from "./llm-errors";
+import type { LLMProvider, LLMCompletionRequest } from "./llm-provider";
 
-// Custom error classes
-export class BedrockTimeoutError extends Error {
-  constructor(message: string = "Bedrock request timed out") {
-    super(message);
-    this.name = "BedrockTimeoutError";
-  }
+export interface BedrockProviderOptions {
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
 }
 
-export class BedrockAuthError extends Error {
-  constructor(message: string = "Bedrock authentication failed") {
-    super(message);
-    this.name = "BedrockAuthError";
-  }
+// Errors from Bedrock that mean the credentials or model access are wrong
+const AUTH_ERROR_NAMES = [
+  "UnrecognizedClientException",
+  "InvalidSignatureException",
+  "AccessDeniedException",
+  "ResourceNotFoundException",
+];
+
+// Response body fields used by the supported model families
+interface BedrockResponseBody {
+  content?: Array<{ type?: string; text?: string }>;
+  choices?: Array<{ message?: { content?: string } }>;
 }
 
-export class JSONParseError extends Error {
-  constructor(message: string = "Failed to parse JSON response") {
-    super(message);
-    this.name = "JSONParseError";
-  }
+// Fields of a streamed chunk used by the supported model families
+interface BedrockStreamChunk {
+  type?: string;
+  delta?: { text?: string };
+  choices?: Array<{ delta?: { content?: string } }>;
 }
 
-// Bedrock client configuration
-const bedrockConfig = {
-  region: "us-east-1",
-  credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID || "",
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || "",
-  },
+/**
+ * Request and response formats differ by model family on Bedrock. Anthropic models
+ * use the Messages API; the other chat models accept OpenAI-style chat completions.
+ */
+interface BedrockModelFormat {
+  buildBody(request: LLMCompletionRequest): Record<string, unknown>;
+  readText(body: BedrockResponseBody): string | undefined;
+  readDelta(chunk: BedrockStreamChunk): string | undefined;
+}
+
+const anthropicFormat: BedrockModelFormat = {
+  buildBody: ({ prompt, temperature, maxTokens }) => ({
+    anthropic_version: "bedrock-2023-05-31",
+    max_tokens: maxTokens,
+    temperature,
+    messages: [{ role: "user", content: prompt }],
+  }),
+  readText: (body) => body.content?.find((part) => part.type === "text")?.text,
+  readDelta: (chunk) => (chunk.type === "content_block_delta" ? chunk.delta?.text : undefined),
 };
 
-const BEDROCK_MODEL = "nvidia.nemotron-nano-12b-v2";
-const TIMEOUT_MS = 30000; // 30 seconds
+const chatCompletionFormat: BedrockModelFormat = {
+  buildBody: ({ prompt, temperature, maxTokens }) => ({
+    max_tokens: maxTokens,
+    temperature,
+    top_p: 0.9,
+    messages: [{ role: "user", content: prompt }],
+  }),
+  readText: (body) => body.choices?.[0]?.message?.content,
+  readDelta: (chunk) => chunk.choices?.[0]?.delta?.content,
+};
 
 /**
- * Invokes AWS Bedrock with a prompt and returns parsed JSON response
- * @param prompt - The prompt to send to Bedrock
- * @returns Parsed JSON object from Bedrock response
- * @throws BedrockTimeoutError if request times out
- * @throws BedrockAuthError if authentication fails
- * @throws JSONParseError if response is not valid JSON
+ * Picks the request/response format for a Bedrock model ID
+ * (e.g. "anthropic.claude-3-haiku-20240307-v1:0" or "us.anthropic...")
  */
-export async function invokeBedrockWithJSON(prompt: string): Promise<any> {
-  const responseText = await invokeBedrock(prompt);
-  
-  try {
-    return JSON.parse(responseText);
-  } catch (error) {
-    throw new JSONParseError(`Bedrock returned invalid JSON: ${responseText.substring(0, 100)}...`);
-  }
+export function getBedrockModelFormat(modelId: string): BedrockModelFormat {
+  return /(^|\.)anthropic\./.test(modelId) ? anthropicFormat : chatCompletionFormat;
 }
 
 /**
- * Invokes AWS Bedrock with a prompt and returns raw text response
- * @param prompt - The prompt to send to Bedrock
- * @returns Raw text response from Bedrock
- * @throws BedrockTimeoutError if request times out
- * @throws BedrockAuthError if authentication fails
+ * Creates a provider that invokes models on AWS Bedrock
+ * @param options - Region and credentials
+ * @returns The Bedrock provider
  */
-export async function invokeBedrock(prompt: string): Promise<string> {
-  // Check credentials
-  if (!bedrockConfig.credentials.accessKeyId || !bedrockConfig.credentials.secretAccessKey) {
-    throw new BedrockAuthError("AWS credentials are missing. Check AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables.");
-  }
-
-  const client = new BedrockRuntimeClient(bedrockConfig);
-
-  const command = new InvokeModelCommand({
-    modelId: BEDROCK_MODEL,
-    body: JSON.stringify({
-      max_tokens: 2048,
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.7,
-      top_p: 0.9,
-    }),
-  });
+export function createBedrockProvider(options: BedrockProviderOptions): LLMProvider {
+  const createClient = () => {
+    // Check credentials
+    if (!options.accessKeyId || !options.secretAccessKey) {
+      throw new LLMAuthError("AWS credentials are missing. Check AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables.");
+    }
 
-  try {
-    // Create timeout promise
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new BedrockTimeoutError()), TIMEOUT_MS);
+    return new BedrockRuntimeClient({
+      region: options.region,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
     });
+  };
 
-    // Race between actual request and timeout
-    const response = await Promise.race([
-      client.send(command),
-      timeoutPromise,
-    ]);
-
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-    
-    // Handle NVIDIA Nemotron response format
-    if (responseBody.choices && responseBody.choices[0]?.message?.content) {
-      return responseBody.choices[0].message.content;
-    }
-    
-    // Fallback to content array format (Claude-style)
-    if (responseBody.content && responseBody.content[0]?.text) {
-      return responseBody.content[0].text;
-    }
-    
-    throw new Error("Unexpected response format from Bedrock");
-  } catch (error: any) {
-    // Handle specific error types
-    if (error instanceof BedrockTimeoutError) {
-      throw error;
-    }
+  return {
+    name: "bedrock",
+    async complete(request) {
+      const client = createClient();
+      const format = getBedrockModelFormat(request.modelId);
+      const command = new InvokeModelCommand({
+        modelId: request.modelId,
+        body: JSON.stringify(format.buildBody(request)),
+      });
 
-    if (error.name === "UnrecognizedClientException" || 
-        error.name === "InvalidSignatureException" ||
-        error.name === "AccessDeniedException" ||
-        error.name === "ResourceNotFoundException") {
-      throw new BedrockAuthError(`Authentication or model access failed: ${error.message}`);
-    }
+      try {
+        const response = await client.send(command, { abortSignal: request.signal });
+        const text = format.readText(JSON.parse(new TextDecoder().decode(response.body)));
+        if (typeof text !== "string") {
+          throw new LLMUnavailableError(`Unexpected response format from Bedrock model ${request.modelId}`);
+        }
+        return text;
+      } catch (error) {
+        throw mapBedrockError(error);
+      }
+    },
+    async *stream(request) {
+      const client = createClient();
+      const format = getBedrockModelFormat(request.modelId);
+      const command = new InvokeModelWithResponseStreamCommand({
+        modelId: request.modelId,
+        body: JSON.stringify(format.buildBody(request)),
+      });
 
-    // Re-throw other errors
-    throw error;
-  }
+      try {
+        const response = await client.send(command, { abortSignal: request.signal });
+        const decoder = new TextDecoder();
+        for await (const event of response.body ?? []) {
+          if (!event.chunk?.bytes) continue;
+          const text = format.readDelta(JSON.parse(decoder.decode(event.chunk.bytes)));
+          if (text) yield text;
+        }
+      } catch (error) {
+        throw mapBedrockError(error);
+      }
+    },
+  };
 }
 
 /**
- * Strips markdown code fences from text
- * Removes ```hcl, ```terraform, or ``` markers
- * @param text - Text potentially containing markdown code fences
- * @returns Clean text without code fences
+ * Converts credential and model access failures to LLMAuthError; other errors pass through
  */
-export function stripMarkdown(text: string): string {
-  return text
-    .replace(/```(?:hcl|terraform)?\n?/g, "")
-    .replace(/```\n?/g, "")
-    .trim();
+function mapBedrockError(error: unknown): unknown {
+  const { name, message } = error as Error;
+  if (AUTH_ERROR_NAMES.includes(name)) {
+    return new LLMAuthError(`Authentication or model access failed: ${message}`);
+  }
+  return error;
 }
@@ -1,46 +1,102 @@
 // Canvas state management with React Context
 'use client';
 
-import { createContext, useContext, useReducer, ReactNode, useMemo, useCallback } from 'react';
-import { CanvasState, CanvasAction, Node, Edge, NodeData } from '@/types';
+import { createContext, useContext, useReducer, useState, ReactNode, useMemo, useCallback } from 'react';
+import { CanvasState, CanvasAction, Node, Edge, NodeData, EdgeData } from '@/types';
+import { withHistory, createHistoryState } from './canvas-history';
+import { getSubtreeIds, setNodeParent as reparentNode } from './containers';
+import { lintDiagram, LintFinding } from './diagram-linter';
+import { estimateDiagramCost, defaultUsageAssumptions, CostEstimate, UsageAssumptions } from './cost-estimator';
+import { layoutDiagram, LayoutMode } from './auto-layout';
+import { assignResourceNames, renameResource } from './resource-names';
 
 // Initial state
 const initialState: CanvasState = {
   nodes: [],
   edges: [],
   selectedNodeId: null,
+  selectedNodeIds: [],
   isLoading: false,
   error: null,
 };
 
+/**
+ * Sets the selection, marking the selected nodes so React Flow highlights them
+ */
+function applySelection(state: CanvasState, ids: string[], primary: string | null): CanvasState {
+  const selected = new Set(ids);
+  return {
+    ...state,
+    nodes: state.nodes.map((node) =>
+      Boolean(node.selected) === selected.has(node.id) ? node : { ...node, selected: selected.has(node.id) }
+    ),
+    selectedNodeId: primary,
+    selectedNodeIds: ids,
+  };
+}
+
+/**
+ * Removes nodes with their connections. Deleting a container also deletes what is
+ * inside it, as React Flow does.
+ */
+function removeNodes(state: CanvasState, ids: string[]): CanvasState {
+  const removed = new Set(ids.flatMap((id) => [...getSubtreeIds(id, state.nodes)]));
+  const selectedNodeIds = state.selectedNodeIds.filter((id) => !removed.has(id));
+  return {
+    ...state,
+    nodes: state.nodes.filter((node) => !removed.has(node.id)),
+    edges: state.edges.filter(
+      (edge) => !removed.has(edge.source) && !removed.has(edge.target)
+    ),
+    selectedNodeId:
+      state.selectedNodeId && removed.has(state.selectedNodeId) ? selectedNodeIds[0] ?? null : state.selectedNodeId,
+    selectedNodeIds,
+  };
+}
+
 // Reducer function
 function canvasReducer(state: CanvasState, action: CanvasAction): CanvasState {
   switch (action.type) {
     case 'ADD_NODE':
       return {
         ...state,
-        nodes: [...state.nodes, action.payload],
+        nodes: assignResourceNames([...state.nodes, action.payload]),
       };
 
-    case 'UPDATE_NODE':
+    case 'UPDATE_NODE': {
+      const { id, data } = action.payload;
       return {
         ...state,
-        nodes: state.nodes.map((node) =>
-          node.id === action.payload.id
-            ? { ...node, data: { ...node.data, ...action.payload.data } }
-            : node
-        ),
+        nodes: state.nodes.map((node) => {
+          if (node.id !== id) return node;
+          // A new label renames the resource, keeping the old name for a moved block
+          const renamed =
+            data.label !== undefined && data.label !== node.data.label && data.resourceName === undefined
+              ? renameResource(node, data.label, state.nodes)
+              : {};
+          return { ...node, data: { ...node.data, ...data, ...renamed } };
+        }),
       };
+    }
 
     case 'DELETE_NODE':
+      return removeNodes(state, [action.payload]);
+
+    case 'DELETE_NODES':
+      return removeNodes(state, action.payload);
+
+    case 'UPDATE_NODES': {
+      // Bulk edit: the same property values are written to every node
+      const ids = new Set(action.payload.ids);
       return {
         ...state,
-        nodes: state.nodes.filter((node) => node.id !== action.payload),
-        edges: state.edges.filter(
-          (edge) => edge.source !== action.payload && edge.target !== action.payload
+        nodes: state.nodes.map((node) =>
+          ids.has(node.id)
+            ? { ...node, data: { ...node.data, properties: { ...node.data.properties, ...action.payload.properties } } }
+            : node
         ),
-        selectedNodeId: state.selectedNodeId === action.payload ? null : state.selectedNodeId,
       };
+    }
 
     case 'ADD_EDGE':
       return {
@@ -48,6 +104,16 @@ function canvasReducer(state: CanvasState, action: CanvasAction): CanvasState {
         edges: [...state.edges, action.payload],
       };
 
+    case 'UPDATE_EDGE':
+      return {
+        ...state,
+        edges: state.edges.map((edge) =>
+          edge.id === action.payload.id
+            ? { ...edge, data: { ...edge.data, ...action.payload.data } }
+            : edge
+        ),
+      };
+
     case 'DELETE_EDGE':
       return {
         ...state,
@@ -57,7 +123,7 @@ function canvasReducer(state: CanvasState, action: CanvasAction): CanvasState {
     case 'SET_NODES':
       return {
         ...state,
-        nodes: action.payload,
+        nodes: assignResourceNames(action.payload),
       };
 
     case 'SET_EDGES':
@@ -66,12 +132,55 @@ function canvasReducer(state: CanvasState, action: CanvasAction): CanvasState {
         edges: action.payload,
       };
 
-    case 'SELECT_NODE':
+    case 'LOAD_CANVAS':
+      return {
+        ...state,
+        nodes: assignResourceNames(action.payload.nodes),
+        edges: action.payload.edges,
+        selectedNodeId: null,
+        selectedNodeIds: [],
+        error: null,
+      };
+
+    case 'REPLACE_CANVAS':
+      // Like loading a project, but recorded in history so it can be undone
+      return {
+        ...state,
+        nodes: assignResourceNames(action.payload.nodes),
+        edges: action.payload.edges,
+        selectedNodeId: null,
+        selectedNodeIds: [],
+      };
+
+    case 'MERGE_CANVAS':
       return {
         ...state,
-        selectedNodeId: action.payload,
+        nodes: assignResourceNames([...state.nodes, ...action.payload.nodes]),
+        edges: [...state.edges, ...action.payload.edges],
       };
 
+    case 'SET_NODE_PARENT':
+      return {
+        ...state,
+        nodes: reparentNode(state.nodes, action.payload.id, action.payload.parentId),
+      };
+
+    case 'SELECT_NODE':
+      return applySelection(state, action.payload ? [action.payload] : [], action.payload);
+
+    case 'SELECT_NODES': {
+      const previous = new Set(state.selectedNodeIds);
+      const ids = action.payload;
+      if (ids.length === previous.size && ids.every((id) => previous.has(id))) {
+        return state;
+      }
+
+      // The node added to the selection last becomes the primary one
+      const added = ids.filter((id) => !previous.has(id));
+      const kept = state.selectedNodeId && ids.includes(state.selectedNodeId) ? state.selectedNodeId : null;
+      return applySelection(state, ids, added[added.length - 1] ?? kept ?? ids[0] ?? null);
+    }
+
     case 'UPDATE_NODE_POSITION':
       return {
         ...state,
@@ -99,6 +208,22 @@ function canvasReducer(state: CanvasState, action: CanvasAction): CanvasState {
   }
 }
 
+// Undo/redo-aware reducer used by the provider
+const historyReducer = withHistory(canvasReducer);
+
+// Lightweight history entry exposed to consumers (snapshots stay internal)
+export interface HistoryItem {
+  id: number;
+  label: string;
+  timestamp: number;
+}
+
+// Positions before the last auto-layout, which the canvas animates from
+export interface LayoutTransition {
+  id: number;
+  from: Record<string, { x: number; y: number }>;
+}
+
 // Context type
 interface CanvasContextType {
   state: CanvasState;
@@ -106,15 +231,41 @@ interface CanvasContextType {
   addNode: (node: Node) => void;
   updateNode: (id: string, data: Partial<NodeData>) => void;
   deleteNode: (id: string) => void;
+  deleteNodes: (ids: string[]) => void;
+  // Writes the same property values to every listed node (bulk edit)
+  updateNodes: (ids: string[], properties: Record<string, unknown>) => void;
   addEdge: (edge: Edge) => void;
+  updateEdge: (id: string, data: Partial<EdgeData>) => void;
   deleteEdge: (id: string) => void;
   setNodes: (nodes: Node[]) => void;
   setEdges: (edges: Edge[]) => void;
+  loadCanvas: (nodes: Node[], edges: Edge[]) => void;
+  mergeCanvas: (nodes: Node[], edges: Edge[]) => void;
+  replaceCanvas: (nodes: Node[], edges: Edge[]) => void;
+  setNodeParent: (id: string, parentId: string | null) => void;
   selectNode: (id: string | null) => void;
+  selectNodes: (ids: string[]) => void;
   updateNodePosition: (id: string, position: { x: number; y: number }) => void;
   getSelectedNode: () => Node | null;
+  getSelectedNodes: () => Node[];
+  // The edge shown in the properties panel: the only selection, with no node selected
+  getSelectedEdge: () => Edge | null;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
+  undo: () => void;
+  redo: () => void;
+  jumpToHistory: (entryId: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  history: { entries: HistoryItem[]; index: number };
+  lintFindings: LintFinding[];
+  costEstimate: CostEstimate;
+  usageAssumptions: UsageAssumptions;
+  setUsageAssumptions: (assumptions: UsageAssumptions) => void;
+  // Lays the diagram out again; without a mode, the last one used is applied
+  autoLayout: (mode?: LayoutMode) => void;
+  layoutMode: LayoutMode;
+  layoutTransition: LayoutTransition | null;
 }
 
 // Create context
@@ -122,7 +273,13 @@ export const CanvasContext = createContext<CanvasContextType | null>(null);
 
 // Provider component
 export function CanvasProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(canvasReducer, initialState);
+  const [historyState, dispatch] = useReducer(historyReducer, initialState, createHistoryState);
+  const state = historyState.present;
+  // Usage assumptions are estimator settings rather than diagram state, so they are not in history
+  const [usageAssumptions, setUsageAssumptions] = useState<UsageAssumptions>(defaultUsageAssumptions);
+  // Layout settings and the running transition are view state, so they are not in history either
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('top-bottom');
+  const [layoutTransition, setLayoutTransition] = useState<LayoutTransition | null>(null);
 
   // Memoize helper functions to prevent unnecessary re-renders
   const addNode = useCallback((node: Node) => {
@@ -137,10 +294,22 @@ export function CanvasProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'DELETE_NODE', payload: id });
   }, []);
 
+  const deleteNodes = useCallback((ids: string[]) => {
+    dispatch({ type: 'DELETE_NODES', payload: ids });
+  }, []);
+
+  const updateNodes = useCallback((ids: string[], properties: Record<string, unknown>) => {
+    dispatch({ type: 'UPDATE_NODES', payload: { ids, properties } });
+  }, []);
+
   const addEdge = useCallback((edge: Edge) => {
     dispatch({ type: 'ADD_EDGE', payload: edge });
   }, []);
 
+  const updateEdge = useCallback((id: string, data: Partial<EdgeData>) => {
+    dispatch({ type: 'UPDATE_EDGE', payload: { id, data } });
+  }, []);
+
   const deleteEdge = useCallback((id: string) => {
     dispatch({ type: 'DELETE_EDGE', payload: id });
   }, []);
@@ -153,20 +322,59 @@ export function CanvasProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_EDGES', payload: edges });
   }, []);
 
+  const loadCanvas = useCallback((nodes: Node[], edges: Edge[]) => {
+    dispatch({ type: 'LOAD_CANVAS', payload: { nodes, edges } });
+  }, []);
+
+  const mergeCanvas = useCallback((nodes: Node[], edges: Edge[]) => {
+    dispatch({ type: 'MERGE_CANVAS', payload: { nodes, edges } });
+  }, []);
+
+  const replaceCanvas = useCallback((nodes: Node[], edges: Edge[]) => {
+    dispatch({ type: 'REPLACE_CANVAS', payload: { nodes, edges } });
+  }, []);
+
+  const setNodeParent = useCallback((id: string, parentId: string | null) => {
+    dispatch({ type: 'SET_NODE_PARENT', payload: { id, parentId } });
+  }, []);
+
   const selectNode = useCallback((id: string | null) => {
     dispatch({ type: 'SELECT_NODE', payload: id });
   }, []);
 
+  const selectNodes = useCallback((ids: string[]) => {
+    dispatch({ type: 'SELECT_NODES', payload: ids });
+  }, []);
+
   const updateNodePosition = useCallback((id: string, position: { x: number; y: number }) => {
     dispatch({ type: 'UPDATE_NODE_POSITION', payload: { id, position } });
   }, []);
 
+  const autoLayout = useCallback((mode?: LayoutMode) => {
+    const chosen = mode ?? layoutMode;
+    const from = Object.fromEntries(state.nodes.map((node) => [node.id, node.position]));
+    dispatch({ type: 'SET_NODES', payload: layoutDiagram(state.nodes, state.edges, chosen) });
+    setLayoutMode(chosen);
+    setLayoutTransition((previous) => ({ id: (previous?.id ?? 0) + 1, from }));
+  }, [state.nodes, state.edges, layoutMode]);
+
   // Memoize selected node lookup to avoid recalculation on every render
   const getSelectedNode = useCallback((): Node | null => {
     if (!state.selectedNodeId) return null;
     return state.nodes.find((node) => node.id === state.selectedNodeId) || null;
   }, [state.selectedNodeId, state.nodes]);
 
+  const getSelectedNodes = useCallback((): Node[] => {
+    const selected = new Set(state.selectedNodeIds);
+    return state.nodes.filter((node) => selected.has(node.id));
+  }, [state.selectedNodeIds, state.nodes]);
+
+  const getSelectedEdge = useCallback((): Edge | null => {
+    if (state.selectedNodeIds.length > 0) return null;
+    const selected = state.edges.filter((edge) => edge.selected);
+    return selected.length === 1 ? selected[0] : null;
+  }, [state.selectedNodeIds, state.edges]);
+
   const setLoading = useCallback((loading: boolean) => {
     dispatch({ type: 'SET_LOADING', payload: loading });
   }, []);
@@ -175,6 +383,33 @@ export function CanvasProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_ERROR', payload: error });
   }, []);
 
+  const undo = useCallback(() => {
+    dispatch({ type: 'UNDO' });
+  }, []);
+
+  const redo = useCallback(() => {
+    dispatch({ type: 'REDO' });
+  }, []);
+
+  const jumpToHistory = useCallback((entryId: number) => {
+    dispatch({ type: 'JUMP_TO_HISTORY', payload: entryId });
+  }, []);
+
+  const canUndo = historyState.index > 0;
+  const canRedo = historyState.index < historyState.entries.length - 1;
+
+  const history = useMemo(() => ({
+    entries: historyState.entries.map(({ id, label, timestamp }) => ({ id, label, timestamp })),
+    index: historyState.index,
+  }), [historyState.entries, historyState.index]);
+
+  // Re-lint only when the diagram changes, not on selection or loading state
+  const lintFindings = useMemo(() => lintDiagram(state.nodes, state.edges), [state.nodes, state.edges]);
+  const costEstimate = useMemo(
+    () => estimateDiagramCost(state.nodes, usageAssumptions),
+    [state.nodes, usageAssumptions]
+  );
+
   // Memoize context value to prevent unnecessary re-renders of consumers
   const value: CanvasContextType = useMemo(() => ({
     state,
@@ -182,29 +417,74 @@ export function CanvasProvider({ children }: { children: ReactNode }) {
     addNode,
     updateNode,
     deleteNode,
+    deleteNodes,
+    updateNodes,
     addEdge,
+    updateEdge,
     deleteEdge,
     setNodes,
     setEdges,
+    loadCanvas,
+    mergeCanvas,
+    replaceCanvas,
+    setNodeParent,
     selectNode,
+    selectNodes,
     updateNodePosition,
     getSelectedNode,
+    getSelectedNodes,
+    getSelectedEdge,
     setLoading,
     setError,
+    undo,
+    redo,
+    jumpToHistory,
+    canUndo,
+    canRedo,
+    history,
+    lintFindings,
+    costEstimate,
+    usageAssumptions,
+    setUsageAssumptions,
+    autoLayout,
+    layoutMode,
+    layoutTransition,
   }), [
     state,
     addNode,
     updateNode,
     deleteNode,
+    deleteNodes,
+    updateNodes,
     addEdge,
+    updateEdge,
     deleteEdge,
     setNodes,
     setEdges,
+    loadCanvas,
+    mergeCanvas,
+    replaceCanvas,
+    setNodeParent,
     selectNode,
+    selectNodes,
     updateNodePosition,
     getSelectedNode,
+    getSelectedNodes,
+    getSelectedEdge,
     setLoading,
     setError,
+    undo,
+    redo,
+    jumpToHistory,
+    canUndo,
+    canRedo,
+    history,
+    lintFindings,
+    costEstimate,
+    usageAssumptions,
+    autoLayout,
+    layoutMode,
+    layoutTransition,
   ]);
 
   return (
@@ -0,0 +1,316 @@
+// Undo/redo history wrapper around the canvas reducer
+import { CanvasState, CanvasAction, Node, Edge } from '@/types';
+
+// Maximum number of history entries kept (oldest entries are dropped first)
+export const HISTORY_LIMIT = 100;
+
+// Consecutive actions with the same coalesce key inside this window merge into one entry
+export const COALESCE_WINDOW_MS = 1000;
+
+export interface HistorySnapshot {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  coalesceKey: string | null;
+  snapshot: HistorySnapshot;
+}
+
+export interface CanvasHistoryState {
+  present: CanvasState;
+  entries: HistoryEntry[];
+  index: number;
+  nextId: number;
+}
+
+export interface HistoryOptions {
+  limit?: number;
+  coalesceWindowMs?: number;
+  now?: () => number;
+}
+
+interface HistoryDescription {
+  label: string;
+  coalesceKey: string | null;
+}
+
+/**
+ * Creates the initial history state with a single "Initial state" entry
+ */
+export function createHistoryState(
+  present: CanvasState,
+  label = 'Initial state',
+  firstId = 0
+): CanvasHistoryState {
+  return {
+    present,
+    entries: [
+      {
+        id: firstId,
+        label,
+        timestamp: Date.now(),
+        coalesceKey: null,
+        snapshot: { nodes: present.nodes, edges: present.edges },
+      },
+    ],
+    index: 0,
+    nextId: firstId + 1,
+  };
+}
+
+/**
+ * Checks whether two node lists differ only in transient React Flow fields
+ * (selection, measurements, drag state) that should not create history entries
+ */
+function nodesEquivalent(a: Node[], b: Node[]): boolean {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+
+  return a.every((node, i) => {
+    const other = b[i];
+    return (
+      node.id === other.id &&
+      node.type === other.type &&
+      node.data === other.data &&
+      node.position.x === other.position.x &&
+      node.position.y === other.position.y &&
+      node.parentId === other.parentId &&
+      node.width === other.width &&
+      node.height === other.height
+    );
+  });
+}
+
+function edgesEquivalent(a: Edge[], b: Edge[]): boolean {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+
+  return a.every((edge, i) => {
+    const other = b[i];
+    return (
+      edge.id === other.id &&
+      edge.source === other.source &&
+      edge.target === other.target &&
+      edge.type === other.type &&
+      edge.data === other.data
+    );
+  });
+}
+
+function nodeLabel(nodes: Node[], id: string): string {
+  return nodes.find((node) => node.id === id)?.data.label || 'node';
+}
+
+/**
+ * Describes a bulk node replacement (as produced by React Flow change handlers)
+ */
+function describeSetNodes(previous: Node[], next: Node[]): HistoryDescription {
+  if (next.length < previous.length) {
+    const removed = previous.length - next.length;
+    return { label: removed === 1 ? 'Delete node' : `Delete ${removed} nodes`, coalesceKey: null };
+  }
+
+  if (next.length > previous.length) {
+    const added = next.length - previous.length;
+    return { label: added === 1 ? 'Add node' : `Add ${added} nodes`, coalesceKey: null };
+  }
+
+  const previousById = new Map(previous.map((node) => [node.id, node]));
+  const dataChanged = next.some((node) => previousById.get(node.id)?.data !== node.data);
+  if (dataChanged) {
+    return { label: 'Update nodes', coalesceKey: null };
+  }
+
+  const resized = next.filter((node) => {
+    const before = previousById.get(node.id);
+    return before && (before.width !== node.width || before.height !== node.height);
+  });
+  if (resized.length > 0) {
+    const key = resized.map((node) => node.id).sort().join(',');
+    const label = resized.length === 1 ? `Resize ${resized[0].data.label}` : `Resize ${resized.length} nodes`;
+    return { label, coalesceKey: `resize:${key}` };
+  }
+
+  const moved = next.filter((node) => {
+    const before = previousById.get(node.id);
+    return before && (before.position.x !== node.position.x || before.position.y !== node.position.y);
+  });
+  const key = moved.map((node) => node.id).sort().join(',');
+  const label = moved.length === 1 ? `Move ${moved[0].data.label}` : `Move ${moved.length} nodes`;
+  return { label, coalesceKey: `move:${key}` };
+}
+
+/**
+ * Returns a history description for an action, or null if the action
+ * should not be recorded (selection, loading and error state)
+ */
+function describeAction(action: CanvasAction, previous: CanvasState, next: CanvasState): HistoryDescription | null {
+  switch (action.type) {
+    case 'ADD_NODE':
+      return { label: `Add ${action.payload.data.label}`, coalesceKey: null };
+    case 'UPDATE_NODE':
+      return {
+        label: `Edit ${nodeLabel(previous.nodes, action.payload.id)}`,
+        coalesceKey: `update:${action.payload.id}`,
+      };
+    case 'DELETE_NODE':
+      return { label: `Delete ${nodeLabel(previous.nodes, action.payload)}`, coalesceKey: null };
+    case 'DELETE_NODES':
+      return action.payload.length === 1
+        ? { label: `Delete ${nodeLabel(previous.nodes, action.payload[0])}`, coalesceKey: null }
+        : { label: `Delete ${action.payload.length} nodes`, coalesceKey: null };
+    case 'UPDATE_NODES': {
+      const { ids } = action.payload;
+      return {
+        label: ids.length === 1 ? `Edit ${nodeLabel(previous.nodes, ids[0])}` : `Edit ${ids.length} nodes`,
+        coalesceKey: `update:${[...ids].sort().join(',')}`,
+      };
+    }
+    case 'UPDATE_NODE_POSITION':
+      return {
+        label: `Move ${nodeLabel(previous.nodes, action.payload.id)}`,
+        coalesceKey: `move:${action.payload.id}`,
+      };
+    case 'SET_NODE_PARENT': {
+      if (next.nodes === previous.nodes) return null;
+      const label = nodeLabel(previous.nodes, action.payload.id);
+      return action.payload.parentId
+        ? { label: `Move ${label} into ${nodeLabel(previous.nodes, action.payload.parentId)}`, coalesceKey: null }
+        : { label: `Move ${label} out of its container`, coalesceKey: null };
+    }
+    case 'ADD_EDGE':
+      return { label: 'Add connection', coalesceKey: null };
+    case 'UPDATE_EDGE':
+      return { label: 'Edit connection', coalesceKey: `update-edge:${action.payload.id}` };
+    case 'DELETE_EDGE':
+      return { label: 'Delete connection', coalesceKey: null };
+    case 'MERGE_CANVAS': {
+      const added = action.payload.nodes.length;
+      return { label: added === 1 ? 'Add node' : `Add ${added} nodes`, coalesceKey: null };
+    }
+    case 'REPLACE_CANVAS':
+      return { label: 'Replace diagram', coalesceKey: null };
+    case 'SET_NODES':
+      return nodesEquivalent(previous.nodes, next.nodes) ? null : describeSetNodes(previous.nodes, next.nodes);
+    case 'SET_EDGES':
+      if (edgesEquivalent(previous.edges, next.edges)) return null;
+      return {
+        label: next.edges.length < previous.edges.length ? 'Delete connection' : 'Update connections',
+        coalesceKey: null,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Restores a snapshot while keeping transient UI state, dropping selected
+ * nodes which no longer exist
+ */
+function restoreSnapshot(present: CanvasState, snapshot: HistorySnapshot): CanvasState {
+  const ids = new Set(snapshot.nodes.map((node) => node.id));
+  return {
+    ...present,
+    nodes: snapshot.nodes,
+    edges: snapshot.edges,
+    selectedNodeId: present.selectedNodeId && ids.has(present.selectedNodeId) ? present.selectedNodeId : null,
+    selectedNodeIds: present.selectedNodeIds.filter((id) => ids.has(id)),
+  };
+}
+
+/**
+ * Wraps a canvas reducer with undo/redo history
+ * @param reducer - The underlying canvas reducer
+ * @param options - History size limit, coalescing window and clock (for tests)
+ * @returns A reducer over CanvasHistoryState that also handles UNDO, REDO and JUMP_TO_HISTORY
+ */
+export function withHistory(
+  reducer: (state: CanvasState, action: CanvasAction) => CanvasState,
+  options: HistoryOptions = {}
+) {
+  const {
+    limit = HISTORY_LIMIT,
+    coalesceWindowMs = COALESCE_WINDOW_MS,
+    now = Date.now,
+  } = options;
+
+  return function historyReducer(history: CanvasHistoryState, action: CanvasAction): CanvasHistoryState {
+    switch (action.type) {
+      case 'UNDO':
+      case 'REDO':
+      case 'JUMP_TO_HISTORY': {
+        const targetIndex =
+          action.type === 'UNDO' ? history.index - 1
+          : action.type === 'REDO' ? history.index + 1
+          : history.entries.findIndex((entry) => entry.id === action.payload);
+
+        if (targetIndex < 0 || targetIndex >= history.entries.length || targetIndex === history.index) {
+          return history;
+        }
+
+        return {
+          ...history,
+          present: restoreSnapshot(history.present, history.entries[targetIndex].snapshot),
+          index: targetIndex,
+        };
+      }
+
+      case 'LOAD_CANVAS': {
+        // A freshly loaded project starts a new history
+        return createHistoryState(reducer(history.present, action), 'Open project', history.nextId);
+      }
+    }
+
+    const next = reducer(history.present, action);
+    if (next === history.present) {
+      return history;
+    }
+
+    const description = describeAction(action, history.present, next);
+    if (!description) {
+      return { ...history, present: next };
+    }
+
+    const timestamp = now();
+    const snapshot = { nodes: next.nodes, edges: next.edges };
+    const current = history.entries[history.index];
+    const isLatest = history.index === history.entries.length - 1;
+
+    // Merge rapid edits of the same thing (typing, dragging) into one entry
+    if (
+      description.coalesceKey &&
+      isLatest &&
+      history.index > 0 &&
+      current.coalesceKey === description.coalesceKey &&
+      timestamp - current.timestamp <= coalesceWindowMs
+    ) {
+      const entries = [...history.entries];
+      entries[history.index] = { ...current, timestamp, snapshot };
+      return { ...history, present: next, entries };
+    }
+
+    const entry: HistoryEntry = {
+      id: history.nextId,
+      label: description.label,
+      timestamp,
+      coalesceKey: description.coalesceKey,
+      snapshot,
+    };
+
+    // Recording a new action discards any redo entries
+    const entries = [...history.entries.slice(0, history.index + 1), entry];
+    const overflow = Math.max(0, entries.length - limit);
+    const trimmed = overflow > 0 ? entries.slice(overflow) : entries;
+
+    return {
+      present: next,
+      entries: trimmed,
+      index: trimmed.length - 1,
+      nextId: history.nextId + 1,
+    };
+  };
+}
@@ -0,0 +1,384 @@
+// Canvas persistence: versioned project documents stored in localStorage
+import { Node, Edge } from '@/types';
+import { orderByParent } from './containers';
+
+/**
+ * Current on-disk schema version. Bump this and add an entry to `migrations`
+ * whenever the persisted shape of `Node`/`Edge` changes.
+ */
+export const CANVAS_SCHEMA_VERSION = 2;
+
+export const PROJECT_FILE_EXTENSION = '.infracanvas.json';
+
+const STORAGE_PREFIX = 'infracanvas';
+const PROJECT_INDEX_KEY = `${STORAGE_PREFIX}:projects`;
+const ACTIVE_PROJECT_KEY = `${STORAGE_PREFIX}:active-project`;
+const projectKey = (id: string) => `${STORAGE_PREFIX}:project:${id}`;
+
+export class CanvasStorageError extends Error {
+  constructor(message: string = 'Failed to read or write canvas project') {
+    super(message);
+    this.name = 'CanvasStorageError';
+  }
+}
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CanvasDocument {
+  schemaVersion: number;
+  project: ProjectMeta;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export type CanvasStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+type RawDocument = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade *from*.
+ * Version 0 is the legacy unversioned `{ nodes, edges }` shape.
+ */
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  0: (doc) => {
+    const now = new Date().toISOString();
+    return {
+      schemaVersion: 1,
+      project: {
+        id: generateProjectId(),
+        name: 'Imported Project',
+        createdAt: now,
+        updatedAt: now,
+      },
+      nodes: doc.nodes ?? [],
+      edges: doc.edges ?? [],
+    };
+  },
+  // Version 2 added container nodes; nodes gained optional parentId, width and height
+  1: (doc) => ({ ...doc, schemaVersion: 2 }),
+};
+
+/**
+ * Returns the browser's localStorage, or null when unavailable (SSR, private mode)
+ */
+function getDefaultStorage(): CanvasStorage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+function requireStorage(storage: CanvasStorage | null | undefined): CanvasStorage {
+  const resolved = storage ?? getDefaultStorage();
+  if (!resolved) {
+    throw new CanvasStorageError('Local storage is not available in this environment');
+  }
+  return resolved;
+}
+
+/**
+ * Generates a unique project ID
+ */
+export function generateProjectId(): string {
+  return `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Strips transient React Flow fields (selection, measurements, drag state)
+ * so only the diagram itself is persisted
+ */
+export function toPersistedNode(node: Node): Node {
+  const persisted: Node = {
+    id: node.id,
+    type: node.type,
+    position: { x: node.position.x, y: node.position.y },
+    data: node.data,
+  };
+  if (node.parentId) persisted.parentId = node.parentId;
+  if (typeof node.width === 'number') persisted.width = node.width;
+  if (typeof node.height === 'number') persisted.height = node.height;
+  return persisted;
+}
+
+/**
+ * Strips transient React Flow fields from an edge, keeping its connection settings
+ */
+export function toPersistedEdge(edge: Edge): Edge {
+  const persisted: Edge = { id: edge.id, source: edge.source, target: edge.target };
+  if (edge.type) persisted.type = edge.type;
+  if (edge.data) persisted.data = edge.data;
+  return persisted;
+}
+
+/**
+ * Upgrades a raw parsed document to the current schema version
+ * @param raw - Parsed JSON of any known schema version
+ * @returns Document in the current schema
+ * @throws CanvasStorageError if the document is malformed or from a newer version
+ */
+export function migrateCanvasDocument(raw: unknown): CanvasDocument {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new CanvasStorageError('Project data must be a JSON object');
+  }
+
+  let doc = raw as RawDocument;
+  let version = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+
+  if (version > CANVAS_SCHEMA_VERSION) {
+    throw new CanvasStorageError(
+      `Project was saved with schema version ${version}, but this app only supports up to ${CANVAS_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < CANVAS_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new CanvasStorageError(`No migration available from schema version ${version}`);
+    }
+    doc = migrate(doc);
+    version = doc.schemaVersion as number;
+  }
+
+  return validateCanvasDocument(doc);
+}
+
+/**
+ * Validates the structure of a current-version document
+ */
+function validateCanvasDocument(doc: RawDocument): CanvasDocument {
+  const project = doc.project as ProjectMeta | undefined;
+  if (!project || typeof project.id !== 'string' || typeof project.name !== 'string') {
+    throw new CanvasStorageError("Missing or invalid 'project' metadata");
+  }
+
+  if (!Array.isArray(doc.nodes) || !Array.isArray(doc.edges)) {
+    throw new CanvasStorageError("'nodes' and 'edges' must be arrays");
+  }
+
+  const validNodes = (doc.nodes as Node[]).filter(
+    (node) => node && typeof node.id === 'string' && typeof node.type === 'string' && node.position && node.data
+  );
+  const nodeIds = new Set(validNodes.map((node) => node.id));
+
+  // Children of a missing container fall back to the top level; containers must precede their children
+  const nodes = orderByParent(
+    validNodes.map((node) => {
+      if (node.parentId === undefined || nodeIds.has(node.parentId)) return node;
+      return { ...node, parentId: undefined };
+    })
+  );
+
+  // Drop edges that reference nodes which no longer exist
+  const edges = (doc.edges as Edge[]).filter(
+    (edge) => edge && typeof edge.id === 'string' && nodeIds.has(edge.source) && nodeIds.has(edge.target)
+  );
+
+  return {
+    schemaVersion: CANVAS_SCHEMA_VERSION,
+    project: {
+      id: project.id,
+      name: project.name,
+      createdAt: project.createdAt || new Date().toISOString(),
+      updatedAt: project.updatedAt || new Date().toISOString(),
+    },
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * Serializes a document to JSON for storage or download
+ */
+export function serializeCanvasDocument(doc: CanvasDocument): string {
+  return JSON.stringify(
+    {
+      schemaVersion: CANVAS_SCHEMA_VERSION,
+      project: doc.project,
+      nodes: doc.nodes.map(toPersistedNode),
+      edges: doc.edges.map(toPersistedEdge),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parses and migrates a JSON document
+ * @throws CanvasStorageError if the JSON is invalid
+ */
+export function parseCanvasDocument(json: string): CanvasDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new CanvasStorageError('Project file is not valid JSON');
+  }
+  return migrateCanvasDocument(raw);
+}
+
+/**
+ * Lists all saved projects, most recently updated first
+ */
+export function listProjects(storage?: CanvasStorage | null): ProjectMeta[] {
+  const store = storage ?? getDefaultStorage();
+  if (!store) return [];
+
+  try {
+    const raw = store.getItem(PROJECT_INDEX_KEY);
+    const projects = raw ? (JSON.parse(raw) as ProjectMeta[]) : [];
+    return Array.isArray(projects)
+      ? [...projects].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeProjectIndex(store: CanvasStorage, projects: ProjectMeta[]): void {
+  store.setItem(PROJECT_INDEX_KEY, JSON.stringify(projects));
+}
+
+function upsertProjectMeta(store: CanvasStorage, meta: ProjectMeta): void {
+  const projects = listProjects(store).filter((project) => project.id !== meta.id);
+  writeProjectIndex(store, [...projects, meta]);
+}
+
+/**
+ * Loads a project document by ID
+ * @returns The migrated document, or null if no project with that ID exists
+ * @throws CanvasStorageError if the stored data is corrupt
+ */
+export function loadProject(id: string, storage?: CanvasStorage | null): CanvasDocument | null {
+  const store = requireStorage(storage);
+  const raw = store.getItem(projectKey(id));
+  return raw ? parseCanvasDocument(raw) : null;
+}
+
+/**
+ * Saves a project's nodes and edges, keeping its metadata in the project index
+ * @throws CanvasStorageError if the project does not exist or storage is full
+ */
+export function saveProject(
+  id: string,
+  nodes: Node[],
+  edges: Edge[],
+  storage?: CanvasStorage | null
+): CanvasDocument {
+  const store = requireStorage(storage);
+  const meta = listProjects(store).find((project) => project.id === id);
+  if (!meta) {
+    throw new CanvasStorageError(`Project ${id} does not exist`);
+  }
+
+  const doc: CanvasDocument = {
+    schemaVersion: CANVAS_SCHEMA_VERSION,
+    project: { ...meta, updatedAt: new Date().toISOString() },
+    nodes,
+    edges,
+  };
+
+  writeDocument(store, doc);
+  return doc;
+}
+
+function writeDocument(store: CanvasStorage, doc: CanvasDocument): void {
+  try {
+    store.setItem(projectKey(doc.project.id), serializeCanvasDocument(doc));
+    upsertProjectMeta(store, doc.project);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new CanvasStorageError(`Failed to save project: ${errorMessage}`);
+  }
+}
+
+/**
+ * Creates a new, optionally pre-populated project
+ */
+export function createProject(
+  name: string,
+  storage?: CanvasStorage | null,
+  contents: { nodes: Node[]; edges: Edge[] } = { nodes: [], edges: [] }
+): CanvasDocument {
+  const store = requireStorage(storage);
+  const now = new Date().toISOString();
+  const doc: CanvasDocument = {
+    schemaVersion: CANVAS_SCHEMA_VERSION,
+    project: {
+      id: generateProjectId(),
+      name: name.trim() || 'Untitled Project',
+      createdAt: now,
+      updatedAt: now,
+    },
+    nodes: contents.nodes,
+    edges: contents.edges,
+  };
+
+  writeDocument(store, doc);
+  return doc;
+}
+
+/**
+ * Renames an existing project
+ * @throws CanvasStorageError if the project does not exist
+ */
+export function renameProject(id: string, name: string, storage?: CanvasStorage | null): ProjectMeta {
+  const store = requireStorage(storage);
+  const doc = loadProject(id, store);
+  if (!doc) {
+    throw new CanvasStorageError(`Project ${id} does not exist`);
+  }
+
+  const renamed: CanvasDocument = {
+    ...doc,
+    project: { ...doc.project, name: name.trim() || doc.project.name, updatedAt: new Date().toISOString() },
+  };
+  writeDocument(store, renamed);
+  return renamed.project;
+}
+
+/**
+ * Deletes a project and clears it as the active project if needed
+ */
+export function deleteProject(id: string, storage?: CanvasStorage | null): void {
+  const store = requireStorage(storage);
+  store.removeItem(projectKey(id));
+  writeProjectIndex(store, listProjects(store).filter((project) => project.id !== id));
+
+  if (getActiveProjectId(store) === id) {
+    store.removeItem(ACTIVE_PROJECT_KEY);
+  }
+}
+
+/**
+ * Imports a project file's contents as a new project (never overwrites an existing one)
+ */
+export function importProject(json: string, storage?: CanvasStorage | null): CanvasDocument {
+  const doc = parseCanvasDocument(json);
+  return createProject(doc.project.name, storage, { nodes: doc.nodes, edges: doc.edges });
+}
+
+export function getActiveProjectId(storage?: CanvasStorage | null): string | null {
+  const store = storage ?? getDefaultStorage();
+  return store ? store.getItem(ACTIVE_PROJECT_KEY) : null;
+}
+
+export function setActiveProjectId(id: string, storage?: CanvasStorage | null): void {
+  requireStorage(storage).setItem(ACTIVE_PROJECT_KEY, id);
+}
+
+/**
+ * Builds a download filename for a project
+ */
+export function getProjectFileName(name: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${base || 'project'}${PROJECT_FILE_EXTENSION}`;
+}
@@ -0,0 +1,125 @@
+// Copying and pasting parts of a diagram through the system clipboard
+import { Node, Edge } from '@/types';
+import { getResourceTypeById } from '@/lib/resource-types';
+import { getAbsolutePosition, getSubtreeIds, orderByParent } from '@/lib/containers';
+import { toPersistedNode, toPersistedEdge } from '@/lib/canvas-storage';
+
+// Marks clipboard text as copied from a canvas, so other pasted text is left alone
+export const CLIPBOARD_FORMAT = 'infracanvas/diagram';
+
+// How far each paste is shifted from nodes already at the same place
+export const PASTE_OFFSET = 50;
+
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+/**
+ * Collects the selected nodes, everything inside selected containers and the
+ * connections between them. Nodes copied without their container keep their
+ * place on screen as top-level nodes.
+ * @param nodes - All nodes on the canvas
+ * @param edges - All edges on the canvas
+ * @param selectedIds - Ids of the selected nodes
+ * @returns The payload, or null when nothing is selected
+ */
+export function copySelection(nodes: Node[], edges: Edge[], selectedIds: string[]): ClipboardPayload | null {
+  const ids = new Set(selectedIds.flatMap((id) => [...getSubtreeIds(id, nodes)]));
+  const copied = nodes.filter((node) => ids.has(node.id));
+  if (copied.length === 0) return null;
+
+  return {
+    format: CLIPBOARD_FORMAT,
+    nodes: copied.map((node) => {
+      const persisted = toPersistedNode(node);
+      if (!persisted.parentId || ids.has(persisted.parentId)) return persisted;
+      return { ...persisted, parentId: undefined, position: getAbsolutePosition(node, nodes) };
+    }),
+    edges: edges.filter((edge) => ids.has(edge.source) && ids.has(edge.target)).map(toPersistedEdge),
+  };
+}
+
+export function serializeClipboard(payload: ClipboardPayload): string {
+  return JSON.stringify(payload);
+}
+
+/**
+ * Reads clipboard text copied from a canvas, possibly in another browser tab
+ * @returns The payload, or null if the text is not a copied diagram
+ */
+export function parseClipboard(text: string): ClipboardPayload | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const payload = raw as Partial<ClipboardPayload> | null;
+  if (!payload || payload.format !== CLIPBOARD_FORMAT || !Array.isArray(payload.nodes) || !Array.isArray(payload.edges)) {
+    return null;
+  }
+
+  const nodes = payload.nodes.filter(
+    (node) =>
+      node &&
+      typeof node.id === 'string' &&
+      getResourceTypeById(node.type) !== undefined &&
+      typeof node.position?.x === 'number' &&
+      typeof node.position?.y === 'number' &&
+      typeof node.data?.label === 'string'
+  );
+  if (nodes.length === 0) return null;
+
+  const ids = new Set(nodes.map((node) => node.id));
+  return {
+    format: CLIPBOARD_FORMAT,
+    nodes: orderByParent(
+      nodes.map((node) => (node.parentId && !ids.has(node.parentId) ? { ...node, parentId: undefined } : node))
+    ),
+    edges: payload.edges.filter((edge) => edge && ids.has(edge.source) && ids.has(edge.target)),
+  };
+}
+
+/**
+ * Prepares copied nodes for pasting: new ids, remapped containers and connections,
+ * and an offset so the copy does not cover nodes already on the canvas
+ * @param payload - What was copied
+ * @param existing - Nodes already on the canvas
+ * @param idPrefix - Makes the new ids unique (e.g. a timestamp)
+ * @returns Nodes and edges to merge into the canvas
+ */
+export function pasteClipboard(
+  payload: ClipboardPayload,
+  existing: Node[],
+  idPrefix: string
+): { nodes: Node[]; edges: Edge[] } {
+  const newIds = new Map(payload.nodes.map((node, index) => [node.id, `${node.type}-${idPrefix}-${index}`]));
+
+  // Pasting where the copied nodes already are (the usual case in one tab) shifts the copy
+  const occupied = new Set(existing.map((node) => {
+    const { x, y } = getAbsolutePosition(node, existing);
+    return `${x},${y}`;
+  }));
+  const topLevel = payload.nodes.filter((node) => !node.parentId);
+  let offset = 0;
+  while (topLevel.some((node) => occupied.has(`${node.position.x + offset},${node.position.y + offset}`))) {
+    offset += PASTE_OFFSET;
+  }
+
+  // Children keep their place inside their (pasted) container
+  const nodes = payload.nodes.map((node) =>
+    node.parentId
+      ? { ...node, id: newIds.get(node.id)!, parentId: newIds.get(node.parentId) }
+      : { ...node, id: newIds.get(node.id)!, position: { x: node.position.x + offset, y: node.position.y + offset } }
+  );
+  const edges = payload.edges.map((edge) => {
+    const source = newIds.get(edge.source)!;
+    const target = newIds.get(edge.target)!;
+    return { ...edge, id: `edge-${source}-${target}-${idPrefix}`, source, target };
+  });
+
+  return { nodes, edges };
+}
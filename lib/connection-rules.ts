@@ -0,0 +1,112 @@
+// Connection rules: which resource types may be connected on the canvas
+import { Node, Edge, ResourceTypeId } from '@/types';
+import { getResourceTypeById } from './resource-types';
+import { getResourceDefinition, getResourceDefinitions } from './resource-registry';
+
+/**
+ * A connection to check, as produced by React Flow while dragging
+ */
+export interface ConnectionCandidate {
+  source: string | null;
+  target: string | null;
+}
+
+export type ConnectionValidation = { valid: true } | { valid: false; reason: string };
+
+export interface InvalidEdge {
+  edge: Edge;
+  reason: string;
+}
+
+/**
+ * Checks whether two resource types may be connected (in either direction), using the
+ * connectsTo lists of their resource definitions
+ */
+export function areTypesCompatible(a: ResourceTypeId, b: ResourceTypeId): boolean {
+  return (
+    (getResourceDefinition(a)?.connectsTo?.includes(b) ?? false) ||
+    (getResourceDefinition(b)?.connectsTo?.includes(a) ?? false)
+  );
+}
+
+/**
+ * Lists the types a resource type may be connected to
+ */
+export function getCompatibleTypes(type: ResourceTypeId): ResourceTypeId[] {
+  return getResourceDefinitions()
+    .map((definition) => definition.id)
+    .filter((other) => areTypesCompatible(type, other));
+}
+
+function typeLabel(type: ResourceTypeId): string {
+  return getResourceTypeById(type)?.label ?? type;
+}
+
+/**
+ * Validates a new connection against the nodes and edges already on the canvas
+ * @param connection - Source and target node ids
+ * @param nodes - Nodes on the canvas
+ * @param edges - Existing edges (a connection between the same pair in either direction is a duplicate)
+ * @returns Whether the connection is allowed, with a user-facing reason if not
+ */
+export function validateConnection(
+  connection: ConnectionCandidate,
+  nodes: Node[],
+  edges: Edge[]
+): ConnectionValidation {
+  const source = nodes.find((node) => node.id === connection.source);
+  const target = nodes.find((node) => node.id === connection.target);
+
+  if (!source || !target) {
+    return { valid: false, reason: 'The connection must join two resources on the canvas' };
+  }
+
+  if (source.id === target.id) {
+    return { valid: false, reason: `${source.data.label} cannot be connected to itself` };
+  }
+
+  const duplicate = edges.some(
+    (edge) =>
+      (edge.source === source.id && edge.target === target.id) ||
+      (edge.source === target.id && edge.target === source.id)
+  );
+  if (duplicate) {
+    return { valid: false, reason: `${source.data.label} and ${target.data.label} are already connected` };
+  }
+
+  if (!areTypesCompatible(source.type, target.type)) {
+    const allowed = getCompatibleTypes(source.type).map(typeLabel);
+    const hint = allowed.length > 0
+      ? `${typeLabel(source.type)} can connect to: ${allowed.join(', ')}`
+      : `${typeLabel(source.type)} is placed by dragging resources into it rather than by connections`;
+    return {
+      valid: false,
+      reason: `${typeLabel(source.type)} cannot connect to ${typeLabel(target.type)}. ${hint}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a set of edges, e.g. from a loaded project or an import
+ * Edges are checked in order, so the second of two duplicate edges is the invalid one.
+ * @param nodes - Nodes the edges refer to
+ * @param edges - Edges to validate
+ * @returns The edges that are allowed and the rejected ones with their reasons
+ */
+export function validateEdges(nodes: Node[], edges: Edge[]): { valid: Edge[]; invalid: InvalidEdge[] } {
+  const valid: Edge[] = [];
+  const invalid: InvalidEdge[] = [];
+
+  for (const edge of edges) {
+    const result = validateConnection(edge, nodes, valid);
+    if (result.valid) {
+      valid.push(edge);
+    } else {
+      invalid.push({ edge, reason: result.reason });
+    }
+  }
+
+  return { valid, invalid };
+}
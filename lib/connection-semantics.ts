@@ -0,0 +1,886 @@
+// Connection semantics: what an edge between two resource types means in Terraform
+import { Node, Edge, ResourceTypeId, RDSProperties } from '@/types';
+import { findAncestor, isDescendantOf } from './containers';
+import { SECURED_TYPES, LOAD_BALANCER_PORTS, getIngressRules } from './security-groups';
+import { escapeHCLString } from './terraform-emitter';
+import { getALBListeners } from './resources/alb';
+
+/**
+ * A node as seen by the generator: its Terraform resource name and address
+ */
+export interface ConnectionEndpoint {
+  node: Node;
+  // Sanitized Terraform resource name (e.g. "web_server")
+  name: string;
+  // Full resource address (e.g. "aws_instance.web_server")
+  address: string;
+}
+
+export interface ConnectionContext {
+  nodes: Node[];
+  edges: Edge[];
+  resolve: (node: Node) => ConnectionEndpoint;
+}
+
+/**
+ * Everything the connections add on top of the per-node resource blocks
+ */
+export interface ConnectionPlan {
+  // Extra attributes per node id (attribute name -> HCL expression)
+  attributes: Map<string, Record<string, string>>;
+  // Environment variables per node id (variable name -> HCL expression)
+  environment: Map<string, Record<string, string>>;
+  // Supporting resources and data sources keyed by address, in emission order
+  blocks: Map<string, string>;
+  // Edges whose dependency is already expressed through an attribute reference
+  wiredEdges: Set<string>;
+}
+
+export interface ConnectionSemantic {
+  // Human readable summary of the generated wiring
+  description: string;
+  /**
+   * Adds the wiring for one edge to the plan
+   * @returns false if nothing could be wired (the edge then falls back to depends_on)
+   */
+  apply: (
+    plan: ConnectionPlan,
+    from: ConnectionEndpoint,
+    to: ConnectionEndpoint,
+    context: ConnectionContext,
+    edge: Edge
+  ) => boolean;
+}
+
+export type ConnectionKey = `${ResourceTypeId}:${ResourceTypeId}`;
+
+/**
+ * Returns the address of the execution role generated for a Lambda function
+ * @param lambdaName - Terraform resource name of the function
+ */
+export function getLambdaRoleAddress(lambdaName: string): string {
+  return `aws_iam_role.${lambdaName}_role`;
+}
+
+/**
+ * Returns the address of the security group generated for a node
+ * @param name - Terraform resource name of the node
+ */
+export function getSecurityGroupAddress(name: string): string {
+  return `aws_security_group.${name}_sg`;
+}
+
+// Attribute each secured resource type takes its security group ids in
+const securityGroupAttributes: Partial<Record<ResourceTypeId, string>> = {
+  ec2: 'vpc_security_group_ids',
+  rds: 'vpc_security_group_ids',
+  elasticache: 'security_group_ids',
+  alb: 'security_groups',
+  ecs: 'security_groups',
+  lambda: 'security_group_ids',
+};
+
+/**
+ * Sets an attribute on a node unless another connection already set it
+ * @returns true if the attribute was set
+ */
+function setAttribute(plan: ConnectionPlan, nodeId: string, name: string, expression: string): boolean {
+  const attributes = plan.attributes.get(nodeId) ?? {};
+  if (name in attributes) {
+    return false;
+  }
+  plan.attributes.set(nodeId, { ...attributes, [name]: expression });
+  return true;
+}
+
+function addEnvironmentVariable(plan: ConnectionPlan, nodeId: string, name: string, expression: string): void {
+  plan.environment.set(nodeId, { ...plan.environment.get(nodeId), [name]: expression });
+}
+
+function addBlock(plan: ConnectionPlan, address: string, lines: string[]): void {
+  if (!plan.blocks.has(address)) {
+    plan.blocks.set(address, lines.join('\n'));
+  }
+}
+
+function toEnvironmentName(name: string, suffix: string): string {
+  return `${name.toUpperCase()}_${suffix}`;
+}
+
+/**
+ * Ensures a VPC has two subnets in different availability zones
+ * (load balancers and DB subnet groups require at least two)
+ * @returns Addresses of the subnets
+ */
+function ensureSubnets(plan: ConnectionPlan, vpc: ConnectionEndpoint): string[] {
+  addBlock(plan, 'data.aws_availability_zones.available', [
+    'data "aws_availability_zones" "available" {',
+    '  state = "available"',
+    '}',
+  ]);
+
+  return ['a', 'b'].map((suffix, index) => {
+    const name = `${vpc.name}_subnet_${suffix}`;
+    addBlock(plan, `aws_subnet.${name}`, [
+      `resource "aws_subnet" "${name}" {`,
+      `  vpc_id            = ${vpc.address}.id`,
+      `  cidr_block        = cidrsubnet(${vpc.address}.cidr_block, 8, ${index})`,
+      `  availability_zone = data.aws_availability_zones.available.names[${index}]`,
+      '',
+      '  tags = {',
+      `    Name = "${name}"`,
+      '  }',
+      '}',
+    ]);
+    return `aws_subnet.${name}`;
+  });
+}
+
+/**
+ * Finds the first node of a given type connected to a node (in either direction)
+ */
+function findConnected(context: ConnectionContext, nodeId: string, type: ResourceTypeId): Node | undefined {
+  for (const edge of context.edges) {
+    const otherId = edge.source === nodeId ? edge.target : edge.target === nodeId ? edge.source : null;
+    const other = otherId ? context.nodes.find((node) => node.id === otherId) : undefined;
+    if (other?.type === type) {
+      return other;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the VPC container of a resource connected to a node that is placed outside any
+ * VPC or subnet, so both ends of a connection end up in the same network
+ */
+function findPeerVpc(context: ConnectionContext, node: Node): Node | undefined {
+  if (
+    findAncestor(node, context.nodes, 'subnet') ||
+    findConnected(context, node.id, 'vpc') ||
+    findConnected(context, node.id, 'subnet')
+  ) {
+    return undefined;
+  }
+
+  for (const edge of context.edges) {
+    const otherId = edge.source === node.id ? edge.target : edge.target === node.id ? edge.source : null;
+    const other = otherId ? context.nodes.find((candidate) => candidate.id === otherId) : undefined;
+    const vpc = other ? findAncestor(other, context.nodes, 'vpc') : undefined;
+    if (vpc) {
+      return vpc;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the VPC a node belongs in: its enclosing VPC, a VPC it is connected to, or the
+ * VPC of a resource it is connected to
+ */
+function resolveNodeVpc(context: ConnectionContext, node: Node): Node | undefined {
+  return findAncestor(node, context.nodes, 'vpc') ?? findConnected(context, node.id, 'vpc') ?? findPeerVpc(context, node);
+}
+
+/**
+ * Returns the VPC id expression for the first of some nodes that belongs in a VPC,
+ * falling back to the account's default VPC
+ */
+function resolveVpcId(plan: ConnectionPlan, context: ConnectionContext, nodes: Node[]): string {
+  for (const node of nodes) {
+    const vpc = resolveNodeVpc(context, node);
+    if (vpc) {
+      return `${context.resolve(vpc).address}.id`;
+    }
+  }
+
+  return ensureDefaultVpc(plan);
+}
+
+function ensureDefaultVpc(plan: ConnectionPlan): string {
+  addBlock(plan, 'data.aws_vpc.default', ['data "aws_vpc" "default" {', '  default = true', '}']);
+  return 'data.aws_vpc.default.id';
+}
+
+/**
+ * Adds a lookup of the default VPC's subnets, for resources that need subnets
+ * but are not connected to a VPC on the canvas
+ * @returns HCL expression for the list of subnet ids
+ */
+export function ensureDefaultSubnets(plan: ConnectionPlan): string {
+  const vpcId = ensureDefaultVpc(plan);
+  addBlock(plan, 'data.aws_subnets.default', [
+    'data "aws_subnets" "default" {',
+    '  filter {',
+    '    name   = "vpc-id"',
+    `    values = [${vpcId}]`,
+    '  }',
+    '}',
+  ]);
+  return 'data.aws_subnets.default.ids';
+}
+
+/**
+ * Creates a DB subnet group for a database and points the database at it
+ * @returns true if the database's subnet group was set
+ */
+function addDbSubnetGroup(plan: ConnectionPlan, rds: ConnectionEndpoint, subnets: string[]): boolean {
+  const name = `${rds.name}_subnets`;
+  addBlock(plan, `aws_db_subnet_group.${name}`, [
+    `resource "aws_db_subnet_group" "${name}" {`,
+    `  name       = "${name.replace(/_/g, '-')}"`,
+    `  subnet_ids = [${subnets.map((subnet) => `${subnet}.id`).join(', ')}]`,
+    '}',
+  ]);
+  return setAttribute(plan, rds.node.id, 'db_subnet_group_name', `aws_db_subnet_group.${name}.name`);
+}
+
+// HCL list of the ids of subnet resources
+function subnetList(subnets: string[]): string {
+  return `[${subnets.map((subnet) => `${subnet}.id`).join(', ')}]`;
+}
+
+/**
+ * Creates an ElastiCache subnet group for a cache cluster and points the cluster at it
+ * @returns true if the cluster's subnet group was set
+ */
+function addCacheSubnetGroup(plan: ConnectionPlan, cache: ConnectionEndpoint, subnets: string[]): boolean {
+  const name = `${cache.name}_subnets`;
+  addBlock(plan, `aws_elasticache_subnet_group.${name}`, [
+    `resource "aws_elasticache_subnet_group" "${name}" {`,
+    `  name       = "${name.replace(/_/g, '-')}"`,
+    `  subnet_ids = ${subnetList(subnets)}`,
+    '}',
+  ]);
+  return setAttribute(plan, cache.node.id, 'subnet_group_name', `aws_elasticache_subnet_group.${name}.name`);
+}
+
+function isPublicSubnet(subnet: Node): boolean {
+  return Boolean((subnet.data.properties as { public?: boolean }).public);
+}
+
+/**
+ * Returns the subnets a resource spanning availability zones (load balancer, database,
+ * container service)
+ * is placed in: the subnets of its VPC in the same tier (public or private) as the
+ * subnet it was dropped in, or two generated subnets when it sits directly in a VPC or,
+ * outside any VPC, is connected to a resource in one
+ */
+function resolvePlacementSubnets(
+  plan: ConnectionPlan,
+  context: ConnectionContext,
+  node: Node
+): string[] | null {
+  const subnet = findAncestor(node, context.nodes, 'subnet');
+  const vpc = findAncestor(node, context.nodes, 'vpc');
+
+  if (subnet) {
+    const isPublic = isPublicSubnet(subnet);
+    const tier = context.nodes.filter(
+      (candidate) =>
+        candidate.type === 'subnet' &&
+        isPublicSubnet(candidate) === isPublic &&
+        findAncestor(candidate, context.nodes, 'vpc')?.id === vpc?.id
+    );
+    return tier.map((candidate) => context.resolve(candidate).address);
+  }
+
+  const placement = vpc ?? findPeerVpc(context, node);
+  return placement ? ensureSubnets(plan, context.resolve(placement)) : null;
+}
+
+/**
+ * Wires resources to the containers they are placed in on the canvas
+ * (VPC, availability zone and subnet nodes)
+ */
+function applyContainment(plan: ConnectionPlan, context: ConnectionContext): void {
+  for (const node of context.nodes) {
+    switch (node.type) {
+      case 'subnet': {
+        // Every subnet needs a VPC, so subnets outside a VPC container use the default VPC
+        const vpc = findAncestor(node, context.nodes, 'vpc');
+        setAttribute(plan, node.id, 'vpc_id', vpc ? `${context.resolve(vpc).address}.id` : ensureDefaultVpc(plan));
+
+        const zone = (findAncestor(node, context.nodes, 'az')?.data.properties as { zone?: string } | undefined)?.zone;
+        if (zone) {
+          setAttribute(plan, node.id, 'availability_zone', JSON.stringify(String(zone)));
+        }
+        break;
+      }
+      case 'ec2':
+      case 'natgateway': {
+        const subnet = findAncestor(node, context.nodes, 'subnet');
+        const vpc = findAncestor(node, context.nodes, 'vpc') ?? findPeerVpc(context, node);
+        if (subnet) {
+          setAttribute(plan, node.id, 'subnet_id', `${context.resolve(subnet).address}.id`);
+        } else if (vpc) {
+          const [generated] = ensureSubnets(plan, context.resolve(vpc));
+          setAttribute(plan, node.id, 'subnet_id', `${generated}.id`);
+        }
+        break;
+      }
+      case 'alb':
+      case 'ecs': {
+        // ECS services take the subnets in their network_configuration block
+        const subnets = resolvePlacementSubnets(plan, context, node);
+        if (subnets) {
+          setAttribute(plan, node.id, 'subnets', subnetList(subnets));
+        }
+        break;
+      }
+      case 'eks': {
+        const subnets = resolvePlacementSubnets(plan, context, node);
+        if (subnets) {
+          setAttribute(plan, node.id, 'subnet_ids', subnetList(subnets));
+        }
+        break;
+      }
+      case 'rds': {
+        const subnets = resolvePlacementSubnets(plan, context, node);
+        if (subnets) {
+          addDbSubnetGroup(plan, context.resolve(node), subnets);
+        }
+        break;
+      }
+      case 'elasticache': {
+        const subnets = resolvePlacementSubnets(plan, context, node);
+        if (subnets) {
+          addCacheSubnetGroup(plan, context.resolve(node), subnets);
+        }
+        break;
+      }
+      case 'internetgateway':
+      case 'securitygroup': {
+        const vpc = findAncestor(node, context.nodes, 'vpc');
+        if (vpc) {
+          setAttribute(plan, node.id, 'vpc_id', `${context.resolve(vpc).address}.id`);
+        }
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Creates a security group for a node that allows all outbound traffic, and attaches it
+ * @param vpcId - VPC id expression the group is created in
+ */
+function addSecurityGroup(plan: ConnectionPlan, endpoint: ConnectionEndpoint, vpcId: string): void {
+  const address = getSecurityGroupAddress(endpoint.name);
+  const name = `${endpoint.name}_sg`;
+  addBlock(plan, address, [
+    `resource "aws_security_group" "${name}" {`,
+    `  name        = "${name.replace(/_/g, '-')}"`,
+    `  description = "Traffic to and from ${endpoint.name}"`,
+    `  vpc_id      = ${vpcId}`,
+    '',
+    '  tags = {',
+    `    Name = "${name}"`,
+    '  }',
+    '}',
+    '',
+    `resource "aws_vpc_security_group_egress_rule" "${endpoint.name}_egress" {`,
+    `  security_group_id = ${address}.id`,
+    '  ip_protocol       = "-1"',
+    '  cidr_ipv4         = "0.0.0.0/0"',
+    '}',
+  ]);
+  setAttribute(plan, endpoint.node.id, securityGroupAttributes[endpoint.node.type]!, `[${address}.id]`);
+}
+
+/**
+ * Allows traffic on a port into a security group, from another group or from anywhere
+ * @param prefix - Start of the rule's resource name; the protocol and port are appended,
+ * so tcp and udp rules for the same port do not collide
+ * @param source - Security group address the traffic comes from, or null for the internet
+ */
+function addIngressRule(
+  plan: ConnectionPlan,
+  prefix: string,
+  groupAddress: string,
+  source: string | null,
+  port: number,
+  protocol: 'tcp' | 'udp',
+  description: string
+): void {
+  const attributes: Array<[string, string]> = [
+    ['security_group_id', `${groupAddress}.id`],
+    source ? ['referenced_security_group_id', `${source}.id`] : ['cidr_ipv4', '"0.0.0.0/0"'],
+    ['from_port', String(port)],
+    ['to_port', String(port)],
+    ['ip_protocol', `"${protocol}"`],
+    ['description', `"${escapeHCLString(description)}"`],
+  ];
+  const width = Math.max(...attributes.map(([attribute]) => attribute.length));
+  const name = `${prefix}_${protocol}_${port}`;
+  addBlock(plan, `aws_vpc_security_group_ingress_rule.${name}`, [
+    `resource "aws_vpc_security_group_ingress_rule" "${name}" {`,
+    ...attributes.map(([attribute, value]) => `  ${attribute.padEnd(width)} = ${value}`),
+    '}',
+  ]);
+}
+
+/**
+ * Places a Lambda function in the VPC of a database or cache it reaches, so its security
+ * group can be let in
+ */
+function addLambdaVpcConfig(
+  plan: ConnectionPlan,
+  context: ConnectionContext,
+  lambda: ConnectionEndpoint,
+  server: Node
+): void {
+  const vpc = resolveNodeVpc(context, server);
+  const subnets = resolvePlacementSubnets(plan, context, server);
+  const subnetIds = subnets
+    ? subnetList(subnets)
+    : vpc
+      ? subnetList(ensureSubnets(plan, context.resolve(vpc)))
+      : ensureDefaultSubnets(plan);
+  setAttribute(plan, lambda.node.id, 'subnet_ids', subnetIds);
+
+  const attachment = `${lambda.name}_vpc_access`;
+  addBlock(plan, `aws_iam_role_policy_attachment.${attachment}`, [
+    `resource "aws_iam_role_policy_attachment" "${attachment}" {`,
+    `  role       = ${getLambdaRoleAddress(lambda.name)}.name`,
+    '  policy_arn = "arn:aws:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole"',
+    '}',
+  ]);
+}
+
+/**
+ * Gives every compute and database node a security group and turns the edges that carry
+ * network traffic into ingress rules (ports set on an edge replace the inferred ones)
+ */
+function applySecurityGroups(plan: ConnectionPlan, context: ConnectionContext): void {
+  const rules = getIngressRules(context.nodes, context.edges);
+
+  for (const node of context.nodes) {
+    if (SECURED_TYPES.includes(node.type)) {
+      addSecurityGroup(plan, context.resolve(node), resolveVpcId(plan, context, [node]));
+    }
+  }
+
+  for (const { client, server } of rules) {
+    if (client.type === 'lambda' && !plan.blocks.has(getSecurityGroupAddress(context.resolve(client).name))) {
+      const lambda = context.resolve(client);
+      addLambdaVpcConfig(plan, context, lambda, server);
+      addSecurityGroup(plan, lambda, resolveVpcId(plan, context, [server]));
+    }
+  }
+
+  for (const node of context.nodes) {
+    const { scheme } = (node.data?.properties ?? {}) as { scheme?: string };
+    if (node.type === 'alb' && scheme !== 'internal') {
+      const alb = context.resolve(node);
+      // Listeners set on the load balancer decide the ports it is open on
+      const listenerPorts = getALBListeners(node).map(({ port }) => port!);
+      for (const port of listenerPorts.length > 0 ? listenerPorts : LOAD_BALANCER_PORTS) {
+        addIngressRule(plan, `${alb.name}_public`, getSecurityGroupAddress(alb.name), null, port, 'tcp', 'Internet');
+      }
+    }
+  }
+
+  for (const rule of rules) {
+    // The ingress rules reference both ends' groups, so the edge needs no depends_on
+    if (rule.ports.length > 0) {
+      plan.wiredEdges.add(rule.edgeId);
+    }
+
+    const ends = [[context.resolve(rule.client), context.resolve(rule.server)]];
+    if (rule.twoWay) {
+      ends.push([ends[0][1], ends[0][0]]);
+    }
+
+    for (const [client, server] of ends) {
+      for (const port of rule.ports) {
+        addIngressRule(
+          plan,
+          `${server.name}_from_${client.name}`,
+          getSecurityGroupAddress(server.name),
+          getSecurityGroupAddress(client.name),
+          port,
+          rule.protocol,
+          rule.label ?? `From ${client.name}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Grants a Lambda function's role access to a resource
+ */
+function addLambdaPolicy(
+  plan: ConnectionPlan,
+  lambda: ConnectionEndpoint,
+  resource: ConnectionEndpoint,
+  actions: string[],
+  resources: string[]
+): void {
+  const name = `${lambda.name}_${resource.name}_access`;
+  addBlock(plan, `aws_iam_role_policy.${name}`, [
+    `resource "aws_iam_role_policy" "${name}" {`,
+    `  name = "${name.replace(/_/g, '-')}"`,
+    `  role = ${getLambdaRoleAddress(lambda.name)}.id`,
+    '',
+    '  policy = jsonencode({',
+    '    Version = "2012-10-17"',
+    '    Statement = [',
+    '      {',
+    '        Effect   = "Allow"',
+    `        Action   = [${actions.map((action) => `"${action}"`).join(', ')}]`,
+    `        Resource = [${resources.join(', ')}]`,
+    '      }',
+    '    ]',
+    '  })',
+    '}',
+  ]);
+}
+
+// Keyed by "source:target" in the direction the edge is usually drawn (caller to callee).
+// Edges drawn the other way round are matched by getConnectionSemantic.
+export const connectionSemantics: Partial<Record<ConnectionKey, ConnectionSemantic>> = {
+  'ec2:vpc': {
+    description: 'Launches the instance in a subnet of the VPC',
+    apply: (plan, ec2, vpc) => {
+      const [subnet] = ensureSubnets(plan, vpc);
+      return setAttribute(plan, ec2.node.id, 'subnet_id', `${subnet}.id`);
+    },
+  },
+  'alb:vpc': {
+    description: 'Places the load balancer in two subnets of the VPC',
+    apply: (plan, alb, vpc) => {
+      return setAttribute(plan, alb.node.id, 'subnets', subnetList(ensureSubnets(plan, vpc)));
+    },
+  },
+  'ecs:vpc': {
+    description: 'Runs the service tasks in two subnets of the VPC',
+    apply: (plan, ecs, vpc) => setAttribute(plan, ecs.node.id, 'subnets', subnetList(ensureSubnets(plan, vpc))),
+  },
+  'eks:vpc': {
+    description: 'Places the cluster control plane in two subnets of the VPC',
+    apply: (plan, eks, vpc) => setAttribute(plan, eks.node.id, 'subnet_ids', subnetList(ensureSubnets(plan, vpc))),
+  },
+  'elasticache:vpc': {
+    description: 'Creates a cache subnet group in the VPC for the cluster',
+    apply: (plan, cache, vpc) => addCacheSubnetGroup(plan, cache, ensureSubnets(plan, vpc)),
+  },
+  'natgateway:vpc': {
+    description: 'Places the NAT gateway in a subnet of the VPC',
+    apply: (plan, gateway, vpc) => {
+      const [subnet] = ensureSubnets(plan, vpc);
+      return setAttribute(plan, gateway.node.id, 'subnet_id', `${subnet}.id`);
+    },
+  },
+  'internetgateway:vpc': {
+    description: 'Attaches the internet gateway to the VPC',
+    apply: (plan, gateway, vpc) => setAttribute(plan, gateway.node.id, 'vpc_id', `${vpc.address}.id`),
+  },
+  'securitygroup:vpc': {
+    description: 'Creates the security group in the VPC',
+    apply: (plan, group, vpc) => setAttribute(plan, group.node.id, 'vpc_id', `${vpc.address}.id`),
+  },
+  'rds:vpc': {
+    description: 'Creates a DB subnet group in the VPC for the database',
+    apply: (plan, rds, vpc) => addDbSubnetGroup(plan, rds, ensureSubnets(plan, vpc)),
+  },
+  'alb:ec2': {
+    description: 'Registers the instance in a target group behind an HTTP listener',
+    apply: (plan, alb, ec2, context, edge) => {
+      // Instances serve on the edge's first port and protocol, plain HTTP on port 80 by default
+      const port = edge.data?.ports?.[0] ?? 80;
+      const targetGroup = `${alb.name}_tg`;
+      addBlock(plan, `aws_lb_target_group.${targetGroup}`, [
+        `resource "aws_lb_target_group" "${targetGroup}" {`,
+        `  name     = "${targetGroup.replace(/_/g, '-').slice(0, 32)}"`,
+        `  port     = ${port}`,
+        `  protocol = "${edge.data?.protocol === 'https' ? 'HTTPS' : 'HTTP'}"`,
+        `  vpc_id   = ${resolveVpcId(plan, context, [alb.node, ec2.node])}`,
+        '}',
+      ]);
+
+      // Listeners set on the load balancer forward to the target group instead
+      if (getALBListeners(alb.node).length === 0) {
+        const listener = `${alb.name}_http`;
+        addBlock(plan, `aws_lb_listener.${listener}`, [
+          `resource "aws_lb_listener" "${listener}" {`,
+          `  load_balancer_arn = ${alb.address}.arn`,
+          '  port              = 80',
+          '  protocol          = "HTTP"',
+          '',
+          '  default_action {',
+          '    type             = "forward"',
+          `    target_group_arn = aws_lb_target_group.${targetGroup}.arn`,
+          '  }',
+          '}',
+        ]);
+      }
+
+      const attachment = `${alb.name}_${ec2.name}`;
+      addBlock(plan, `aws_lb_target_group_attachment.${attachment}`, [
+        `resource "aws_lb_target_group_attachment" "${attachment}" {`,
+        `  target_group_arn = aws_lb_target_group.${targetGroup}.arn`,
+        `  target_id        = ${ec2.address}.id`,
+        `  port             = ${port}`,
+        '}',
+      ]);
+      return true;
+    },
+  },
+  'lambda:dynamodb': {
+    description: 'Grants the function read/write access to the table and passes the table name',
+    apply: (plan, lambda, table) => {
+      addLambdaPolicy(
+        plan,
+        lambda,
+        table,
+        [
+          'dynamodb:GetItem',
+          'dynamodb:PutItem',
+          'dynamodb:UpdateItem',
+          'dynamodb:DeleteItem',
+          'dynamodb:Query',
+          'dynamodb:Scan',
+          'dynamodb:BatchGetItem',
+          'dynamodb:BatchWriteItem',
+        ],
+        [`${table.address}.arn`, `"\${${table.address}.arn}/index/*"`]
+      );
+      addEnvironmentVariable(plan, lambda.node.id, toEnvironmentName(table.name, 'TABLE_NAME'), `${table.address}.name`);
+      return true;
+    },
+  },
+  'lambda:s3': {
+    description: 'Grants the function object access to the bucket and passes the bucket name',
+    apply: (plan, lambda, bucket) => {
+      addLambdaPolicy(
+        plan,
+        lambda,
+        bucket,
+        ['s3:GetObject', 's3:PutObject', 's3:DeleteObject', 's3:ListBucket'],
+        [`${bucket.address}.arn`, `"\${${bucket.address}.arn}/*"`]
+      );
+      addEnvironmentVariable(plan, lambda.node.id, toEnvironmentName(bucket.name, 'BUCKET_NAME'), `${bucket.address}.bucket`);
+      return true;
+    },
+  },
+  'lambda:rds': {
+    description: 'Passes the database endpoint and credentials secret to the function',
+    apply: (plan, lambda, rds) => {
+      addEnvironmentVariable(plan, lambda.node.id, toEnvironmentName(rds.name, 'DB_ENDPOINT'), `${rds.address}.endpoint`);
+
+      // A password passed in as a variable has no secret the function could read
+      const credentials = (rds.node.data.properties as RDSProperties | undefined)?.credentials ?? 'managed';
+      if (credentials !== 'variable') {
+        const secretArn = credentials === 'random'
+          ? `aws_secretsmanager_secret.${rds.name}_credentials.arn`
+          : `${rds.address}.master_user_secret[0].secret_arn`;
+        addLambdaPolicy(plan, lambda, rds, ['secretsmanager:GetSecretValue'], [secretArn]);
+        addEnvironmentVariable(plan, lambda.node.id, toEnvironmentName(rds.name, 'DB_SECRET_ARN'), secretArn);
+      }
+      return true;
+    },
+  },
+  'lambda:sqs': {
+    description: 'Grants the function send/receive access to the queue and passes the queue URL',
+    apply: (plan, lambda, queue) => {
+      addLambdaPolicy(
+        plan,
+        lambda,
+        queue,
+        ['sqs:SendMessage', 'sqs:ReceiveMessage', 'sqs:DeleteMessage', 'sqs:GetQueueAttributes'],
+        [`${queue.address}.arn`]
+      );
+      addEnvironmentVariable(plan, lambda.node.id, toEnvironmentName(queue.name, 'QUEUE_URL'), `${queue.address}.url`);
+      return true;
+    },
+  },
+  'lambda:sns': {
+    description: 'Grants the function permission to publish to the topic and passes the topic ARN',
+    apply: (plan, lambda, topic) => {
+      addLambdaPolicy(plan, lambda, topic, ['sns:Publish'], [`${topic.address}.arn`]);
+      addEnvironmentVariable(plan, lambda.node.id, toEnvironmentName(topic.name, 'TOPIC_ARN'), `${topic.address}.arn`);
+      return true;
+    },
+  },
+  'lambda:secretsmanager': {
+    description: 'Grants the function read access to the secret and passes the secret ARN',
+    apply: (plan, lambda, secret) => {
+      addLambdaPolicy(plan, lambda, secret, ['secretsmanager:GetSecretValue'], [`${secret.address}.arn`]);
+      addEnvironmentVariable(plan, lambda.node.id, toEnvironmentName(secret.name, 'SECRET_ARN'), `${secret.address}.arn`);
+      return true;
+    },
+  },
+  'secretsmanager:kms': {
+    description: 'Encrypts the secret with the key',
+    apply: (plan, secret, key) => setAttribute(plan, secret.node.id, 'kms_key_id', `${key.address}.arn`),
+  },
+  'eventbridge:lambda': {
+    description: 'Invokes the function when the rule matches and allows EventBridge to call it',
+    apply: (plan, rule, lambda) => {
+      const target = `${rule.name}_${lambda.name}`;
+      addBlock(plan, `aws_cloudwatch_event_target.${target}`, [
+        `resource "aws_cloudwatch_event_target" "${target}" {`,
+        `  rule = ${rule.address}.name`,
+        `  arn  = ${lambda.address}.arn`,
+        '}',
+      ]);
+
+      const permission = `${target}_invoke`;
+      addBlock(plan, `aws_lambda_permission.${permission}`, [
+        `resource "aws_lambda_permission" "${permission}" {`,
+        '  statement_id  = "AllowEventBridgeInvoke"',
+        '  action        = "lambda:InvokeFunction"',
+        `  function_name = ${lambda.address}.function_name`,
+        '  principal     = "events.amazonaws.com"',
+        `  source_arn    = ${rule.address}.arn`,
+        '}',
+      ]);
+      return true;
+    },
+  },
+  'sns:lambda': {
+    description: 'Subscribes the function to the topic and allows SNS to call it',
+    apply: (plan, topic, lambda) => {
+      const subscription = `${topic.name}_${lambda.name}`;
+      addBlock(plan, `aws_sns_topic_subscription.${subscription}`, [
+        `resource "aws_sns_topic_subscription" "${subscription}" {`,
+        `  topic_arn = ${topic.address}.arn`,
+        '  protocol  = "lambda"',
+        `  endpoint  = ${lambda.address}.arn`,
+        '}',
+      ]);
+
+      const permission = `${subscription}_invoke`;
+      addBlock(plan, `aws_lambda_permission.${permission}`, [
+        `resource "aws_lambda_permission" "${permission}" {`,
+        '  statement_id  = "AllowSNSInvoke"',
+        '  action        = "lambda:InvokeFunction"',
+        `  function_name = ${lambda.address}.function_name`,
+        '  principal     = "sns.amazonaws.com"',
+        `  source_arn    = ${topic.address}.arn`,
+        '}',
+      ]);
+      return true;
+    },
+  },
+  'apigateway:lambda': {
+    description: 'Routes API requests to the function through a Lambda proxy integration',
+    apply: (plan, api, lambda) => {
+      const stage = `${api.name}_default`;
+      addBlock(plan, `aws_apigatewayv2_stage.${stage}`, [
+        `resource "aws_apigatewayv2_stage" "${stage}" {`,
+        `  api_id      = ${api.address}.id`,
+        '  name        = "$default"',
+        '  auto_deploy = true',
+        '}',
+      ]);
+
+      const integration = `${api.name}_${lambda.name}`;
+      addBlock(plan, `aws_apigatewayv2_integration.${integration}`, [
+        `resource "aws_apigatewayv2_integration" "${integration}" {`,
+        `  api_id                 = ${api.address}.id`,
+        '  integration_type       = "AWS_PROXY"',
+        `  integration_uri        = ${lambda.address}.invoke_arn`,
+        '  payload_format_version = "2.0"',
+        '}',
+      ]);
+
+      // The first function takes the default route, further ones get a path prefix
+      const hasDefaultRoute = plan.blocks.has(`aws_apigatewayv2_route.${api.name}_default`);
+      const route = hasDefaultRoute ? integration : `${api.name}_default`;
+      const routeKey = hasDefaultRoute ? `ANY /${lambda.name}/{proxy+}` : '$default';
+      addBlock(plan, `aws_apigatewayv2_route.${route}`, [
+        `resource "aws_apigatewayv2_route" "${route}" {`,
+        `  api_id    = ${api.address}.id`,
+        `  route_key = "${routeKey}"`,
+        `  target    = "integrations/\${aws_apigatewayv2_integration.${integration}.id}"`,
+        '}',
+      ]);
+
+      const permission = `${integration}_invoke`;
+      addBlock(plan, `aws_lambda_permission.${permission}`, [
+        `resource "aws_lambda_permission" "${permission}" {`,
+        '  statement_id  = "AllowAPIGatewayInvoke"',
+        '  action        = "lambda:InvokeFunction"',
+        `  function_name = ${lambda.address}.function_name`,
+        '  principal     = "apigateway.amazonaws.com"',
+        `  source_arn    = "\${${api.address}.execution_arn}/*/*"`,
+        '}',
+      ]);
+      return true;
+    },
+  },
+  'waf:alb': {
+    description: 'Associates the web ACL with the load balancer',
+    apply: (plan, waf, alb) => {
+      const name = `${waf.name}_${alb.name}`;
+      addBlock(plan, `aws_wafv2_web_acl_association.${name}`, [
+        `resource "aws_wafv2_web_acl_association" "${name}" {`,
+        `  resource_arn = ${alb.address}.arn`,
+        `  web_acl_arn  = ${waf.address}.arn`,
+        '}',
+      ]);
+      return true;
+    },
+  },
+};
+
+/**
+ * Looks up the semantics for an edge, accepting edges drawn in either direction
+ * @returns The semantic and whether the edge is reversed relative to its key, or null if the pair has none
+ */
+export function getConnectionSemantic(
+  sourceType: string,
+  targetType: string
+): { semantic: ConnectionSemantic; reversed: boolean } | null {
+  const forward = connectionSemantics[`${sourceType}:${targetType}` as ConnectionKey];
+  if (forward) {
+    return { semantic: forward, reversed: false };
+  }
+
+  const backward = connectionSemantics[`${targetType}:${sourceType}` as ConnectionKey];
+  return backward ? { semantic: backward, reversed: true } : null;
+}
+
+/**
+ * Builds the connection plan for a diagram from container placement and the semantics of every edge
+ * @param context - Nodes, edges and a resolver for Terraform names and addresses
+ * @returns Attributes, environment variables and supporting blocks to emit
+ */
+export function buildConnectionPlan(context: ConnectionContext): ConnectionPlan {
+  const plan: ConnectionPlan = {
+    attributes: new Map(),
+    environment: new Map(),
+    blocks: new Map(),
+    wiredEdges: new Set(),
+  };
+  const nodesById = new Map(context.nodes.map((node) => [node.id, node]));
+
+  // Placement inside containers takes precedence over edges to the same VPC or subnet
+  applyContainment(plan, context);
+  applySecurityGroups(plan, context);
+
+  for (const edge of context.edges) {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target || source.id === target.id) continue;
+
+    // An edge to an enclosing container adds nothing beyond the containment itself
+    if (isDescendantOf(source, target.id, context.nodes) || isDescendantOf(target, source.id, context.nodes)) {
+      plan.wiredEdges.add(edge.id);
+      continue;
+    }
+
+    const match = getConnectionSemantic(source.type, target.type);
+    if (!match) continue;
+
+    const [from, to] = match.reversed ? [target, source] : [source, target];
+    if (match.semantic.apply(plan, context.resolve(from), context.resolve(to), context, edge)) {
+      plan.wiredEdges.add(edge.id);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,194 @@
+// Container nodes (VPC, availability zone, subnet) and the resources placed inside them
+import { Node, ResourceTypeId } from '@/types';
+import { getResourceDefinition } from './resource-registry';
+
+export interface ContainerSize {
+  width: number;
+  height: number;
+}
+
+// Initial size of each container type when dropped on the canvas
+export const containerSizes: Partial<Record<ResourceTypeId, ContainerSize>> = {
+  vpc: { width: 560, height: 360 },
+  az: { width: 400, height: 280 },
+  subnet: { width: 280, height: 180 },
+};
+
+// Size assumed for nodes React Flow has not measured yet (icon plus handles)
+const DEFAULT_NODE_SIZE: ContainerSize = { width: 64, height: 64 };
+
+/**
+ * Lists the containers a node type may be placed in, from its resource definition. Regional
+ * services such as S3 or DynamoDB do not live in a VPC, so they are always kept at the top level.
+ */
+export function getAllowedParents(type: ResourceTypeId): ResourceTypeId[] {
+  return getResourceDefinition(type)?.parents ?? [];
+}
+
+/**
+ * Checks whether a node type is rendered as a resizable container
+ */
+export function isContainerType(type: string): boolean {
+  return type in containerSizes;
+}
+
+/**
+ * Checks whether a node of one type may be placed inside a container of another
+ */
+export function canContain(parentType: ResourceTypeId, childType: ResourceTypeId): boolean {
+  return getAllowedParents(childType).includes(parentType);
+}
+
+/**
+ * Returns the containers enclosing a node, innermost first
+ * @param node - The node to start from
+ * @param nodes - All nodes on the canvas
+ */
+export function getAncestors(node: Node, nodes: Node[]): Node[] {
+  const ancestors: Node[] = [];
+  const seen = new Set([node.id]);
+  let parentId = node.parentId;
+
+  while (parentId && !seen.has(parentId)) {
+    const parent = nodes.find((candidate) => candidate.id === parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    seen.add(parent.id);
+    parentId = parent.parentId;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Finds the innermost enclosing container of a given type
+ */
+export function findAncestor(node: Node, nodes: Node[], type: ResourceTypeId): Node | undefined {
+  return getAncestors(node, nodes).find((ancestor) => ancestor.type === type);
+}
+
+/**
+ * Checks whether one node is nested (at any depth) inside another
+ */
+export function isDescendantOf(node: Node, ancestorId: string, nodes: Node[]): boolean {
+  return getAncestors(node, nodes).some((ancestor) => ancestor.id === ancestorId);
+}
+
+/**
+ * Returns a node's position in canvas coordinates (child positions are relative to their parent)
+ */
+export function getAbsolutePosition(node: Node, nodes: Node[]): { x: number; y: number } {
+  return getAncestors(node, nodes).reduce(
+    (position, ancestor) => ({ x: position.x + ancestor.position.x, y: position.y + ancestor.position.y }),
+    { x: node.position.x, y: node.position.y }
+  );
+}
+
+/**
+ * Returns the rendered size of a node, falling back to its initial size
+ */
+export function getNodeSize(node: Node): ContainerSize {
+  return {
+    width: node.width ?? node.measured?.width ?? containerSizes[node.type]?.width ?? DEFAULT_NODE_SIZE.width,
+    height: node.height ?? node.measured?.height ?? containerSizes[node.type]?.height ?? DEFAULT_NODE_SIZE.height,
+  };
+}
+
+/**
+ * Finds the innermost container under a point that accepts a node type
+ * @param nodes - All nodes on the canvas
+ * @param type - Type of the node being placed
+ * @param point - Canvas coordinates (e.g. the centre of the dragged node)
+ * @param nodeId - The node being moved, which cannot be dropped into itself or its children
+ * @returns The container, or null to place the node at the top level
+ */
+export function findDropTarget(
+  nodes: Node[],
+  type: ResourceTypeId,
+  point: { x: number; y: number },
+  nodeId?: string
+): Node | null {
+  let target: Node | null = null;
+  let targetDepth = -1;
+
+  for (const candidate of nodes) {
+    if (!isContainerType(candidate.type) || !canContain(candidate.type, type)) continue;
+    if (nodeId && (candidate.id === nodeId || isDescendantOf(candidate, nodeId, nodes))) continue;
+
+    const position = getAbsolutePosition(candidate, nodes);
+    const size = getNodeSize(candidate);
+    const inside =
+      point.x >= position.x &&
+      point.x <= position.x + size.width &&
+      point.y >= position.y &&
+      point.y <= position.y + size.height;
+
+    // Containers nest, so the deepest one under the point wins
+    const depth = getAncestors(candidate, nodes).length;
+    if (inside && depth > targetDepth) {
+      target = candidate;
+      targetDepth = depth;
+    }
+  }
+
+  return target;
+}
+
+/**
+ * Returns the ids of a node and everything nested inside it
+ */
+export function getSubtreeIds(nodeId: string, nodes: Node[]): Set<string> {
+  const ids = new Set([nodeId]);
+  for (const node of nodes) {
+    if (isDescendantOf(node, nodeId, nodes)) ids.add(node.id);
+  }
+  return ids;
+}
+
+/**
+ * Orders nodes so every container comes before its children, as React Flow requires
+ */
+export function orderByParent(nodes: Node[]): Node[] {
+  const ids = new Set(nodes.map((node) => node.id));
+  const ordered: Node[] = [];
+  const placed = new Set<string>();
+
+  const place = (node: Node, visiting: Set<string>) => {
+    if (placed.has(node.id) || visiting.has(node.id)) return;
+    visiting.add(node.id);
+    const parent = node.parentId && ids.has(node.parentId) ? nodes.find((n) => n.id === node.parentId) : undefined;
+    if (parent) place(parent, visiting);
+    placed.add(node.id);
+    ordered.push(node);
+  };
+
+  nodes.forEach((node) => place(node, new Set()));
+  return ordered;
+}
+
+/**
+ * Moves a node into a container (or to the top level) without moving it on screen
+ * @param nodes - All nodes on the canvas
+ * @param nodeId - The node to move
+ * @param parentId - The new container, or null for the top level
+ * @returns Updated nodes, ordered parents first
+ */
+export function setNodeParent(nodes: Node[], nodeId: string, parentId: string | null): Node[] {
+  const node = nodes.find((candidate) => candidate.id === nodeId);
+  if (!node || (node.parentId ?? null) === parentId) return nodes;
+
+  const parent = parentId ? nodes.find((candidate) => candidate.id === parentId) : undefined;
+  // A container cannot be moved into one of its own children
+  if (parentId && (!parent || parent.id === nodeId || isDescendantOf(parent, nodeId, nodes))) return nodes;
+
+  const absolute = getAbsolutePosition(node, nodes);
+  const origin = parent ? getAbsolutePosition(parent, nodes) : { x: 0, y: 0 };
+  const moved: Node = { ...node, position: { x: absolute.x - origin.x, y: absolute.y - origin.y } };
+  if (parent) {
+    moved.parentId = parent.id;
+  } else {
+    delete moved.parentId;
+  }
+
+  return orderByParent(nodes.map((candidate) => (candidate.id === nodeId ? moved : candidate)));
+}
@@ -0,0 +1,173 @@
+// Context sent with refine requests: earlier chat turns and a compact view of the diagram
+import { Node, Edge, ResourceTypeId } from '@/types';
+import { getResourceAddresses } from '@/lib/terraform-generator';
+import { diffText } from '@/lib/text-diff';
+import { redactProperties } from '@/lib/sensitive-properties';
+import { describeEdge, EdgeDescription } from '@/lib/edge-metadata';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface GraphResource {
+  // Terraform address, or null for nodes without a resource (availability zones)
+  address: string | null;
+  type: ResourceTypeId;
+  label: string;
+  properties: Record<string, unknown>;
+  // Label of the enclosing VPC, availability zone or subnet
+  container?: string;
+}
+
+/**
+ * The diagram as the model sees it: resource names, settings and connections
+ */
+export interface GraphContext {
+  resources: GraphResource[];
+  // Connections by resource address (or label), source first, with what they stand for
+  connections: Array<{ from: string; to: string } & Partial<EdgeDescription>>;
+}
+
+export interface TruncatedConversation {
+  turns: ChatTurn[];
+  // Turns left out to fit the budget
+  omitted: number;
+  // Short recap of the omitted user instructions
+  summary: string | null;
+}
+
+// Rough characters-per-token ratio for English text and code
+const CHARS_PER_TOKEN = 4;
+
+// Longest excerpt of each omitted instruction kept in the summary
+const SUMMARY_EXCERPT_LENGTH = 80;
+
+// Changed lines listed when describing a refinement
+const MAX_CHANGE_LINES = 20;
+
+/**
+ * Estimates how many tokens a text uses. Deliberately rough; it only has to keep
+ * prompts well inside the model's context window.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Keeps the most recent turns that fit in a token budget and summarises the rest
+ * @param turns - Conversation in order, oldest first
+ * @param budgetTokens - Tokens available for the turns and the summary
+ * @returns The kept turns (oldest first), how many were left out and a recap of them
+ */
+export function truncateConversation(turns: ChatTurn[], budgetTokens: number): TruncatedConversation {
+  const kept: ChatTurn[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(turns[i].content);
+    if (used + cost > budgetTokens) break;
+    kept.unshift(turns[i]);
+    used += cost;
+  }
+
+  // A kept assistant turn without the instruction it answered is confusing; drop it
+  if (kept[0]?.role === 'assistant' && kept.length < turns.length) {
+    used -= estimateTokens(kept.shift()!.content);
+  }
+
+  const omitted = turns.slice(0, turns.length - kept.length);
+  if (omitted.length === 0) {
+    return { turns: kept, omitted: 0, summary: null };
+  }
+
+  // Recap the newest omitted instructions first, within what is left of the budget
+  const excerpts: string[] = [];
+  let summaryTokens = estimateTokens('Earlier instructions: ');
+  for (const turn of omitted.filter((candidate) => candidate.role === 'user').reverse()) {
+    const content = turn.content.replace(/\s+/g, ' ').trim();
+    const excerpt = content.length > SUMMARY_EXCERPT_LENGTH ? `${content.slice(0, SUMMARY_EXCERPT_LENGTH - 3)}...` : content;
+    const cost = estimateTokens(`"${excerpt}"; `);
+    if (used + summaryTokens + cost > budgetTokens) break;
+    excerpts.unshift(`"${excerpt}"`);
+    summaryTokens += cost;
+  }
+
+  return {
+    turns: kept,
+    omitted: omitted.length,
+    summary: excerpts.length > 0 ? `Earlier instructions: ${excerpts.join('; ')}` : null,
+  };
+}
+
+/**
+ * Describes a refinement by its changed lines, for the assistant side of the history
+ * @param oldCode - Code the instruction was applied to
+ * @param newCode - Code the model proposed
+ */
+export function describeCodeChange(oldCode: string, newCode: string): string {
+  const lines = diffText(oldCode, newCode, 0).hunks.flatMap((hunk) => [
+    ...hunk.removed.map((line) => `- ${line}`),
+    ...hunk.added.map((line) => `+ ${line}`),
+  ]);
+  if (lines.length === 0) {
+    return 'Proposed no changes to the code.';
+  }
+
+  const shown = lines.slice(0, MAX_CHANGE_LINES);
+  if (lines.length > shown.length) {
+    shown.push(`(${lines.length - shown.length} more changed lines)`);
+  }
+  return `Proposed these changes to the code:\n${shown.join('\n')}`;
+}
+
+/**
+ * Builds the diagram context for refine requests
+ * @param nodes - Nodes on the canvas
+ * @param edges - Edges on the canvas
+ * @returns Resources with their addresses and settings, and the connections between them
+ */
+export function buildGraphContext(nodes: Node[], edges: Edge[]): GraphContext {
+  const addresses = getResourceAddresses(nodes);
+  const names = new Map(nodes.map((node) => [node.id, addresses.get(node.id) ?? node.data.label]));
+  const labels = new Map(nodes.map((node) => [node.id, node.data.label]));
+
+  return {
+    resources: nodes.map((node) => ({
+      address: addresses.get(node.id) ?? null,
+      type: node.type,
+      label: node.data.label,
+      properties: redactProperties(node.type, node.data.properties as Record<string, unknown>),
+      ...(node.parentId && labels.has(node.parentId) ? { container: labels.get(node.parentId) } : {}),
+    })),
+    connections: edges
+      .filter((edge) => names.has(edge.source) && names.has(edge.target))
+      .map((edge) => ({ from: names.get(edge.source)!, to: names.get(edge.target)!, ...describeEdge(edge, nodes) })),
+  };
+}
+
+/**
+ * Formats the diagram for a prompt, leaving out properties if the full version
+ * does not fit in the token budget
+ */
+export function formatGraphContext(graph: GraphContext, budgetTokens: number): string {
+  // Sensitive values are left out even if the client sent them
+  graph = {
+    ...graph,
+    resources: graph.resources.map((resource) => ({
+      ...resource,
+      properties: redactProperties(resource.type, resource.properties),
+    })),
+  };
+
+  const full = JSON.stringify(graph);
+  if (estimateTokens(full) <= budgetTokens) {
+    return full;
+  }
+
+  const compact = JSON.stringify({
+    resources: graph.resources.map(({ address, type, label, container }) => ({ address, type, label, container })),
+    connections: graph.connections,
+  });
+  return estimateTokens(compact) <= budgetTokens ? compact : compact.slice(0, budgetTokens * CHARS_PER_TOKEN);
+}
@@ -0,0 +1,318 @@
+// Offline monthly cost estimates from a bundled price catalog
+import { Node, ResourceTypeId } from '@/types';
+
+// Hours in an average month, as used by the AWS pricing calculator
+export const HOURS_PER_MONTH = 730;
+
+/**
+ * On-demand prices in USD for us-east-1. Keys match the options in resourceSchemas,
+ * so a new option without a price shows up as "no price" rather than $0.
+ */
+export const priceCatalog = {
+  ec2: {
+    hourly: {
+      't2.micro': 0.0116,
+      't2.small': 0.023,
+      't2.medium': 0.0464,
+      't3.micro': 0.0104,
+      't3.small': 0.0208,
+      't3.medium': 0.0416,
+    } as Record<string, number>,
+  },
+  rds: {
+    hourly: {
+      'db.t3.micro': 0.017,
+      'db.t3.small': 0.034,
+      'db.t3.medium': 0.068,
+      'db.m5.large': 0.171,
+      'db.m5.xlarge': 0.342,
+    } as Record<string, number>,
+    // Commercial engines cost more per hour than the open-source ones
+    engineMultiplier: {
+      postgres: 1.06,
+      mysql: 1,
+      mariadb: 1,
+      'oracle-se2': 2.1,
+      'sqlserver-ex': 1.35,
+    } as Record<string, number>,
+    storagePerGbMonth: 0.115,
+  },
+  lambda: {
+    perMillionRequests: 0.2,
+    perGbSecond: 0.0000166667,
+  },
+  dynamodb: {
+    onDemand: { perMillionWrites: 1.25, perMillionReads: 0.25 },
+    // Provisioned tables are priced for the 5 RCU / 5 WCU the generator creates
+    provisioned: { perWcuHour: 0.00065, perRcuHour: 0.00013, capacityUnits: 5 },
+    storagePerGbMonth: 0.25,
+  },
+  s3: {
+    storagePerGbMonth: 0.023,
+    perThousandPuts: 0.005,
+    perThousandGets: 0.0004,
+  },
+  alb: {
+    hourly: 0.0225,
+    perLcuHour: 0.008,
+  },
+  apigateway: {
+    perMillionRequests: { HTTP: 1, REST: 3.5, WEBSOCKET: 1 } as Record<string, number>,
+  },
+  waf: {
+    perWebAclMonth: 5,
+    perMillionRequests: 0.6,
+  },
+  ecs: {
+    // Fargate, per task
+    perVcpuHour: 0.04048,
+    perGbHour: 0.004445,
+  },
+  eks: {
+    clusterHourly: 0.1,
+  },
+  natgateway: {
+    hourly: 0.045,
+  },
+  elasticache: {
+    hourly: {
+      'cache.t3.micro': 0.017,
+      'cache.t3.small': 0.034,
+      'cache.t3.medium': 0.068,
+      'cache.m5.large': 0.156,
+    } as Record<string, number>,
+  },
+  cloudfront: {
+    perMillionHttpsRequests: 1,
+  },
+  route53: {
+    perHostedZoneMonth: 0.5,
+    perMillionQueries: 0.4,
+  },
+  sqs: {
+    perMillionRequests: { standard: 0.4, fifo: 0.5 },
+  },
+  sns: {
+    perMillionPublishes: 0.5,
+  },
+  secretsmanager: {
+    perSecretMonth: 0.4,
+  },
+  kms: {
+    perKeyMonth: 1,
+  },
+};
+
+/**
+ * Usage the estimate is based on; applied to every usage-priced resource
+ */
+export interface UsageAssumptions {
+  requestsPerMonth: number;
+  storageGb: number;
+  // Average Lambda invocation time
+  lambdaDurationMs: number;
+  // Share of requests that read rather than write (DynamoDB, S3)
+  readRatio: number;
+}
+
+export const defaultUsageAssumptions: UsageAssumptions = {
+  requestsPerMonth: 1_000_000,
+  storageGb: 20,
+  lambdaDurationMs: 200,
+  readRatio: 0.8,
+};
+
+export interface CostLineItem {
+  description: string;
+  monthly: number;
+}
+
+export interface NodeCost {
+  nodeId: string;
+  monthly: number;
+  items: CostLineItem[];
+  // Set when part of the configuration has no price in the catalog
+  note?: string;
+}
+
+export interface CostEstimate {
+  nodes: NodeCost[];
+  total: number;
+}
+
+type CostResult = Omit<NodeCost, 'nodeId' | 'monthly'>;
+
+function properties(node: Node): Record<string, unknown> {
+  return node.data.properties as Record<string, unknown>;
+}
+
+function hourlyItem(description: string, hourly: number): CostLineItem {
+  return { description, monthly: hourly * HOURS_PER_MONTH };
+}
+
+function unpriced(option: unknown, kind: string): CostResult {
+  return { items: [], note: `No price for ${kind} ${String(option)}` };
+}
+
+const estimators: Partial<Record<ResourceTypeId, (node: Node, usage: UsageAssumptions) => CostResult>> = {
+  ec2: (node) => {
+    const instanceType = properties(node).instanceType;
+    const hourly = priceCatalog.ec2.hourly[String(instanceType)];
+    if (hourly === undefined) return unpriced(instanceType, 'instance type');
+    return { items: [hourlyItem(`${instanceType} instance`, hourly)] };
+  },
+  rds: (node) => {
+    const { instanceClass, engine, allocatedStorage } = properties(node);
+    const hourly = priceCatalog.rds.hourly[String(instanceClass)];
+    if (hourly === undefined) return unpriced(instanceClass, 'instance class');
+    const multiplier = priceCatalog.rds.engineMultiplier[String(engine)] ?? 1;
+    const storage = Number(allocatedStorage) || 0;
+    return {
+      items: [
+        hourlyItem(`${instanceClass} ${engine} instance`, hourly * multiplier),
+        { description: `${storage} GB storage`, monthly: storage * priceCatalog.rds.storagePerGbMonth },
+      ],
+    };
+  },
+  lambda: (node, usage) => {
+    const memoryGb = (Number(properties(node).memory) || 128) / 1024;
+    const gbSeconds = usage.requestsPerMonth * (usage.lambdaDurationMs / 1000) * memoryGb;
+    return {
+      items: [
+        { description: 'Requests', monthly: (usage.requestsPerMonth / 1e6) * priceCatalog.lambda.perMillionRequests },
+        { description: `Compute (${Math.round(gbSeconds).toLocaleString('en-US')} GB-s)`, monthly: gbSeconds * priceCatalog.lambda.perGbSecond },
+      ],
+    };
+  },
+  dynamodb: (node, usage) => {
+    const { onDemand, provisioned, storagePerGbMonth } = priceCatalog.dynamodb;
+    const storage = { description: `${usage.storageGb} GB storage`, monthly: usage.storageGb * storagePerGbMonth };
+
+    if (properties(node).billingMode === 'PROVISIONED') {
+      const { perWcuHour, perRcuHour, capacityUnits } = provisioned;
+      return {
+        items: [
+          hourlyItem(`${capacityUnits} write capacity units`, capacityUnits * perWcuHour),
+          hourlyItem(`${capacityUnits} read capacity units`, capacityUnits * perRcuHour),
+          storage,
+        ],
+      };
+    }
+
+    const reads = usage.requestsPerMonth * usage.readRatio;
+    const writes = usage.requestsPerMonth - reads;
+    return {
+      items: [
+        { description: 'Read requests', monthly: (reads / 1e6) * onDemand.perMillionReads },
+        { description: 'Write requests', monthly: (writes / 1e6) * onDemand.perMillionWrites },
+        storage,
+      ],
+    };
+  },
+  s3: (_node, usage) => {
+    const { storagePerGbMonth, perThousandGets, perThousandPuts } = priceCatalog.s3;
+    const gets = usage.requestsPerMonth * usage.readRatio;
+    const puts = usage.requestsPerMonth - gets;
+    return {
+      items: [
+        { description: `${usage.storageGb} GB storage`, monthly: usage.storageGb * storagePerGbMonth },
+        { description: 'GET requests', monthly: (gets / 1000) * perThousandGets },
+        { description: 'PUT requests', monthly: (puts / 1000) * perThousandPuts },
+      ],
+    };
+  },
+  alb: () => ({
+    items: [
+      hourlyItem('Load balancer hours', priceCatalog.alb.hourly),
+      hourlyItem('1 load balancer capacity unit', priceCatalog.alb.perLcuHour),
+    ],
+  }),
+  apigateway: (node, usage) => {
+    const protocolType = properties(node).protocolType ?? 'HTTP';
+    const price = priceCatalog.apigateway.perMillionRequests[String(protocolType)];
+    if (price === undefined) return unpriced(protocolType, 'API type');
+    return { items: [{ description: `${protocolType} API requests`, monthly: (usage.requestsPerMonth / 1e6) * price }] };
+  },
+  waf: (_node, usage) => ({
+    items: [
+      { description: 'Web ACL', monthly: priceCatalog.waf.perWebAclMonth },
+      { description: 'Inspected requests', monthly: (usage.requestsPerMonth / 1e6) * priceCatalog.waf.perMillionRequests },
+    ],
+  }),
+  ecs: (node) => {
+    const { cpu, memory, desiredCount } = properties(node);
+    const tasks = Number(desiredCount) || 1;
+    const vcpu = (Number(cpu) || 256) / 1024;
+    const memoryGb = (Number(memory) || 512) / 1024;
+    return {
+      items: [
+        hourlyItem(`${tasks} × ${vcpu} vCPU`, tasks * vcpu * priceCatalog.ecs.perVcpuHour),
+        hourlyItem(`${tasks} × ${memoryGb} GB memory`, tasks * memoryGb * priceCatalog.ecs.perGbHour),
+      ],
+    };
+  },
+  eks: () => ({ items: [hourlyItem('Cluster control plane', priceCatalog.eks.clusterHourly)] }),
+  natgateway: () => ({ items: [hourlyItem('NAT gateway hours', priceCatalog.natgateway.hourly)] }),
+  elasticache: (node) => {
+    const { nodeType, engine, numCacheNodes } = properties(node);
+    const hourly = priceCatalog.elasticache.hourly[String(nodeType)];
+    if (hourly === undefined) return unpriced(nodeType, 'node type');
+    // Redis clusters are generated with a single node
+    const count = engine === 'memcached' ? Number(numCacheNodes) || 1 : 1;
+    return { items: [hourlyItem(`${count} × ${nodeType} node`, count * hourly)] };
+  },
+  cloudfront: (_node, usage) => ({
+    items: [
+      { description: 'HTTPS requests', monthly: (usage.requestsPerMonth / 1e6) * priceCatalog.cloudfront.perMillionHttpsRequests },
+    ],
+  }),
+  route53: (_node, usage) => ({
+    items: [
+      { description: 'Hosted zone', monthly: priceCatalog.route53.perHostedZoneMonth },
+      { description: 'DNS queries', monthly: (usage.requestsPerMonth / 1e6) * priceCatalog.route53.perMillionQueries },
+    ],
+  }),
+  sqs: (node, usage) => {
+    const { standard, fifo } = priceCatalog.sqs.perMillionRequests;
+    const price = properties(node).fifo ? fifo : standard;
+    return { items: [{ description: 'Requests', monthly: (usage.requestsPerMonth / 1e6) * price }] };
+  },
+  sns: (_node, usage) => ({
+    items: [{ description: 'Published messages', monthly: (usage.requestsPerMonth / 1e6) * priceCatalog.sns.perMillionPublishes }],
+  }),
+  secretsmanager: () => ({ items: [{ description: 'Secret', monthly: priceCatalog.secretsmanager.perSecretMonth }] }),
+  kms: () => ({ items: [{ description: 'Customer managed key', monthly: priceCatalog.kms.perKeyMonth }] }),
+};
+
+/**
+ * Estimates the monthly cost of one node. Network containers (VPC, subnet,
+ * availability zone) and other free resources (internet gateways, security groups,
+ * scheduled rules, small user pools) estimate to $0 with no line items.
+ * @param node - The node to price
+ * @param usage - Usage assumptions for request- and storage-priced resources
+ * @returns Monthly cost in USD with its line items
+ */
+export function estimateNodeCost(node: Node, usage: UsageAssumptions = defaultUsageAssumptions): NodeCost {
+  const result = estimators[node.type]?.(node, usage) ?? { items: [] };
+  const monthly = result.items.reduce((sum, item) => sum + item.monthly, 0);
+  return { nodeId: node.id, monthly, ...result };
+}
+
+/**
+ * Estimates the monthly cost of a whole diagram
+ * @param nodes - Nodes on the canvas
+ * @param usage - Usage assumptions shared by every node
+ * @returns Per-node costs (in canvas order) and the monthly total
+ */
+export function estimateDiagramCost(nodes: Node[], usage: UsageAssumptions = defaultUsageAssumptions): CostEstimate {
+  const costs = nodes.map((node) => estimateNodeCost(node, usage));
+  return { nodes: costs, total: costs.reduce((sum, cost) => sum + cost.monthly, 0) };
+}
+
+/**
+ * Formats a monthly amount in USD, e.g. "$8.47"; amounts under a cent show as "<$0.01"
+ */
+export function formatCost(amount: number): string {
+  if (amount > 0 && amount < 0.01) return '<$0.01';
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
@@ -0,0 +1,324 @@
+// Diagram blueprints: resources and connections proposed by the model, checked and laid out as canvas nodes
+import { Node, Edge, ResourceTypeId } from '@/types';
+import { getResourceSchema, PropertyField } from '@/lib/resource-schemas';
+import { getResourceTypeById } from '@/lib/resource-types';
+import { getResourceDefinitions } from '@/lib/resource-registry';
+import { validateEdges } from '@/lib/connection-rules';
+import { canContain, orderByParent } from '@/lib/containers';
+import { layoutDiagram } from '@/lib/auto-layout';
+
+/**
+ * A resource as the model describes it. Everything is untrusted until validated.
+ */
+export interface BlueprintResource {
+  id: string;
+  type: string;
+  label?: string;
+  properties?: Record<string, unknown>;
+  // Id of the VPC, availability zone or subnet the resource is placed in
+  parent?: string;
+}
+
+export interface BlueprintConnection {
+  from: string;
+  to: string;
+}
+
+export interface DiagramBlueprint {
+  resources: BlueprintResource[];
+  connections: BlueprintConnection[];
+}
+
+export type BlueprintIssueStatus = 'repaired' | 'rejected';
+
+export interface BlueprintIssue {
+  status: BlueprintIssueStatus;
+  // Resource id, "resource.property" or "from -> to"
+  subject: string;
+  message: string;
+}
+
+export interface BlueprintResult {
+  nodes: Node[];
+  edges: Edge[];
+  // What had to be changed or left out to fit the canvas
+  issues: BlueprintIssue[];
+}
+
+export interface BlueprintOptions {
+  // Prefix used to build unique node ids (defaults to the current timestamp)
+  idPrefix?: string;
+  // Top-left position of the diagram
+  origin?: { x: number; y: number };
+}
+
+// Other names the model uses for the built-in resource types (compared without case or punctuation)
+const typeAliases: Partial<Record<ResourceTypeId, string[]>> = {
+  ec2: ['instance', 'ec2instance', 'awsinstance', 'vm', 'server'],
+  lambda: ['lambdafunction', 'function', 'awslambdafunction'],
+  vpc: ['awsvpc', 'network'],
+  subnet: ['awssubnet'],
+  az: ['availabilityzone'],
+  alb: ['loadbalancer', 'applicationloadbalancer', 'elb', 'lb', 'awslb'],
+  apigateway: ['api', 'apigw', 'httpapi', 'restapi', 'awsapigatewayv2api'],
+  rds: ['database', 'db', 'rdsinstance', 'awsdbinstance', 'postgres', 'mysql'],
+  dynamodb: ['dynamo', 'dynamodbtable', 'table', 'awsdynamodbtable'],
+  s3: ['bucket', 's3bucket', 'awss3bucket'],
+  waf: ['wafv2', 'webacl', 'awswafv2webacl'],
+  ecs: ['ecsservice', 'fargate', 'container', 'containers', 'awsecsservice'],
+  eks: ['kubernetes', 'k8s', 'ekscluster', 'awsekscluster'],
+  natgateway: ['nat', 'natgw', 'awsnatgateway'],
+  internetgateway: ['igw', 'awsinternetgateway'],
+  securitygroup: ['sg', 'awssecuritygroup'],
+  cloudfront: ['cdn', 'distribution', 'cloudfrontdistribution', 'awscloudfrontdistribution'],
+  route53: ['dns', 'hostedzone', 'route53zone', 'awsroute53zone'],
+  sqs: ['queue', 'sqsqueue', 'awssqsqueue'],
+  sns: ['topic', 'snstopic', 'awssnstopic'],
+  eventbridge: ['eventbridgerule', 'eventrule', 'schedule', 'cron', 'awscloudwatcheventrule'],
+  elasticache: ['cache', 'redis', 'memcached', 'awselasticachecluster'],
+  cognito: ['userpool', 'cognitouserpool', 'auth', 'awscognitouserpool'],
+  secretsmanager: ['secret', 'secrets', 'awssecretsmanagersecret'],
+  kms: ['kmskey', 'key', 'encryptionkey', 'awskmskey'],
+};
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Finds the resource type a model-supplied type name refers to
+ */
+function resolveType(name: string): ResourceTypeId | null {
+  const key = normalizeName(name);
+  const types = getResourceDefinitions().map((definition) => definition.id);
+  return types.find((type) => normalizeName(type) === key || typeAliases[type]?.includes(key)) ?? null;
+}
+
+/**
+ * Converts a JSON value to a schema field's type
+ * @returns The value, whether it had to be repaired, or undefined if it cannot be used
+ */
+function coerceValue(field: PropertyField, value: unknown): { value: unknown; repaired: boolean } | undefined {
+  switch (field.type) {
+    case 'text':
+      if (typeof value === 'string') return { value, repaired: false };
+      return typeof value === 'number' ? { value: String(value), repaired: true } : undefined;
+    case 'number': {
+      if (typeof value === 'number' && Number.isFinite(value)) return { value, repaired: false };
+      const number = typeof value === 'string' && value.trim() ? Number(value) : NaN;
+      return Number.isFinite(number) ? { value: number, repaired: true } : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return { value, repaired: false };
+      return value === 'true' || value === 'false' ? { value: value === 'true', repaired: true } : undefined;
+    case 'select': {
+      if (typeof value !== 'string') return undefined;
+      if (field.options?.includes(value)) return { value, repaired: false };
+      const option = field.options?.find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+      return option ? { value: option, repaired: true } : undefined;
+    }
+    case 'array':
+      if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return { value, repaired: false };
+      return typeof value === 'string' ? { value: [value], repaired: true } : undefined;
+    case 'map': {
+      if (!isObject(value)) return undefined;
+      const entries = Object.entries(value);
+      const usable = entries.filter(([, item]) => ['string', 'number', 'boolean'].includes(typeof item));
+      return {
+        value: Object.fromEntries(usable.map(([key, item]) => [key, String(item)])),
+        repaired: entries.some(([, item]) => typeof item !== 'string'),
+      };
+    }
+    case 'objectList': {
+      // A single object is read as a list of one
+      const items = Array.isArray(value) ? value : isObject(value) ? [value] : undefined;
+      if (!items) return undefined;
+      const coerced = items.map((item) => coerceObject(field.fields ?? [], item));
+      const usable = coerced.filter((item): item is { value: unknown; repaired: boolean } => item !== undefined);
+      return {
+        value: usable.map((item) => item.value),
+        repaired: !Array.isArray(value) || usable.length < items.length || usable.some((item) => item.repaired),
+      };
+    }
+    case 'group':
+      return coerceObject(field.fields ?? [], value);
+    default:
+      return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Converts a JSON object to the sub-fields of an objectList item or group, dropping
+ * entries that match no sub-field or cannot be converted
+ */
+function coerceObject(fields: PropertyField[], value: unknown): { value: unknown; repaired: boolean } | undefined {
+  if (!isObject(value)) return undefined;
+
+  const object: Record<string, unknown> = {};
+  let repaired = false;
+  for (const [name, item] of Object.entries(value)) {
+    const field = fields.find((candidate) => normalizeName(candidate.name) === normalizeName(name));
+    const coerced = field ? coerceValue(field, item) : undefined;
+    if (!field || !coerced) {
+      repaired = true;
+      continue;
+    }
+    object[field.name] = coerced.value;
+    repaired ||= coerced.repaired || field.name !== name;
+  }
+  return { value: object, repaired };
+}
+
+/**
+ * Builds a resource's properties from the schema defaults and the values the model gave,
+ * matching property names loosely (e.g. "instance_type" for instanceType)
+ */
+function buildProperties(
+  type: ResourceTypeId,
+  resourceId: string,
+  values: Record<string, unknown>,
+  issues: BlueprintIssue[]
+): Record<string, unknown> {
+  const { fields, defaultProperties } = getResourceSchema(type);
+  const properties: Record<string, unknown> = { ...defaultProperties };
+
+  for (const [name, value] of Object.entries(values)) {
+    const subject = `${resourceId}.${name}`;
+    const field = fields.find((candidate) => normalizeName(candidate.name) === normalizeName(name));
+    if (!field) {
+      issues.push({ status: 'rejected', subject, message: `${getResourceTypeById(type).label} has no ${name} setting` });
+      continue;
+    }
+
+    const coerced = coerceValue(field, value);
+    if (!coerced) {
+      const allowed = field.options ? `; expected one of ${field.options.join(', ')}` : '';
+      issues.push({
+        status: 'rejected',
+        subject,
+        message: `${JSON.stringify(value)} is not a valid ${field.label}${allowed}. Kept the default`,
+      });
+      continue;
+    }
+    if (coerced.repaired || field.name !== name) {
+      issues.push({ status: 'repaired', subject, message: `Read as ${field.name} = ${JSON.stringify(coerced.value)}` });
+    }
+    properties[field.name] = coerced.value;
+  }
+
+  return properties;
+}
+
+/**
+ * Reads the model's JSON into a blueprint, dropping entries that are not objects
+ * @returns The blueprint, or null if the value has no resources list
+ */
+export function readBlueprint(value: unknown): DiagramBlueprint | null {
+  const raw = value as Partial<Record<keyof DiagramBlueprint, unknown>> | null;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.resources)) {
+    return null;
+  }
+
+  const isObject = (item: unknown): item is Record<string, unknown> => typeof item === 'object' && item !== null;
+  return {
+    resources: raw.resources.filter(isObject).map((resource) => ({
+      id: String(resource.id ?? ''),
+      type: String(resource.type ?? ''),
+      label: typeof resource.label === 'string' ? resource.label : undefined,
+      properties: isObject(resource.properties) ? resource.properties : undefined,
+      parent: typeof resource.parent === 'string' ? resource.parent : undefined,
+    })),
+    connections: (Array.isArray(raw.connections) ? raw.connections : []).filter(isObject).map((connection) => ({
+      from: String(connection.from ?? ''),
+      to: String(connection.to ?? ''),
+    })),
+  };
+}
+
+/**
+ * Turns a blueprint into canvas nodes and edges. Resource types, property names and
+ * option values are checked against the resource schemas; near misses are repaired
+ * and anything else is left out, with every change reported.
+ * @param blueprint - Resources and connections proposed by the model
+ * @param options - Id prefix and layout origin for the created nodes
+ * @returns Nodes (parents first), valid edges and the issues found
+ */
+export function buildDiagramFromBlueprint(blueprint: DiagramBlueprint, options: BlueprintOptions = {}): BlueprintResult {
+  const { idPrefix = String(Date.now()), origin = { x: 100, y: 100 } } = options;
+  const issues: BlueprintIssue[] = [];
+  const nodes: Node[] = [];
+  // Blueprint id -> node
+  const nodeIds = new Map<string, Node>();
+  const parents = new Map<Node, string>();
+
+  for (const resource of blueprint.resources) {
+    const subject = resource.id || resource.label || resource.type;
+    const type = resolveType(resource.type);
+    if (!type) {
+      issues.push({ status: 'rejected', subject, message: `Resource type "${resource.type}" is not supported on the canvas` });
+      continue;
+    }
+    if (type !== resource.type) {
+      issues.push({ status: 'repaired', subject, message: `Read type "${resource.type}" as ${type}` });
+    }
+
+    let id = resource.id || `${type}-${nodes.length + 1}`;
+    if (nodeIds.has(id)) {
+      issues.push({ status: 'repaired', subject, message: 'Duplicate id; renamed' });
+      id = `${id}-${nodes.length + 1}`;
+    }
+
+    const node: Node = {
+      id: `${type}-${idPrefix}-${nodes.length}`,
+      type,
+      position: { x: 0, y: 0 },
+      data: {
+        label: resource.label?.trim() || resource.id || getResourceTypeById(type).label,
+        properties: buildProperties(type, id, resource.properties ?? {}, issues),
+      },
+    };
+    nodes.push(node);
+    nodeIds.set(id, node);
+    if (resource.parent) parents.set(node, resource.parent);
+  }
+
+  // Containment is set once every node exists, so parents may be listed after children.
+  // Containers only nest in one order (subnet, availability zone, VPC), so there are no loops
+  for (const [node, parentId] of parents) {
+    const parent = nodeIds.get(parentId);
+    if (!parent) {
+      issues.push({ status: 'repaired', subject: node.data.label, message: `Container "${parentId}" does not exist; placed at the top level` });
+    } else if (!canContain(parent.type, node.type)) {
+      issues.push({
+        status: 'repaired',
+        subject: node.data.label,
+        message: `${getResourceTypeById(node.type).label} cannot be placed in ${getResourceTypeById(parent.type).label}; placed at the top level`,
+      });
+    } else {
+      node.parentId = parent.id;
+    }
+  }
+
+  const candidates: Edge[] = [];
+  for (const { from, to } of blueprint.connections) {
+    const [source, target] = [nodeIds.get(from), nodeIds.get(to)];
+    if (!source || !target) {
+      issues.push({ status: 'rejected', subject: `${from} -> ${to}`, message: 'Connection refers to a resource that was not created' });
+      continue;
+    }
+    candidates.push({ id: `edge-${source.id}-${target.id}`, source: source.id, target: target.id, type: 'default' });
+  }
+
+  // Connections the canvas would refuse are left out, as when drawing them by hand
+  const { valid, invalid } = validateEdges(nodes, candidates);
+  const labels = new Map(nodes.map((node) => [node.id, node.data.label]));
+  for (const { edge, reason } of invalid) {
+    issues.push({ status: 'rejected', subject: `${labels.get(edge.source)} -> ${labels.get(edge.target)}`, message: reason });
+  }
+
+  return { nodes: orderByParent(layoutDiagram(nodes, valid, 'left-right', { origin })), edges: valid, issues };
+}
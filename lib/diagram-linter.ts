@@ -0,0 +1,249 @@
+// Rule-based security and best-practice checks over the diagram
+import { Node, Edge, ResourceTypeId } from '@/types';
+import { findAncestor } from './containers';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+// Security findings stop the simulated deployment; best-practice findings only inform
+export type LintCategory = 'security' | 'best-practice';
+
+/**
+ * A property change that resolves a finding, applied to one node
+ */
+export interface LintFix {
+  label: string;
+  nodeId: string;
+  properties: Record<string, unknown>;
+}
+
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  category: LintCategory;
+  nodeId: string;
+  message: string;
+  fix?: LintFix;
+}
+
+export interface LintContext {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  category: LintCategory;
+  // Resource types the rule applies to (every type if omitted)
+  types?: ResourceTypeId[];
+  description: string;
+  check: (node: Node, context: LintContext) => { message: string; fix?: LintFix } | null;
+}
+
+// Lambda functions at or below this memory size get a proportionally tiny CPU share
+const MIN_LAMBDA_MEMORY_MB = 128;
+
+function properties(node: Node): Record<string, unknown> {
+  // Diagrams posted to the API are not validated, so a node may have no properties
+  return (node.data.properties ?? {}) as Record<string, unknown>;
+}
+
+/**
+ * Returns the nodes joined to a node by an edge in either direction
+ */
+function getConnectedNodes(node: Node, context: LintContext): Node[] {
+  const ids = new Set(
+    context.edges.flatMap((edge) =>
+      edge.source === node.id ? [edge.target] : edge.target === node.id ? [edge.source] : []
+    )
+  );
+  return context.nodes.filter((candidate) => ids.has(candidate.id));
+}
+
+function isInternetFacing(node: Node): boolean {
+  return (
+    (node.type === 'alb' && properties(node).scheme !== 'internal') ||
+    node.type === 'apigateway'
+  );
+}
+
+export const lintRules: LintRule[] = [
+  {
+    id: 'S3_UNENCRYPTED',
+    severity: 'error',
+    category: 'security',
+    types: ['s3'],
+    description: 'S3 buckets should encrypt objects at rest',
+    check: (node) =>
+      properties(node).encryption
+        ? null
+        : {
+            message: `${node.data.label} stores objects unencrypted`,
+            fix: { label: 'Enable server-side encryption', nodeId: node.id, properties: { encryption: true } },
+          },
+  },
+  {
+    id: 'S3_UNVERSIONED',
+    severity: 'warning',
+    category: 'best-practice',
+    types: ['s3'],
+    description: 'S3 buckets should keep previous object versions so overwrites can be recovered',
+    check: (node) =>
+      properties(node).versioning
+        ? null
+        : {
+            message: `${node.data.label} does not keep object versions`,
+            fix: { label: 'Enable versioning', nodeId: node.id, properties: { versioning: true } },
+          },
+  },
+  {
+    id: 'RDS_PUBLIC_SUBNET',
+    severity: 'error',
+    category: 'security',
+    types: ['rds'],
+    description: 'Databases should be placed in private subnets',
+    check: (node, { nodes }) => {
+      const subnet = findAncestor(node, nodes, 'subnet');
+      if (!subnet || !properties(subnet).public) return null;
+      return {
+        message: `${node.data.label} is in public subnet ${subnet.data.label} and reachable from the internet`,
+        fix: { label: `Make ${subnet.data.label} private`, nodeId: subnet.id, properties: { public: false } },
+      };
+    },
+  },
+  {
+    id: 'RDS_INTERNET_FACING',
+    severity: 'error',
+    category: 'security',
+    types: ['rds'],
+    description: 'Databases should only be reached through application code, not an internet-facing entry point',
+    check: (node, context) => {
+      const entry = getConnectedNodes(node, context).find(isInternetFacing);
+      if (!entry) return null;
+      return {
+        message: `${node.data.label} is connected directly to internet-facing ${entry.data.label}`,
+        fix:
+          entry.type === 'alb'
+            ? { label: `Make ${entry.data.label} internal`, nodeId: entry.id, properties: { scheme: 'internal' } }
+            : undefined,
+      };
+    },
+  },
+  {
+    id: 'ALB_WITHOUT_WAF',
+    severity: 'warning',
+    category: 'security',
+    types: ['alb'],
+    description: 'Internet-facing load balancers should be protected by a WAF web ACL',
+    check: (node, context) => {
+      if (!isInternetFacing(node) || getConnectedNodes(node, context).some((other) => other.type === 'waf')) {
+        return null;
+      }
+      return { message: `${node.data.label} is internet-facing without a WAF` };
+    },
+  },
+  {
+    id: 'WAF_NOT_ATTACHED',
+    severity: 'warning',
+    category: 'best-practice',
+    types: ['waf'],
+    description: 'A web ACL only takes effect once it is associated with a load balancer',
+    check: (node, context) =>
+      getConnectedNodes(node, context).some((other) => other.type === 'alb')
+        ? null
+        : { message: `${node.data.label} is not connected to a load balancer and protects nothing` },
+  },
+  {
+    id: 'EC2_NO_KEY_PAIR',
+    severity: 'info',
+    category: 'best-practice',
+    types: ['ec2'],
+    description: 'Instances without a key pair can only be reached through Session Manager',
+    check: (node) =>
+      properties(node).keyName ? null : { message: `${node.data.label} has no SSH key pair` },
+  },
+  {
+    id: 'REMOVED_IN_CODE',
+    severity: 'warning',
+    category: 'best-practice',
+    description: 'The resource block was deleted while refining the code, but the node is still on the canvas',
+    check: (node) =>
+      node.data.removedInCode
+        ? { message: `${node.data.label} was removed from the refined code; delete the node to keep it out` }
+        : null,
+  },
+  {
+    id: 'LAMBDA_LOW_MEMORY',
+    severity: 'info',
+    category: 'best-practice',
+    types: ['lambda'],
+    description: 'Lambda CPU scales with memory, so the minimum size is slow for most workloads',
+    check: (node) => {
+      const memory = Number(properties(node).memory ?? MIN_LAMBDA_MEMORY_MB);
+      if (memory > MIN_LAMBDA_MEMORY_MB) return null;
+      return {
+        message: `${node.data.label} has only ${memory} MB of memory`,
+        fix: { label: 'Increase memory to 256 MB', nodeId: node.id, properties: { memory: 256 } },
+      };
+    },
+  },
+];
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Runs every lint rule against the diagram
+ * @param nodes - Nodes on the canvas
+ * @param edges - Edges on the canvas
+ * @param rules - Rules to run (defaults to all rules)
+ * @returns Findings ordered by severity, then by node order on the canvas
+ */
+export function lintDiagram(nodes: Node[], edges: Edge[], rules: LintRule[] = lintRules): LintFinding[] {
+  const context: LintContext = { nodes, edges };
+  const findings: LintFinding[] = [];
+
+  for (const node of nodes) {
+    for (const rule of rules) {
+      if (rule.types && !rule.types.includes(node.type)) continue;
+      const result = rule.check(node, context);
+      if (result) {
+        findings.push({
+          ruleId: rule.id,
+          severity: rule.severity,
+          category: rule.category,
+          nodeId: node.id,
+          ...result,
+        });
+      }
+    }
+  }
+
+  // Array.prototype.sort is stable, so node order is kept within a severity
+  return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Returns the most severe level among findings, or null if there are none
+ */
+export function getHighestSeverity(findings: LintFinding[]): LintSeverity | null {
+  return findings.reduce<LintSeverity | null>(
+    (highest, finding) =>
+      highest === null || SEVERITY_ORDER[finding.severity] < SEVERITY_ORDER[highest] ? finding.severity : highest,
+    null
+  );
+}
+
+/**
+ * Applies fixes to the nodes they target; fixes for nodes that no longer exist are ignored
+ * @param nodes - Nodes on the canvas
+ * @param fixes - Fixes from lint findings
+ * @returns Updated nodes
+ */
+export function applyLintFixes(nodes: Node[], fixes: LintFix[]): Node[] {
+  return nodes.map((node) => {
+    const patches = fixes.filter((fix) => fix.nodeId === node.id);
+    if (patches.length === 0) return node;
+    const patched = patches.reduce((props, fix) => ({ ...props, ...fix.properties }), { ...node.data.properties });
+    return { ...node, data: { ...node.data, properties: patched } };
+  });
+}
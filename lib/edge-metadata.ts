@@ -0,0 +1,132 @@
+// Edge metadata: the relationship a connection stands for, how it is drawn and described
+import { Node, Edge, EdgeKind, EdgeProtocol, EdgeDirection, ResourceTypeId } from '@/types';
+
+export interface EdgeKindConfig {
+  label: string;
+  description: string;
+  // Stroke color of the edge and its arrow
+  color: string;
+  // SVG dash pattern, solid if not set
+  dash?: string;
+  // Moving dashes for connections that carry requests or events
+  animated?: boolean;
+}
+
+export const EDGE_KINDS: Record<EdgeKind, EdgeKindConfig> = {
+  network: {
+    label: 'Network traffic',
+    description: 'Traffic between resources, allowed by their security groups',
+    color: '#0284c7',
+  },
+  invokes: {
+    label: 'Invokes',
+    description: 'The source calls the target',
+    color: '#ea580c',
+    animated: true,
+  },
+  data: {
+    label: 'Reads/writes',
+    description: 'The source reads or writes the target\'s data',
+    color: '#7c3aed',
+    dash: '6 3',
+  },
+  iam: {
+    label: 'IAM access',
+    description: 'The source is granted permissions on the target',
+    color: '#ca8a04',
+    dash: '2 4',
+  },
+  event: {
+    label: 'Event trigger',
+    description: 'Events from the source trigger the target',
+    color: '#db2777',
+    dash: '8 4',
+    animated: true,
+  },
+};
+
+export const EDGE_PROTOCOLS: EdgeProtocol[] = ['tcp', 'udp', 'http', 'https'];
+
+export const EDGE_DIRECTIONS: Record<EdgeDirection, string> = {
+  'one-way': 'One-way (source to target)',
+  'two-way': 'Two-way',
+};
+
+// Kinds of edges drawn from one type to another, keyed "source:target"
+const kindsByPair: Partial<Record<`${ResourceTypeId}:${ResourceTypeId}`, EdgeKind>> = {
+  'apigateway:lambda': 'invokes',
+  'apigateway:alb': 'invokes',
+  'alb:lambda': 'invokes',
+  'lambda:lambda': 'invokes',
+  'eventbridge:lambda': 'event',
+  'eventbridge:sqs': 'event',
+  'eventbridge:sns': 'event',
+  'sns:lambda': 'event',
+  'sns:sqs': 'event',
+  'sqs:lambda': 'event',
+  's3:lambda': 'event',
+  'cloudfront:s3': 'data',
+};
+
+// Otherwise the kind follows the resource at either end, the first kind listed winning
+const kindsByType: Array<[EdgeKind, ResourceTypeId[]]> = [
+  ['iam', ['secretsmanager', 'kms', 'cognito']],
+  ['event', ['eventbridge']],
+  ['invokes', ['apigateway']],
+  ['data', ['dynamodb', 's3', 'sqs', 'sns']],
+];
+
+/**
+ * Infers the relationship an edge between two resource types stands for
+ * @param sourceType - Type of the node the edge starts at
+ * @param targetType - Type of the node the edge ends at
+ * @returns The kind, network traffic if nothing more specific applies
+ */
+export function inferEdgeKind(sourceType: ResourceTypeId, targetType: ResourceTypeId): EdgeKind {
+  const paired = kindsByPair[`${sourceType}:${targetType}`];
+  if (paired) return paired;
+
+  const match = kindsByType.find(([, types]) => types.includes(sourceType) || types.includes(targetType));
+  return match ? match[0] : 'network';
+}
+
+/**
+ * Returns the kind of an edge: the one set on it, or the one inferred from its nodes
+ * @param edge - The edge
+ * @param nodes - Nodes on the canvas
+ */
+export function getEdgeKind(edge: Edge, nodes: Node[]): EdgeKind {
+  if (edge.data?.kind && edge.data.kind in EDGE_KINDS) {
+    return edge.data.kind;
+  }
+
+  const source = nodes.find((node) => node.id === edge.source);
+  const target = nodes.find((node) => node.id === edge.target);
+  return source && target ? inferEdgeKind(source.type, target.type) : 'network';
+}
+
+/**
+ * An edge's metadata as sent to the AI routes
+ */
+export interface EdgeDescription {
+  kind: EdgeKind;
+  protocol?: EdgeProtocol;
+  ports?: number[];
+  direction?: EdgeDirection;
+  label?: string;
+}
+
+/**
+ * Describes an edge's metadata for prompts, leaving out unset fields
+ * @returns The kind, and the protocol, ports, direction and label where set
+ */
+export function describeEdge(edge: Edge, nodes: Node[]): EdgeDescription {
+  const { protocol, ports, direction, label } = edge.data ?? {};
+  return {
+    kind: getEdgeKind(edge, nodes),
+    ...(protocol ? { protocol } : {}),
+    ...(Array.isArray(ports) ? { ports } : {}),
+    ...(direction === 'two-way' ? { direction } : {}),
+    ...(label ? { label } : {}),
+  };
+}
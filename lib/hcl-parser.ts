@@ -0,0 +1,505 @@
+// Minimal HCL parser for reading Terraform configuration back into structured blocks
+
+export class HCLParseError extends Error {
+  line: number;
+
+  constructor(message: string = 'Failed to parse HCL', line: number = 0) {
+    super(line > 0 ? `${message} (line ${line})` : message);
+    this.name = 'HCLParseError';
+    this.line = line;
+  }
+}
+
+/**
+ * A non-literal expression (reference, function call, template, conditional...)
+ * kept as source text along with the resource addresses it references
+ */
+export interface HCLExpression {
+  kind: 'expression';
+  raw: string;
+  references: string[];
+}
+
+export type HCLValue =
+  | string
+  | number
+  | boolean
+  | null
+  | HCLExpression
+  | HCLValue[]
+  | { [key: string]: HCLValue };
+
+export interface HCLBlock {
+  type: string;
+  labels: string[];
+  attributes: Record<string, HCLValue>;
+  blocks: HCLBlock[];
+  line: number;
+  // Source text of the whole block, from its type to the closing brace
+  source: string;
+}
+
+/**
+ * Type guard for non-literal expressions
+ */
+export function isHCLExpression(value: unknown): value is HCLExpression {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    (value as HCLExpression).kind === 'expression' &&
+    typeof (value as HCLExpression).raw === 'string'
+  );
+}
+
+// Matches `aws_<type>.<name>` and `data.aws_<type>.<name>` resource addresses
+const REFERENCE_PATTERN = /\b(data\.)?(aws_[a-z0-9_]+)\.([A-Za-z_][A-Za-z0-9_-]*)/g;
+
+/**
+ * Extracts resource addresses (e.g. "aws_vpc.main") referenced from expression text
+ */
+export function extractReferences(raw: string): string[] {
+  const references = new Set<string>();
+  for (const match of raw.matchAll(REFERENCE_PATTERN)) {
+    // Data sources are not canvas resources
+    if (match[1]) continue;
+    references.add(`${match[2]}.${match[3]}`);
+  }
+  return [...references];
+}
+
+/**
+ * Collects every resource address referenced anywhere in a block,
+ * including `depends_on` and nested blocks
+ */
+export function collectBlockReferences(block: HCLBlock): string[] {
+  const references = new Set<string>();
+
+  const visit = (value: HCLValue) => {
+    if (isHCLExpression(value)) {
+      value.references.forEach((ref) => references.add(ref));
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  Object.values(block.attributes).forEach(visit);
+  block.blocks.forEach((nested) => collectBlockReferences(nested).forEach((ref) => references.add(ref)));
+
+  return [...references];
+}
+
+// Matches an expression that is only a variable reference, e.g. `var.web_instance_type`
+const VARIABLE_REFERENCE_PATTERN = /^var\.([A-Za-z_][A-Za-z0-9_-]*)$/;
+
+/**
+ * Replaces `var.<name>` expressions with the given values (e.g. variable defaults),
+ * so properties lifted into variables can be read back. Other expressions are kept.
+ * @param block - Block to resolve, including nested blocks
+ * @param values - Variable name -> value
+ * @returns A copy of the block with the references replaced
+ */
+export function resolveVariables(block: HCLBlock, values: Record<string, HCLValue>): HCLBlock {
+  const resolve = (value: HCLValue): HCLValue => {
+    if (isHCLExpression(value)) {
+      const name = value.raw.match(VARIABLE_REFERENCE_PATTERN)?.[1];
+      return name !== undefined && Object.prototype.hasOwnProperty.call(values, name) ? values[name] : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(resolve);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item)]));
+    }
+    return value;
+  };
+
+  return {
+    ...block,
+    attributes: Object.fromEntries(Object.entries(block.attributes).map(([key, value]) => [key, resolve(value)])),
+    blocks: block.blocks.map((nested) => resolveVariables(nested, values)),
+  };
+}
+
+/**
+ * Reads the default value of every `variable` block that has one
+ */
+export function readVariableDefaults(blocks: HCLBlock[]): Record<string, HCLValue> {
+  const defaults: Record<string, HCLValue> = {};
+  for (const block of blocks) {
+    if (block.type === 'variable' && block.labels.length === 1 && 'default' in block.attributes) {
+      defaults[block.labels[0]] = block.attributes.default;
+    }
+  }
+  return defaults;
+}
+
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_CHAR = /[A-Za-z0-9_-]/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+// Sticky patterns matched at the current position without slicing the source
+const WORD_PATTERN = /[A-Za-z0-9_.+-]+/y;
+const HEREDOC_PATTERN = /<<(-?)([A-Za-z_][A-Za-z0-9_]*)[ \t]*\r?\n/y;
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parseFile(): HCLBlock[] {
+    const { blocks } = this.parseBody(false);
+    this.skipWhitespace(true);
+    if (this.pos < this.source.length) {
+      this.fail(`Unexpected '${this.peek()}'`);
+    }
+    return blocks;
+  }
+
+  // Last computed line number, so counting stays linear as the parser moves forward
+  private lineCursor = { pos: 0, line: 1 };
+
+  private get line(): number {
+    let { pos, line } = this.pos >= this.lineCursor.pos ? this.lineCursor : { pos: 0, line: 1 };
+    for (; pos < this.pos; pos++) {
+      if (this.source[pos] === '\n') line++;
+    }
+    this.lineCursor = { pos, line };
+    return line;
+  }
+
+  private fail(message: string): never {
+    throw new HCLParseError(message, this.line);
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? '';
+  }
+
+  private startsWith(text: string): boolean {
+    return this.source.startsWith(text, this.pos);
+  }
+
+  /**
+   * Skips spaces and comments; newlines are skipped only when `newlines` is true
+   */
+  private skipWhitespace(newlines: boolean): void {
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+      if (char === ' ' || char === '\t' || char === '\r' || (newlines && char === '\n')) {
+        this.pos++;
+      } else if (char === '#' || this.startsWith('//')) {
+        while (this.pos < this.source.length && this.peek() !== '\n') this.pos++;
+      } else if (this.startsWith('/*')) {
+        const end = this.source.indexOf('*/', this.pos + 2);
+        if (end === -1) this.fail('Unterminated block comment');
+        this.pos = end + 2;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readIdentifier(): string {
+    const start = this.pos;
+    if (!IDENTIFIER_START.test(this.peek())) {
+      this.fail(`Expected identifier but found '${this.peek() || 'end of input'}'`);
+    }
+    while (IDENTIFIER_CHAR.test(this.peek())) this.pos++;
+    return this.source.slice(start, this.pos);
+  }
+
+  /**
+   * Parses attributes and blocks until the closing brace (or end of file)
+   */
+  private parseBody(nested: boolean): Pick<HCLBlock, 'attributes' | 'blocks'> {
+    const attributes: Record<string, HCLValue> = {};
+    const blocks: HCLBlock[] = [];
+
+    while (true) {
+      this.skipWhitespace(true);
+      if (this.pos >= this.source.length) {
+        if (nested) this.fail("Missing closing '}'");
+        break;
+      }
+      if (this.peek() === '}') {
+        if (!nested) this.fail("Unexpected '}'");
+        break;
+      }
+
+      const line = this.line;
+      const start = this.pos;
+      const name = this.readIdentifier();
+      this.skipWhitespace(false);
+
+      if (this.peek() === '=' && this.peek(1) !== '=') {
+        this.pos++;
+        attributes[name] = this.parseExpression([]);
+        continue;
+      }
+
+      // Block: identifier followed by zero or more labels, then a body
+      const labels: string[] = [];
+      while (this.peek() !== '{') {
+        if (this.peek() === '"') {
+          const label = this.readQuotedString();
+          labels.push(typeof label === 'string' ? label : label.raw);
+        } else if (IDENTIFIER_START.test(this.peek())) {
+          labels.push(this.readIdentifier());
+        } else {
+          this.fail(`Expected '=' or '{' after '${name}'`);
+        }
+        this.skipWhitespace(false);
+      }
+
+      this.pos++; // consume '{'
+      const body = this.parseBody(true);
+      this.pos++; // consume '}'
+
+      blocks.push({ type: name, labels, ...body, line, source: this.source.slice(start, this.pos) });
+    }
+
+    return { attributes, blocks };
+  }
+
+  /**
+   * Parses a value; literals and collections are decoded, anything else is kept as an expression.
+   * @param terminators - Characters that end the expression at bracket depth 0 (besides newline)
+   */
+  private parseExpression(terminators: string[]): HCLValue {
+    this.skipWhitespace(false);
+    const start = this.pos;
+    const literal = this.tryParseLiteral();
+
+    if (literal !== undefined) {
+      this.skipWhitespace(false);
+      const next = this.peek();
+      if (next === '' || next === '\n' || terminators.includes(next)) {
+        return literal;
+      }
+      // Literal followed by an operator: re-read the whole thing as an expression
+      this.pos = start;
+    }
+
+    return this.readRawExpression(terminators);
+  }
+
+  private tryParseLiteral(): HCLValue | undefined {
+    const char = this.peek();
+
+    if (char === '"') return this.readQuotedString();
+    if (this.startsWith('<<')) return this.readHeredoc();
+    if (char === '[') return this.tryParseList();
+    if (char === '{') return this.tryParseObject();
+
+    WORD_PATTERN.lastIndex = this.pos;
+    const wordMatch = WORD_PATTERN.exec(this.source);
+    if (!wordMatch) return undefined;
+    const word = wordMatch[0];
+
+    if (word === 'true' || word === 'false' || word === 'null') {
+      this.pos += word.length;
+      return word === 'null' ? null : word === 'true';
+    }
+    if (NUMBER_PATTERN.test(word)) {
+      this.pos += word.length;
+      return Number(word);
+    }
+    return undefined;
+  }
+
+  private tryParseList(): HCLValue[] | undefined {
+    const start = this.pos;
+    this.pos++; // '['
+    this.skipWhitespace(true);
+
+    if (this.startsWith('for ')) {
+      this.pos = start;
+      return undefined;
+    }
+
+    const items: HCLValue[] = [];
+    while (this.peek() !== ']') {
+      if (this.pos >= this.source.length) this.fail("Missing closing ']'");
+      items.push(this.parseExpression([',', ']']));
+      this.skipWhitespace(true);
+      if (this.peek() === ',') {
+        this.pos++;
+        this.skipWhitespace(true);
+      }
+    }
+    this.pos++; // ']'
+    return items;
+  }
+
+  private tryParseObject(): { [key: string]: HCLValue } | undefined {
+    const start = this.pos;
+    this.pos++; // '{'
+    this.skipWhitespace(true);
+
+    if (this.startsWith('for ')) {
+      this.pos = start;
+      return undefined;
+    }
+
+    const entries: { [key: string]: HCLValue } = {};
+    while (this.peek() !== '}') {
+      if (this.pos >= this.source.length) this.fail("Missing closing '}'");
+
+      let key: string;
+      if (this.peek() === '"') {
+        const quoted = this.readQuotedString();
+        key = typeof quoted === 'string' ? quoted : quoted.raw;
+      } else {
+        key = this.readIdentifier();
+      }
+
+      this.skipWhitespace(false);
+      if (this.peek() !== '=' && this.peek() !== ':') {
+        this.fail(`Expected '=' or ':' after object key '${key}'`);
+      }
+      this.pos++;
+
+      entries[key] = this.parseExpression([',', '}']);
+      this.skipWhitespace(true);
+      if (this.peek() === ',') {
+        this.pos++;
+        this.skipWhitespace(true);
+      }
+    }
+    this.pos++; // '}'
+    return entries;
+  }
+
+  /**
+   * Reads a quoted string; strings containing interpolation become expressions
+   */
+  private readQuotedString(): string | HCLExpression {
+    const start = this.pos;
+    this.pos++; // opening quote
+    let value = '';
+    let interpolated = false;
+
+    while (this.peek() !== '"') {
+      if (this.pos >= this.source.length || this.peek() === '\n') {
+        this.fail('Unterminated string');
+      }
+
+      if (this.peek() === '\\') {
+        const escaped = this.peek(1);
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+        value += escapes[escaped] ?? escaped;
+        this.pos += 2;
+        continue;
+      }
+
+      if (this.startsWith('${') || this.startsWith('%{')) {
+        interpolated = true;
+        const end = this.findMatchingBrace(this.pos + 1);
+        value += this.source.slice(this.pos, end + 1);
+        this.pos = end + 1;
+        continue;
+      }
+
+      value += this.peek();
+      this.pos++;
+    }
+
+    this.pos++; // closing quote
+
+    if (interpolated) {
+      const raw = this.source.slice(start, this.pos);
+      return { kind: 'expression', raw, references: extractReferences(raw) };
+    }
+    return value;
+  }
+
+  private findMatchingBrace(openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < this.source.length; i++) {
+      const char = this.source[i];
+      if (char === '{') depth++;
+      if (char === '}') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    this.fail('Unterminated template interpolation');
+  }
+
+  private readHeredoc(): string | HCLExpression {
+    HEREDOC_PATTERN.lastIndex = this.pos;
+    const match = HEREDOC_PATTERN.exec(this.source);
+    if (!match) this.fail('Invalid heredoc');
+
+    const [header, indented, marker] = match;
+    const bodyStart = this.pos + header.length;
+    const lines = this.source.slice(bodyStart).split('\n');
+    const bodyLines: string[] = [];
+    let consumed = 0;
+    let terminated = false;
+
+    for (const line of lines) {
+      consumed += line.length + 1;
+      if (line.trim() === marker) {
+        terminated = true;
+        break;
+      }
+      bodyLines.push(line);
+    }
+
+    if (!terminated) this.fail(`Unterminated heredoc '${marker}'`);
+    this.pos = Math.min(bodyStart + consumed - 1, this.source.length);
+
+    let body = bodyLines.join('\n');
+    if (indented) {
+      const indent = Math.min(
+        ...bodyLines.filter((line) => line.trim()).map((line) => line.length - line.trimStart().length)
+      );
+      body = bodyLines.map((line) => line.slice(Number.isFinite(indent) ? indent : 0)).join('\n');
+    }
+
+    return body.includes('${') ? { kind: 'expression', raw: body, references: extractReferences(body) } : body;
+  }
+
+  /**
+   * Captures raw expression text up to a newline or terminator at bracket depth 0
+   */
+  private readRawExpression(terminators: string[]): HCLExpression {
+    const start = this.pos;
+    let depth = 0;
+
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+
+      if (char === '"') {
+        this.readQuotedString();
+        continue;
+      }
+      if (char === '#' || this.startsWith('//')) break;
+      if (depth === 0 && (char === '\n' || terminators.includes(char))) break;
+
+      if (char === '(' || char === '[' || char === '{') depth++;
+      if (char === ')' || char === ']' || char === '}') {
+        if (depth === 0) break;
+        depth--;
+      }
+      this.pos++;
+    }
+
+    const raw = this.source.slice(start, this.pos).trim();
+    if (!raw) this.fail('Expected a value');
+    return { kind: 'expression', raw, references: extractReferences(raw) };
+  }
+}
+
+/**
+ * Parses Terraform HCL source into top-level blocks
+ * @param source - HCL source text
+ * @returns Top-level blocks (resource, data, variable, provider, ...)
+ * @throws HCLParseError if the source is not valid HCL
+ */
+export function parseHCL(source: string): HCLBlock[] {
+  return new Parser(source.replace(/^﻿/, '')).parseFile();
+}
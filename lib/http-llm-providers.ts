@@ -0,0 +1,139 @@
+// LLM providers over HTTP: OpenAI-compatible chat completions and Ollama
+import { LLMAuthError, LLMUnavailableError } from "./llm-errors";
+import { parseServerSentEvents, readLines } from "./sse";
+import type { LLMProvider, LLMCompletionRequest } from "./llm-provider";
+
+export interface OpenAIProviderOptions {
+  // e.g. https://api.openai.com/v1, or any server implementing /chat/completions
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface OllamaProviderOptions {
+  baseUrl: string;
+}
+
+/**
+ * Posts JSON and returns the successful response, mapping HTTP failures to LLM errors
+ */
+async function post(
+  providerName: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    // Aborts are reported as timeouts by the caller
+    if (signal.aborted) throw error;
+    throw new LLMUnavailableError(`Could not reach ${providerName} at ${url}: ${(error as Error).message}`);
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new LLMAuthError(`${providerName} rejected the request (HTTP ${response.status}). Check the API key.`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new LLMUnavailableError(`${providerName} request failed (HTTP ${response.status}) ${detail.substring(0, 200)}`.trim());
+  }
+
+  if (!response.body) {
+    throw new LLMUnavailableError(`${providerName} returned an empty response`);
+  }
+
+  return response;
+}
+
+type ChatCompletionBody = { choices?: Array<{ message?: { content?: string }; delta?: { content?: string } }> };
+type OllamaChatBody = { message?: { content?: string }; done?: boolean };
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * Creates a provider for OpenAI's chat completions API or a compatible server
+ * (vLLM, LM Studio, LiteLLM and others)
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const url = `${trimSlash(options.baseUrl)}/chat/completions`;
+  const headers: Record<string, string> = options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {};
+  const buildBody = ({ prompt, modelId, temperature, maxTokens }: LLMCompletionRequest, stream: boolean) => ({
+    model: modelId,
+    messages: [{ role: "user", content: prompt }],
+    temperature,
+    max_tokens: maxTokens,
+    stream,
+  });
+
+  return {
+    name: "openai",
+    async complete(request) {
+      const response = await post("OpenAI-compatible API", url, buildBody(request, false), headers, request.signal);
+      const body: ChatCompletionBody = await response.json();
+
+      const text = body.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new LLMUnavailableError("OpenAI-compatible API returned no message content");
+      }
+      return text;
+    },
+    async *stream(request) {
+      const response = await post("OpenAI-compatible API", url, buildBody(request, true), headers, request.signal);
+
+      // Server-sent events with a chunk per data line, ending with "data: [DONE]"
+      for await (const { data } of parseServerSentEvents(response.body!)) {
+        if (data === "[DONE]") return;
+        const text = (JSON.parse(data) as ChatCompletionBody).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+/**
+ * Creates a provider for a local Ollama server
+ */
+export function createOllamaProvider(options: OllamaProviderOptions): LLMProvider {
+  const url = `${trimSlash(options.baseUrl)}/api/chat`;
+  const buildBody = ({ prompt, modelId, temperature, maxTokens }: LLMCompletionRequest, stream: boolean) => ({
+    model: modelId,
+    messages: [{ role: "user", content: prompt }],
+    stream,
+    options: { temperature, num_predict: maxTokens },
+  });
+
+  return {
+    name: "ollama",
+    async complete(request) {
+      const response = await post("Ollama", url, buildBody(request, false), {}, request.signal);
+      const body: OllamaChatBody = await response.json();
+
+      const text = body.message?.content;
+      if (typeof text !== "string") {
+        throw new LLMUnavailableError("Ollama returned no message content");
+      }
+      return text;
+    },
+    async *stream(request) {
+      const response = await post("Ollama", url, buildBody(request, true), {}, request.signal);
+
+      // Newline-delimited JSON, one chunk per line
+      for await (const line of readLines(response.body!)) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line) as OllamaChatBody;
+        if (chunk.message?.content) yield chunk.message.content;
+        if (chunk.done) return;
+      }
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// Errors raised by LLM providers, mapped to HTTP responses by the API routes
+
+export class LLMTimeoutError extends Error {
+  constructor(message: string = "LLM request timed out") {
+    super(message);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+export class LLMAuthError extends Error {
+  constructor(message: string = "LLM authentication failed") {
+    super(message);
+    this.name = "LLMAuthError";
+  }
+}
+
+export class LLMUnavailableError extends Error {
+  constructor(message: string = "LLM service is unavailable") {
+    super(message);
+    this.name = "LLMUnavailableError";
+  }
+}
+
+export class JSONParseError extends Error {
+  constructor(message: string = "Failed to parse JSON response") {
+    super(message);
+    this.name = "JSONParseError";
+  }
+}
@@ -0,0 +1,319 @@
+// LLM provider abstraction: configuration, provider selection and JSON helpers for the API routes
+import { createBedrockProvider } from "./bedrock-client";
+import { createOpenAIProvider, createOllamaProvider } from "./http-llm-providers";
+import { createMockProvider } from "./mock-llm-provider";
+import { LLMTimeoutError, LLMAuthError, LLMUnavailableError, JSONParseError } from "./llm-errors";
+import { createEventStreamResponse } from "./sse";
+import { stripMarkdown } from "./utils";
+
+export { LLMTimeoutError, LLMAuthError, LLMUnavailableError, JSONParseError } from "./llm-errors";
+export { stripMarkdown } from "./utils";
+
+export type LLMProviderName = "bedrock" | "openai" | "ollama" | "mock";
+
+// API routes that call the model; each can be configured separately
+export type LLMRoute = "analyze" | "refine" | "simulate" | "diagram";
+
+export interface LLMCompletionRequest {
+  prompt: string;
+  route: LLMRoute;
+  modelId: string;
+  temperature: number;
+  maxTokens: number;
+  // Aborted when the request times out or is cancelled
+  signal: AbortSignal;
+}
+
+/**
+ * A model backend. Implementations return the raw completion text and throw
+ * LLMAuthError / LLMUnavailableError for credential and connectivity failures.
+ * Providers that can stream yield text fragments as they are generated.
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: LLMCompletionRequest): Promise<string>;
+  stream?(request: LLMCompletionRequest): AsyncIterable<string>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  modelId: string;
+  region: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  // Base URL for the OpenAI-compatible and Ollama providers
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+const PROVIDERS: LLMProviderName[] = ["bedrock", "openai", "ollama", "mock"];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  bedrock: "nvidia.nemotron-nano-12b-v2",
+  openai: "gpt-4o-mini",
+  ollama: "llama3.1",
+  mock: "mock",
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<LLMProviderName, string>> = {
+  openai: "https://api.openai.com/v1",
+  ollama: "http://localhost:11434",
+};
+
+// Refinement and diagram generation produce structured output, so they run cooler
+// than the descriptive routes
+const ROUTE_DEFAULTS: Record<LLMRoute, { temperature: number; maxTokens: number }> = {
+  analyze: { temperature: 0.7, maxTokens: 1024 },
+  refine: { temperature: 0.2, maxTokens: 4096 },
+  simulate: { temperature: 0.7, maxTokens: 1024 },
+  diagram: { temperature: 0.2, maxTokens: 2048 },
+};
+
+const DEFAULT_TIMEOUT_MS = 30000; // 30 seconds
+
+/**
+ * Reads a setting for a route, preferring LLM_<ROUTE>_<NAME> over LLM_<NAME>
+ */
+function readSetting(env: Env, route: LLMRoute, name: string): string | undefined {
+  return env[`LLM_${route.toUpperCase()}_${name}`] || env[`LLM_${name}`] || undefined;
+}
+
+function readNumber(env: Env, route: LLMRoute, name: string, fallback: number): number {
+  const raw = readSetting(env, route, name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new LLMUnavailableError(`Invalid LLM_${name} setting: ${raw}`);
+  }
+  return value;
+}
+
+/**
+ * Resolves the model configuration for a route from environment variables
+ *
+ * LLM_PROVIDER, LLM_MODEL, LLM_REGION, LLM_TEMPERATURE, LLM_MAX_TOKENS and
+ * LLM_TIMEOUT_MS apply to every route and can be overridden per route, e.g.
+ * LLM_REFINE_MODEL. OPENAI_BASE_URL / OPENAI_API_KEY and OLLAMA_BASE_URL
+ * configure the HTTP providers.
+ * @param route - The API route making the call
+ * @param env - Environment variables (defaults to process.env)
+ * @returns The resolved configuration
+ * @throws LLMUnavailableError if a setting is invalid
+ */
+export function resolveLLMConfig(route: LLMRoute, env: Env = process.env): LLMConfig {
+  const provider = (readSetting(env, route, "PROVIDER") ?? "bedrock") as LLMProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new LLMUnavailableError(`Unknown LLM provider "${provider}". Use one of: ${PROVIDERS.join(", ")}`);
+  }
+
+  const defaults = ROUTE_DEFAULTS[route];
+  return {
+    provider,
+    modelId: readSetting(env, route, "MODEL") ?? DEFAULT_MODELS[provider],
+    region: readSetting(env, route, "REGION") ?? env.AWS_REGION ?? "us-east-1",
+    temperature: readNumber(env, route, "TEMPERATURE", defaults.temperature),
+    maxTokens: readNumber(env, route, "MAX_TOKENS", defaults.maxTokens),
+    timeoutMs: readNumber(env, route, "TIMEOUT_MS", DEFAULT_TIMEOUT_MS),
+    baseUrl:
+      provider === "openai"
+        ? env.OPENAI_BASE_URL ?? DEFAULT_BASE_URLS.openai
+        : provider === "ollama"
+          ? env.OLLAMA_BASE_URL ?? DEFAULT_BASE_URLS.ollama
+          : undefined,
+    apiKey: provider === "openai" ? env.OPENAI_API_KEY : undefined,
+  };
+}
+
+/**
+ * Creates the provider named in a configuration
+ */
+export function createLLMProvider(config: LLMConfig, env: Env = process.env): LLMProvider {
+  switch (config.provider) {
+    case "bedrock":
+      return createBedrockProvider({
+        region: config.region,
+        accessKeyId: env.AWS_ACCESS_KEY_ID ?? "",
+        secretAccessKey: env.AWS_SECRET_ACCESS_KEY ?? "",
+      });
+    case "openai":
+      return createOpenAIProvider({ baseUrl: config.baseUrl!, apiKey: config.apiKey });
+    case "ollama":
+      return createOllamaProvider({ baseUrl: config.baseUrl! });
+    case "mock":
+      return createMockProvider();
+  }
+}
+
+/**
+ * Sends a prompt to the provider configured for a route and returns the raw text
+ * @param prompt - The prompt to send
+ * @param route - The API route making the call, which selects its configuration
+ * @param provider - Provider to use instead of the configured one (e.g. in tests)
+ * @returns Raw completion text
+ * @throws LLMTimeoutError if the request times out
+ * @throws LLMAuthError if authentication fails
+ * @throws LLMUnavailableError if the provider cannot be reached or is misconfigured
+ */
+export async function invokeLLM(prompt: string, route: LLMRoute, provider?: LLMProvider): Promise<string> {
+  const config = resolveLLMConfig(route);
+  const llm = provider ?? createLLMProvider(config);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    return await llm.complete({
+      prompt,
+      route,
+      modelId: config.modelId,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new LLMTimeoutError(`${llm.name} request timed out after ${config.timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Streams a completion from the provider configured for a route. Providers without
+ * streaming support yield the whole completion at once.
+ * @param prompt - The prompt to send
+ * @param route - The API route making the call
+ * @param options - Signal to cancel the request (e.g. when the client disconnects) and a provider override
+ * @returns Text fragments in order; stops without an error when cancelled
+ * @throws LLMTimeoutError if the completion does not finish in time (fragments already yielded are kept)
+ * @throws LLMAuthError if authentication fails
+ * @throws LLMUnavailableError if the provider cannot be reached
+ */
+export async function* streamLLM(
+  prompt: string,
+  route: LLMRoute,
+  options: { signal?: AbortSignal; provider?: LLMProvider } = {}
+): AsyncGenerator<string> {
+  const config = resolveLLMConfig(route);
+  const llm = options.provider ?? createLLMProvider(config);
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, config.timeoutMs);
+  const cancel = () => controller.abort();
+  options.signal?.addEventListener("abort", cancel);
+
+  const request: LLMCompletionRequest = {
+    prompt,
+    route,
+    modelId: config.modelId,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    signal: controller.signal,
+  };
+
+  try {
+    if (llm.stream) {
+      for await (const text of llm.stream(request)) {
+        if (controller.signal.aborted) break;
+        yield text;
+      }
+    } else {
+      yield await llm.complete(request);
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", cancel);
+  }
+
+  if (timedOut) {
+    throw new LLMTimeoutError(`${llm.name} request timed out after ${config.timeoutMs}ms`);
+  }
+}
+
+/**
+ * Streams a completion to the client as server-sent events: a "token" event per
+ * fragment, then "done" with the finished result, or "error" with the status,
+ * message and the text generated so far. Nothing more is sent once the client
+ * disconnects.
+ * @param prompt - The prompt to send
+ * @param route - The API route making the call
+ * @param signal - The incoming request's signal
+ * @param finish - Builds the "done" payload from the full text; may throw JSONParseError
+ * @returns A text/event-stream response
+ */
+export function createLLMEventStream(
+  prompt: string,
+  route: LLMRoute,
+  signal: AbortSignal,
+  finish: (text: string) => unknown
+): Response {
+  return createEventStreamResponse(async (send) => {
+    let text = "";
+    try {
+      for await (const fragment of streamLLM(prompt, route, { signal })) {
+        text += fragment;
+        send("token", { text: fragment });
+      }
+      if (!signal.aborted) send("done", finish(text));
+    } catch (error) {
+      const response = getLLMErrorResponse(error);
+      if (response.status === 500) console.error("AI interaction error:", error);
+      send("error", { ...response, partial: text });
+    }
+  });
+}
+
+/**
+ * Maps an error from a model call to the status and message a route returns
+ */
+export function getLLMErrorResponse(error: unknown): { status: number; error: string } {
+  if (error instanceof LLMTimeoutError) {
+    return { status: 504, error: "AI service timeout. Please try again." };
+  }
+  if (error instanceof LLMAuthError) {
+    return { status: 401, error: "Authentication failed. Check the AI provider credentials." };
+  }
+  if (error instanceof LLMUnavailableError) {
+    return { status: 503, error: `AI service unavailable: ${error.message}` };
+  }
+  if (error instanceof JSONParseError) {
+    return { status: 500, error: `AI returned invalid response: ${error.message}` };
+  }
+  return { status: 500, error: "An unexpected error occurred." };
+}
+
+/**
+ * Sends a prompt and parses the response as JSON
+ * @param prompt - The prompt to send
+ * @param route - The API route making the call
+ * @param provider - Provider to use instead of the configured one
+ * @returns Parsed JSON from the response, for the caller to validate
+ * @throws LLMTimeoutError if the request times out
+ * @throws LLMAuthError if authentication fails
+ * @throws LLMUnavailableError if the provider cannot be reached
+ * @throws JSONParseError if the response is not valid JSON
+ */
+export async function invokeLLMWithJSON(prompt: string, route: LLMRoute, provider?: LLMProvider): Promise<unknown> {
+  return parseLLMJSON(await invokeLLM(prompt, route, provider));
+}
+
+/**
+ * Parses completion text as JSON, ignoring markdown code fences
+ * @throws JSONParseError if the text is not valid JSON
+ */
+export function parseLLMJSON(responseText: string): unknown {
+  try {
+    return JSON.parse(stripMarkdown(responseText));
+  } catch {
+    throw new JSONParseError(`Model returned invalid JSON: ${responseText.substring(0, 100)}...`);
+  }
+}
@@ -0,0 +1,104 @@
+// Deterministic stand-in for an LLM, for offline development and tests
+import type { LLMProvider, LLMCompletionRequest } from "./llm-provider";
+
+/**
+ * Produces a completion for a request; the same request always gives the same text
+ */
+export type MockResponder = (request: LLMCompletionRequest) => string;
+
+// Matches the first "type" field in the JSON embedded in analyze/simulate prompts
+const RESOURCE_TYPE_PATTERN = /"type"\s*:\s*"([a-z0-9]+)"/;
+
+// Services recognised in diagram descriptions, in the order they are connected
+const DIAGRAM_SERVICES: Array<[type: string, keyword: string]> = [
+  ["route53", "route 53"],
+  ["cloudfront", "cloudfront"],
+  ["waf", "waf"],
+  ["alb", "load balancer"],
+  ["apigateway", "api gateway"],
+  ["cognito", "cognito"],
+  ["ec2", "ec2"],
+  ["ecs", "fargate"],
+  ["eks", "kubernetes"],
+  ["lambda", "lambda"],
+  ["sqs", "sqs"],
+  ["sns", "sns"],
+  ["eventbridge", "eventbridge"],
+  ["elasticache", "elasticache"],
+  ["rds", "rds"],
+  ["dynamodb", "dynamodb"],
+  ["s3", "s3"],
+];
+
+/**
+ * Default responses, shaped like what each route's prompt asks for
+ */
+export const defaultMockResponder: MockResponder = ({ prompt, route }) => {
+  switch (route) {
+    case "analyze": {
+      if (prompt.startsWith("User connected")) {
+        return JSON.stringify({
+          message: "Mock analysis: this connection lets the source call the target.",
+          terraform_snippet: "# Connection rules are generated from the diagram",
+        });
+      }
+      const type = prompt.match(RESOURCE_TYPE_PATTERN)?.[1] ?? "resource";
+      return JSON.stringify({
+        analysis: `Mock analysis of this ${type} resource.`,
+        suggestions: [
+          "Restrict network access to what the workload needs.",
+          "Tag the resource with an owner and environment.",
+          "Review the size against expected load.",
+        ],
+      });
+    }
+
+    case "simulate":
+      return JSON.stringify({
+        steps: [
+          "Initializing the backend...",
+          "Initializing provider plugins...",
+          "Refreshing state...",
+          "Planning infrastructure changes...",
+          "Creating resources...",
+          "Apply complete!",
+        ],
+      });
+
+    case "diagram": {
+      // One resource per service named in the description, connected in order
+      const description = prompt.match(/Architecture description: '([\s\S]*?)'\n/)?.[1].toLowerCase() ?? "";
+      const types = DIAGRAM_SERVICES.filter(([, keyword]) => description.includes(keyword)).map(([type]) => type);
+      return JSON.stringify({
+        resources: types.map((type) => ({ id: type, type, label: `Mock ${type}` })),
+        connections: types.slice(1).map((type, i) => ({ from: types[i], to: type })),
+      });
+    }
+
+    case "refine": {
+      // Return the current code unchanged
+      const match = prompt.match(/Current Terraform Code:\n([\s\S]*?)\n\nUser Instruction:/);
+      return match ? match[1] : "";
+    }
+  }
+};
+
+/**
+ * Creates a provider that answers without calling a model
+ * @param responder - Produces the completion text (defaults to canned per-route responses)
+ */
+export function createMockProvider(responder: MockResponder = defaultMockResponder): LLMProvider {
+  return {
+    name: "mock",
+    async complete(request) {
+      return responder(request);
+    },
+    async *stream(request) {
+      // Line by line, so streaming clients see more than one fragment
+      for (const line of responder(request).split(/(?<=\n)/)) {
+        if (request.signal.aborted) return;
+        yield line;
+      }
+    },
+  };
+}
@@ -0,0 +1,131 @@
+// Unique, stable Terraform resource names, stored on the nodes so renaming a label keeps state
+import { Node, NodeData } from '@/types';
+import { getResourceDefinition } from './resource-registry';
+import { sanitizeResourceName } from './terraform-emitter';
+
+/**
+ * Checks whether a node generates a resource block that needs a name (availability zones do not)
+ */
+function isNamed(node: Node): boolean {
+  return Boolean(node?.data && getResourceDefinition(node.type)?.terraformType);
+}
+
+/**
+ * Returns the name a node's label maps to
+ */
+function getLabelName(node: Node): string {
+  return sanitizeResourceName(node.data.label || node.id);
+}
+
+/**
+ * Returns `base`, or the first of base_2, base_3, ... that is not taken
+ */
+function uniqueName(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base;
+
+  let suffix = 2;
+  while (taken.has(`${base}_${suffix}`)) {
+    suffix++;
+  }
+  return `${base}_${suffix}`;
+}
+
+/**
+ * Resolves the resource name of every node. Stored names are kept (the first node wins
+ * if two share one); the others are derived from their labels, with a numeric suffix
+ * where the name is already in use.
+ * @param nodes - Nodes on the canvas
+ * @returns Resource name by node id (nodes without a resource block are left out)
+ */
+export function resolveResourceNames(nodes: Node[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+
+  for (const node of nodes) {
+    const stored = isNamed(node) ? node.data.resourceName : undefined;
+    if (stored && !taken.has(stored)) {
+      names.set(node.id, stored);
+      taken.add(stored);
+    }
+  }
+
+  for (const node of nodes) {
+    if (!isNamed(node) || names.has(node.id)) continue;
+    const name = uniqueName(getLabelName(node), taken);
+    names.set(node.id, name);
+    taken.add(name);
+  }
+
+  return names;
+}
+
+/**
+ * Stores a unique resource name on every node that has none yet or shares its name with
+ * an earlier node (e.g. a pasted copy, which also leaves the original's rename history behind)
+ * @param nodes - Nodes on the canvas
+ * @returns The nodes with names, or the same array if every node already had a unique one
+ */
+export function assignResourceNames(nodes: Node[]): Node[] {
+  const names = resolveResourceNames(nodes);
+  let changed = false;
+
+  const named = nodes.map((node) => {
+    const name = names.get(node.id);
+    if (!name || node.data.resourceName === name) return node;
+
+    changed = true;
+    const data: NodeData = { ...node.data, resourceName: name };
+    if (node.data.resourceName) {
+      delete data.movedFrom;
+    }
+    return { ...node, data };
+  });
+
+  return changed ? named : nodes;
+}
+
+/**
+ * Renames the blocks of an HCL override that are named after the node (e.g. "web" and
+ * "web_role") and the references to them, as the generator names them after a rename
+ */
+function renameOverride(override: string, from: string, to: string): string {
+  let renamed = override;
+  for (const [, kind, resourceType, label] of override.matchAll(/^(resource|data) "([\w-]+)" "([\w-]+)"/gm)) {
+    if (label !== from && !label.startsWith(`${from}_`)) continue;
+    const newLabel = `${to}${label.slice(from.length)}`;
+    const prefix = kind === 'data' ? `data.${resourceType}.` : `${resourceType}.`;
+    renamed = renamed
+      .replace(new RegExp(`^${kind} "${resourceType}" "${label}"`, 'gm'), `${kind} "${resourceType}" "${newLabel}"`)
+      .replace(new RegExp(`(?<![\\w.-])${prefix.replace(/\./g, '\\.')}${label}(?![\\w-])`, 'g'), `${prefix}${newLabel}`);
+  }
+  return renamed;
+}
+
+/**
+ * Works out the data update for a label change. The resource name follows the new label
+ * and the old name is remembered, so the generator can emit a moved block for it. An HCL
+ * override is renamed along with it, so the references to the node still resolve.
+ * @param node - The node being renamed
+ * @param label - The new label
+ * @param nodes - All nodes on the canvas, whose names the new one must not clash with
+ * @returns The name fields to update, or an empty object if the name stays the same
+ */
+export function renameResource(node: Node, label: string, nodes: Node[]): Partial<NodeData> {
+  if (!isNamed(node)) return {};
+
+  const names = resolveResourceNames(nodes);
+  const current = names.get(node.id) ?? getLabelName(node);
+  const base = sanitizeResourceName(label || node.id);
+  if (base === current) return {};
+
+  const taken = new Set([...names].filter(([id]) => id !== node.id).map(([, name]) => name));
+  const name = uniqueName(base, taken);
+  if (name === current) return {};
+
+  // Renaming back to an earlier name drops it from the history so the moves do not form a cycle
+  const movedFrom = [...(node.data.movedFrom ?? []).filter((previous) => previous !== name), current];
+  if (typeof node.data.hclOverride === 'string') {
+    return { resourceName: name, movedFrom, hclOverride: renameOverride(node.data.hclOverride, current, name) };
+  }
+  return { resourceName: name, movedFrom };
+}
@@ -0,0 +1,77 @@
+// Registry of resource definitions: every resource type the canvas supports, built in or custom
+import { Node, ResourceTypeId } from '@/types';
+import { ResourceTypeConfig } from './resource-types';
+import { ResourceSchema } from './resource-schemas';
+import { GeneratorContext } from './terraform-emitter';
+import { builtInResources } from './resources';
+
+/**
+ * A Terraform provider a resource needs besides aws (e.g. archive for packaging Lambda code)
+ */
+export interface ProviderRequirement {
+  name: string;
+  source: string;
+  version: string;
+}
+
+/**
+ * Emits the Terraform for one node: its resource block followed by any companion resources
+ * @param node - The node to emit
+ * @param resourceName - Terraform name of the node's resource
+ * @param context - Nodes, edges and the connection plan for this generation run
+ * @returns HCL for the node
+ */
+export type ResourceEmitter = (node: Node, resourceName: string, context: GeneratorContext) => string;
+
+/**
+ * Everything the canvas, properties panel, generator and connection rules need to know about a
+ * resource type. Register custom or internal modules with registerResource before the canvas loads.
+ */
+export interface ResourceDefinition extends ResourceTypeConfig {
+  schema: ResourceSchema;
+  // Terraform type of the node's resource block, or null for canvas-only groupings
+  terraformType: string | null;
+  // Attributes exported in outputs.tf, with their descriptions
+  outputs?: Array<[string, string]>;
+  emit?: ResourceEmitter;
+  // Providers needed for a node besides aws
+  requiredProviders?: (node: Node) => ProviderRequirement[];
+  // Types this resource may be connected to. Connections are checked in both directions,
+  // so a pair only needs to be listed under one of its types.
+  connectsTo?: ResourceTypeId[];
+  // Containers the resource may be placed in (top level only if omitted)
+  parents?: ResourceTypeId[];
+}
+
+const definitions = new Map<ResourceTypeId, ResourceDefinition>();
+
+/**
+ * Adds a resource type to the registry
+ * @param definition - The resource definition
+ * @throws Error if a resource with the same id is already registered
+ */
+export function registerResource(definition: ResourceDefinition): void {
+  if (definitions.has(definition.id)) {
+    throw new Error(`Resource type "${definition.id}" is already registered`);
+  }
+  definitions.set(definition.id, definition);
+}
+
+/**
+ * Looks up the definition of a resource type
+ * @returns The definition, or undefined for types that are not registered
+ */
+export function getResourceDefinition(type: ResourceTypeId): ResourceDefinition | undefined {
+  return definitions.get(type);
+}
+
+/**
+ * Lists every registered resource definition in registration order
+ */
+export function getResourceDefinitions(): ResourceDefinition[] {
+  return [...definitions.values()];
+}
+
+for (const definition of builtInResources) {
+  registerResource(definition);
+}
@@ -0,0 +1,266 @@
+// Application Load Balancer resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import {
+  GeneratorContext,
+  liftValue,
+  generateWiring,
+  generateDependsOn,
+  generateTags,
+  escapeHCLString,
+  formatHCLBlock,
+  readObjectListProperty,
+} from '@/lib/terraform-emitter';
+import { ensureDefaultSubnets } from '@/lib/connection-semantics';
+import { tagsField } from './fields';
+
+export interface ALBListener {
+  port?: number;
+  protocol?: string;
+  certificateArn?: string;
+}
+
+interface ALBProperties {
+  name?: string;
+  scheme?: string;
+  ipAddressType?: string;
+  listeners?: ALBListener[];
+  accessLogs?: { bucket?: string; prefix?: string; enabled?: boolean };
+}
+
+/**
+ * Returns the listeners set on a load balancer node, one per port
+ * @param node - The load balancer node
+ * @returns Listeners with a valid port, first one per port winning
+ */
+export function getALBListeners(node: Node): ALBListener[] {
+  const { listeners } = (node.data.properties ?? {}) as ALBProperties;
+  const ports = new Set<number>();
+  return readObjectListProperty<ALBListener>(listeners).filter((listener) => {
+    const { port } = listener;
+    if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535 || ports.has(port)) {
+      return false;
+    }
+    ports.add(port);
+    return true;
+  });
+}
+
+/**
+ * Generates a listener set on the load balancer. Listeners forward to the target group of
+ * connected instances, or answer 404 while there is none.
+ */
+function generateListenerBlock(listener: ALBListener, resourceName: string, context: GeneratorContext): string[] {
+  const targetGroup = `aws_lb_target_group.${resourceName}_tg`;
+  const protocol = listener.protocol === 'HTTPS' ? 'HTTPS' : 'HTTP';
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_lb_listener" "${resourceName}_listener_${listener.port}" {`);
+  lines.push(`  load_balancer_arn = aws_lb.${resourceName}.arn`);
+  lines.push(`  port              = ${listener.port}`);
+  lines.push(`  protocol          = "${protocol}"`);
+  if (protocol === 'HTTPS' && listener.certificateArn) {
+    lines.push(`  certificate_arn   = "${escapeHCLString(listener.certificateArn)}"`);
+  }
+  
+  lines.push('');
+  lines.push('  default_action {');
+  if (context.plan.blocks.has(targetGroup)) {
+    lines.push('    type             = "forward"');
+    lines.push(`    target_group_arn = ${targetGroup}.arn`);
+  } else {
+    lines.push('    type = "fixed-response"');
+    lines.push('');
+    lines.push('    fixed_response {');
+    lines.push('      content_type = "text/plain"');
+    lines.push('      status_code  = "404"');
+    lines.push('    }');
+  }
+  lines.push('  }');
+  lines.push('}');
+  return lines;
+}
+
+/**
+ * Generates Terraform block for Application Load Balancer
+ */
+function generateALBBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as ALBProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_lb" "${resourceName}" {`);
+  
+  if (props.name) {
+    lines.push(`  name               = ${liftValue(node, resourceName, 'name', props.name, context)}`);
+  }
+  
+  lines.push('  load_balancer_type = "application"');
+  
+  if (props.scheme) {
+    lines.push(`  internal           = ${props.scheme === 'internal'}`);
+  }
+  
+  if (props.ipAddressType) {
+    lines.push(`  ip_address_type    = ${liftValue(node, resourceName, 'ip_address_type', props.ipAddressType, context)}`);
+  }
+  
+  // Subnets come from a connected VPC, otherwise from the account's default VPC
+  if (!context.plan.attributes.get(node.id)?.subnets) {
+    lines.push(`  subnets            = ${ensureDefaultSubnets(context.plan)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  const { bucket, prefix, enabled } = props.accessLogs ?? {};
+  if (bucket) {
+    lines.push('');
+    lines.push(
+      ...formatHCLBlock('access_logs', [
+        ['bucket', `"${escapeHCLString(bucket)}"`],
+        ['prefix', prefix ? `"${escapeHCLString(prefix)}"` : undefined],
+        ['enabled', String(enabled !== false)],
+      ])
+    );
+  }
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  let block = lines.join('\n');
+  
+  for (const listener of getALBListeners(node)) {
+    block += `\n\n${generateListenerBlock(listener, resourceName, context).join('\n')}`;
+  }
+  
+  return block;
+}
+
+export const alb: ResourceDefinition = {
+  id: 'alb',
+  label: 'Application Load Balancer',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Networking-Content-Delivery/Elastic-Load-Balancing.svg',
+  category: 'network',
+  description: 'Elastic Load Balancing for applications',
+  color: 'bg-gradient-to-br from-purple-400 to-purple-500',
+  schema: {
+    fields: [
+      {
+        name: 'name',
+        label: 'Load Balancer Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-load-balancer',
+        required: true,
+        description: 'The name of the Application Load Balancer.',
+      },
+      {
+        name: 'scheme',
+        label: 'Scheme',
+        type: 'select',
+        defaultValue: 'internet-facing',
+        options: ['internet-facing', 'internal'],
+        required: true,
+        description: 'Whether the load balancer is internet-facing or internal.',
+      },
+      {
+        name: 'ipAddressType',
+        label: 'IP Address Type',
+        type: 'select',
+        defaultValue: 'ipv4',
+        options: ['ipv4', 'dualstack'],
+        required: false,
+        description: 'The type of IP addresses used by the subnets.',
+      },
+      {
+        name: 'listeners',
+        label: 'Listeners',
+        type: 'objectList',
+        itemLabel: 'Listener',
+        defaultValue: [],
+        required: false,
+        description: 'Ports the load balancer accepts traffic on. Without any, connected instances get an HTTP listener on port 80.',
+        fields: [
+          {
+            name: 'port',
+            label: 'Port',
+            type: 'number',
+            defaultValue: 80,
+            placeholder: '80',
+            required: true,
+          },
+          {
+            name: 'protocol',
+            label: 'Protocol',
+            type: 'select',
+            defaultValue: 'HTTP',
+            options: ['HTTP', 'HTTPS'],
+            required: true,
+          },
+          {
+            name: 'certificateArn',
+            label: 'Certificate ARN',
+            type: 'text',
+            defaultValue: '',
+            placeholder: 'arn:aws:acm:...',
+            required: false,
+            description: 'ACM certificate served by HTTPS listeners.',
+          },
+        ],
+      },
+      {
+        name: 'accessLogs',
+        label: 'Access Logs',
+        type: 'group',
+        defaultValue: {},
+        required: false,
+        description: 'Write access logs to an S3 bucket.',
+        fields: [
+          {
+            name: 'bucket',
+            label: 'Bucket',
+            type: 'text',
+            defaultValue: '',
+            placeholder: 'my-logs-bucket',
+            required: false,
+          },
+          {
+            name: 'prefix',
+            label: 'Prefix',
+            type: 'text',
+            defaultValue: '',
+            placeholder: 'alb',
+            required: false,
+          },
+          {
+            name: 'enabled',
+            label: 'Enabled',
+            type: 'boolean',
+            defaultValue: true,
+            required: false,
+          },
+        ],
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      name: '',
+      scheme: 'internet-facing',
+      ipAddressType: 'ipv4',
+      listeners: [],
+      accessLogs: {},
+      tags: {},
+    },
+  },
+  terraformType: 'aws_lb',
+  outputs: [['id', 'Load balancer ID'], ['arn', 'ARN'], ['dns_name', 'DNS name']],
+  emit: generateALBBlock,
+  connectsTo: ['waf'],
+  parents: ['vpc', 'az', 'subnet'],
+};
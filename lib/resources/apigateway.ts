@@ -0,0 +1,107 @@
+// API Gateway resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, escapeHCLString, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface APIGatewayProperties {
+  name?: string;
+  protocolType?: string;
+  corsEnabled?: boolean;
+}
+
+/**
+ * Generates Terraform block for API Gateway
+ */
+function generateAPIGatewayBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as APIGatewayProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_apigatewayv2_api" "${resourceName}" {`);
+  
+  if (props.name) {
+    lines.push(`  name          = ${liftValue(node, resourceName, 'name', props.name, context)}`);
+  }
+  
+  if (props.protocolType) {
+    lines.push(`  protocol_type = "${escapeHCLString(props.protocolType)}"`);
+  }
+  
+  // WebSocket APIs route on a field of the incoming message
+  if (props.protocolType === 'WEBSOCKET') {
+    lines.push('  route_selection_expression = "$request.body.action"');
+  }
+  
+  if (props.corsEnabled) {
+    lines.push('');
+    lines.push('  cors_configuration {');
+    lines.push('    allow_origins = ["*"]');
+    lines.push('    allow_methods = ["*"]');
+    lines.push('    allow_headers = ["*"]');
+    lines.push('  }');
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const apigateway: ResourceDefinition = {
+  id: 'apigateway',
+  label: 'API Gateway',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/App-Integration/API-Gateway.svg',
+  category: 'network',
+  description: 'Amazon API Gateway for REST and WebSocket APIs',
+  color: 'bg-gradient-to-br from-pink-500 to-pink-600',
+  schema: {
+    fields: [
+      {
+        name: 'name',
+        label: 'API Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-api',
+        required: true,
+        description: 'The name of the API Gateway.',
+      },
+      {
+        name: 'protocolType',
+        label: 'Protocol Type',
+        type: 'select',
+        defaultValue: 'HTTP',
+        options: ['HTTP', 'WEBSOCKET', 'REST'],
+        required: true,
+        description: 'The API protocol type.',
+      },
+      {
+        name: 'corsEnabled',
+        label: 'Enable CORS',
+        type: 'boolean',
+        defaultValue: true,
+        required: false,
+        description: 'Enable Cross-Origin Resource Sharing.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      name: '',
+      protocolType: 'HTTP',
+      corsEnabled: true,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_apigatewayv2_api',
+  outputs: [['id', 'API ID'], ['arn', 'ARN'], ['api_endpoint', 'Endpoint URL']],
+  emit: generateAPIGatewayBlock,
+  connectsTo: ['alb'],
+};
@@ -0,0 +1,32 @@
+// Availability Zone resource definition
+import { ResourceDefinition } from '@/lib/resource-registry';
+
+export const az: ResourceDefinition = {
+  id: 'az',
+  label: 'Availability Zone',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Networking-Content-Delivery/Virtual-Private-Cloud.svg',
+  category: 'network',
+  description: 'Groups subnets and resources in one availability zone',
+  color: 'border-sky-500 bg-sky-500/5',
+  schema: {
+    fields: [
+      {
+        name: 'zone',
+        label: 'Zone Name',
+        type: 'text',
+        defaultValue: 'us-east-1a',
+        placeholder: 'us-east-1a',
+        required: true,
+        description: 'Availability zone that subnets inside this container are created in.',
+      },
+    ],
+    defaultProperties: {
+      zone: 'us-east-1a',
+    },
+  },
+  // Only a grouping on the canvas; no resource is generated
+  terraformType: null,
+  // Availability zones only group subnets; place resources inside them instead
+  connectsTo: [],
+  parents: ['vpc'],
+};
@@ -0,0 +1,156 @@
+// CloudFront Distribution resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface CloudFrontProperties {
+  originDomain?: string;
+  priceClass?: string;
+  defaultRootObject?: string;
+}
+
+/**
+ * Returns the origin domain of a CloudFront distribution: the configured domain, else
+ * the domain of a connected bucket or load balancer
+ */
+function resolveOriginDomain(node: Node, props: CloudFrontProperties, context: GeneratorContext): string | null {
+  if (props.originDomain) {
+    return null;
+  }
+  
+  for (const edge of context.edges) {
+    const otherId = edge.source === node.id ? edge.target : edge.target === node.id ? edge.source : null;
+    const other = context.nodes.find(candidate => candidate.id === otherId);
+    if (other?.type === 's3') {
+      return `${context.addresses.get(other.id)}.bucket_regional_domain_name`;
+    }
+    if (other?.type === 'alb') {
+      return `${context.addresses.get(other.id)}.dns_name`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Generates Terraform block for a CloudFront distribution with a single origin
+ */
+function generateCloudFrontBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as CloudFrontProperties;
+  const originId = `${resourceName.replace(/_/g, '-')}-origin`;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_cloudfront_distribution" "${resourceName}" {`);
+  lines.push('  enabled             = true');
+  
+  if (props.defaultRootObject) {
+    lines.push(`  default_root_object = ${liftValue(node, resourceName, 'default_root_object', props.defaultRootObject, context)}`);
+  }
+  
+  if (props.priceClass) {
+    lines.push(`  price_class         = ${liftValue(node, resourceName, 'price_class', props.priceClass, context)}`);
+  }
+  
+  const connectedOrigin = resolveOriginDomain(node, props, context);
+  const originDomain = connectedOrigin
+    ?? liftValue(node, resourceName, 'origin_domain', props.originDomain || 'origin.example.com', context);
+  lines.push('');
+  lines.push('  origin {');
+  lines.push(`    domain_name = ${originDomain}`);
+  lines.push(`    origin_id   = "${originId}"`);
+  lines.push('');
+  lines.push('    custom_origin_config {');
+  lines.push('      http_port              = 80');
+  lines.push('      https_port             = 443');
+  lines.push('      origin_protocol_policy = "https-only"');
+  lines.push('      origin_ssl_protocols   = ["TLSv1.2"]');
+  lines.push('    }');
+  lines.push('  }');
+  
+  // Managed CachingOptimized policy
+  lines.push('');
+  lines.push('  default_cache_behavior {');
+  lines.push(`    target_origin_id       = "${originId}"`);
+  lines.push('    viewer_protocol_policy = "redirect-to-https"');
+  lines.push('    allowed_methods        = ["GET", "HEAD"]');
+  lines.push('    cached_methods         = ["GET", "HEAD"]');
+  lines.push('    cache_policy_id        = "658327ea-f89d-4fab-a63d-7e88639e58f6"');
+  lines.push('  }');
+  
+  lines.push('');
+  lines.push('  restrictions {');
+  lines.push('    geo_restriction {');
+  lines.push('      restriction_type = "none"');
+  lines.push('    }');
+  lines.push('  }');
+  
+  lines.push('');
+  lines.push('  viewer_certificate {');
+  lines.push('    cloudfront_default_certificate = true');
+  lines.push('  }');
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const cloudfront: ResourceDefinition = {
+  id: 'cloudfront',
+  label: 'CloudFront Distribution',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Networking-Content-Delivery/CloudFront.svg',
+  category: 'network',
+  description: 'Amazon CloudFront content delivery network',
+  color: 'bg-gradient-to-br from-purple-400 to-purple-500',
+  schema: {
+    fields: [
+      {
+        name: 'originDomain',
+        label: 'Origin Domain',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'origin.example.com',
+        required: true,
+        description: 'Domain name CloudFront fetches content from.',
+      },
+      {
+        name: 'priceClass',
+        label: 'Price Class',
+        type: 'select',
+        defaultValue: 'PriceClass_100',
+        options: ['PriceClass_100', 'PriceClass_200', 'PriceClass_All'],
+        required: true,
+        description: 'Which edge locations serve content. Fewer locations cost less.',
+      },
+      {
+        name: 'defaultRootObject',
+        label: 'Default Root Object',
+        type: 'text',
+        defaultValue: 'index.html',
+        placeholder: 'index.html',
+        required: false,
+        description: 'Object returned when the root URL is requested.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      originDomain: '',
+      priceClass: 'PriceClass_100',
+      defaultRootObject: 'index.html',
+      tags: {},
+    },
+  },
+  terraformType: 'aws_cloudfront_distribution',
+  outputs: [['id', 'Distribution ID'], ['arn', 'ARN'], ['domain_name', 'Domain name']],
+  emit: generateCloudFrontBlock,
+  connectsTo: ['s3', 'alb', 'waf'],
+};
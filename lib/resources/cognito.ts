@@ -0,0 +1,106 @@
+// Cognito User Pool resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface CognitoProperties {
+  poolName?: string;
+  mfa?: string;
+  passwordMinLength?: number;
+}
+
+/**
+ * Generates Terraform block for a Cognito user pool
+ */
+function generateCognitoBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as CognitoProperties;
+  const mfa = props.mfa === 'ON' || props.mfa === 'OPTIONAL' ? props.mfa : 'OFF';
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_cognito_user_pool" "${resourceName}" {`);
+  
+  const poolName = props.poolName || resourceName.replace(/_/g, '-');
+  lines.push(`  name              = ${liftValue(node, resourceName, 'name', poolName, context)}`);
+  lines.push(`  mfa_configuration = "${mfa}"`);
+  
+  if (props.passwordMinLength) {
+    lines.push('');
+    lines.push('  password_policy {');
+    lines.push(`    minimum_length = ${liftValue(node, resourceName, 'password_minimum_length', props.passwordMinLength, context)}`);
+    lines.push('  }');
+  }
+  
+  // MFA other than OFF needs a second factor; authenticator apps need no SMS setup
+  if (mfa !== 'OFF') {
+    lines.push('');
+    lines.push('  software_token_mfa_configuration {');
+    lines.push('    enabled = true');
+    lines.push('  }');
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const cognito: ResourceDefinition = {
+  id: 'cognito',
+  label: 'Cognito User Pool',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Security-Identity-Compliance/Cognito.svg',
+  category: 'security',
+  description: 'Amazon Cognito user directory and sign-in',
+  color: 'bg-gradient-to-br from-red-500 to-red-600',
+  schema: {
+    fields: [
+      {
+        name: 'poolName',
+        label: 'Pool Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-user-pool',
+        required: true,
+        description: 'The name of the user pool.',
+      },
+      {
+        name: 'mfa',
+        label: 'Multi-Factor Auth',
+        type: 'select',
+        defaultValue: 'OFF',
+        options: ['OFF', 'OPTIONAL', 'ON'],
+        required: true,
+        description: 'Whether users sign in with a second factor (authenticator app).',
+      },
+      {
+        name: 'passwordMinLength',
+        label: 'Minimum Password Length',
+        type: 'number',
+        defaultValue: 8,
+        placeholder: '8',
+        required: false,
+        description: 'Shortest password users may choose.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      poolName: '',
+      mfa: 'OFF',
+      passwordMinLength: 8,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_cognito_user_pool',
+  outputs: [['id', 'User pool ID'], ['arn', 'ARN'], ['endpoint', 'Endpoint']],
+  emit: generateCognitoBlock,
+  connectsTo: ['apigateway', 'alb', 'lambda'],
+};
@@ -0,0 +1,241 @@
+// DynamoDB resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import {
+  GeneratorContext,
+  liftValue,
+  generateWiring,
+  generateDependsOn,
+  generateTags,
+  escapeHCLString,
+  formatHCLBlock,
+  readObjectListProperty,
+} from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface DynamoDBAttribute {
+  name?: string;
+  type?: string;
+}
+
+interface DynamoDBIndex {
+  name?: string;
+  hashKey?: string;
+  rangeKey?: string;
+  projectionType?: string;
+}
+
+interface DynamoDBProperties {
+  tableName?: string;
+  billingMode?: string;
+  hashKey?: string;
+  attributes?: DynamoDBAttribute[];
+  globalSecondaryIndexes?: DynamoDBIndex[];
+}
+
+/**
+ * Generates Terraform block for DynamoDB table
+ */
+function generateDynamoDBBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as DynamoDBProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_dynamodb_table" "${resourceName}" {`);
+  
+  if (props.tableName) {
+    lines.push(`  name         = ${liftValue(node, resourceName, 'name', props.tableName, context)}`);
+  }
+  
+  if (props.billingMode) {
+    lines.push(`  billing_mode = "${escapeHCLString(props.billingMode)}"`);
+  }
+  
+  // The key attribute must match hash_key, so both use the same expression
+  const hashKey = liftValue(node, resourceName, 'hash_key', props.hashKey || 'id', context);
+  lines.push(`  hash_key     = ${hashKey}`);
+  
+  // Provisioned tables must declare their throughput
+  if (props.billingMode === 'PROVISIONED') {
+    lines.push('  read_capacity  = 5');
+    lines.push('  write_capacity = 5');
+  }
+  
+  // Every key of the table and its indexes is declared, as a string unless typed otherwise
+  const types = new Map(
+    readObjectListProperty<DynamoDBAttribute>(props.attributes)
+      .filter((attribute) => attribute.name)
+      .map((attribute) => [attribute.name!, escapeHCLString(attribute.type || 'S')])
+  );
+  const indexes = readObjectListProperty<DynamoDBIndex>(props.globalSecondaryIndexes).filter(
+    (index) => index.name && index.hashKey
+  );
+  const hashKeyName = props.hashKey || 'id';
+  const indexKeys = new Set(
+    indexes.flatMap((index) => [index.hashKey!, index.rangeKey ?? '']).filter((key) => key && key !== hashKeyName)
+  );
+  
+  lines.push('');
+  lines.push(...formatHCLBlock('attribute', [['name', hashKey], ['type', `"${types.get(hashKeyName) ?? 'S'}"`]]));
+  for (const key of indexKeys) {
+    lines.push('');
+    lines.push(
+      ...formatHCLBlock('attribute', [
+        ['name', `"${escapeHCLString(key)}"`],
+        ['type', `"${types.get(key) ?? 'S'}"`],
+      ])
+    );
+  }
+  
+  for (const index of indexes) {
+    lines.push('');
+    lines.push(
+      ...formatHCLBlock('global_secondary_index', [
+        ['name', `"${escapeHCLString(index.name!)}"`],
+        ['hash_key', `"${escapeHCLString(index.hashKey!)}"`],
+        ['range_key', index.rangeKey ? `"${escapeHCLString(index.rangeKey)}"` : undefined],
+        ['projection_type', `"${escapeHCLString(index.projectionType || 'ALL')}"`],
+        ['read_capacity', props.billingMode === 'PROVISIONED' ? '5' : undefined],
+        ['write_capacity', props.billingMode === 'PROVISIONED' ? '5' : undefined],
+      ])
+    );
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const dynamodb: ResourceDefinition = {
+  id: 'dynamodb',
+  label: 'DynamoDB',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Database/DynamoDB.svg',
+  category: 'database',
+  description: 'Amazon DynamoDB NoSQL database',
+  color: 'bg-gradient-to-br from-blue-400 to-blue-500',
+  schema: {
+    fields: [
+      {
+        name: 'tableName',
+        label: 'Table Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-table',
+        required: true,
+        description: 'The name of the DynamoDB table.',
+      },
+      {
+        name: 'billingMode',
+        label: 'Billing Mode',
+        type: 'select',
+        defaultValue: 'PAY_PER_REQUEST',
+        options: ['PAY_PER_REQUEST', 'PROVISIONED'],
+        required: true,
+        description: 'How you are charged for read and write throughput.',
+      },
+      {
+        name: 'hashKey',
+        label: 'Partition Key',
+        type: 'text',
+        defaultValue: 'id',
+        placeholder: 'id',
+        required: true,
+        description: 'The attribute to use as the partition key.',
+      },
+      {
+        name: 'attributes',
+        label: 'Key Attributes',
+        type: 'objectList',
+        itemLabel: 'Attribute',
+        defaultValue: [],
+        required: false,
+        description: 'Types of the partition key and index keys. Keys not listed are strings.',
+        fields: [
+          {
+            name: 'name',
+            label: 'Name',
+            type: 'text',
+            defaultValue: '',
+            placeholder: 'createdAt',
+            required: true,
+          },
+          {
+            name: 'type',
+            label: 'Type',
+            type: 'select',
+            defaultValue: 'S',
+            options: ['S', 'N', 'B'],
+            required: true,
+            description: 'String, number or binary.',
+          },
+        ],
+      },
+      {
+        name: 'globalSecondaryIndexes',
+        label: 'Global Secondary Indexes',
+        type: 'objectList',
+        itemLabel: 'Index',
+        defaultValue: [],
+        required: false,
+        description: 'Indexes for querying the table by other keys.',
+        fields: [
+          {
+            name: 'name',
+            label: 'Index Name',
+            type: 'text',
+            defaultValue: '',
+            placeholder: 'by-email',
+            required: true,
+          },
+          {
+            name: 'hashKey',
+            label: 'Partition Key',
+            type: 'text',
+            defaultValue: '',
+            placeholder: 'email',
+            required: true,
+          },
+          {
+            name: 'rangeKey',
+            label: 'Sort Key',
+            type: 'text',
+            defaultValue: '',
+            placeholder: 'createdAt',
+            required: false,
+          },
+          {
+            name: 'projectionType',
+            label: 'Projection',
+            type: 'select',
+            defaultValue: 'ALL',
+            options: ['ALL', 'KEYS_ONLY'],
+            required: true,
+            description: 'Attributes copied into the index.',
+          },
+        ],
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      tableName: '',
+      billingMode: 'PAY_PER_REQUEST',
+      hashKey: 'id',
+      attributes: [],
+      globalSecondaryIndexes: [],
+      tags: {},
+    },
+  },
+  terraformType: 'aws_dynamodb_table',
+  outputs: [['id', 'Table name'], ['arn', 'ARN']],
+  emit: generateDynamoDBBlock,
+  connectsTo: [],
+};
@@ -0,0 +1,127 @@
+// EC2 Instance resource definition
+import { Node, EC2Properties } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+/**
+ * Joins two HCL list expressions, writing a single list literal where both are literals
+ */
+function joinLists(first: string | undefined, second: string | undefined): string | undefined {
+  if (!first || !second) return first ?? second;
+  if (first.startsWith('[') && second.startsWith('[')) {
+    return `[${first.slice(1, -1)}, ${second.slice(1, -1)}]`;
+  }
+  return `concat(${first}, ${second})`;
+}
+
+/**
+ * Generates Terraform block for EC2 instance
+ */
+function generateEC2Block(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as EC2Properties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_instance" "${resourceName}" {`);
+  
+  // Add properties with proper alignment
+  if (props.ami) {
+    lines.push(`  ami           = ${liftValue(node, resourceName, 'ami', props.ami, context)}`);
+  }
+  
+  if (props.instanceType) {
+    lines.push(`  instance_type = ${liftValue(node, resourceName, 'instance_type', props.instanceType, context)}`);
+  }
+  
+  if (props.keyName) {
+    lines.push(`  key_name      = ${liftValue(node, resourceName, 'key_name', props.keyName, context)}`);
+  }
+  
+  // The instance's own security group, followed by any additional groups set by id
+  const groupIds = context.plan.attributes.get(node.id)?.vpc_security_group_ids;
+  const additionalGroups = Array.isArray(props.securityGroups) && props.securityGroups.length > 0
+    ? liftValue(node, resourceName, 'security_groups', props.securityGroups, context)
+    : undefined;
+  const securityGroups = joinLists(groupIds, additionalGroups);
+  if (securityGroups) {
+    lines.push(`  vpc_security_group_ids = ${securityGroups}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context, ['vpc_security_group_ids']));
+  
+  // Add tags block
+  lines.push(...generateTags(node, resourceName));
+  
+  // Add depends_on if there are dependencies
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const ec2: ResourceDefinition = {
+  id: 'ec2',
+  label: 'EC2 Instance',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Compute/EC2.svg',
+  category: 'compute',
+  description: 'Amazon Elastic Compute Cloud virtual server',
+  color: 'bg-gradient-to-br from-orange-500 to-orange-600',
+  schema: {
+    fields: [
+      {
+        name: 'instanceType',
+        label: 'Instance Type',
+        type: 'select',
+        defaultValue: 't2.micro',
+        options: ['t2.micro', 't2.small', 't2.medium', 't3.micro', 't3.small', 't3.medium'],
+        required: true,
+        description: 'The type of EC2 instance to launch. T2/T3 instances are burstable and cost-effective.',
+      },
+      {
+        name: 'ami',
+        label: 'AMI ID',
+        type: 'text',
+        defaultValue: 'ami-0c55b159cbfafe1f0',
+        placeholder: 'ami-xxxxxxxxxxxxxxxxx',
+        required: true,
+        description: 'Amazon Machine Image ID that defines the operating system and software configuration.',
+      },
+      {
+        name: 'keyName',
+        label: 'Key Pair Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-key-pair',
+        required: false,
+        description: 'SSH key pair name for secure access to the instance.',
+      },
+      {
+        name: 'securityGroups',
+        label: 'Additional Security Groups',
+        type: 'array',
+        defaultValue: [],
+        placeholder: 'sg-xxxxxxxxxxxxxxxxx',
+        required: false,
+        description: 'IDs of existing security groups to attach besides the one generated from the instance\'s connections.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      instanceType: 't2.micro',
+      ami: 'ami-0c55b159cbfafe1f0',
+      keyName: '',
+      securityGroups: [],
+      tags: {},
+    },
+  },
+  terraformType: 'aws_instance',
+  outputs: [['id', 'Instance ID'], ['arn', 'ARN'], ['private_ip', 'Private IP address'], ['public_ip', 'Public IP address']],
+  emit: generateEC2Block,
+  connectsTo: ['ec2', 'vpc', 'subnet', 'alb', 'rds', 'dynamodb', 's3', 'elasticache', 'sqs', 'sns', 'secretsmanager'],
+  parents: ['vpc', 'az', 'subnet'],
+};
@@ -0,0 +1,172 @@
+// ECS Service resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, escapeHCLString, generateTags } from '@/lib/terraform-emitter';
+import { ensureDefaultSubnets } from '@/lib/connection-semantics';
+import { tagsField } from './fields';
+
+interface ECSProperties {
+  serviceName?: string;
+  image?: string;
+  containerPort?: number;
+  cpu?: string;
+  memory?: number;
+  desiredCount?: number;
+}
+
+/**
+ * Generates Terraform block for an ECS service on Fargate, with its cluster and task definition
+ */
+function generateECSBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as ECSProperties;
+  const serviceName = props.serviceName || resourceName.replace(/_/g, '-');
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_ecs_service" "${resourceName}" {`);
+  lines.push(`  name            = ${liftValue(node, resourceName, 'name', serviceName, context)}`);
+  lines.push(`  cluster         = aws_ecs_cluster.${resourceName}_cluster.id`);
+  lines.push(`  task_definition = aws_ecs_task_definition.${resourceName}_task.arn`);
+  lines.push('  launch_type     = "FARGATE"');
+  
+  if (props.desiredCount !== undefined) {
+    lines.push(`  desired_count   = ${liftValue(node, resourceName, 'desired_count', props.desiredCount, context)}`);
+  }
+  
+  // Tasks run in the subnets the service is placed in, otherwise in the default VPC
+  const subnets = context.plan.attributes.get(node.id)?.subnets ?? ensureDefaultSubnets(context.plan);
+  lines.push('');
+  lines.push('  network_configuration {');
+  lines.push(`    subnets          = ${subnets}`);
+  lines.push(`    security_groups  = ${context.plan.attributes.get(node.id)?.security_groups}`);
+  // Without a NAT gateway, tasks need a public IP to pull their image
+  lines.push('    assign_public_ip = true');
+  lines.push('  }');
+  
+  lines.push(...generateWiring(node.id, context, ['subnets', 'security_groups']));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  let block = lines.join('\n');
+  
+  const clusterLines: string[] = [];
+  clusterLines.push('');
+  clusterLines.push('');
+  clusterLines.push(`resource "aws_ecs_cluster" "${resourceName}_cluster" {`);
+  clusterLines.push(`  name = "${escapeHCLString(serviceName)}-cluster"`);
+  clusterLines.push('}');
+  block += clusterLines.join('\n');
+  
+  // One container per task; Fargate requires awsvpc networking and task-level CPU and memory
+  const taskLines: string[] = [];
+  taskLines.push('');
+  taskLines.push('');
+  taskLines.push(`resource "aws_ecs_task_definition" "${resourceName}_task" {`);
+  taskLines.push(`  family                   = "${escapeHCLString(serviceName)}"`);
+  taskLines.push('  requires_compatibilities = ["FARGATE"]');
+  taskLines.push('  network_mode             = "awsvpc"');
+  taskLines.push(`  cpu                      = ${liftValue(node, resourceName, 'cpu', props.cpu || '256', context)}`);
+  taskLines.push(`  memory                   = ${liftValue(node, resourceName, 'memory', props.memory || 512, context)}`);
+  taskLines.push('');
+  taskLines.push('  container_definitions = jsonencode([');
+  taskLines.push('    {');
+  taskLines.push(`      name         = "${escapeHCLString(serviceName)}"`);
+  taskLines.push(`      image        = ${liftValue(node, resourceName, 'image', props.image || 'nginx:latest', context)}`);
+  taskLines.push('      essential    = true');
+  taskLines.push(`      portMappings = [{ containerPort = ${liftValue(node, resourceName, 'container_port', props.containerPort || 80, context)}, protocol = "tcp" }]`);
+  taskLines.push('    }');
+  taskLines.push('  ])');
+  taskLines.push('}');
+  block += taskLines.join('\n');
+  
+  return block;
+}
+
+export const ecs: ResourceDefinition = {
+  id: 'ecs',
+  label: 'ECS Service',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Containers/Elastic-Container-Service.svg',
+  category: 'compute',
+  description: 'Amazon ECS service running containers on Fargate',
+  color: 'bg-gradient-to-br from-orange-500 to-orange-600',
+  schema: {
+    fields: [
+      {
+        name: 'serviceName',
+        label: 'Service Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-service',
+        required: true,
+        description: 'The name of the ECS service.',
+      },
+      {
+        name: 'image',
+        label: 'Container Image',
+        type: 'text',
+        defaultValue: 'nginx:latest',
+        placeholder: 'nginx:latest',
+        required: true,
+        description: 'Container image the task runs, e.g. from Docker Hub or ECR.',
+      },
+      {
+        name: 'containerPort',
+        label: 'Container Port',
+        type: 'number',
+        defaultValue: 80,
+        placeholder: '80',
+        required: true,
+        description: 'Port the container listens on.',
+      },
+      {
+        name: 'cpu',
+        label: 'CPU Units',
+        type: 'select',
+        defaultValue: '256',
+        options: ['256', '512', '1024', '2048', '4096'],
+        required: true,
+        description: 'Fargate CPU units for the task (1024 units = 1 vCPU).',
+      },
+      {
+        name: 'memory',
+        label: 'Memory (MB)',
+        type: 'number',
+        defaultValue: 512,
+        placeholder: '512',
+        required: true,
+        description: 'Memory for the task. Must be a valid Fargate combination with the CPU units.',
+      },
+      {
+        name: 'desiredCount',
+        label: 'Desired Tasks',
+        type: 'number',
+        defaultValue: 1,
+        placeholder: '1',
+        required: false,
+        description: 'Number of tasks the service keeps running.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      serviceName: '',
+      image: 'nginx:latest',
+      containerPort: 80,
+      cpu: '256',
+      memory: 512,
+      desiredCount: 1,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_ecs_service',
+  outputs: [['id', 'Service ID'], ['name', 'Service name']],
+  emit: generateECSBlock,
+  connectsTo: ['vpc', 'subnet', 'alb', 'rds', 'dynamodb', 's3', 'elasticache', 'sqs', 'sns', 'secretsmanager'],
+  parents: ['vpc', 'az', 'subnet'],
+};
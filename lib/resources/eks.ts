@@ -0,0 +1,129 @@
+// EKS Cluster resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, escapeHCLString, generateTags } from '@/lib/terraform-emitter';
+import { ensureDefaultSubnets } from '@/lib/connection-semantics';
+import { tagsField } from './fields';
+
+interface EKSProperties {
+  clusterName?: string;
+  version?: string;
+  endpointPublicAccess?: boolean;
+}
+
+/**
+ * Generates Terraform block for an EKS cluster and the IAM role of its control plane
+ */
+function generateEKSBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as EKSProperties;
+  const clusterName = props.clusterName || resourceName.replace(/_/g, '-');
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_eks_cluster" "${resourceName}" {`);
+  lines.push(`  name     = ${liftValue(node, resourceName, 'name', clusterName, context)}`);
+  lines.push(`  role_arn = aws_iam_role.${resourceName}_cluster_role.arn`);
+  
+  if (props.version) {
+    lines.push(`  version  = ${liftValue(node, resourceName, 'version', props.version, context)}`);
+  }
+  
+  // The control plane needs subnets in two availability zones
+  const subnets = context.plan.attributes.get(node.id)?.subnet_ids ?? ensureDefaultSubnets(context.plan);
+  lines.push('');
+  lines.push('  vpc_config {');
+  lines.push(`    subnet_ids             = ${subnets}`);
+  if (props.endpointPublicAccess !== undefined) {
+    lines.push(`    endpoint_public_access = ${liftValue(node, resourceName, 'endpoint_public_access', props.endpointPublicAccess, context)}`);
+  }
+  lines.push('  }');
+  
+  lines.push(...generateWiring(node.id, context, ['subnet_ids']));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  // The role must keep its policy until the cluster is deleted
+  const dependsOn = generateDependsOn(node.id, context, [`aws_iam_role_policy_attachment.${resourceName}_cluster_policy`]);
+  lines.push('');
+  lines.push(dependsOn.trim());
+  
+  lines.push('}');
+  
+  let block = lines.join('\n');
+  
+  const roleLines: string[] = [];
+  roleLines.push('');
+  roleLines.push('');
+  roleLines.push(`resource "aws_iam_role" "${resourceName}_cluster_role" {`);
+  roleLines.push(`  name = "${escapeHCLString(clusterName)}-cluster-role"`);
+  roleLines.push('');
+  roleLines.push('  assume_role_policy = jsonencode({');
+  roleLines.push('    Version = "2012-10-17"');
+  roleLines.push('    Statement = [');
+  roleLines.push('      {');
+  roleLines.push('        Effect    = "Allow"');
+  roleLines.push('        Action    = "sts:AssumeRole"');
+  roleLines.push('        Principal = { Service = "eks.amazonaws.com" }');
+  roleLines.push('      }');
+  roleLines.push('    ]');
+  roleLines.push('  })');
+  roleLines.push('}');
+  roleLines.push('');
+  roleLines.push(`resource "aws_iam_role_policy_attachment" "${resourceName}_cluster_policy" {`);
+  roleLines.push(`  role       = aws_iam_role.${resourceName}_cluster_role.name`);
+  roleLines.push('  policy_arn = "arn:aws:iam::aws:policy/AmazonEKSClusterPolicy"');
+  roleLines.push('}');
+  block += roleLines.join('\n');
+  
+  return block;
+}
+
+export const eks: ResourceDefinition = {
+  id: 'eks',
+  label: 'EKS Cluster',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Containers/Elastic-Kubernetes-Service.svg',
+  category: 'compute',
+  description: 'Amazon Elastic Kubernetes Service control plane',
+  color: 'bg-gradient-to-br from-orange-400 to-orange-500',
+  schema: {
+    fields: [
+      {
+        name: 'clusterName',
+        label: 'Cluster Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-cluster',
+        required: true,
+        description: 'The name of the EKS cluster.',
+      },
+      {
+        name: 'version',
+        label: 'Kubernetes Version',
+        type: 'select',
+        defaultValue: '1.30',
+        options: ['1.28', '1.29', '1.30', '1.31'],
+        required: true,
+        description: 'Kubernetes version of the control plane.',
+      },
+      {
+        name: 'endpointPublicAccess',
+        label: 'Public API Endpoint',
+        type: 'boolean',
+        defaultValue: true,
+        required: false,
+        description: 'Allow access to the Kubernetes API from the internet.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      clusterName: '',
+      version: '1.30',
+      endpointPublicAccess: true,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_eks_cluster',
+  outputs: [['id', 'Cluster name'], ['arn', 'ARN'], ['endpoint', 'API server endpoint']],
+  emit: generateEKSBlock,
+  connectsTo: ['vpc', 'subnet', 'kms'],
+  parents: ['vpc'],
+};
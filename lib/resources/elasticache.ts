@@ -0,0 +1,101 @@
+// ElastiCache Cluster resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface ElastiCacheProperties {
+  engine?: string;
+  nodeType?: string;
+  numCacheNodes?: number;
+}
+
+/**
+ * Generates Terraform block for an ElastiCache cluster
+ */
+function generateElastiCacheBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as ElastiCacheProperties;
+  const engine = props.engine === 'memcached' ? 'memcached' : 'redis';
+  // Cluster ids allow lowercase letters, digits and hyphens, up to 40 characters
+  const clusterId = resourceName.replace(/_/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'cache';
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_elasticache_cluster" "${resourceName}" {`);
+  lines.push(`  cluster_id      = "${clusterId}"`);
+  lines.push(`  engine          = "${engine}"`);
+  
+  if (props.nodeType) {
+    lines.push(`  node_type       = ${liftValue(node, resourceName, 'node_type', props.nodeType, context)}`);
+  }
+  
+  // Redis clusters without replication have exactly one node
+  const nodeCount = engine === 'redis' ? 1 : liftValue(node, resourceName, 'num_cache_nodes', props.numCacheNodes || 1, context);
+  lines.push(`  num_cache_nodes = ${nodeCount}`);
+  lines.push(`  port            = ${engine === 'redis' ? 6379 : 11211}`);
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const elasticache: ResourceDefinition = {
+  id: 'elasticache',
+  label: 'ElastiCache Cluster',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Database/ElastiCache.svg',
+  category: 'database',
+  description: 'Amazon ElastiCache in-memory Redis or Memcached cache',
+  color: 'bg-gradient-to-br from-blue-500 to-blue-600',
+  schema: {
+    fields: [
+      {
+        name: 'engine',
+        label: 'Engine',
+        type: 'select',
+        defaultValue: 'redis',
+        options: ['redis', 'memcached'],
+        required: true,
+        description: 'The cache engine to run.',
+      },
+      {
+        name: 'nodeType',
+        label: 'Node Type',
+        type: 'select',
+        defaultValue: 'cache.t3.micro',
+        options: ['cache.t3.micro', 'cache.t3.small', 'cache.t3.medium', 'cache.m5.large'],
+        required: true,
+        description: 'The compute and memory capacity of each cache node.',
+      },
+      {
+        name: 'numCacheNodes',
+        label: 'Cache Nodes',
+        type: 'number',
+        defaultValue: 1,
+        placeholder: '1',
+        required: true,
+        description: 'Number of cache nodes. Redis clusters without replication have exactly one.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      engine: 'redis',
+      nodeType: 'cache.t3.micro',
+      numCacheNodes: 1,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_elasticache_cluster',
+  outputs: [['id', 'Cluster ID'], ['arn', 'ARN'], ['cache_nodes', 'Cache nodes']],
+  emit: generateElastiCacheBlock,
+  connectsTo: [],
+  parents: ['vpc', 'az', 'subnet'],
+};
@@ -0,0 +1,98 @@
+// EventBridge Rule resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface EventBridgeProperties {
+  name?: string;
+  scheduleExpression?: string;
+  eventPattern?: string;
+}
+
+/**
+ * Generates Terraform block for an EventBridge rule, matching an event pattern or running on a schedule
+ */
+function generateEventBridgeBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as EventBridgeProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_cloudwatch_event_rule" "${resourceName}" {`);
+  
+  if (props.name) {
+    lines.push(`  name                = ${liftValue(node, resourceName, 'name', props.name, context)}`);
+  }
+  
+  // A rule needs either a pattern or a schedule; the pattern wins when both are set
+  if (props.eventPattern) {
+    lines.push(`  event_pattern       = ${liftValue(node, resourceName, 'event_pattern', props.eventPattern, context)}`);
+  } else {
+    const schedule = props.scheduleExpression || 'rate(5 minutes)';
+    lines.push(`  schedule_expression = ${liftValue(node, resourceName, 'schedule_expression', schedule, context)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const eventbridge: ResourceDefinition = {
+  id: 'eventbridge',
+  label: 'EventBridge Rule',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/App-Integration/EventBridge.svg',
+  category: 'integration',
+  description: 'Amazon EventBridge rule matching events or running on a schedule',
+  color: 'bg-gradient-to-br from-pink-400 to-pink-500',
+  schema: {
+    fields: [
+      {
+        name: 'name',
+        label: 'Rule Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-rule',
+        required: true,
+        description: 'The name of the EventBridge rule.',
+      },
+      {
+        name: 'scheduleExpression',
+        label: 'Schedule',
+        type: 'text',
+        defaultValue: 'rate(5 minutes)',
+        placeholder: 'rate(5 minutes)',
+        required: false,
+        description: 'Run on a schedule, using a rate() or cron() expression. Ignored when an event pattern is set.',
+      },
+      {
+        name: 'eventPattern',
+        label: 'Event Pattern',
+        type: 'text',
+        defaultValue: '',
+        placeholder: '{"source": ["aws.ec2"]}',
+        required: false,
+        description: 'JSON pattern of the events the rule matches.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      name: '',
+      scheduleExpression: 'rate(5 minutes)',
+      eventPattern: '',
+      tags: {},
+    },
+  },
+  terraformType: 'aws_cloudwatch_event_rule',
+  outputs: [['arn', 'ARN']],
+  emit: generateEventBridgeBlock,
+  connectsTo: ['lambda', 'sqs', 'sns'],
+};
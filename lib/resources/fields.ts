@@ -0,0 +1,12 @@
+// Property fields shared by several resource definitions
+import { PropertyField } from '@/lib/resource-schemas';
+
+// Tags written with the Name tag, which comes from the node label
+export const tagsField: PropertyField = {
+  name: 'tags',
+  label: 'Tags',
+  type: 'map',
+  defaultValue: {},
+  required: false,
+  description: 'Tags added to the resource besides Name, which is the node label.',
+};
@@ -0,0 +1,36 @@
+// Resource definitions that ship with InfraCanvas, in sidebar order
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { ec2 } from './ec2';
+import { lambda } from './lambda';
+import { ecs } from './ecs';
+import { eks } from './eks';
+import { vpc } from './vpc';
+import { az } from './az';
+import { subnet } from './subnet';
+import { alb } from './alb';
+import { apigateway } from './apigateway';
+import { natgateway } from './natgateway';
+import { internetgateway } from './internetgateway';
+import { securitygroup } from './securitygroup';
+import { cloudfront } from './cloudfront';
+import { route53 } from './route53';
+import { sqs } from './sqs';
+import { sns } from './sns';
+import { eventbridge } from './eventbridge';
+import { rds } from './rds';
+import { dynamodb } from './dynamodb';
+import { elasticache } from './elasticache';
+import { s3 } from './s3';
+import { waf } from './waf';
+import { cognito } from './cognito';
+import { secretsmanager } from './secretsmanager';
+import { kms } from './kms';
+
+export const builtInResources: ResourceDefinition[] = [
+  ec2, lambda, ecs, eks,
+  vpc, az, subnet, alb, apigateway, natgateway, internetgateway, securitygroup, cloudfront, route53,
+  sqs, sns, eventbridge,
+  rds, dynamodb, elasticache,
+  s3,
+  waf, cognito, secretsmanager, kms,
+];
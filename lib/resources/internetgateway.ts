@@ -0,0 +1,49 @@
+// Internet Gateway resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+/**
+ * Generates Terraform block for an internet gateway (attached to the VPC it is placed in)
+ */
+function generateInternetGatewayBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const lines: string[] = [];
+  lines.push(`resource "aws_internet_gateway" "${resourceName}" {`);
+  
+  // vpc_id is the only attribute, so it needs no separating blank line
+  lines.push(...generateWiring(node.id, context).slice(1));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const internetgateway: ResourceDefinition = {
+  id: 'internetgateway',
+  label: 'Internet Gateway',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Networking-Content-Delivery/Virtual-Private-Cloud.svg',
+  category: 'network',
+  description: 'Connects a VPC to the internet',
+  color: 'bg-gradient-to-br from-purple-500 to-purple-600',
+  // Attached to the VPC it is placed in; only its tags are configured
+  schema: {
+    fields: [tagsField],
+    defaultProperties: {
+      tags: {},
+    },
+  },
+  terraformType: 'aws_internet_gateway',
+  outputs: [['id', 'Internet gateway ID'], ['arn', 'ARN']],
+  emit: generateInternetGatewayBlock,
+  connectsTo: [],
+  parents: ['vpc'],
+};
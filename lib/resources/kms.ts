@@ -0,0 +1,122 @@
+// KMS Key resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, escapeHCLString, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface KMSProperties {
+  description?: string;
+  alias?: string;
+  enableKeyRotation?: boolean;
+  deletionWindowDays?: number;
+}
+
+/**
+ * Generates Terraform block for a KMS key, with an alias when one is set
+ */
+function generateKMSBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as KMSProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_kms_key" "${resourceName}" {`);
+  
+  if (props.description) {
+    lines.push(`  description             = ${liftValue(node, resourceName, 'description', props.description, context)}`);
+  }
+  
+  if (props.enableKeyRotation !== undefined) {
+    lines.push(`  enable_key_rotation     = ${liftValue(node, resourceName, 'enable_key_rotation', props.enableKeyRotation, context)}`);
+  }
+  
+  if (props.deletionWindowDays !== undefined) {
+    lines.push(`  deletion_window_in_days = ${liftValue(node, resourceName, 'deletion_window_in_days', props.deletionWindowDays, context)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  let block = lines.join('\n');
+  
+  const alias = props.alias?.replace(/^alias\//, '');
+  if (alias) {
+    const aliasLines: string[] = [];
+    aliasLines.push('');
+    aliasLines.push('');
+    aliasLines.push(`resource "aws_kms_alias" "${resourceName}_alias" {`);
+    aliasLines.push(`  name          = "alias/${escapeHCLString(alias)}"`);
+    aliasLines.push(`  target_key_id = aws_kms_key.${resourceName}.key_id`);
+    aliasLines.push('}');
+    block += aliasLines.join('\n');
+  }
+  
+  return block;
+}
+
+export const kms: ResourceDefinition = {
+  id: 'kms',
+  label: 'KMS Key',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Security-Identity-Compliance/Key-Management-Service.svg',
+  category: 'security',
+  description: 'AWS Key Management Service encryption key',
+  color: 'bg-gradient-to-br from-red-500 to-red-600',
+  schema: {
+    fields: [
+      {
+        name: 'description',
+        label: 'Description',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'Encrypts application data',
+        required: false,
+        description: 'What the key is used for.',
+      },
+      {
+        name: 'alias',
+        label: 'Alias',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-app-key',
+        required: false,
+        description: 'Friendly name for the key, created as alias/<name>.',
+      },
+      {
+        name: 'enableKeyRotation',
+        label: 'Enable Key Rotation',
+        type: 'boolean',
+        defaultValue: true,
+        required: false,
+        description: 'Rotate the key material every year.',
+      },
+      {
+        name: 'deletionWindowDays',
+        label: 'Deletion Window (days)',
+        type: 'number',
+        defaultValue: 30,
+        placeholder: '30',
+        required: false,
+        description: 'Days before a scheduled key deletion takes effect (7 to 30).',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      description: '',
+      alias: '',
+      enableKeyRotation: true,
+      deletionWindowDays: 30,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_kms_key',
+  outputs: [['key_id', 'Key ID'], ['arn', 'ARN']],
+  emit: generateKMSBlock,
+  connectsTo: ['s3', 'rds', 'dynamodb', 'sqs', 'sns'],
+};
@@ -0,0 +1,253 @@
+// Lambda Function resource definition
+import { Node } from '@/types';
+import { ResourceDefinition, ProviderRequirement } from '@/lib/resource-registry';
+import {
+  GeneratorContext,
+  liftValue,
+  generateWiring,
+  generateDependsOn,
+  generateTags,
+  escapeHCLString,
+  readMapProperty,
+} from '@/lib/terraform-emitter';
+import { getLambdaRoleAddress } from '@/lib/connection-semantics';
+import { tagsField } from './fields';
+
+interface LambdaProperties {
+  functionName?: string;
+  runtime?: string;
+  handler?: string;
+  memory?: number;
+  sourceType?: string;
+  sourceDir?: string;
+  s3Bucket?: string;
+  s3Key?: string;
+  environment?: Record<string, string>;
+}
+
+// Packages the function code when it is not deployed from S3
+const ARCHIVE_PROVIDER: ProviderRequirement = { name: 'archive', source: 'hashicorp/archive', version: '~> 2.4' };
+
+/**
+ * Checks whether a Lambda function deploys a package from S3
+ * (the archive source is used unless both bucket and key are set)
+ */
+function usesS3Source(props: LambdaProperties): boolean {
+  return props.sourceType === 's3' && Boolean(props.s3Bucket) && Boolean(props.s3Key);
+}
+
+/**
+ * Generates Terraform block for Lambda function
+ */
+function generateLambdaBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as LambdaProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_lambda_function" "${resourceName}" {`);
+  
+  // function_name is required, so fall back to the resource name
+  const functionName = props.functionName || resourceName.replace(/_/g, '-');
+  lines.push(`  function_name = ${liftValue(node, resourceName, 'function_name', functionName, context)}`);
+  
+  if (props.runtime) {
+    lines.push(`  runtime       = ${liftValue(node, resourceName, 'runtime', props.runtime, context)}`);
+  }
+  
+  if (props.handler) {
+    lines.push(`  handler       = ${liftValue(node, resourceName, 'handler', props.handler, context)}`);
+  }
+  
+  lines.push(`  role          = ${getLambdaRoleAddress(resourceName)}.arn`);
+  
+  if (props.memory) {
+    lines.push(`  memory_size   = ${liftValue(node, resourceName, 'memory_size', props.memory, context)}`);
+  }
+  
+  lines.push('');
+  if (usesS3Source(props)) {
+    lines.push(`  s3_bucket = ${liftValue(node, resourceName, 's3_bucket', props.s3Bucket!, context)}`);
+    lines.push(`  s3_key    = ${liftValue(node, resourceName, 's3_key', props.s3Key!, context)}`);
+  } else {
+    lines.push(`  filename         = data.archive_file.${resourceName}_package.output_path`);
+    lines.push(`  source_code_hash = data.archive_file.${resourceName}_package.output_base64sha256`);
+  }
+  
+  // Functions reaching a database or cache run in its VPC
+  const { subnet_ids: subnetIds, security_group_ids: securityGroupIds } = context.plan.attributes.get(node.id) ?? {};
+  if (subnetIds && securityGroupIds) {
+    lines.push('');
+    lines.push('  vpc_config {');
+    lines.push(`    subnet_ids         = ${subnetIds}`);
+    lines.push(`    security_group_ids = ${securityGroupIds}`);
+    lines.push('  }');
+  }
+  
+  lines.push(
+    ...generateWiring(node.id, context, ['subnet_ids', 'security_group_ids'], readMapProperty(props.environment))
+  );
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  let block = lines.join('\n');
+  
+  // Execution role assumed by the function
+  const roleLines: string[] = [];
+  roleLines.push('');
+  roleLines.push('');
+  roleLines.push(`resource "aws_iam_role" "${resourceName}_role" {`);
+  roleLines.push(`  name = "${escapeHCLString(functionName)}-role"`);
+  roleLines.push('');
+  roleLines.push('  assume_role_policy = jsonencode({');
+  roleLines.push('    Version = "2012-10-17"');
+  roleLines.push('    Statement = [');
+  roleLines.push('      {');
+  roleLines.push('        Effect    = "Allow"');
+  roleLines.push('        Action    = "sts:AssumeRole"');
+  roleLines.push('        Principal = { Service = "lambda.amazonaws.com" }');
+  roleLines.push('      }');
+  roleLines.push('    ]');
+  roleLines.push('  })');
+  roleLines.push('}');
+  roleLines.push('');
+  roleLines.push(`resource "aws_iam_role_policy_attachment" "${resourceName}_basic_execution" {`);
+  roleLines.push(`  role       = ${getLambdaRoleAddress(resourceName)}.name`);
+  roleLines.push('  policy_arn = "arn:aws:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole"');
+  roleLines.push('}');
+  block += roleLines.join('\n');
+  
+  // Deployment package built from a local directory
+  if (!usesS3Source(props)) {
+    const sourceDir = props.sourceDir || 'src';
+    const archiveLines: string[] = [];
+    archiveLines.push('');
+    archiveLines.push('');
+    archiveLines.push(`data "archive_file" "${resourceName}_package" {`);
+    archiveLines.push('  type        = "zip"');
+    archiveLines.push(`  source_dir  = "\${path.module}/${escapeHCLString(sourceDir)}"`);
+    archiveLines.push(`  output_path = "\${path.module}/build/${resourceName}.zip"`);
+    archiveLines.push('}');
+    block += archiveLines.join('\n');
+  }
+  
+  return block;
+}
+
+export const lambda: ResourceDefinition = {
+  id: 'lambda',
+  label: 'Lambda Function',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Compute/Lambda.svg',
+  category: 'compute',
+  description: 'AWS Lambda serverless compute service',
+  color: 'bg-gradient-to-br from-orange-400 to-orange-500',
+  schema: {
+    fields: [
+      {
+        name: 'functionName',
+        label: 'Function Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-function',
+        required: true,
+        description: 'The name of the Lambda function.',
+      },
+      {
+        name: 'runtime',
+        label: 'Runtime',
+        type: 'select',
+        defaultValue: 'nodejs20.x',
+        options: ['nodejs20.x', 'python3.12', 'java21', 'dotnet8', 'go1.x'],
+        required: true,
+        description: 'The runtime environment for the Lambda function.',
+      },
+      {
+        name: 'handler',
+        label: 'Handler',
+        type: 'text',
+        defaultValue: 'index.handler',
+        placeholder: 'index.handler',
+        required: true,
+        description: 'The function entry point in your code.',
+      },
+      {
+        name: 'memory',
+        label: 'Memory (MB)',
+        type: 'number',
+        defaultValue: 128,
+        placeholder: '128',
+        required: false,
+        description: 'The amount of memory available to the function at runtime.',
+      },
+      {
+        name: 'sourceType',
+        label: 'Code Source',
+        type: 'select',
+        defaultValue: 'archive',
+        options: ['archive', 's3'],
+        required: true,
+        description: 'Package a local directory with archive_file, or deploy an existing zip from S3.',
+      },
+      {
+        name: 'sourceDir',
+        label: 'Source Directory',
+        type: 'text',
+        defaultValue: 'src',
+        placeholder: 'src',
+        required: false,
+        description: 'Directory (relative to the module) zipped into the deployment package when using archive.',
+      },
+      {
+        name: 's3Bucket',
+        label: 'S3 Bucket',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-artifacts-bucket',
+        required: false,
+        description: 'Bucket holding the deployment package when using S3.',
+      },
+      {
+        name: 's3Key',
+        label: 'S3 Key',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'builds/function.zip',
+        required: false,
+        description: 'Object key of the deployment package when using S3.',
+      },
+      {
+        name: 'environment',
+        label: 'Environment Variables',
+        type: 'map',
+        defaultValue: {},
+        required: false,
+        description: 'Variables set in the function environment. Connections add their own, such as table names.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      functionName: '',
+      runtime: 'nodejs20.x',
+      handler: 'index.handler',
+      memory: 128,
+      sourceType: 'archive',
+      sourceDir: 'src',
+      s3Bucket: '',
+      s3Key: '',
+      environment: {},
+      tags: {},
+    },
+  },
+  terraformType: 'aws_lambda_function',
+  outputs: [['arn', 'ARN'], ['function_name', 'Function name'], ['invoke_arn', 'Invoke ARN']],
+  emit: generateLambdaBlock,
+  requiredProviders: (node) =>
+    usesS3Source((node.data.properties || {}) as LambdaProperties) ? [] : [ARCHIVE_PROVIDER],
+  connectsTo: ['lambda', 'ec2', 'vpc', 'subnet', 'alb', 'apigateway', 'rds', 'dynamodb', 's3', 'elasticache', 'sqs', 'sns', 'secretsmanager', 'kms'],
+};
@@ -0,0 +1,90 @@
+// NAT Gateway resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { ensureDefaultSubnets } from '@/lib/connection-semantics';
+import { tagsField } from './fields';
+
+interface NATGatewayProperties {
+  connectivityType?: string;
+}
+
+/**
+ * Generates Terraform block for a NAT gateway, with an Elastic IP when it is public
+ */
+function generateNATGatewayBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as NATGatewayProperties;
+  const isPublic = props.connectivityType !== 'private';
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_nat_gateway" "${resourceName}" {`);
+  lines.push(`  connectivity_type = "${isPublic ? 'public' : 'private'}"`);
+  
+  if (isPublic) {
+    lines.push(`  allocation_id     = aws_eip.${resourceName}_eip.id`);
+  }
+  
+  // The subnet comes from the container the gateway is placed in, otherwise from the default VPC
+  if (!context.plan.attributes.get(node.id)?.subnet_id) {
+    lines.push(`  subnet_id         = ${ensureDefaultSubnets(context.plan)}[0]`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  let block = lines.join('\n');
+  
+  if (isPublic) {
+    const eipLines: string[] = [];
+    eipLines.push('');
+    eipLines.push('');
+    eipLines.push(`resource "aws_eip" "${resourceName}_eip" {`);
+    eipLines.push('  domain = "vpc"');
+    eipLines.push(...generateTags(node, resourceName));
+    eipLines.push('}');
+    block += eipLines.join('\n');
+  }
+  
+  return block;
+}
+
+export const natgateway: ResourceDefinition = {
+  id: 'natgateway',
+  label: 'NAT Gateway',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Networking-Content-Delivery/Virtual-Private-Cloud.svg',
+  category: 'network',
+  description: 'Outbound internet access for private subnets',
+  color: 'bg-gradient-to-br from-purple-500 to-purple-600',
+  schema: {
+    fields: [
+      {
+        name: 'connectivityType',
+        label: 'Connectivity Type',
+        type: 'select',
+        defaultValue: 'public',
+        options: ['public', 'private'],
+        required: true,
+        description: 'Public gateways get an Elastic IP for internet access; private ones only route to other networks.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      connectivityType: 'public',
+      tags: {},
+    },
+  },
+  terraformType: 'aws_nat_gateway',
+  outputs: [['id', 'NAT gateway ID'], ['public_ip', 'Public IP address']],
+  emit: generateNATGatewayBlock,
+  connectsTo: ['internetgateway'],
+  parents: ['vpc', 'az', 'subnet'],
+};
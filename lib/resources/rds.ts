@@ -0,0 +1,238 @@
+// RDS Database resource definition
+import { Node, RDSProperties } from '@/types';
+import { ResourceDefinition, ProviderRequirement } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, escapeHCLString, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+const RANDOM_PROVIDER: ProviderRequirement = { name: 'random', source: 'hashicorp/random', version: '~> 3.6' };
+
+/**
+ * Returns how the master password of a database is provided (managed by RDS by default)
+ */
+export function getCredentialsMode(props: RDSProperties): NonNullable<RDSProperties['credentials']> {
+  return props.credentials ?? 'managed';
+}
+
+/**
+ * Generates the password expression for the chosen credentials mode and the blocks it needs.
+ * The password itself is never written into the configuration.
+ * @returns The password expression (null when RDS manages it) and the supporting blocks
+ */
+function generateCredentials(
+  node: Node,
+  resourceName: string,
+  context: GeneratorContext
+): { password: string | null; blocks: string[] } {
+  const props = node.data.properties as RDSProperties;
+  const label = node.data.label || resourceName;
+
+  switch (getCredentialsMode(props)) {
+    case 'random': {
+      const passwordAddress = `random_password.${resourceName}_password`;
+      const secretAddress = `aws_secretsmanager_secret.${resourceName}_credentials`;
+      return {
+        password: `${passwordAddress}.result`,
+        blocks: [
+          [
+            `resource "random_password" "${resourceName}_password" {`,
+            '  length           = 24',
+            '  special          = true',
+            '  override_special = "!#$%&*()-_=+[]{}<>:?"',
+            '}',
+          ].join('\n'),
+          [
+            `resource "aws_secretsmanager_secret" "${resourceName}_credentials" {`,
+            `  name_prefix = "${resourceName.replace(/_/g, '-')}-credentials-"`,
+            `  description = "${escapeHCLString(`Master credentials of ${label}`)}"`,
+            '}',
+          ].join('\n'),
+          [
+            `resource "aws_secretsmanager_secret_version" "${resourceName}_credentials" {`,
+            `  secret_id = ${secretAddress}.id`,
+            '  secret_string = jsonencode({',
+            `    username = aws_db_instance.${resourceName}.username`,
+            `    password = ${passwordAddress}.result`,
+            `    host     = aws_db_instance.${resourceName}.address`,
+            `    port     = aws_db_instance.${resourceName}.port`,
+            '  })',
+            '}',
+          ].join('\n'),
+        ],
+      };
+    }
+    case 'variable': {
+      const name = `${resourceName}_password`;
+      const description = `Master password of ${label}`;
+      // Module output declares it in variables.tf; the value only ever goes to terraform.tfvars
+      if (context.variables) {
+        context.variables.set(name, {
+          name,
+          description,
+          type: 'string',
+          sensitive: true,
+          defaultValue: props.masterPassword || undefined,
+        });
+        return { password: `var.${name}`, blocks: [] };
+      }
+      return {
+        password: `var.${name}`,
+        blocks: [
+          [
+            `variable "${name}" {`,
+            `  description = "${escapeHCLString(description)}"`,
+            '  type        = string',
+            '  sensitive   = true',
+            '}',
+          ].join('\n'),
+        ],
+      };
+    }
+    default:
+      return { password: null, blocks: [] };
+  }
+}
+
+/**
+ * Generates Terraform block for RDS database
+ */
+function generateRDSBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as RDSProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_db_instance" "${resourceName}" {`);
+  
+  // Add properties with proper alignment
+  if (props.allocatedStorage) {
+    lines.push(`  allocated_storage    = ${liftValue(node, resourceName, 'allocated_storage', props.allocatedStorage, context)}`);
+  }
+  
+  if (props.engine) {
+    lines.push(`  engine               = ${liftValue(node, resourceName, 'engine', props.engine, context)}`);
+  }
+  
+  if (props.instanceClass) {
+    lines.push(`  instance_class       = ${liftValue(node, resourceName, 'instance_class', props.instanceClass, context)}`);
+  }
+  
+  if (props.dbName) {
+    lines.push(`  db_name              = ${liftValue(node, resourceName, 'db_name', props.dbName, context)}`);
+  }
+  
+  const credentials = generateCredentials(node, resourceName, context);
+  lines.push(`  username             = ${liftValue(node, resourceName, 'username', props.username || 'admin', context)}`);
+  if (credentials.password) {
+    lines.push(`  password             = ${credentials.password}`);
+  }
+  lines.push('  skip_final_snapshot  = true');
+  if (!credentials.password) {
+    lines.push('');
+    lines.push('  manage_master_user_password = true');
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  // Add tags block
+  lines.push(...generateTags(node, resourceName));
+  
+  // Add depends_on if there are dependencies
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return [lines.join('\n'), ...credentials.blocks].join('\n\n');
+}
+
+export const rds: ResourceDefinition = {
+  id: 'rds',
+  label: 'RDS Database',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Database/RDS.svg',
+  category: 'database',
+  description: 'Amazon Relational Database Service',
+  color: 'bg-gradient-to-br from-blue-500 to-blue-600',
+  schema: {
+    fields: [
+      {
+        name: 'engine',
+        label: 'Database Engine',
+        type: 'select',
+        defaultValue: 'postgres',
+        options: ['postgres', 'mysql', 'mariadb', 'oracle-se2', 'sqlserver-ex'],
+        required: true,
+        description: 'The database engine to use (PostgreSQL, MySQL, etc.).',
+      },
+      {
+        name: 'instanceClass',
+        label: 'Instance Class',
+        type: 'select',
+        defaultValue: 'db.t3.micro',
+        options: ['db.t3.micro', 'db.t3.small', 'db.t3.medium', 'db.m5.large', 'db.m5.xlarge'],
+        required: true,
+        description: 'The compute and memory capacity of the database instance.',
+      },
+      {
+        name: 'allocatedStorage',
+        label: 'Allocated Storage (GB)',
+        type: 'number',
+        defaultValue: 20,
+        placeholder: '20',
+        required: true,
+        description: 'The amount of storage in gigabytes to allocate for the database.',
+      },
+      {
+        name: 'dbName',
+        label: 'Database Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'mydb',
+        required: true,
+        description: 'The name of the initial database to create.',
+      },
+      {
+        name: 'username',
+        label: 'Master Username',
+        type: 'text',
+        defaultValue: 'admin',
+        placeholder: 'admin',
+        description: 'The name of the master user of the database.',
+      },
+      {
+        name: 'credentials',
+        label: 'Master Password',
+        type: 'select',
+        defaultValue: 'managed',
+        options: ['managed', 'random', 'variable'],
+        description: 'Managed by RDS in Secrets Manager, generated and stored in a secret, or passed in as a sensitive variable.',
+      },
+      {
+        name: 'masterPassword',
+        label: 'Password Value',
+        type: 'text',
+        defaultValue: '',
+        sensitive: true,
+        description: 'Only used with the variable option, and only written to terraform.tfvars.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      engine: 'postgres',
+      instanceClass: 'db.t3.micro',
+      allocatedStorage: 20,
+      dbName: '',
+      username: 'admin',
+      credentials: 'managed',
+      masterPassword: '',
+      tags: {},
+    },
+  },
+  terraformType: 'aws_db_instance',
+  outputs: [['id', 'Instance ID'], ['arn', 'ARN'], ['endpoint', 'Connection endpoint']],
+  emit: generateRDSBlock,
+  requiredProviders: (node) =>
+    getCredentialsMode((node.data.properties || {}) as RDSProperties) === 'random' ? [RANDOM_PROVIDER] : [],
+  connectsTo: ['secretsmanager'],
+  parents: ['vpc', 'az', 'subnet'],
+};
@@ -0,0 +1,97 @@
+// Route 53 Zone resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface Route53Properties {
+  domainName?: string;
+  comment?: string;
+  forceDestroy?: boolean;
+}
+
+/**
+ * Generates Terraform block for a Route 53 hosted zone
+ */
+function generateRoute53Block(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as Route53Properties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_route53_zone" "${resourceName}" {`);
+  
+  // name is required, so fall back to a domain derived from the resource name
+  const domainName = props.domainName || `${resourceName.replace(/_/g, '-')}.example.com`;
+  lines.push(`  name          = ${liftValue(node, resourceName, 'name', domainName, context)}`);
+  
+  if (props.comment) {
+    lines.push(`  comment       = ${liftValue(node, resourceName, 'comment', props.comment, context)}`);
+  }
+  
+  if (props.forceDestroy !== undefined) {
+    lines.push(`  force_destroy = ${liftValue(node, resourceName, 'force_destroy', props.forceDestroy, context)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const route53: ResourceDefinition = {
+  id: 'route53',
+  label: 'Route 53 Zone',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Networking-Content-Delivery/Route-53.svg',
+  category: 'network',
+  description: 'Amazon Route 53 hosted DNS zone',
+  color: 'bg-gradient-to-br from-purple-400 to-purple-500',
+  schema: {
+    fields: [
+      {
+        name: 'domainName',
+        label: 'Domain Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'example.com',
+        required: true,
+        description: 'The domain the hosted zone answers for.',
+      },
+      {
+        name: 'comment',
+        label: 'Comment',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'Production zone',
+        required: false,
+        description: 'Note shown with the zone in the console.',
+      },
+      {
+        name: 'forceDestroy',
+        label: 'Force Destroy',
+        type: 'boolean',
+        defaultValue: false,
+        required: false,
+        description: 'Delete all records in the zone when the zone is destroyed.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      domainName: '',
+      comment: '',
+      forceDestroy: false,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_route53_zone',
+  outputs: [['zone_id', 'Hosted zone ID'], ['name_servers', 'Name servers']],
+  emit: generateRoute53Block,
+  connectsTo: ['cloudfront', 'alb', 'apigateway'],
+};
@@ -0,0 +1,264 @@
+// S3 Bucket resource definition
+import { Node, S3Properties, S3LifecycleRule } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import {
+  GeneratorContext,
+  liftValue,
+  generateWiring,
+  generateDependsOn,
+  generateTags,
+  escapeHCLString,
+  formatHCLBlock,
+  readObjectListProperty,
+} from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+/**
+ * Generates a rule block of the lifecycle configuration
+ * @param rule - The rule as edited on the node
+ * @param index - Position of the rule, used to name rules without an id
+ */
+function generateLifecycleRule(rule: S3LifecycleRule, index: number): string[] {
+  const lines: string[] = [];
+  lines.push('  rule {');
+  lines.push(`    id     = "${escapeHCLString(rule.id || `rule-${index + 1}`)}"`);
+  lines.push(`    status = "${rule.enabled === false ? 'Disabled' : 'Enabled'}"`);
+  
+  // An empty filter applies the rule to the whole bucket
+  lines.push('');
+  if (rule.prefix) {
+    lines.push(...formatHCLBlock('filter', [['prefix', `"${escapeHCLString(rule.prefix)}"`]], '    '));
+  } else {
+    lines.push('    filter {}');
+  }
+  
+  const { days: transitionDays, storageClass } = rule.transition ?? {};
+  if (typeof transitionDays === 'number' && transitionDays > 0) {
+    lines.push('');
+    lines.push(
+      ...formatHCLBlock(
+        'transition',
+        [
+          ['days', String(transitionDays)],
+          ['storage_class', `"${escapeHCLString(storageClass || 'GLACIER')}"`],
+        ],
+        '    '
+      )
+    );
+  }
+  
+  const expirationDays = rule.expiration?.days;
+  if (typeof expirationDays === 'number' && expirationDays > 0) {
+    lines.push('');
+    lines.push(...formatHCLBlock('expiration', [['days', String(expirationDays)]], '    '));
+  }
+  
+  lines.push('  }');
+  return lines;
+}
+
+/**
+ * Generates Terraform block for S3 bucket
+ */
+function generateS3Block(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as S3Properties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_s3_bucket" "${resourceName}" {`);
+  
+  if (props.bucketName) {
+    lines.push(`  bucket = ${liftValue(node, resourceName, 'bucket', props.bucketName, context)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  // Add tags block
+  lines.push(...generateTags(node, resourceName));
+  
+  // Add depends_on if there are dependencies
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  let block = lines.join('\n');
+  
+  // Add versioning configuration if enabled
+  if (props.versioning) {
+    const versioningLines: string[] = [];
+    versioningLines.push('');
+    versioningLines.push('');
+    versioningLines.push(`resource "aws_s3_bucket_versioning" "${resourceName}_versioning" {`);
+    versioningLines.push(`  bucket = aws_s3_bucket.${resourceName}.id`);
+    versioningLines.push('');
+    versioningLines.push('  versioning_configuration {');
+    versioningLines.push('    status = "Enabled"');
+    versioningLines.push('  }');
+    versioningLines.push('}');
+    block += versioningLines.join('\n');
+  }
+  
+  // Add encryption configuration if enabled
+  if (props.encryption) {
+    const encryptionLines: string[] = [];
+    encryptionLines.push('');
+    encryptionLines.push('');
+    encryptionLines.push(`resource "aws_s3_bucket_server_side_encryption_configuration" "${resourceName}_encryption" {`);
+    encryptionLines.push(`  bucket = aws_s3_bucket.${resourceName}.id`);
+    encryptionLines.push('');
+    encryptionLines.push('  rule {');
+    encryptionLines.push('    apply_server_side_encryption_by_default {');
+    encryptionLines.push('      sse_algorithm = "AES256"');
+    encryptionLines.push('    }');
+    encryptionLines.push('  }');
+    encryptionLines.push('}');
+    block += encryptionLines.join('\n');
+  }
+  
+  // Add lifecycle configuration if rules are set
+  const rules = readObjectListProperty<S3LifecycleRule>(props.lifecycleRules);
+  if (rules.length > 0) {
+    const lifecycleLines: string[] = [];
+    lifecycleLines.push('');
+    lifecycleLines.push('');
+    lifecycleLines.push(`resource "aws_s3_bucket_lifecycle_configuration" "${resourceName}_lifecycle" {`);
+    lifecycleLines.push(`  bucket = aws_s3_bucket.${resourceName}.id`);
+    rules.forEach((rule, index) => {
+      lifecycleLines.push('');
+      lifecycleLines.push(...generateLifecycleRule(rule, index));
+    });
+    lifecycleLines.push('}');
+    block += lifecycleLines.join('\n');
+  }
+  
+  return block;
+}
+
+export const s3: ResourceDefinition = {
+  id: 's3',
+  label: 'S3 Bucket',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Storage/Simple-Storage-Service.svg',
+  category: 'storage',
+  description: 'Amazon Simple Storage Service object storage',
+  color: 'bg-gradient-to-br from-green-500 to-green-600',
+  schema: {
+    fields: [
+      {
+        name: 'bucketName',
+        label: 'Bucket Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-unique-bucket-name',
+        required: true,
+        description: 'Globally unique name for the S3 bucket. Must be lowercase and DNS-compliant.',
+      },
+      {
+        name: 'versioning',
+        label: 'Enable Versioning',
+        type: 'boolean',
+        defaultValue: false,
+        required: false,
+        description: 'Keep multiple versions of objects for backup and recovery.',
+      },
+      {
+        name: 'encryption',
+        label: 'Enable Encryption',
+        type: 'boolean',
+        defaultValue: true,
+        required: false,
+        description: 'Encrypt objects at rest using server-side encryption.',
+      },
+      {
+        name: 'lifecycleRules',
+        label: 'Lifecycle Rules',
+        type: 'objectList',
+        itemLabel: 'Rule',
+        defaultValue: [],
+        required: false,
+        description: 'Move objects to cheaper storage classes or delete them after a number of days.',
+        fields: [
+          {
+            name: 'id',
+            label: 'Rule ID',
+            type: 'text',
+            defaultValue: '',
+            placeholder: 'archive-logs',
+            required: true,
+          },
+          {
+            name: 'prefix',
+            label: 'Prefix',
+            type: 'text',
+            defaultValue: '',
+            placeholder: 'logs/',
+            required: false,
+            description: 'Only objects under this prefix; the whole bucket if empty.',
+          },
+          {
+            name: 'enabled',
+            label: 'Enabled',
+            type: 'boolean',
+            defaultValue: true,
+            required: false,
+          },
+          {
+            name: 'transition',
+            label: 'Transition',
+            type: 'group',
+            defaultValue: {},
+            required: false,
+            fields: [
+              {
+                name: 'days',
+                label: 'After Days',
+                type: 'number',
+                placeholder: '30',
+                required: false,
+              },
+              {
+                name: 'storageClass',
+                label: 'Storage Class',
+                type: 'select',
+                defaultValue: 'GLACIER',
+                options: ['STANDARD_IA', 'ONEZONE_IA', 'INTELLIGENT_TIERING', 'GLACIER_IR', 'GLACIER', 'DEEP_ARCHIVE'],
+                required: false,
+              },
+            ],
+          },
+          {
+            name: 'expiration',
+            label: 'Expiration',
+            type: 'group',
+            defaultValue: {},
+            required: false,
+            fields: [
+              {
+                name: 'days',
+                label: 'After Days',
+                type: 'number',
+                placeholder: '365',
+                required: false,
+                description: 'Objects are deleted this many days after creation.',
+              },
+            ],
+          },
+        ],
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      bucketName: '',
+      versioning: false,
+      encryption: true,
+      lifecycleRules: [],
+      tags: {},
+    },
+  },
+  terraformType: 'aws_s3_bucket',
+  outputs: [['id', 'Bucket name'], ['arn', 'ARN'], ['bucket_regional_domain_name', 'Regional domain name']],
+  emit: generateS3Block,
+  connectsTo: [],
+};
@@ -0,0 +1,98 @@
+// Secrets Manager Secret resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface SecretsManagerProperties {
+  secretName?: string;
+  description?: string;
+  recoveryWindowDays?: number;
+}
+
+/**
+ * Generates Terraform block for a Secrets Manager secret (the value is set outside Terraform)
+ */
+function generateSecretsManagerBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as SecretsManagerProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_secretsmanager_secret" "${resourceName}" {`);
+  
+  if (props.secretName) {
+    lines.push(`  name                    = ${liftValue(node, resourceName, 'name', props.secretName, context)}`);
+  }
+  
+  if (props.description) {
+    lines.push(`  description             = ${liftValue(node, resourceName, 'description', props.description, context)}`);
+  }
+  
+  if (props.recoveryWindowDays !== undefined) {
+    lines.push(`  recovery_window_in_days = ${liftValue(node, resourceName, 'recovery_window_in_days', props.recoveryWindowDays, context)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const secretsmanager: ResourceDefinition = {
+  id: 'secretsmanager',
+  label: 'Secrets Manager Secret',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Security-Identity-Compliance/Secrets-Manager.svg',
+  category: 'security',
+  description: 'AWS Secrets Manager secret for credentials and keys',
+  color: 'bg-gradient-to-br from-red-500 to-red-600',
+  schema: {
+    fields: [
+      {
+        name: 'secretName',
+        label: 'Secret Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'prod/app/api-key',
+        required: true,
+        description: 'The name of the secret.',
+      },
+      {
+        name: 'description',
+        label: 'Description',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'API key for the payment provider',
+        required: false,
+        description: 'What the secret holds.',
+      },
+      {
+        name: 'recoveryWindowDays',
+        label: 'Recovery Window (days)',
+        type: 'number',
+        defaultValue: 30,
+        placeholder: '30',
+        required: false,
+        description: 'Days a deleted secret can still be restored (0 deletes it immediately).',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      secretName: '',
+      description: '',
+      recoveryWindowDays: 30,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_secretsmanager_secret',
+  outputs: [['arn', 'ARN'], ['name', 'Secret name']],
+  emit: generateSecretsManagerBlock,
+  connectsTo: ['kms'],
+};
@@ -0,0 +1,131 @@
+// Security Group resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface SecurityGroupProperties {
+  name?: string;
+  description?: string;
+  ingressPorts?: string[];
+  ingressCidr?: string;
+}
+
+/**
+ * Generates Terraform block for a security group with TCP ingress ports and open egress
+ */
+function generateSecurityGroupBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as SecurityGroupProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_security_group" "${resourceName}" {`);
+  
+  if (props.name) {
+    lines.push(`  name        = ${liftValue(node, resourceName, 'name', props.name, context)}`);
+  }
+  
+  if (props.description) {
+    lines.push(`  description = ${liftValue(node, resourceName, 'description', props.description, context)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  // Entries that are not port numbers are skipped rather than producing an invalid rule
+  const ports = (Array.isArray(props.ingressPorts) ? props.ingressPorts : [])
+    .map(port => Number(String(port).trim()))
+    .filter(port => Number.isInteger(port) && port >= 0 && port <= 65535);
+  if (ports.length > 0) {
+    const cidr = liftValue(node, resourceName, 'ingress_cidr', props.ingressCidr || '0.0.0.0/0', context);
+    for (const port of [...new Set(ports)]) {
+      lines.push('');
+      lines.push('  ingress {');
+      lines.push(`    from_port   = ${port}`);
+      lines.push(`    to_port     = ${port}`);
+      lines.push('    protocol    = "tcp"');
+      lines.push(`    cidr_blocks = [${cidr}]`);
+      lines.push('  }');
+    }
+  }
+  
+  lines.push('');
+  lines.push('  egress {');
+  lines.push('    from_port   = 0');
+  lines.push('    to_port     = 0');
+  lines.push('    protocol    = "-1"');
+  lines.push('    cidr_blocks = ["0.0.0.0/0"]');
+  lines.push('  }');
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const securitygroup: ResourceDefinition = {
+  id: 'securitygroup',
+  label: 'Security Group',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Networking-Content-Delivery/Virtual-Private-Cloud.svg',
+  category: 'network',
+  description: 'Virtual firewall controlling traffic to resources in a VPC',
+  color: 'bg-gradient-to-br from-red-400 to-red-500',
+  schema: {
+    fields: [
+      {
+        name: 'name',
+        label: 'Group Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'web-sg',
+        required: true,
+        description: 'The name of the security group.',
+      },
+      {
+        name: 'description',
+        label: 'Description',
+        type: 'text',
+        defaultValue: 'Managed by InfraCanvas',
+        placeholder: 'Allow web traffic',
+        required: false,
+        description: 'What the security group is for.',
+      },
+      {
+        name: 'ingressPorts',
+        label: 'Inbound Ports',
+        type: 'array',
+        defaultValue: [],
+        placeholder: '80, 443',
+        required: false,
+        description: 'TCP ports open for inbound traffic.',
+      },
+      {
+        name: 'ingressCidr',
+        label: 'Inbound Source CIDR',
+        type: 'text',
+        defaultValue: '0.0.0.0/0',
+        placeholder: '0.0.0.0/0',
+        required: false,
+        description: 'Address range allowed to reach the inbound ports.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      name: '',
+      description: 'Managed by InfraCanvas',
+      ingressPorts: [],
+      ingressCidr: '0.0.0.0/0',
+      tags: {},
+    },
+  },
+  terraformType: 'aws_security_group',
+  outputs: [['id', 'Security group ID'], ['arn', 'ARN']],
+  emit: generateSecurityGroupBlock,
+  connectsTo: [],
+  parents: ['vpc'],
+};
@@ -0,0 +1,82 @@
+// SNS Topic resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, withFifoSuffix, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface SNSProperties {
+  topicName?: string;
+  fifo?: boolean;
+}
+
+/**
+ * Generates Terraform block for an SNS topic
+ */
+function generateSNSBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as SNSProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_sns_topic" "${resourceName}" {`);
+  
+  if (props.topicName) {
+    lines.push(`  name       = ${liftValue(node, resourceName, 'name', withFifoSuffix(props.topicName, props.fifo), context)}`);
+  }
+  
+  if (props.fifo) {
+    lines.push('  fifo_topic = true');
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const sns: ResourceDefinition = {
+  id: 'sns',
+  label: 'SNS Topic',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/App-Integration/Simple-Notification-Service.svg',
+  category: 'integration',
+  description: 'Amazon Simple Notification Service pub/sub topic',
+  color: 'bg-gradient-to-br from-pink-500 to-pink-600',
+  schema: {
+    fields: [
+      {
+        name: 'topicName',
+        label: 'Topic Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-topic',
+        required: true,
+        description: 'The name of the SNS topic.',
+      },
+      {
+        name: 'fifo',
+        label: 'FIFO Topic',
+        type: 'boolean',
+        defaultValue: false,
+        required: false,
+        description: 'Deliver messages in order to FIFO queues. FIFO topic names end in .fifo.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      topicName: '',
+      fifo: false,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_sns_topic',
+  outputs: [['arn', 'ARN']],
+  emit: generateSNSBlock,
+  connectsTo: ['sqs'],
+};
@@ -0,0 +1,113 @@
+// SQS Queue resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, withFifoSuffix, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface SQSProperties {
+  queueName?: string;
+  fifo?: boolean;
+  visibilityTimeout?: number;
+  messageRetention?: number;
+}
+
+/**
+ * Generates Terraform block for an SQS queue
+ */
+function generateSQSBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as SQSProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_sqs_queue" "${resourceName}" {`);
+  
+  // Without a name the provider picks one (with the .fifo suffix for FIFO queues)
+  if (props.queueName) {
+    lines.push(`  name                       = ${liftValue(node, resourceName, 'name', withFifoSuffix(props.queueName, props.fifo), context)}`);
+  }
+  
+  if (props.fifo) {
+    lines.push('  fifo_queue                 = true');
+  }
+  
+  if (props.visibilityTimeout !== undefined) {
+    lines.push(`  visibility_timeout_seconds = ${liftValue(node, resourceName, 'visibility_timeout_seconds', props.visibilityTimeout, context)}`);
+  }
+  
+  if (props.messageRetention !== undefined) {
+    lines.push(`  message_retention_seconds  = ${liftValue(node, resourceName, 'message_retention_seconds', props.messageRetention, context)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const sqs: ResourceDefinition = {
+  id: 'sqs',
+  label: 'SQS Queue',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/App-Integration/Simple-Queue-Service.svg',
+  category: 'integration',
+  description: 'Amazon Simple Queue Service message queue',
+  color: 'bg-gradient-to-br from-pink-500 to-pink-600',
+  schema: {
+    fields: [
+      {
+        name: 'queueName',
+        label: 'Queue Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-queue',
+        required: true,
+        description: 'The name of the SQS queue.',
+      },
+      {
+        name: 'fifo',
+        label: 'FIFO Queue',
+        type: 'boolean',
+        defaultValue: false,
+        required: false,
+        description: 'Deliver messages exactly once, in order. FIFO queue names end in .fifo.',
+      },
+      {
+        name: 'visibilityTimeout',
+        label: 'Visibility Timeout (s)',
+        type: 'number',
+        defaultValue: 30,
+        placeholder: '30',
+        required: false,
+        description: 'How long a received message is hidden from other consumers.',
+      },
+      {
+        name: 'messageRetention',
+        label: 'Message Retention (s)',
+        type: 'number',
+        defaultValue: 345600,
+        placeholder: '345600',
+        required: false,
+        description: 'How long unconsumed messages are kept (60 seconds to 14 days).',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      queueName: '',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 345600,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_sqs_queue',
+  outputs: [['url', 'Queue URL'], ['arn', 'ARN']],
+  emit: generateSQSBlock,
+  connectsTo: [],
+};
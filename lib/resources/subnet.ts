@@ -0,0 +1,84 @@
+// Subnet resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface SubnetProperties {
+  cidrBlock?: string;
+  public?: boolean;
+}
+
+/**
+ * Generates Terraform block for a subnet (VPC and availability zone come from its containers)
+ */
+function generateSubnetBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as SubnetProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_subnet" "${resourceName}" {`);
+  
+  if (props.cidrBlock) {
+    lines.push(`  cidr_block              = ${liftValue(node, resourceName, 'cidr_block', props.cidrBlock, context)}`);
+  }
+  
+  if (props.public !== undefined) {
+    lines.push(`  map_public_ip_on_launch = ${liftValue(node, resourceName, 'map_public_ip_on_launch', props.public, context)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const subnet: ResourceDefinition = {
+  id: 'subnet',
+  label: 'Subnet',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Networking-Content-Delivery/Virtual-Private-Cloud.svg',
+  category: 'network',
+  description: 'A range of IP addresses in a VPC',
+  // Private subnets; public ones are drawn in green
+  color: 'border-slate-500 bg-slate-500/5',
+  schema: {
+    fields: [
+      {
+        name: 'cidrBlock',
+        label: 'CIDR Block',
+        type: 'text',
+        defaultValue: '10.0.1.0/24',
+        placeholder: '10.0.1.0/24',
+        required: true,
+        description: 'The IPv4 CIDR block for the subnet. Must be within the VPC range.',
+      },
+      {
+        name: 'public',
+        label: 'Public Subnet',
+        type: 'boolean',
+        defaultValue: false,
+        required: false,
+        description: 'Assign public IP addresses to instances launched in this subnet.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      cidrBlock: '10.0.1.0/24',
+      public: false,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_subnet',
+  outputs: [['id', 'Subnet ID'], ['arn', 'ARN']],
+  emit: generateSubnetBlock,
+  connectsTo: ['alb', 'rds', 'elasticache'],
+  parents: ['vpc', 'az'],
+};
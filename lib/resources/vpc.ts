@@ -0,0 +1,96 @@
+// VPC resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface VPCProperties {
+  cidrBlock?: string;
+  enableDnsHostnames?: boolean;
+  enableDnsSupport?: boolean;
+}
+
+/**
+ * Generates Terraform block for VPC
+ */
+function generateVPCBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as VPCProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_vpc" "${resourceName}" {`);
+  
+  if (props.cidrBlock) {
+    lines.push(`  cidr_block           = ${liftValue(node, resourceName, 'cidr_block', props.cidrBlock, context)}`);
+  }
+  
+  if (props.enableDnsHostnames !== undefined) {
+    lines.push(`  enable_dns_hostnames = ${liftValue(node, resourceName, 'enable_dns_hostnames', props.enableDnsHostnames, context)}`);
+  }
+  
+  if (props.enableDnsSupport !== undefined) {
+    lines.push(`  enable_dns_support   = ${liftValue(node, resourceName, 'enable_dns_support', props.enableDnsSupport, context)}`);
+  }
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const vpc: ResourceDefinition = {
+  id: 'vpc',
+  label: 'VPC',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Networking-Content-Delivery/Virtual-Private-Cloud.svg',
+  category: 'network',
+  description: 'Amazon Virtual Private Cloud',
+  color: 'border-purple-500 bg-purple-500/5',
+  schema: {
+    fields: [
+      {
+        name: 'cidrBlock',
+        label: 'CIDR Block',
+        type: 'text',
+        defaultValue: '10.0.0.0/16',
+        placeholder: '10.0.0.0/16',
+        required: true,
+        description: 'The IPv4 CIDR block for the VPC.',
+      },
+      {
+        name: 'enableDnsHostnames',
+        label: 'Enable DNS Hostnames',
+        type: 'boolean',
+        defaultValue: true,
+        required: false,
+        description: 'Enable DNS hostnames in the VPC.',
+      },
+      {
+        name: 'enableDnsSupport',
+        label: 'Enable DNS Support',
+        type: 'boolean',
+        defaultValue: true,
+        required: false,
+        description: 'Enable DNS resolution in the VPC.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      cidrBlock: '10.0.0.0/16',
+      enableDnsHostnames: true,
+      enableDnsSupport: true,
+      tags: {},
+    },
+  },
+  terraformType: 'aws_vpc',
+  outputs: [['id', 'VPC ID'], ['arn', 'ARN']],
+  emit: generateVPCBlock,
+  connectsTo: ['alb', 'rds', 'elasticache', 'natgateway', 'internetgateway', 'securitygroup'],
+};
@@ -0,0 +1,110 @@
+// WAF / Firewall resource definition
+import { Node } from '@/types';
+import { ResourceDefinition } from '@/lib/resource-registry';
+import { GeneratorContext, liftValue, generateWiring, generateDependsOn, generateTags } from '@/lib/terraform-emitter';
+import { tagsField } from './fields';
+
+interface WAFProperties {
+  name?: string;
+  scope?: string;
+  defaultAction?: string;
+}
+
+/**
+ * Generates Terraform block for WAF
+ */
+function generateWAFBlock(node: Node, resourceName: string, context: GeneratorContext): string {
+  const props = node.data.properties as WAFProperties;
+  
+  const lines: string[] = [];
+  lines.push(`resource "aws_wafv2_web_acl" "${resourceName}" {`);
+  
+  if (props.name) {
+    lines.push(`  name  = ${liftValue(node, resourceName, 'name', props.name, context)}`);
+  }
+  
+  if (props.scope) {
+    lines.push(`  scope = ${liftValue(node, resourceName, 'scope', props.scope, context)}`);
+  }
+  
+  lines.push('');
+  lines.push('  default_action {');
+  if (props.defaultAction === 'BLOCK') {
+    lines.push('    block {}');
+  } else {
+    lines.push('    allow {}');
+  }
+  lines.push('  }');
+  
+  lines.push('');
+  lines.push('  visibility_config {');
+  lines.push('    cloudwatch_metrics_enabled = true');
+  lines.push('    metric_name                = "waf-metric"');
+  lines.push('    sampled_requests_enabled   = true');
+  lines.push('  }');
+  
+  lines.push(...generateWiring(node.id, context));
+  
+  lines.push(...generateTags(node, resourceName));
+  
+  const dependsOn = generateDependsOn(node.id, context);
+  if (dependsOn) {
+    lines.push('');
+    lines.push(dependsOn.trim());
+  }
+  
+  lines.push('}');
+  
+  return lines.join('\n');
+}
+
+export const waf: ResourceDefinition = {
+  id: 'waf',
+  label: 'WAF / Firewall',
+  iconUrl: 'https://icon.icepanel.io/AWS/svg/Security-Identity-Compliance/Firewall-Manager.svg',
+  category: 'security',
+  description: 'AWS Web Application Firewall',
+  color: 'bg-gradient-to-br from-red-500 to-red-600',
+  schema: {
+    fields: [
+      {
+        name: 'name',
+        label: 'WAF Name',
+        type: 'text',
+        defaultValue: '',
+        placeholder: 'my-waf',
+        required: true,
+        description: 'The name of the Web Application Firewall.',
+      },
+      {
+        name: 'scope',
+        label: 'Scope',
+        type: 'select',
+        defaultValue: 'REGIONAL',
+        options: ['REGIONAL', 'CLOUDFRONT'],
+        required: true,
+        description: 'Whether this is for CloudFront or regional resources.',
+      },
+      {
+        name: 'defaultAction',
+        label: 'Default Action',
+        type: 'select',
+        defaultValue: 'ALLOW',
+        options: ['ALLOW', 'BLOCK'],
+        required: true,
+        description: 'The action to perform if none of the rules match.',
+      },
+      tagsField,
+    ],
+    defaultProperties: {
+      name: '',
+      scope: 'REGIONAL',
+      defaultAction: 'ALLOW',
+      tags: {},
+    },
+  },
+  terraformType: 'aws_wafv2_web_acl',
+  outputs: [['id', 'Web ACL ID'], ['arn', 'ARN']],
+  emit: generateWAFBlock,
+  connectsTo: [],
+};
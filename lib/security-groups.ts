@@ -0,0 +1,123 @@
+// Security groups of compute and database nodes, with ingress rules inferred from edges
+import { Node, Edge, ResourceTypeId } from '@/types';
+import { getEdgeKind } from './edge-metadata';
+
+// Resource types that always get a security group of their own. Lambda functions get one
+// only when they reach a database or cache, which places them in its VPC.
+export const SECURED_TYPES: ResourceTypeId[] = ['ec2', 'ecs', 'alb', 'rds', 'elasticache'];
+
+// Ports internet-facing load balancers accept traffic on
+export const LOAD_BALANCER_PORTS = [80, 443];
+
+// Default port of each database and cache engine
+const ENGINE_PORTS: Record<string, number> = {
+  postgres: 5432,
+  mysql: 3306,
+  mariadb: 3306,
+  'oracle-se2': 1521,
+  'sqlserver-ex': 1433,
+  redis: 6379,
+  memcached: 11211,
+};
+
+function getEnginePort(server: Node): number {
+  const { engine } = (server.data.properties || {}) as { engine?: string };
+  return ENGINE_PORTS[engine ?? ''] ?? (server.type === 'elasticache' ? ENGINE_PORTS.redis : ENGINE_PORTS.postgres);
+}
+
+// Ports a client opens on a server by default, keyed "client:server"
+const defaultIngress: Partial<Record<`${ResourceTypeId}:${ResourceTypeId}`, (server: Node) => number[]>> = {
+  'alb:ec2': () => LOAD_BALANCER_PORTS,
+  'alb:ecs': (ecs) => [Number((ecs.data.properties as { containerPort?: number }).containerPort) || 80],
+  'ec2:rds': (rds) => [getEnginePort(rds)],
+  'ecs:rds': (rds) => [getEnginePort(rds)],
+  'lambda:rds': (rds) => [getEnginePort(rds)],
+  'ec2:elasticache': (cache) => [getEnginePort(cache)],
+  'ecs:elasticache': (cache) => [getEnginePort(cache)],
+  'lambda:elasticache': (cache) => [getEnginePort(cache)],
+};
+
+/**
+ * Traffic an edge allows into the security group of one of its nodes
+ */
+export interface IngressRule {
+  edgeId: string;
+  // Node whose security group the traffic comes from
+  client: Node;
+  // Node whose security group accepts it
+  server: Node;
+  // Ports, either set on the edge or inferred from the node types
+  ports: number[];
+  // Whether the ports were set on the edge
+  custom: boolean;
+  protocol: 'tcp' | 'udp';
+  // Whether the server may also open connections to the client on the same ports
+  twoWay: boolean;
+  // Label of the edge, if any
+  label?: string;
+}
+
+/**
+ * Returns the ports an edge between two nodes opens by default, in either direction
+ * @returns The client, server and ports, or null if the edge carries no network traffic
+ */
+export function getDefaultIngress(a: Node, b: Node): { client: Node; server: Node; ports: number[] } | null {
+  for (const [client, server] of [[a, b], [b, a]]) {
+    const ports = defaultIngress[`${client.type}:${server.type}`]?.(server);
+    if (ports) return { client, server, ports };
+  }
+  return null;
+}
+
+/**
+ * Works out the ingress rule of an edge. Network edges between secured resources that
+ * open no ports by default (e.g. instance to instance) let in the ports set on them.
+ * @param edge - The edge
+ * @param nodes - Nodes on the canvas
+ * @returns The rule, or null if the edge carries no network traffic
+ */
+export function getIngressRule(edge: Edge, nodes: Node[]): IngressRule | null {
+  const source = nodes.find((node) => node.id === edge.source);
+  const target = nodes.find((node) => node.id === edge.target);
+  if (!source || !target || source.id === target.id || getEdgeKind(edge, nodes) !== 'network') return null;
+
+  const custom = Array.isArray(edge.data?.ports);
+  const ingress = getDefaultIngress(source, target) ??
+    (custom && SECURED_TYPES.includes(source.type) && SECURED_TYPES.includes(target.type)
+      ? { client: source, server: target, ports: [] }
+      : null);
+  if (!ingress) return null;
+
+  return {
+    edgeId: edge.id,
+    ...ingress,
+    ports: custom ? edge.data!.ports! : ingress.ports,
+    custom,
+    protocol: edge.data?.protocol === 'udp' ? 'udp' : 'tcp',
+    twoWay: edge.data?.direction === 'two-way',
+    label: edge.data?.label || undefined,
+  };
+}
+
+/**
+ * Works out the ingress rules of every edge that carries network traffic
+ */
+export function getIngressRules(nodes: Node[], edges: Edge[]): IngressRule[] {
+  return edges
+    .map((edge) => getIngressRule(edge, nodes))
+    .filter((rule): rule is IngressRule => rule !== null);
+}
+
+/**
+ * Parses a comma or space separated list of ports, dropping anything that is not a port number
+ * @param text - e.g. "80, 443"
+ * @returns Distinct ports in the order given
+ */
+export function parsePorts(text: string): number[] {
+  const ports = text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((port) => Number.isInteger(port) && port > 0 && port <= 65535);
+  return [...new Set(ports)];
+}
@@ -0,0 +1,104 @@
+// Keeps sensitive property values (e.g. database passwords) out of AI prompts and API requests
+import { ResourceTypeId } from '@/types';
+import { getResourceSchema } from './resource-schemas';
+import { parseHCL } from './hcl-parser';
+
+// Anything shaped like a canvas node (nodes, and the node payloads sent to the API routes)
+type NodeLike = { type?: string; data?: { properties?: object } };
+
+/**
+ * Returns the names of the sensitive fields of a resource type
+ * @param type - The resource type
+ * @returns Field names (empty for unknown types)
+ */
+export function getSensitiveFields(type: ResourceTypeId): string[] {
+  const schema = getResourceSchema(type);
+  return schema ? schema.fields.filter((field) => field.sensitive).map((field) => field.name) : [];
+}
+
+/**
+ * Removes the sensitive values from a resource's properties
+ * @param type - The resource type
+ * @param properties - The properties to redact
+ * @returns A copy without the sensitive fields (the input itself if there are none)
+ */
+export function redactProperties<T extends Record<string, unknown>>(type: ResourceTypeId, properties: T): T {
+  const sensitive = getSensitiveFields(type);
+  if (!properties || sensitive.length === 0) {
+    return properties;
+  }
+
+  const redacted: Record<string, unknown> = { ...properties };
+  for (const name of sensitive) {
+    delete redacted[name];
+  }
+  return redacted as T;
+}
+
+/**
+ * Removes the sensitive property values from a node before it leaves the canvas
+ * @param node - A node or any object with a type and node data
+ * @returns A copy of the node with redacted properties
+ */
+export function redactNode<T extends NodeLike>(node: T): T {
+  if (!node?.type || !node.data?.properties) {
+    return node;
+  }
+  const properties = redactProperties(node.type, node.data.properties as Record<string, unknown>);
+  return { ...node, data: { ...node.data, properties } };
+}
+
+/**
+ * Removes the sensitive property values from every node
+ */
+export function redactNodes<T extends NodeLike>(nodes: T[]): T[] {
+  return Array.isArray(nodes) ? nodes.map(redactNode) : nodes;
+}
+
+// Stands in for sensitive values in a terraform.tfvars sent to the refiner
+const MASKED_VALUE = '"(sensitive)"';
+
+// An assignment line of terraform.tfvars: the name and equals sign, then the value
+const TFVARS_ASSIGNMENT = /^(\s*([A-Za-z_][\w-]*)\s*=\s*)(.*)$/gm;
+
+/**
+ * Reads the names of the variables declared sensitive in variables.tf
+ * @returns Variable names, or null if the file cannot be parsed
+ */
+function readSensitiveVariables(variablesFile: string): Set<string> | null {
+  try {
+    return new Set(
+      parseHCL(variablesFile)
+        .filter((block) => block.type === 'variable' && block.labels.length === 1 && block.attributes.sensitive === true)
+        .map((block) => block.labels[0])
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replaces the values of sensitive variables in terraform.tfvars with a placeholder
+ * @param tfvars - Content of terraform.tfvars
+ * @param variablesFile - Content of variables.tf; if it cannot be parsed, every value is masked
+ * @returns The masked content
+ */
+export function maskTfvars(tfvars: string, variablesFile: string): string {
+  const sensitive = readSensitiveVariables(variablesFile);
+  return tfvars.replace(TFVARS_ASSIGNMENT, (line, assignment: string, name: string) =>
+    !sensitive || sensitive.has(name) ? `${assignment}${MASKED_VALUE}` : line
+  );
+}
+
+/**
+ * Puts the values masked by maskTfvars back into a terraform.tfvars
+ * @param tfvars - Content with placeholders (e.g. as returned by the refiner)
+ * @param original - Content before masking
+ * @returns The content with the original values in place of the placeholders
+ */
+export function unmaskTfvars(tfvars: string, original: string): string {
+  const values = new Map([...original.matchAll(TFVARS_ASSIGNMENT)].map(([, , name, value]) => [name, value]));
+  return tfvars.replace(TFVARS_ASSIGNMENT, (line, assignment: string, name: string, value: string) =>
+    value.trim() === MASKED_VALUE && values.has(name) ? `${assignment}${values.get(name)}` : line
+  );
+}
@@ -0,0 +1,167 @@
+// Server-sent events: streaming route responses and reading them back on the client
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export class StreamRequestError extends Error {
+  status: number;
+  // Text received before the stream failed (e.g. on a timeout)
+  partial: string;
+
+  constructor(message: string, status: number, partial: string = '') {
+    super(message);
+    this.name = 'StreamRequestError';
+    this.status = status;
+    this.partial = partial;
+  }
+}
+
+/**
+ * Whether a request asked for a text/event-stream response
+ */
+export function acceptsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Formats one server-sent event with a JSON payload
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Creates a text/event-stream response whose events are written by a callback
+ * @param write - Sends events; the stream closes when the returned promise settles
+ * @returns The streaming response
+ */
+export function createEventStreamResponse(
+  write: (send: (event: string, data: unknown) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  // Cleared when the client disconnects, so late events are dropped
+  let open = true;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (open) controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+
+      try {
+        await write(send);
+      } finally {
+        if (open) controller.close();
+        open = false;
+      }
+    },
+    cancel() {
+      open = false;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Reads a byte stream as lines, handling lines split across chunks
+ */
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parses a text/event-stream body into events. Events without an "event:" field
+ * are reported as "message", as in the EventSource API.
+ */
+export async function* parseServerSentEvents(stream: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  let event = 'message';
+  let data: string[] = [];
+
+  for await (const line of readLines(stream)) {
+    if (line === '') {
+      if (data.length > 0) yield { event, data: data.join('\n') };
+      event = 'message';
+      data = [];
+    } else if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (data.length > 0) yield { event, data: data.join('\n') };
+}
+
+/**
+ * Posts JSON to a streaming AI route and reads its events. Routes send "token"
+ * events as text is generated, then end with "done" (the validated result) or
+ * "error" (with the text generated so far).
+ * @param url - Route to call
+ * @param body - JSON request body
+ * @param options - Abort signal and a callback for each token
+ * @returns The route's final result
+ * @throws StreamRequestError if the route reports an error, with any partial output
+ */
+export async function fetchEventStream<T>(
+  url: string,
+  body: unknown,
+  options: { signal?: AbortSignal; onToken?: (text: string) => void } = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  // Request validation errors are returned as plain JSON before streaming starts
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new StreamRequestError(errorData.error || `Request failed (HTTP ${response.status})`, response.status);
+  }
+
+  let partial = '';
+  for await (const { event, data } of parseServerSentEvents(response.body)) {
+    const payload = JSON.parse(data);
+    if (event === 'token') {
+      partial += payload.text;
+      options.onToken?.(payload.text);
+    } else if (event === 'done') {
+      return payload as T;
+    } else if (event === 'error') {
+      throw new StreamRequestError(payload.error, payload.status, payload.partial ?? partial);
+    }
+  }
+
+  throw new StreamRequestError('The response ended unexpectedly', 502, partial);
+}
@@ -0,0 +1,327 @@
+// Shared helpers for the Terraform block emitters of resource definitions
+import { Node, Edge } from '@/types';
+import { ConnectionPlan } from '@/lib/connection-semantics';
+
+/**
+ * State shared by the block emitters during one generation run
+ */
+export interface GeneratorContext {
+  nodes: Node[];
+  edges: Edge[];
+  // Edges not already expressed through an attribute reference (emitted as depends_on)
+  dependencyEdges: Edge[];
+  plan: ConnectionPlan;
+  // Unique resource name and address of each node's resource block by node id
+  // (nodes without a resource are left out)
+  names: Map<string, string>;
+  addresses: Map<string, string>;
+  // Variables lifted from user-editable properties (module output only)
+  variables: Map<string, ModuleVariable> | null;
+}
+
+export type VariableValue = string | number | boolean | string[];
+
+export interface ModuleVariable {
+  name: string;
+  description: string;
+  type: 'string' | 'number' | 'bool' | 'list(string)';
+  // Sensitive variables get no default; their value (if any) only goes to terraform.tfvars
+  defaultValue?: VariableValue;
+  sensitive?: boolean;
+}
+
+// Cache for sanitized resource names to avoid repeated computation
+const sanitizedNameCache = new Map<string, string>();
+
+// Cache for dependency lookups
+const dependencyCache = new Map<string, string[]>();
+
+/**
+ * Clears all caches (useful for testing or when memory optimization is needed)
+ */
+export function clearEmitterCaches(): void {
+  sanitizedNameCache.clear();
+  dependencyCache.clear();
+}
+
+/**
+ * Clears the dependency cache at the start of a generation run
+ */
+export function clearDependencyCache(): void {
+  dependencyCache.clear();
+}
+
+/**
+ * Sanitizes a resource name to be valid in Terraform
+ * Uses caching to avoid repeated computation for the same names
+ * @param name - The original name
+ * @returns Sanitized name (alphanumeric and underscores only)
+ */
+export function sanitizeResourceName(name: string): string {
+  // Check cache first
+  const cached = sanitizedNameCache.get(name);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const sanitized = name
+    .toLowerCase()
+    .replace(/[^a-z0-9_]/g, '_')
+    .replace(/^[0-9]/, '_')
+    .replace(/_+/g, '_');
+
+  // If sanitization results in empty string, return a placeholder
+  const result = sanitized || 'resource';
+
+  // Cache the result
+  sanitizedNameCache.set(name, result);
+
+  return result;
+}
+
+/**
+ * Escapes special characters in HCL strings
+ * @param str - The string to escape
+ * @returns Escaped string safe for HCL
+ */
+export function escapeHCLString(str: string): string {
+  return str
+    .replace(/\\/g, '\\\\')  // Escape backslashes
+    .replace(/"/g, '\\"')     // Escape double quotes
+    .replace(/\n/g, '\\n')    // Escape newlines
+    .replace(/\r/g, '\\r')    // Escape carriage returns
+    .replace(/\t/g, '\\t');   // Escape tabs
+}
+
+/**
+ * Formats a literal value as HCL
+ * @param value - String, number, boolean or list of strings
+ * @returns HCL literal
+ */
+export function formatHCLValue(value: VariableValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => `"${escapeHCLString(item)}"`).join(', ')}]`;
+  }
+  return typeof value === 'string' ? `"${escapeHCLString(value)}"` : String(value);
+}
+
+/**
+ * Formats a map key, quoting keys that are not identifiers (e.g. "aws:cost-center")
+ */
+function formatHCLKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) ? key : `"${escapeHCLString(key)}"`;
+}
+
+/**
+ * Formats a map attribute with its keys aligned
+ * @param name - Attribute name
+ * @param entries - Keys and HCL expressions, in order
+ * @param indent - Indentation of the attribute
+ * @returns Lines of the attribute, none for an empty map
+ */
+export function formatHCLMap(name: string, entries: Array<[string, string]>, indent = '  '): string[] {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const keys = entries.map(([key]) => formatHCLKey(key));
+  const width = Math.max(...keys.map((key) => key.length));
+  return [
+    `${indent}${name} = {`,
+    ...entries.map(([, expression], index) => `${indent}  ${keys[index].padEnd(width)} = ${expression}`),
+    `${indent}}`,
+  ];
+}
+
+/**
+ * Formats a nested block with its attributes aligned
+ * @param type - Block type (e.g. "attribute")
+ * @param attributes - Attribute names and HCL expressions; undefined ones are left out
+ * @param indent - Indentation of the block
+ * @returns Lines of the block
+ */
+export function formatHCLBlock(type: string, attributes: Array<[string, string | undefined]>, indent = '  '): string[] {
+  const set = attributes.filter((entry): entry is [string, string] => entry[1] !== undefined);
+  const width = Math.max(0, ...set.map(([name]) => name.length));
+  return [
+    `${indent}${type} {`,
+    ...set.map(([name, expression]) => `${indent}  ${name.padEnd(width)} = ${expression}`),
+    `${indent}}`,
+  ];
+}
+
+/**
+ * Reads a map property, skipping entries without a key
+ * @param value - Property value (an object of strings when set from the editor)
+ * @returns Keys and values, in order
+ */
+export function readMapProperty(value: unknown): Array<[string, string]> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [];
+  }
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([key, item]) => key.trim() !== '' && item !== undefined && item !== null)
+    .map(([key, item]) => [key.trim(), String(item)]);
+}
+
+/**
+ * Reads an object list property, skipping items that are not objects
+ */
+export function readObjectListProperty<T extends object>(value: unknown): T[] {
+  return Array.isArray(value) ? value.filter((item): item is T => Boolean(item) && typeof item === 'object') : [];
+}
+
+/**
+ * Generates the tags block of a resource: a Name tag from the node label, then the tags set
+ * on the node (which may replace Name)
+ * @param node - The node
+ * @param resourceName - Terraform name of the node's resource
+ * @returns Lines to append to the resource block
+ */
+export function generateTags(node: Node, resourceName: string): string[] {
+  const tags = new Map<string, string>([['Name', `"${escapeHCLString(node.data.label || resourceName)}"`]]);
+  const { tags: userTags } = (node.data.properties ?? {}) as { tags?: unknown };
+  for (const [key, value] of readMapProperty(userTags)) {
+    tags.set(key, `"${escapeHCLString(value)}"`);
+  }
+  return ['', ...formatHCLMap('tags', [...tags])];
+}
+
+/**
+ * Returns the expression for a user-editable attribute. Single-file output inlines the
+ * value; module output lifts it into a variable whose default is the current value.
+ * @param node - The node the attribute belongs to
+ * @param resourceName - Terraform name of the node's resource
+ * @param attribute - Terraform attribute name
+ * @param value - Current property value
+ * @param context - Generation context
+ * @returns HCL literal or variable reference
+ */
+export function liftValue(
+  node: Node,
+  resourceName: string,
+  attribute: string,
+  value: VariableValue,
+  context: GeneratorContext
+): string {
+  if (!context.variables) {
+    return formatHCLValue(value);
+  }
+
+  const name = `${resourceName}_${attribute}`;
+  context.variables.set(name, {
+    name,
+    description: `${attribute.replace(/_/g, ' ')} of ${node.data.label || resourceName}`,
+    type: Array.isArray(value) ? 'list(string)' : typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'bool' : 'string',
+    defaultValue: value,
+  });
+  return `var.${name}`;
+}
+
+/**
+ * Adds the ".fifo" suffix FIFO queue and topic names must end with
+ */
+export function withFifoSuffix(name: string, fifo: boolean | undefined): string {
+  return fifo && !name.endsWith('.fifo') ? `${name}.fifo` : name;
+}
+
+/**
+ * Finds dependencies for a given node based on edges
+ * Uses caching to avoid repeated lookups
+ * @param nodeId - The node ID to find dependencies for
+ * @param edges - All edges in the canvas
+ * @returns Array of node IDs that this node depends on
+ */
+function findDependencies(nodeId: string, edges: Edge[]): string[] {
+  // Check cache first
+  const cached = dependencyCache.get(nodeId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const dependencies = edges
+    .filter(edge => edge.target === nodeId)
+    .map(edge => edge.source);
+
+  // Cache the result
+  dependencyCache.set(nodeId, dependencies);
+
+  return dependencies;
+}
+
+/**
+ * Generates depends_on block if there are dependencies
+ * Edges wired through attribute references are left out since Terraform infers those
+ * @param nodeId - The node ID
+ * @param context - Generation context with nodes and dependency edges
+ * @param required - Addresses the resource always depends on (e.g. its IAM policy attachments)
+ * @returns depends_on block string or empty string
+ */
+export function generateDependsOn(nodeId: string, context: GeneratorContext, required: string[] = []): string {
+  const dependencies = findDependencies(nodeId, context.dependencyEdges);
+
+  if (dependencies.length === 0 && required.length === 0) {
+    return '';
+  }
+
+  // Availability zones are only a grouping on the canvas and have no resource to depend on
+  const dependencyRefs = dependencies
+    .map(depId => context.addresses.get(depId))
+    .filter((address): address is string => Boolean(address));
+  dependencyRefs.unshift(...required);
+
+  if (dependencyRefs.length === 0) {
+    return '';
+  }
+
+  return `  depends_on = [${dependencyRefs.join(', ')}]\n`;
+}
+
+/**
+ * Generates the attributes and environment variables that connections add to a resource
+ * @param nodeId - The node ID
+ * @param context - Generation context with the connection plan
+ * @param nested - Attributes the caller emits inside a nested block instead
+ * @param variables - Environment variables set on the node; connections override them
+ * @returns Lines to insert into the resource block (empty if nothing is wired)
+ */
+export function generateWiring(
+  nodeId: string,
+  context: GeneratorContext,
+  nested: string[] = [],
+  variables: Array<[string, string]> = []
+): string[] {
+  const attributes = Object.entries(context.plan.attributes.get(nodeId) ?? {}).filter(
+    ([name]) => !nested.includes(name)
+  );
+  const wired = context.plan.environment.get(nodeId) ?? {};
+  const environment: Array<[string, string]> = [
+    ...variables
+      .filter(([name]) => !(name in wired))
+      .map(([name, value]): [string, string] => [name, `"${escapeHCLString(value)}"`]),
+    ...Object.entries(wired),
+  ];
+  const lines: string[] = [];
+
+  if (attributes.length > 0) {
+    const width = Math.max(...attributes.map(([name]) => name.length));
+    lines.push('');
+    for (const [name, expression] of attributes) {
+      lines.push(`  ${name.padEnd(width)} = ${expression}`);
+    }
+  }
+
+  if (environment.length > 0) {
+    const width = Math.max(...environment.map(([name]) => name.length));
+    lines.push('');
+    lines.push('  environment {');
+    lines.push('    variables = {');
+    for (const [name, expression] of environment) {
+      lines.push(`      ${name.padEnd(width)} = ${expression}`);
+    }
+    lines.push('    }');
+    lines.push('  }');
+  }
+
+  return lines;
+}
@@ -1,64 +1,58 @@
 // Terraform code generator utility
-import { Node, Edge, EC2Properties, S3Properties, RDSProperties } from '@/types';
-
-// Define property types for new resources
-interface LambdaProperties {
-  functionName?: string;
-  runtime?: string;
-  handler?: string;
-  memory?: number;
-}
-
-interface VPCProperties {
-  cidrBlock?: string;
-  enableDnsHostnames?: boolean;
-  enableDnsSupport?: boolean;
-}
-
-interface ALBProperties {
-  name?: string;
-  scheme?: string;
-  ipAddressType?: string;
-}
-
-interface APIGatewayProperties {
-  name?: string;
-  protocolType?: string;
-  corsEnabled?: boolean;
-}
+import { Node, Edge } from '@/types';
+import { buildConnectionPlan, getSecurityGroupAddress } from '@/lib/connection-semantics';
+import { getResourceDefinition, ProviderRequirement } from '@/lib/resource-registry';
+import { resolveResourceNames } from '@/lib/resource-names';
+import {
+  GeneratorContext,
+  ModuleVariable,
+  VariableValue,
+  clearEmitterCaches,
+  clearDependencyCache,
+  sanitizeResourceName,
+  escapeHCLString,
+  formatHCLValue,
+} from '@/lib/terraform-emitter';
 
-interface DynamoDBProperties {
-  tableName?: string;
-  billingMode?: string;
-  hashKey?: string;
+/**
+ * A file of a generated Terraform module
+ */
+export interface TerraformFile {
+  path: string;
+  content: string;
 }
 
-interface WAFProperties {
-  name?: string;
-  scope?: string;
-  defaultAction?: string;
+export interface TerraformModuleOptions {
+  // Default for the aws_region variable
+  region?: string;
+  // Also write a terraform.tfvars with the current values
+  includeTfvars?: boolean;
 }
 
-// Cache for sanitized resource names to avoid repeated computation
-const sanitizedNameCache = new Map<string, string>();
-
-// Cache for dependency lookups
-const dependencyCache = new Map<string, string[]>();
+const DEFAULT_REGION = 'us-east-1';
 
 /**
  * Clears all caches (useful for testing or when memory optimization is needed)
  */
 export function clearGeneratorCaches(): void {
-  sanitizedNameCache.clear();
-  dependencyCache.clear();
+  clearEmitterCaches();
 }
 
 /**
  * Generates the Terraform configuration block with required providers
+ * @param nodes - Nodes on the canvas, used to decide which providers are needed
  * @returns Terraform block as a string
  */
-function generateTerraformBlock(): string {
+function generateTerraformBlock(nodes: Node[]): string {
   const lines: string[] = [];
+  // Providers resource definitions need besides aws (e.g. archive for Lambda packages)
+  const providers = new Map<string, ProviderRequirement>();
+  for (const node of nodes) {
+    if (!node?.type) continue;
+    for (const provider of getResourceDefinition(node.type)?.requiredProviders?.(node) ?? []) {
+      providers.set(provider.name, provider);
+    }
+  }
   
   lines.push('terraform {');
   lines.push('  required_version = ">= 1.5.0"');
@@ -68,12 +62,19 @@ function generateTerraformBlock(): string {
   lines.push('      source  = "hashicorp/aws"');
   lines.push('      version = "~> 5.0"');
   lines.push('    }');
+  for (const provider of providers.values()) {
+    lines.push(`    ${provider.name} = {`);
+    lines.push(`      source  = "${provider.source}"`);
+    lines.push(`      version = "${provider.version}"`);
+    lines.push('    }');
+  }
   lines.push('  }');
   lines.push('}');
   
   return lines.join('\n');
 }
 
+
 /**
  * Generates Terraform HCL code from canvas nodes and edges
  * @param nodes - Array of nodes representing AWS resources
@@ -91,42 +92,23 @@ export function generateTerraform(nodes: Node[], edges: Edge[]): string {
       return '# No resources to generate';
     }
 
-    // Clear caches for fresh generation
-    dependencyCache.clear();
-
     const blocks: string[] = [];
     
     // Add Terraform configuration block
-    blocks.push(generateTerraformBlock());
+    blocks.push(generateTerraformBlock(nodes));
     blocks.push('');
 
-    const resourceBlocks: string[] = [];
-
-    // Generate resource blocks for each node
-    for (const node of nodes) {
-      if (!node || !node.id || !node.type) {
-        console.warn('Skipping invalid node:', node);
-        continue;
-      }
-
-      try {
-        const block = generateResourceBlock(node, edges, nodes);
-        if (block) {
-          resourceBlocks.push(block);
-        }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`Failed to generate block for node ${node.id}:`, errorMessage);
-        // Continue with other nodes instead of failing completely
-      }
-    }
+    const context = createGeneratorContext(nodes, edges, null);
+    const { resourceBlocks, movedBlocks } = generateResourceBlocks(context);
 
     if (resourceBlocks.length === 0) {
       return '# No valid resources to generate';
     }
 
-    // Combine terraform block with resource blocks
+    // Combine terraform block with resource blocks, the resources connections need and renames
     blocks.push(...resourceBlocks);
+    blocks.push(...context.plan.blocks.values());
+    blocks.push(...movedBlocks);
 
     // Combine all blocks with proper spacing
     return blocks.join('\n\n');
@@ -137,561 +119,315 @@ export function generateTerraform(nodes: Node[], edges: Edge[]): string {
 }
 
 /**
- * Generates a single Terraform resource block for a node
- * @param node - The node to generate a resource block for
- * @param edges - All edges to determine dependencies
- * @param nodes - All nodes to resolve dependency names
- * @returns Terraform resource block as a string or empty string for unsupported types
- * @throws Error if node data is invalid
+ * Generates a Terraform module split into the files of a conventional project layout
+ * (main.tf, variables.tf, outputs.tf, providers.tf and optionally terraform.tfvars)
+ * @param nodes - Array of nodes representing AWS resources
+ * @param edges - Array of edges representing dependencies between resources
+ * @param options - Region default and whether to write a terraform.tfvars file
+ * @returns Module files in display order (empty if there is nothing to generate)
+ * @throws Error if code generation fails critically
  */
-function generateResourceBlock(node: Node, edges: Edge[], nodes: Node[]): string {
-  if (!node.data || !node.data.label) {
-    throw new Error(`Node ${node.id} is missing required data`);
-  }
+export function generateTerraformModule(
+  nodes: Node[],
+  edges: Edge[],
+  options: TerraformModuleOptions = {}
+): TerraformFile[] {
+  try {
+    if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+      throw new Error('Invalid input: nodes and edges must be arrays');
+    }
 
-  const resourceName = sanitizeResourceName(node.data.label || node.id);
-  
-  switch (node.type) {
-    case 'ec2':
-      return generateEC2Block(node, resourceName, edges, nodes);
-    case 'lambda':
-      return generateLambdaBlock(node, resourceName, edges, nodes);
-    case 'vpc':
-      return generateVPCBlock(node, resourceName, edges, nodes);
-    case 'alb':
-      return generateALBBlock(node, resourceName, edges, nodes);
-    case 'apigateway':
-      return generateAPIGatewayBlock(node, resourceName, edges, nodes);
-    case 's3':
-      return generateS3Block(node, resourceName, edges, nodes);
-    case 'rds':
-      return generateRDSBlock(node, resourceName, edges, nodes);
-    case 'dynamodb':
-      return generateDynamoDBBlock(node, resourceName, edges, nodes);
-    case 'waf':
-      return generateWAFBlock(node, resourceName, edges, nodes);
-    default:
-      // Return empty string for unknown types to maintain backward compatibility
-      return '';
-  }
-}
+    const variables = new Map<string, ModuleVariable>();
+    variables.set('aws_region', {
+      name: 'aws_region',
+      description: 'AWS region to deploy into',
+      type: 'string',
+      defaultValue: options.region || DEFAULT_REGION,
+    });
 
-/**
- * Sanitizes a resource name to be valid in Terraform
- * Uses caching to avoid repeated computation for the same names
- * @param name - The original name
- * @returns Sanitized name (alphanumeric and underscores only)
- */
-function sanitizeResourceName(name: string): string {
-  // Check cache first
-  const cached = sanitizedNameCache.get(name);
-  if (cached !== undefined) {
-    return cached;
-  }
+    const context = createGeneratorContext(nodes, edges, variables);
+    const { resourceBlocks, movedBlocks } = generateResourceBlocks(context);
 
-  const sanitized = name
-    .toLowerCase()
-    .replace(/[^a-z0-9_]/g, '_')
-    .replace(/^[0-9]/, '_')
-    .replace(/_+/g, '_');
+    if (resourceBlocks.length === 0) {
+      return [];
+    }
 
-  // If sanitization results in empty string, return a placeholder
-  const result = sanitized || 'resource';
-  
-  // Cache the result
-  sanitizedNameCache.set(name, result);
-  
-  return result;
+    const main = [...resourceBlocks, ...context.plan.blocks.values(), ...movedBlocks];
+    const files: TerraformFile[] = [
+      { path: 'main.tf', content: main.join('\n\n') + '\n' },
+      { path: 'variables.tf', content: generateVariablesFile(variables) },
+      { path: 'outputs.tf', content: generateOutputsFile(context) },
+      { path: 'providers.tf', content: `${generateTerraformBlock(nodes)}\n\nprovider "aws" {\n  region = var.aws_region\n}\n` },
+    ];
+
+    if (options.includeTfvars) {
+      files.push({ path: 'terraform.tfvars', content: generateTfvarsFile(variables) });
+    }
+
+    return files;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Terraform generation failed: ${errorMessage}`);
+  }
 }
 
 /**
- * Escapes special characters in HCL strings
- * @param str - The string to escape
- * @returns Escaped string safe for HCL
+ * Generates the HCL each node contributes to main.tf in module mode: its resource block
+ * and the blocks emitted with it (e.g. a Lambda function's role and package), without the
+ * blocks its connections add
+ * @param nodes - Array of nodes representing AWS resources
+ * @param edges - Array of edges between them
+ * @returns HCL by node id (nodes that generate nothing are left out)
  */
-function escapeHCLString(str: string): string {
-  return str
-    .replace(/\\/g, '\\\\')  // Escape backslashes
-    .replace(/"/g, '\\"')     // Escape double quotes
-    .replace(/\n/g, '\\n')    // Escape newlines
-    .replace(/\r/g, '\\r')    // Escape carriage returns
-    .replace(/\t/g, '\\t');   // Escape tabs
+export function generateNodeBlocks(nodes: Node[], edges: Edge[]): Map<string, string> {
+  const context = createGeneratorContext(nodes, edges, new Map());
+  return generateResourceBlocks(context).nodeBlocks;
 }
 
 /**
- * Finds dependencies for a given node based on edges
- * Uses caching to avoid repeated lookups
- * @param nodeId - The node ID to find dependencies for
- * @param edges - All edges in the canvas
- * @returns Array of node IDs that this node depends on
+ * Plans connections and sets up the state shared by the block emitters
+ * @param nodes - Array of nodes representing AWS resources
+ * @param edges - Array of edges between them
+ * @param variables - Collects lifted properties in module mode, null to inline values
+ * @returns Context for one generation run
  */
-function findDependencies(nodeId: string, edges: Edge[]): string[] {
-  // Check cache first
-  const cached = dependencyCache.get(nodeId);
-  if (cached !== undefined) {
-    return cached;
-  }
-
-  const dependencies = edges
-    .filter(edge => edge.target === nodeId)
-    .map(edge => edge.source);
-  
-  // Cache the result
-  dependencyCache.set(nodeId, dependencies);
-  
-  return dependencies;
+function createGeneratorContext(
+  nodes: Node[],
+  edges: Edge[],
+  variables: Map<string, ModuleVariable> | null
+): GeneratorContext {
+  // Clear caches for fresh generation
+  clearDependencyCache();
+
+  const names = resolveResourceNames(nodes);
+  const addresses = getAddresses(nodes, names);
+
+  // Work out what each edge wires up (references, supporting resources)
+  const plan = buildConnectionPlan({
+    nodes,
+    edges,
+    resolve: (node) => {
+      const name = names.get(node.id) ?? sanitizeResourceName(node.data.label || node.id);
+      return { node, name, address: `${getTerraformResourceType(node.type)}.${name}` };
+    },
+  });
+
+  return {
+    nodes,
+    edges,
+    dependencyEdges: edges.filter(edge => !plan.wiredEdges.has(edge.id)),
+    plan,
+    names,
+    addresses,
+    variables,
+  };
 }
 
 /**
- * Generates depends_on block if there are dependencies
- * @param nodeId - The node ID
- * @param edges - All edges
- * @param nodes - All nodes to get resource names
- * @returns depends_on block string or empty string
+ * Generates the resource blocks for every valid node, skipping nodes that fail
+ * @param context - Generation context
+ * @returns Resource blocks in node order, the same blocks by node id, and moved blocks for renamed nodes
  */
-function generateDependsOn(nodeId: string, edges: Edge[], nodes: Node[]): string {
-  const dependencies = findDependencies(nodeId, edges);
-  
-  if (dependencies.length === 0) {
-    return '';
-  }
+function generateResourceBlocks(context: GeneratorContext): {
+  resourceBlocks: string[];
+  nodeBlocks: Map<string, string>;
+  movedBlocks: string[];
+} {
+  const resourceBlocks: string[] = [];
+  const nodeBlocks = new Map<string, string>();
+  const movedBlocks: string[] = [];
+
+  for (const node of context.nodes) {
+    if (!node || !node.id || !node.type) {
+      console.warn('Skipping invalid node:', node);
+      continue;
+    }
 
-  const dependencyRefs = dependencies.map(depId => {
-    const depNode = nodes.find(n => n.id === depId);
-    if (!depNode) return null;
-    
-    const depResourceName = sanitizeResourceName(depNode.data.label || depNode.id);
-    // Map node type to actual Terraform resource type
-    const terraformType = depNode.type === 'ec2' ? 'aws_instance' 
-                        : depNode.type === 'lambda' ? 'aws_lambda_function'
-                        : depNode.type === 'vpc' ? 'aws_vpc'
-                        : depNode.type === 'alb' ? 'aws_lb'
-                        : depNode.type === 'apigateway' ? 'aws_apigatewayv2_api'
-                        : depNode.type === 's3' ? 'aws_s3_bucket'
-                        : depNode.type === 'rds' ? 'aws_db_instance'
-                        : depNode.type === 'dynamodb' ? 'aws_dynamodb_table'
-                        : depNode.type === 'waf' ? 'aws_wafv2_web_acl'
-                        : 'aws_resource';
-    return `${terraformType}.${depResourceName}`;
-  }).filter(Boolean);
-
-  if (dependencyRefs.length === 0) {
-    return '';
+    try {
+      const block = generateResourceBlock(node, context);
+      if (block) {
+        resourceBlocks.push(block);
+        nodeBlocks.set(node.id, block);
+        // The node's security group is planned with the connections but moves with the node
+        const securityGroup = context.plan.blocks.get(getSecurityGroupAddress(context.names.get(node.id) ?? ''));
+        movedBlocks.push(...generateMovedBlocks(node, securityGroup ? `${block}\n\n${securityGroup}` : block, context));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to generate block for node ${node.id}:`, errorMessage);
+      // Continue with other nodes instead of failing completely
+    }
   }
 
-  return `  depends_on = [${dependencyRefs.join(', ')}]\n`;
+  return { resourceBlocks, nodeBlocks, movedBlocks };
 }
 
 /**
- * Generates Terraform block for EC2 instance
+ * Generates moved blocks for a renamed node, so Terraform moves the existing state to the
+ * new addresses instead of destroying and recreating it. Resources emitted alongside the
+ * node's own (e.g. a Lambda function's role) are named after it, so they move with it.
+ * @param node - The node
+ * @param block - The HCL generated for the node
+ * @param context - Generation context with the node's current name
+ * @returns One moved block per rename and resource, oldest rename first
  */
-function generateEC2Block(node: Node, resourceName: string, edges: Edge[], nodes: Node[]): string {
-  const props = node.data.properties as EC2Properties;
-  
-  const lines: string[] = [];
-  lines.push(`resource "aws_instance" "${resourceName}" {`);
-  
-  // Add properties with proper alignment
-  if (props.ami) {
-    lines.push(`  ami           = "${escapeHCLString(props.ami)}"`);
-  }
-  
-  if (props.instanceType) {
-    lines.push(`  instance_type = "${escapeHCLString(props.instanceType)}"`);
-  }
-  
-  if (props.keyName) {
-    lines.push(`  key_name      = "${escapeHCLString(props.keyName)}"`);
-  }
-  
-  if (props.securityGroups && Array.isArray(props.securityGroups) && props.securityGroups.length > 0) {
-    const sgList = props.securityGroups.map((sg: string) => `"${escapeHCLString(sg)}"`).join(', ');
-    lines.push(`  security_groups = [${sgList}]`);
-  }
-  
-  // Add tags block
-  lines.push('');
-  lines.push('  tags = {');
-  lines.push(`    Name = "${escapeHCLString(node.data.label || resourceName)}"`);
-  lines.push('  }');
-  
-  // Add depends_on if there are dependencies
-  const dependsOn = generateDependsOn(node.id, edges, nodes);
-  if (dependsOn) {
-    lines.push('');
-    lines.push(dependsOn.trim());
+function generateMovedBlocks(node: Node, block: string, context: GeneratorContext): string[] {
+  const name = context.names.get(node.id);
+  const movedFrom = node.data.movedFrom;
+  if (!name || !Array.isArray(movedFrom) || movedFrom.length === 0) {
+    return [];
+  }
+
+  const chain = [...movedFrom, name];
+  const blocks: string[] = [];
+  for (const [, resourceType, resourceName] of block.matchAll(/^resource "([\w-]+)" "([\w-]+)"/gm)) {
+    if (resourceName !== name && !resourceName.startsWith(`${name}_`)) continue;
+    const suffix = resourceName.slice(name.length);
+
+    for (let index = 0; index < chain.length - 1; index++) {
+      blocks.push([
+        'moved {',
+        `  from = ${resourceType}.${chain[index]}${suffix}`,
+        `  to   = ${resourceType}.${chain[index + 1]}${suffix}`,
+        '}',
+      ].join('\n'));
+    }
   }
-  
-  lines.push('}');
-  
-  return lines.join('\n');
+
+  return blocks;
 }
 
 /**
- * Generates Terraform block for S3 bucket
+ * Generates variables.tf
  */
-function generateS3Block(node: Node, resourceName: string, edges: Edge[], nodes: Node[]): string {
-  const props = node.data.properties as S3Properties;
-  
-  const lines: string[] = [];
-  lines.push(`resource "aws_s3_bucket" "${resourceName}" {`);
-  
-  if (props.bucketName) {
-    lines.push(`  bucket = "${escapeHCLString(props.bucketName)}"`);
-  }
-  
-  // Add tags block
-  lines.push('');
-  lines.push('  tags = {');
-  lines.push(`    Name = "${escapeHCLString(node.data.label || resourceName)}"`);
-  lines.push('  }');
-  
-  // Add depends_on if there are dependencies
-  const dependsOn = generateDependsOn(node.id, edges, nodes);
-  if (dependsOn) {
-    lines.push('');
-    lines.push(dependsOn.trim());
-  }
-  
-  lines.push('}');
-  
-  let block = lines.join('\n');
-  
-  // Add versioning configuration if enabled
-  if (props.versioning) {
-    const versioningLines: string[] = [];
-    versioningLines.push('');
-    versioningLines.push('');
-    versioningLines.push(`resource "aws_s3_bucket_versioning" "${resourceName}_versioning" {`);
-    versioningLines.push(`  bucket = aws_s3_bucket.${resourceName}.id`);
-    versioningLines.push('');
-    versioningLines.push('  versioning_configuration {');
-    versioningLines.push('    status = "Enabled"');
-    versioningLines.push('  }');
-    versioningLines.push('}');
-    block += versioningLines.join('\n');
-  }
-  
-  // Add encryption configuration if enabled
-  if (props.encryption) {
-    const encryptionLines: string[] = [];
-    encryptionLines.push('');
-    encryptionLines.push('');
-    encryptionLines.push(`resource "aws_s3_bucket_server_side_encryption_configuration" "${resourceName}_encryption" {`);
-    encryptionLines.push(`  bucket = aws_s3_bucket.${resourceName}.id`);
-    encryptionLines.push('');
-    encryptionLines.push('  rule {');
-    encryptionLines.push('    apply_server_side_encryption_by_default {');
-    encryptionLines.push('      sse_algorithm = "AES256"');
-    encryptionLines.push('    }');
-    encryptionLines.push('  }');
-    encryptionLines.push('}');
-    block += encryptionLines.join('\n');
-  }
-  
-  return block;
+function generateVariablesFile(variables: Map<string, ModuleVariable>): string {
+  const blocks = [...variables.values()].map(variable => {
+    const lines = [
+      `variable "${variable.name}" {`,
+      `  description = "${escapeHCLString(variable.description)}"`,
+      `  type        = ${variable.type}`,
+    ];
+    if (variable.sensitive) {
+      lines.push('  sensitive   = true');
+    } else if (variable.defaultValue !== undefined) {
+      lines.push(`  default     = ${formatHCLValue(variable.defaultValue)}`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+  });
+
+  return blocks.join('\n\n') + '\n';
 }
 
 /**
- * Generates Terraform block for RDS database
+ * Generates terraform.tfvars with the current value of every variable that has one
  */
-function generateRDSBlock(node: Node, resourceName: string, edges: Edge[], nodes: Node[]): string {
-  const props = node.data.properties as RDSProperties;
-  
-  const lines: string[] = [];
-  lines.push(`resource "aws_db_instance" "${resourceName}" {`);
-  
-  // Add properties with proper alignment
-  if (props.allocatedStorage) {
-    lines.push(`  allocated_storage    = ${props.allocatedStorage}`);
-  }
-  
-  if (props.engine) {
-    lines.push(`  engine               = "${escapeHCLString(props.engine)}"`);
-  }
-  
-  if (props.instanceClass) {
-    lines.push(`  instance_class       = "${escapeHCLString(props.instanceClass)}"`);
-  }
-  
-  if (props.dbName) {
-    lines.push(`  db_name              = "${escapeHCLString(props.dbName)}"`);
-  }
-  
-  lines.push('  username             = "admin"');
-  lines.push('  password             = "changeme123"');
-  lines.push('  skip_final_snapshot  = true');
-  
-  // Add tags block
-  lines.push('');
-  lines.push('  tags = {');
-  lines.push(`    Name = "${escapeHCLString(node.data.label || resourceName)}"`);
-  lines.push('  }');
-  
-  // Add depends_on if there are dependencies
-  const dependsOn = generateDependsOn(node.id, edges, nodes);
-  if (dependsOn) {
-    lines.push('');
-    lines.push(dependsOn.trim());
-  }
-  
-  lines.push('}');
-  
-  return lines.join('\n');
+function generateTfvarsFile(variables: Map<string, ModuleVariable>): string {
+  const entries = [...variables.values()].filter(
+    (variable): variable is ModuleVariable & { defaultValue: VariableValue } => variable.defaultValue !== undefined
+  );
+  const width = Math.max(...entries.map(variable => variable.name.length));
+
+  return entries
+    .map(variable => `${variable.name.padEnd(width)} = ${formatHCLValue(variable.defaultValue)}`)
+    .join('\n') + '\n';
 }
 
 /**
- * Generates Terraform block for Lambda function
+ * Generates outputs.tf with the identifiers and endpoints of each resource
  */
-function generateLambdaBlock(node: Node, resourceName: string, edges: Edge[], nodes: Node[]): string {
-  const props = node.data.properties as LambdaProperties;
-  
-  const lines: string[] = [];
-  lines.push(`resource "aws_lambda_function" "${resourceName}" {`);
-  
-  if (props.functionName) {
-    lines.push(`  function_name = "${escapeHCLString(props.functionName)}"`);
-  }
-  
-  if (props.runtime) {
-    lines.push(`  runtime       = "${escapeHCLString(props.runtime)}"`);
-  }
-  
-  if (props.handler) {
-    lines.push(`  handler       = "${escapeHCLString(props.handler)}"`);
-  }
-  
-  lines.push('  role          = aws_iam_role.lambda_role.arn');
-  lines.push('  filename      = "lambda_function.zip"');
-  
-  if (props.memory) {
-    lines.push(`  memory_size   = ${props.memory}`);
-  }
-  
-  lines.push('');
-  lines.push('  tags = {');
-  lines.push(`    Name = "${escapeHCLString(node.data.label || resourceName)}"`);
-  lines.push('  }');
-  
-  const dependsOn = generateDependsOn(node.id, edges, nodes);
-  if (dependsOn) {
-    lines.push('');
-    lines.push(dependsOn.trim());
+function generateOutputsFile(context: GeneratorContext): string {
+  const blocks: string[] = [];
+
+  for (const node of context.nodes) {
+    const outputs = node?.type ? getResourceDefinition(node.type)?.outputs : undefined;
+    if (!outputs || !node.data?.label) continue;
+
+    const resourceName = context.names.get(node.id);
+    const address = context.addresses.get(node.id);
+    if (!resourceName || !address) continue;
+
+    for (const [attribute, description] of outputs) {
+      blocks.push([
+        `output "${resourceName}_${attribute}" {`,
+        `  description = "${escapeHCLString(`${description} of ${node.data.label}`)}"`,
+        `  value       = ${address}.${attribute}`,
+        '}',
+      ].join('\n'));
+    }
   }
-  
-  lines.push('}');
-  
-  return lines.join('\n');
+
+  return blocks.join('\n\n') + '\n';
 }
 
 /**
- * Generates Terraform block for VPC
+ * Generates a single Terraform resource block for a node
+ * @param node - The node to generate a resource block for
+ * @param context - Nodes, edges and the connection plan for this generation run
+ * @returns Terraform resource block as a string or empty string for unsupported types
+ * @throws Error if node data is invalid
  */
-function generateVPCBlock(node: Node, resourceName: string, edges: Edge[], nodes: Node[]): string {
-  const props = node.data.properties as VPCProperties;
-  
-  const lines: string[] = [];
-  lines.push(`resource "aws_vpc" "${resourceName}" {`);
-  
-  if (props.cidrBlock) {
-    lines.push(`  cidr_block           = "${escapeHCLString(props.cidrBlock)}"`);
-  }
-  
-  if (props.enableDnsHostnames !== undefined) {
-    lines.push(`  enable_dns_hostnames = ${props.enableDnsHostnames}`);
+function generateResourceBlock(node: Node, context: GeneratorContext): string {
+  if (!node.data || !node.data.label) {
+    throw new Error(`Node ${node.id} is missing required data`);
   }
-  
-  if (props.enableDnsSupport !== undefined) {
-    lines.push(`  enable_dns_support   = ${props.enableDnsSupport}`);
+
+  // Refined code the schema cannot express is kept and emitted as written, including the
+  // blocks normally emitted alongside the node's own
+  if (typeof node.data.hclOverride === 'string') {
+    return node.data.hclOverride;
   }
-  
-  lines.push('');
-  lines.push('  tags = {');
-  lines.push(`    Name = "${escapeHCLString(node.data.label || resourceName)}"`);
-  lines.push('  }');
-  
-  const dependsOn = generateDependsOn(node.id, edges, nodes);
-  if (dependsOn) {
-    lines.push('');
-    lines.push(dependsOn.trim());
+
+  // Unknown types and canvas-only groupings generate nothing
+  const emit = getResourceDefinition(node.type)?.emit;
+  if (!emit) {
+    return '';
   }
-  
-  lines.push('}');
-  
-  return lines.join('\n');
+
+  const resourceName = context.names.get(node.id) ?? sanitizeResourceName(node.data.label || node.id);
+  return emit(node, resourceName, context);
 }
 
 /**
- * Generates Terraform block for Application Load Balancer
+ * Maps a node type to its Terraform resource type
+ * @param nodeType - The canvas node type
+ * @returns Terraform resource type (e.g. "aws_instance"), or "aws_resource" for types without one
  */
-function generateALBBlock(node: Node, resourceName: string, edges: Edge[], nodes: Node[]): string {
-  const props = node.data.properties as ALBProperties;
-  
-  const lines: string[] = [];
-  lines.push(`resource "aws_lb" "${resourceName}" {`);
-  
-  if (props.name) {
-    lines.push(`  name               = "${escapeHCLString(props.name)}"`);
-  }
-  
-  lines.push('  load_balancer_type = "application"');
-  
-  if (props.scheme) {
-    lines.push(`  internal           = ${props.scheme === 'internal'}`);
-  }
-  
-  if (props.ipAddressType) {
-    lines.push(`  ip_address_type    = "${escapeHCLString(props.ipAddressType)}"`);
-  }
-  
-  lines.push('  subnets            = []  # Add subnet IDs');
-  
-  lines.push('');
-  lines.push('  tags = {');
-  lines.push(`    Name = "${escapeHCLString(node.data.label || resourceName)}"`);
-  lines.push('  }');
-  
-  const dependsOn = generateDependsOn(node.id, edges, nodes);
-  if (dependsOn) {
-    lines.push('');
-    lines.push(dependsOn.trim());
-  }
-  
-  lines.push('}');
-  
-  return lines.join('\n');
+function getTerraformResourceType(nodeType: string): string {
+  return getResourceDefinition(nodeType)?.terraformType ?? 'aws_resource';
 }
 
 /**
- * Generates Terraform block for API Gateway
+ * Builds the address of each node's resource block from the resolved resource names
  */
-function generateAPIGatewayBlock(node: Node, resourceName: string, edges: Edge[], nodes: Node[]): string {
-  const props = node.data.properties as APIGatewayProperties;
-  
-  const lines: string[] = [];
-  lines.push(`resource "aws_apigatewayv2_api" "${resourceName}" {`);
-  
-  if (props.name) {
-    lines.push(`  name          = "${escapeHCLString(props.name)}"`);
-  }
-  
-  if (props.protocolType) {
-    lines.push(`  protocol_type = "${escapeHCLString(props.protocolType)}"`);
-  }
-  
-  if (props.corsEnabled) {
-    lines.push('');
-    lines.push('  cors_configuration {');
-    lines.push('    allow_origins = ["*"]');
-    lines.push('    allow_methods = ["*"]');
-    lines.push('    allow_headers = ["*"]');
-    lines.push('  }');
-  }
-  
-  lines.push('');
-  lines.push('  tags = {');
-  lines.push(`    Name = "${escapeHCLString(node.data.label || resourceName)}"`);
-  lines.push('  }');
-  
-  const dependsOn = generateDependsOn(node.id, edges, nodes);
-  if (dependsOn) {
-    lines.push('');
-    lines.push(dependsOn.trim());
+function getAddresses(nodes: Node[], names: Map<string, string>): Map<string, string> {
+  const addresses = new Map<string, string>();
+  for (const node of nodes) {
+    const name = node ? names.get(node.id) : undefined;
+    if (name) addresses.set(node.id, `${getTerraformResourceType(node.type)}.${name}`);
   }
-  
-  lines.push('}');
-  
-  return lines.join('\n');
+  return addresses;
 }
 
 /**
- * Generates Terraform block for DynamoDB table
+ * Returns the address of a node's resource block (e.g. "aws_instance.web_server")
+ * from its stored resource name, or its label for nodes that have none yet
+ * @param node - The node
+ * @returns The address, or null for nodes that generate no resource (availability zones)
  */
-function generateDynamoDBBlock(node: Node, resourceName: string, edges: Edge[], nodes: Node[]): string {
-  const props = node.data.properties as DynamoDBProperties;
-  
-  const lines: string[] = [];
-  lines.push(`resource "aws_dynamodb_table" "${resourceName}" {`);
-  
-  if (props.tableName) {
-    lines.push(`  name         = "${escapeHCLString(props.tableName)}"`);
-  }
-  
-  if (props.billingMode) {
-    lines.push(`  billing_mode = "${escapeHCLString(props.billingMode)}"`);
-  }
-  
-  if (props.hashKey) {
-    lines.push(`  hash_key     = "${escapeHCLString(props.hashKey)}"`);
-  }
-  
-  lines.push('');
-  lines.push('  attribute {');
-  lines.push(`    name = "${escapeHCLString(props.hashKey || 'id')}"`);
-  lines.push('    type = "S"');
-  lines.push('  }');
-  
-  lines.push('');
-  lines.push('  tags = {');
-  lines.push(`    Name = "${escapeHCLString(node.data.label || resourceName)}"`);
-  lines.push('  }');
-  
-  const dependsOn = generateDependsOn(node.id, edges, nodes);
-  if (dependsOn) {
-    lines.push('');
-    lines.push(dependsOn.trim());
-  }
-  
-  lines.push('}');
-  
-  return lines.join('\n');
+export function getResourceAddress(node: Node): string | null {
+  const resourceType = getResourceDefinition(node.type)?.terraformType;
+  if (!resourceType) return null;
+  return `${resourceType}.${node.data.resourceName || sanitizeResourceName(node.data.label || node.id)}`;
 }
 
 /**
- * Generates Terraform block for WAF
+ * Returns the addresses the generator gives the resource blocks of a whole diagram,
+ * where nodes without a unique stored name are numbered apart
+ * @param nodes - Nodes on the canvas
+ * @returns Address by node id (nodes that generate no resource are left out)
  */
-function generateWAFBlock(node: Node, resourceName: string, edges: Edge[], nodes: Node[]): string {
-  const props = node.data.properties as WAFProperties;
-  
-  const lines: string[] = [];
-  lines.push(`resource "aws_wafv2_web_acl" "${resourceName}" {`);
-  
-  if (props.name) {
-    lines.push(`  name  = "${escapeHCLString(props.name)}"`);
-  }
-  
-  if (props.scope) {
-    lines.push(`  scope = "${escapeHCLString(props.scope)}"`);
-  }
-  
-  lines.push('');
-  lines.push('  default_action {');
-  if (props.defaultAction === 'BLOCK') {
-    lines.push('    block {}');
-  } else {
-    lines.push('    allow {}');
-  }
-  lines.push('  }');
-  
-  lines.push('');
-  lines.push('  visibility_config {');
-  lines.push('    cloudwatch_metrics_enabled = true');
-  lines.push('    metric_name                = "waf-metric"');
-  lines.push('    sampled_requests_enabled   = true');
-  lines.push('  }');
-  
-  lines.push('');
-  lines.push('  tags = {');
-  lines.push(`    Name = "${escapeHCLString(node.data.label || resourceName)}"`);
-  lines.push('  }');
-  
-  const dependsOn = generateDependsOn(node.id, edges, nodes);
-  if (dependsOn) {
-    lines.push('');
-    lines.push(dependsOn.trim());
-  }
-  
-  lines.push('}');
-  
-  return lines.join('\n');
+export function getResourceAddresses(nodes: Node[]): Map<string, string> {
+  return getAddresses(nodes, resolveResourceNames(nodes));
 }
+
@@ -0,0 +1,803 @@
+// Terraform importer: maps existing HCL resources back onto canvas nodes and edges
+import { Node, Edge, ResourceTypeId } from '@/types';
+import { getResourceSchema, PropertyField } from '@/lib/resource-schemas';
+import {
+  HCLBlock,
+  HCLValue,
+  parseHCL,
+  isHCLExpression,
+  resolveVariables,
+  extractReferences,
+  collectBlockReferences,
+} from '@/lib/hcl-parser';
+import { getConnectionSemantic } from '@/lib/connection-semantics';
+import { validateEdges } from '@/lib/connection-rules';
+
+export type ImportReportStatus = 'imported' | 'merged' | 'skipped' | 'warning';
+
+export interface ImportReportEntry {
+  status: ImportReportStatus;
+  // Resource address (e.g. "aws_instance.web") or block description (e.g. "provider aws")
+  address: string;
+  line: number;
+  message: string;
+  // Schema property a mapping warning refers to
+  property?: string;
+}
+
+export interface TerraformImportResult {
+  nodes: Node[];
+  edges: Edge[];
+  report: ImportReportEntry[];
+  // Node id -> address of the resource block it was imported from
+  addresses: Record<string, string>;
+}
+
+export interface TerraformImportOptions {
+  // Prefix used to build unique node ids (defaults to the current timestamp)
+  idPrefix?: string;
+  // Top-left position of the imported diagram
+  origin?: { x: number; y: number };
+  // Values for `var.<name>` references, e.g. the defaults in a module's variables.tf
+  variables?: Record<string, HCLValue>;
+}
+
+interface ResourceMapping {
+  type: ResourceTypeId;
+  // Terraform attribute name -> schema property name
+  attributes: Record<string, string>;
+  // Extra properties derived from nested blocks or non 1:1 attributes
+  derive?: (block: HCLBlock) => Record<string, HCLValue>;
+  // Attributes read by derive that are not in attributes
+  derivedAttributes?: string[];
+}
+
+// Terraform resource types that become canvas nodes
+const resourceMappings: Record<string, ResourceMapping> = {
+  aws_instance: {
+    type: 'ec2',
+    attributes: {
+      ami: 'ami',
+      instance_type: 'instanceType',
+      key_name: 'keyName',
+      security_groups: 'securityGroups',
+      vpc_security_group_ids: 'securityGroups',
+    },
+  },
+  aws_lambda_function: {
+    type: 'lambda',
+    attributes: {
+      function_name: 'functionName',
+      runtime: 'runtime',
+      handler: 'handler',
+      memory_size: 'memory',
+      s3_bucket: 's3Bucket',
+      s3_key: 's3Key',
+    },
+    derive: (block) => {
+      const variables = block.blocks.find((nested) => nested.type === 'environment')?.attributes.variables;
+      return {
+        sourceType: 's3_bucket' in block.attributes ? 's3' : 'archive',
+        ...(variables ? { environment: variables } : {}),
+      };
+    },
+  },
+  aws_vpc: {
+    type: 'vpc',
+    attributes: {
+      cidr_block: 'cidrBlock',
+      enable_dns_hostnames: 'enableDnsHostnames',
+      enable_dns_support: 'enableDnsSupport',
+    },
+  },
+  aws_lb: {
+    type: 'alb',
+    attributes: {
+      name: 'name',
+      ip_address_type: 'ipAddressType',
+    },
+    derivedAttributes: ['internal'],
+    derive: (block): Record<string, HCLValue> => {
+      const internal = block.attributes.internal;
+      return typeof internal === 'boolean' ? { scheme: internal ? 'internal' : 'internet-facing' } : {};
+    },
+  },
+  aws_apigatewayv2_api: {
+    type: 'apigateway',
+    attributes: {
+      name: 'name',
+      protocol_type: 'protocolType',
+    },
+    derive: (block) => ({ corsEnabled: block.blocks.some((nested) => nested.type === 'cors_configuration') }),
+  },
+  aws_s3_bucket: {
+    type: 's3',
+    attributes: {
+      bucket: 'bucketName',
+    },
+    derive: (block) => {
+      // Only what the configuration declares counts; companion resources may enable these later.
+      // Inline blocks are the form used by AWS provider versions before 4.0
+      const versioning = block.blocks.find((nested) => nested.type === 'versioning');
+      return {
+        versioning: versioning?.attributes.enabled === true,
+        encryption: block.blocks.some((nested) => nested.type === 'server_side_encryption_configuration'),
+      };
+    },
+  },
+  aws_db_instance: {
+    type: 'rds',
+    attributes: {
+      engine: 'engine',
+      instance_class: 'instanceClass',
+      allocated_storage: 'allocatedStorage',
+      db_name: 'dbName',
+      name: 'dbName',
+      username: 'username',
+    },
+    // Credentials default to a password managed by RDS
+    derivedAttributes: ['password', 'manage_master_user_password'],
+    derive: (block): Record<string, HCLValue> => {
+      const password = block.attributes.password;
+      if (password === undefined) return {};
+      // A literal password is moved into the (masked) variable value rather than the HCL
+      if (!isHCLExpression(password)) {
+        return { credentials: 'variable', masterPassword: password };
+      }
+      return { credentials: password.raw.startsWith('random_password.') ? 'random' : 'variable' };
+    },
+  },
+  aws_dynamodb_table: {
+    type: 'dynamodb',
+    attributes: {
+      name: 'tableName',
+      billing_mode: 'billingMode',
+      hash_key: 'hashKey',
+    },
+    derive: (block) => ({
+      attributes: block.blocks
+        .filter((nested) => nested.type === 'attribute')
+        .map((nested) => readNestedBlock(nested, { name: 'name', type: 'type' })),
+      globalSecondaryIndexes: block.blocks
+        .filter((nested) => nested.type === 'global_secondary_index')
+        .map((nested) =>
+          readNestedBlock(nested, { name: 'name', hash_key: 'hashKey', range_key: 'rangeKey', projection_type: 'projectionType' })
+        ),
+    }),
+  },
+  aws_wafv2_web_acl: {
+    type: 'waf',
+    attributes: {
+      name: 'name',
+      scope: 'scope',
+    },
+    derive: (block): Record<string, HCLValue> => {
+      const defaultAction = block.blocks.find((nested) => nested.type === 'default_action');
+      if (!defaultAction) return {};
+      return { defaultAction: defaultAction.blocks.some((nested) => nested.type === 'block') ? 'BLOCK' : 'ALLOW' };
+    },
+  },
+  aws_ecs_service: {
+    type: 'ecs',
+    attributes: {
+      name: 'serviceName',
+      desired_count: 'desiredCount',
+    },
+  },
+  aws_eks_cluster: {
+    type: 'eks',
+    attributes: {
+      name: 'clusterName',
+      version: 'version',
+    },
+    derive: (block): Record<string, HCLValue> => {
+      const publicAccess = block.blocks.find((nested) => nested.type === 'vpc_config')?.attributes.endpoint_public_access;
+      return typeof publicAccess === 'boolean' ? { endpointPublicAccess: publicAccess } : {};
+    },
+  },
+  aws_nat_gateway: {
+    type: 'natgateway',
+    attributes: {
+      connectivity_type: 'connectivityType',
+    },
+  },
+  aws_internet_gateway: {
+    type: 'internetgateway',
+    attributes: {},
+  },
+  aws_security_group: {
+    type: 'securitygroup',
+    attributes: {
+      name: 'name',
+      description: 'description',
+    },
+    derive: (block): Record<string, HCLValue> => {
+      const ingress = block.blocks.filter((nested) => nested.type === 'ingress');
+      const ports = ingress
+        .map((rule) => rule.attributes.from_port)
+        .filter((port): port is number => typeof port === 'number');
+      const derived: Record<string, HCLValue> = { ingressPorts: ports.map(String) };
+      const cidrs = ingress[0]?.attributes.cidr_blocks;
+      if (Array.isArray(cidrs) && typeof cidrs[0] === 'string') {
+        derived.ingressCidr = cidrs[0];
+      }
+      return derived;
+    },
+  },
+  aws_cloudfront_distribution: {
+    type: 'cloudfront',
+    attributes: {
+      price_class: 'priceClass',
+      default_root_object: 'defaultRootObject',
+    },
+    derive: (block): Record<string, HCLValue> => {
+      const domain = block.blocks.find((nested) => nested.type === 'origin')?.attributes.domain_name;
+      return typeof domain === 'string' ? { originDomain: domain } : {};
+    },
+  },
+  aws_route53_zone: {
+    type: 'route53',
+    attributes: {
+      name: 'domainName',
+      comment: 'comment',
+      force_destroy: 'forceDestroy',
+    },
+  },
+  aws_sqs_queue: {
+    type: 'sqs',
+    attributes: {
+      name: 'queueName',
+      fifo_queue: 'fifo',
+      visibility_timeout_seconds: 'visibilityTimeout',
+      message_retention_seconds: 'messageRetention',
+    },
+  },
+  aws_sns_topic: {
+    type: 'sns',
+    attributes: {
+      name: 'topicName',
+      fifo_topic: 'fifo',
+    },
+  },
+  aws_cloudwatch_event_rule: {
+    type: 'eventbridge',
+    attributes: {
+      name: 'name',
+      schedule_expression: 'scheduleExpression',
+      event_pattern: 'eventPattern',
+    },
+  },
+  aws_elasticache_cluster: {
+    type: 'elasticache',
+    attributes: {
+      engine: 'engine',
+      node_type: 'nodeType',
+      num_cache_nodes: 'numCacheNodes',
+    },
+  },
+  aws_cognito_user_pool: {
+    type: 'cognito',
+    attributes: {
+      name: 'poolName',
+      mfa_configuration: 'mfa',
+    },
+    derive: (block): Record<string, HCLValue> => {
+      const minimumLength = block.blocks.find((nested) => nested.type === 'password_policy')?.attributes.minimum_length;
+      return typeof minimumLength === 'number' ? { passwordMinLength: minimumLength } : {};
+    },
+  },
+  aws_secretsmanager_secret: {
+    type: 'secretsmanager',
+    attributes: {
+      name: 'secretName',
+      description: 'description',
+      recovery_window_in_days: 'recoveryWindowDays',
+    },
+  },
+  aws_kms_key: {
+    type: 'kms',
+    attributes: {
+      description: 'description',
+      enable_key_rotation: 'enableKeyRotation',
+      deletion_window_in_days: 'deletionWindowDays',
+    },
+  },
+};
+
+// Legacy alias for aws_lb
+resourceMappings.aws_alb = resourceMappings.aws_lb;
+
+interface SupportingMapping {
+  // Attribute holding the reference to the owning resource
+  ownerAttribute: string;
+  ownerType: string;
+  // Properties to set on the owning node
+  derive: (block: HCLBlock) => Record<string, HCLValue>;
+}
+
+// Companion resources that fold into an existing node's properties instead of becoming nodes
+const supportingMappings: Record<string, SupportingMapping> = {
+  aws_s3_bucket_versioning: {
+    ownerAttribute: 'bucket',
+    ownerType: 'aws_s3_bucket',
+    derive: (block) => {
+      const configuration = block.blocks.find((nested) => nested.type === 'versioning_configuration');
+      return { versioning: configuration?.attributes.status === 'Enabled' };
+    },
+  },
+  aws_s3_bucket_server_side_encryption_configuration: {
+    ownerAttribute: 'bucket',
+    ownerType: 'aws_s3_bucket',
+    derive: () => ({ encryption: true }),
+  },
+  aws_s3_bucket_lifecycle_configuration: {
+    ownerAttribute: 'bucket',
+    ownerType: 'aws_s3_bucket',
+    derive: (block) => ({
+      lifecycleRules: block.blocks
+        .filter((nested) => nested.type === 'rule')
+        .map((rule) => {
+          const find = (type: string) => rule.blocks.find((nested) => nested.type === type);
+          return {
+            ...readNestedBlock(rule, { id: 'id' }),
+            ...readNestedBlock(find('filter'), { prefix: 'prefix' }),
+            enabled: rule.attributes.status !== 'Disabled',
+            transition: readNestedBlock(find('transition'), { days: 'days', storage_class: 'storageClass' }),
+            expiration: readNestedBlock(find('expiration'), { days: 'days' }),
+          };
+        }),
+    }),
+  },
+  aws_kms_alias: {
+    ownerAttribute: 'target_key_id',
+    ownerType: 'aws_kms_key',
+    derive: (block): Record<string, HCLValue> => {
+      const name = block.attributes.name;
+      return typeof name === 'string' ? { alias: name.replace(/^alias\//, '') } : {};
+    },
+  },
+};
+
+// Meta-arguments that repeat a resource; the canvas has one node per resource block
+const REPETITION_ARGUMENTS = ['count', 'for_each'];
+
+// Matches a data source reference, e.g. `data.aws_vpc.default.id`
+const DATA_REFERENCE_PATTERN = /\bdata\.[a-z][a-z0-9_]*\.[A-Za-z_]/;
+
+// Horizontal and vertical spacing of the imported layout
+const COLUMN_SPACING = 180;
+const ROW_SPACING = 160;
+
+function isHCLObject(value: HCLValue | undefined): value is { [key: string]: HCLValue } {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) && !isHCLExpression(value);
+}
+
+/**
+ * Reads the attributes of a nested block under their property names, skipping unset ones
+ * @param block - The nested block
+ * @param attributes - Terraform attribute name -> property name
+ */
+function readNestedBlock(block: HCLBlock | undefined, attributes: Record<string, string>): Record<string, HCLValue> {
+  const values: Record<string, HCLValue> = {};
+  for (const [attribute, property] of Object.entries(attributes)) {
+    if (block && attribute in block.attributes) {
+      values[property] = block.attributes[attribute];
+    }
+  }
+  return values;
+}
+
+/**
+ * Converts an HCL object into the sub-fields of an objectList item or group, leaving out
+ * values that cannot be represented
+ */
+function coerceObject(fields: PropertyField[], value: { [key: string]: HCLValue }): Record<string, unknown> {
+  const object: Record<string, unknown> = {};
+  for (const field of fields) {
+    const coerced = field.name in value ? coerceFieldValue(field, value[field.name]) : undefined;
+    if (coerced !== undefined) {
+      object[field.name] = coerced;
+    }
+  }
+  return object;
+}
+
+/**
+ * Converts an HCL literal into the value type expected by a schema field
+ * @returns The converted value, or undefined if it cannot be represented
+ */
+function coerceFieldValue(field: PropertyField, value: HCLValue): unknown {
+  if (isHCLExpression(value) || value === null) {
+    return undefined;
+  }
+
+  switch (field.type) {
+    case 'text':
+      return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      return undefined;
+    case 'select':
+      return typeof value === 'string' && field.options?.includes(value) ? value : undefined;
+    case 'array':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string') ? value : undefined;
+    case 'map':
+      // Entries set from references are left out; connections add those again
+      if (!isHCLObject(value)) return undefined;
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, item]) => ['string', 'number', 'boolean'].includes(typeof item))
+          .map(([key, item]) => [key, String(item)])
+      );
+    case 'objectList':
+      return Array.isArray(value) ? value.filter(isHCLObject).map((item) => coerceObject(field.fields ?? [], item)) : undefined;
+    case 'group':
+      return isHCLObject(value) ? coerceObject(field.fields ?? [], value) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function describeValue(value: HCLValue): string {
+  return isHCLExpression(value) ? value.raw : JSON.stringify(value);
+}
+
+/**
+ * Checks whether a value references a resource or a data source
+ */
+function hasReferences(value: HCLValue): boolean {
+  if (isHCLExpression(value)) return value.references.length > 0 || DATA_REFERENCE_PATTERN.test(value.raw);
+  if (Array.isArray(value)) return value.some(hasReferences);
+  return isHCLObject(value) && Object.values(value).some(hasReferences);
+}
+
+/**
+ * Describes the attributes of a resource block that are not imported: repetition
+ * meta-arguments, tags that are not a literal map and attributes without a schema property.
+ * Attributes that reference resources or data sources are not listed: references become
+ * connections, and generated code looks data sources up again.
+ */
+function describeSkippedAttributes(block: HCLBlock, mapping: ResourceMapping): string[] {
+  const messages: string[] = [];
+
+  for (const [attribute, value] of Object.entries(block.attributes)) {
+    if (REPETITION_ARGUMENTS.includes(attribute)) {
+      messages.push(`${attribute} = ${describeValue(value)} is not represented on the canvas; imported as a single resource`);
+    } else if (attribute === 'tags') {
+      if (!isHCLObject(value)) {
+        messages.push(`tags = ${describeValue(value)} is not a literal map; tags were not imported`);
+      }
+    } else if (
+      attribute !== 'depends_on' &&
+      !(attribute in mapping.attributes) &&
+      !mapping.derivedAttributes?.includes(attribute) &&
+      !hasReferences(value)
+    ) {
+      messages.push(`${attribute} is not represented on the canvas; left out`);
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Applies HCL values to node properties through the resource schema,
+ * returning warnings for values that could not be mapped (with the property they
+ * refer to when it was left at its default)
+ */
+function applyProperties(
+  type: ResourceTypeId,
+  properties: Record<string, unknown>,
+  values: Array<[attribute: string, property: string, value: HCLValue]>
+): Array<{ property?: string; message: string }> {
+  const fields = getResourceSchema(type).fields;
+  const warnings: Array<{ property?: string; message: string }> = [];
+
+  for (const [attribute, property, value] of values) {
+    const field = fields.find((candidate) => candidate.name === property);
+    if (!field) continue;
+
+    const coerced = coerceFieldValue(field, value);
+    if (coerced === undefined) {
+      warnings.push({
+        property,
+        message: `${attribute} = ${describeValue(value)} could not be mapped to ${field.label}; kept default`,
+      });
+      continue;
+    }
+    properties[property] = coerced;
+
+    // Map entries set from expressions are left out of the map
+    if (field.type === 'map' && isHCLObject(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        if (!['string', 'number', 'boolean'].includes(typeof item)) {
+          warnings.push({ message: `${attribute}.${key} = ${describeValue(item)} is not a literal value; left out of ${field.label}` });
+        }
+      }
+    }
+  }
+
+  return warnings;
+}
+
+function getBlockAddress(block: HCLBlock): string {
+  return block.type === 'resource' ? `${block.labels[0]}.${block.labels[1]}` : [block.type, ...block.labels].join(' ');
+}
+
+/**
+ * Uses the Name tag when it is a plain string, otherwise the resource name
+ */
+function getNodeLabel(block: HCLBlock): string {
+  const tags = block.attributes.tags;
+  if (isHCLObject(tags)) {
+    const name = tags.Name;
+    if (typeof name === 'string' && name.trim()) {
+      return name;
+    }
+  }
+  return block.labels[1];
+}
+
+/**
+ * Lays nodes out in rows by dependency depth so dependencies sit above their dependents
+ */
+function layoutNodes(nodes: Node[], edges: Edge[], origin: { x: number; y: number }): void {
+  const depth = new Map<string, number>(nodes.map((node) => [node.id, 0]));
+
+  // Longest-path layering; bounded by the node count so cycles cannot loop forever
+  for (let pass = 0; pass < nodes.length; pass++) {
+    let changed = false;
+    for (const edge of edges) {
+      const next = (depth.get(edge.source) ?? 0) + 1;
+      if (next > (depth.get(edge.target) ?? 0) && next < nodes.length) {
+        depth.set(edge.target, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const columns = new Map<number, number>();
+  for (const node of nodes) {
+    const row = depth.get(node.id) ?? 0;
+    const column = columns.get(row) ?? 0;
+    columns.set(row, column + 1);
+    node.position = { x: origin.x + column * COLUMN_SPACING, y: origin.y + row * ROW_SPACING };
+  }
+}
+
+/**
+ * Imports Terraform HCL as canvas nodes and edges
+ * @param source - Terraform configuration (one or more concatenated .tf files)
+ * @param options - Id prefix and layout origin for the created nodes
+ * @returns Nodes, edges and a report of every block that was imported, merged or skipped
+ * @throws HCLParseError if the source is not valid HCL
+ */
+export function importTerraform(source: string, options: TerraformImportOptions = {}): TerraformImportResult {
+  const { idPrefix = String(Date.now()), origin = { x: 100, y: 100 }, variables } = options;
+  const blocks = parseHCL(source).map((block) => (variables ? resolveVariables(block, variables) : block));
+
+  const nodes: Node[] = [];
+  const report: ImportReportEntry[] = [];
+  // Resource address -> node id, including supporting resources folded into a node
+  const addressToNodeId = new Map<string, string>();
+  const nodeBlocks: Array<{ node: Node; block: HCLBlock }> = [];
+  const supportingBlocks: HCLBlock[] = [];
+  // Resources that did not become (or merge into) a node, used to follow references through them
+  const unmappedResources = new Map<string, HCLBlock>();
+
+  for (const block of blocks) {
+    const address = getBlockAddress(block);
+
+    if (block.type !== 'resource') {
+      if (block.type !== 'terraform') {
+        report.push({
+          status: 'skipped',
+          address,
+          line: block.line,
+          message: `${block.type} blocks are not represented on the canvas`,
+        });
+      }
+      continue;
+    }
+
+    if (block.labels.length !== 2) {
+      report.push({ status: 'skipped', address, line: block.line, message: 'Resource block must have a type and a name' });
+      continue;
+    }
+
+    const [terraformType] = block.labels;
+
+    if (supportingMappings[terraformType]) {
+      supportingBlocks.push(block);
+      continue;
+    }
+
+    const mapping = resourceMappings[terraformType];
+    if (!mapping) {
+      unmappedResources.set(address, block);
+      report.push({
+        status: 'skipped',
+        address,
+        line: block.line,
+        message: `Resource type ${terraformType} is not supported on the canvas`,
+      });
+      continue;
+    }
+
+    if (addressToNodeId.has(address)) {
+      report.push({ status: 'skipped', address, line: block.line, message: 'Duplicate resource address' });
+      continue;
+    }
+
+    const properties: Record<string, unknown> = { ...getResourceSchema(mapping.type).defaultProperties };
+    const values: Array<[string, string, HCLValue]> = Object.entries(mapping.attributes)
+      .filter(([attribute]) => attribute in block.attributes)
+      .map(([attribute, property]) => [attribute, property, block.attributes[attribute]]);
+    const derived = mapping.derive?.(block) ?? {};
+    values.push(...Object.entries(derived).map(([property, value]): [string, string, HCLValue] => [property, property, value]));
+    // Tags besides Name, which becomes the label
+    const tags = block.attributes.tags;
+    if (isHCLObject(tags)) {
+      values.push(['tags', 'tags', Object.fromEntries(Object.entries(tags).filter(([key]) => key !== 'Name'))]);
+    }
+
+    const warnings = [
+      ...describeSkippedAttributes(block, mapping).map((message) => ({ message })),
+      ...applyProperties(mapping.type, properties, values),
+    ];
+
+    const node: Node = {
+      id: `${mapping.type}-${idPrefix}-${nodes.length}`,
+      type: mapping.type,
+      position: { x: 0, y: 0 },
+      // Keeping the resource name keeps the address when the code is generated again
+      data: { label: getNodeLabel(block), properties, resourceName: block.labels[1] },
+    };
+
+    nodes.push(node);
+    nodeBlocks.push({ node, block });
+    addressToNodeId.set(address, node.id);
+
+    report.push({ status: 'imported', address, line: block.line, message: `Imported as ${node.data.label}` });
+    warnings.forEach((warning) => report.push({ status: 'warning', address, line: block.line, ...warning }));
+  }
+
+  // Fold companion resources into the node they configure
+  for (const block of supportingBlocks) {
+    const address = getBlockAddress(block);
+    const mapping = supportingMappings[block.labels[0]];
+    const ownerValue = block.attributes[mapping.ownerAttribute];
+    const ownerAddress = isHCLExpression(ownerValue)
+      ? extractReferences(ownerValue.raw).find((ref) => ref.startsWith(`${mapping.ownerType}.`))
+      : undefined;
+    const owner = ownerAddress ? nodeBlocks.find(({ block: candidate }) => getBlockAddress(candidate) === ownerAddress) : undefined;
+
+    if (!owner) {
+      unmappedResources.set(address, block);
+      report.push({
+        status: 'skipped',
+        address,
+        line: block.line,
+        message: `Could not find the ${mapping.ownerType} this resource configures`,
+      });
+      continue;
+    }
+
+    const derived = mapping.derive(block);
+    const warnings = applyProperties(
+      owner.node.type as ResourceTypeId,
+      owner.node.data.properties as Record<string, unknown>,
+      Object.entries(derived).map(([property, value]): [string, string, HCLValue] => [property, property, value])
+    );
+
+    addressToNodeId.set(address, owner.node.id);
+    report.push({ status: 'merged', address, line: block.line, message: `Merged into ${owner.node.data.label}` });
+    warnings.forEach((warning) => report.push({ status: 'warning', address, line: block.line, ...warning }));
+  }
+
+  // Rebuild edges from references, following them through resources that are not on the canvas
+  // (e.g. aws_instance -> aws_subnet -> aws_vpc)
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const edges: Edge[] = [];
+  const edgePairs = new Set<string>();
+
+  const resolveReferencedNodes = (block: HCLBlock, visited = new Set<string>()): Set<string> => {
+    const nodeIds = new Set<string>();
+    for (const reference of collectBlockReferences(block)) {
+      const nodeId = addressToNodeId.get(reference);
+      const unmapped = unmappedResources.get(reference);
+      if (nodeId) {
+        nodeIds.add(nodeId);
+      } else if (unmapped && !visited.has(reference)) {
+        visited.add(reference);
+        resolveReferencedNodes(unmapped, visited).forEach((id) => nodeIds.add(id));
+      }
+    }
+    return nodeIds;
+  };
+
+  const addEdge = (sourceId: string, targetId: string) => {
+    const pair = [sourceId, targetId].sort().join('|');
+    if (sourceId === targetId || edgePairs.has(pair)) return;
+    edgePairs.add(pair);
+    edges.push({ id: `edge-${sourceId}-${targetId}`, source: sourceId, target: targetId, type: 'default' });
+  };
+
+  // A reference from B to A means B depends on A (edge A -> B), unless the pair has
+  // connection semantics, which define the direction the edge is drawn in
+  for (const { node, block } of nodeBlocks) {
+    for (const referencedId of resolveReferencedNodes(block)) {
+      const referenced = nodesById.get(referencedId)!;
+      const semantic = getConnectionSemantic(node.type, referenced.type);
+      if (semantic && !semantic.reversed) {
+        addEdge(node.id, referenced.id);
+      } else {
+        addEdge(referenced.id, node.id);
+      }
+    }
+  }
+
+  // Glue resources that no node references (target groups, listeners, attachments, associations)
+  // are grouped into clusters; nodes touched by the same cluster are connected when that pair
+  // has connection semantics
+  const referencedByNodes = new Set(nodeBlocks.flatMap(({ block }) => collectBlockReferences(block)));
+  const glueAddresses = [...unmappedResources.keys()].filter((address) => !referencedByNodes.has(address));
+  const clusterOf = new Map(glueAddresses.map((address) => [address, address]));
+  const findCluster = (address: string): string => {
+    const parent = clusterOf.get(address)!;
+    return parent === address ? address : findCluster(parent);
+  };
+
+  for (const address of glueAddresses) {
+    for (const reference of collectBlockReferences(unmappedResources.get(address)!)) {
+      if (clusterOf.has(reference)) {
+        clusterOf.set(findCluster(reference), findCluster(address));
+      }
+    }
+  }
+
+  const clusters = new Map<string, Set<string>>();
+  for (const address of glueAddresses) {
+    const cluster = clusters.get(findCluster(address)) ?? new Set<string>();
+    resolveReferencedNodes(unmappedResources.get(address)!).forEach((id) => cluster.add(id));
+    clusters.set(findCluster(address), cluster);
+  }
+
+  for (const cluster of clusters.values()) {
+    const connected = [...cluster].map((id) => nodesById.get(id)!);
+    for (const first of connected) {
+      for (const second of connected) {
+        const semantic = first.id < second.id ? getConnectionSemantic(first.type, second.type) : null;
+        if (semantic) {
+          const [source, target] = semantic.reversed ? [second, first] : [first, second];
+          addEdge(source.id, target.id);
+        }
+      }
+    }
+  }
+
+  // References between types that cannot be connected on the canvas are reported rather than drawn
+  const { valid, invalid } = validateEdges(nodes, edges);
+  const blocksByNodeId = new Map(nodeBlocks.map(({ node, block }) => [node.id, block]));
+  for (const { edge, reason } of invalid) {
+    const [source, target] = [blocksByNodeId.get(edge.source)!, blocksByNodeId.get(edge.target)!];
+    report.push({
+      status: 'warning',
+      address: `${getBlockAddress(source)} -> ${getBlockAddress(target)}`,
+      line: target.line,
+      message: `Connection not added: ${reason}`,
+    });
+  }
+
+  layoutNodes(nodes, valid, origin);
+
+  const addresses = Object.fromEntries(nodeBlocks.map(({ node, block }) => [node.id, getBlockAddress(block)]));
+
+  return { nodes, edges: valid, report, addresses };
+}
@@ -0,0 +1,310 @@
+// Terraform reconciler: carries edits made to generated code back into canvas nodes
+import { Node, Edge, NodeData } from '@/types';
+import { getResourceSchema } from '@/lib/resource-schemas';
+import {
+  HCLBlock,
+  HCLValue,
+  parseHCL,
+  isHCLExpression,
+  resolveVariables,
+  readVariableDefaults,
+  collectBlockReferences,
+} from '@/lib/hcl-parser';
+import { importTerraform, ImportReportEntry } from '@/lib/terraform-importer';
+import {
+  generateNodeBlocks,
+  generateTerraformModule,
+  getResourceAddresses,
+  TerraformFile,
+} from '@/lib/terraform-generator';
+
+/**
+ * Changes to apply to one existing node (an UPDATE_NODE payload)
+ */
+export interface NodeReconciliation {
+  nodeId: string;
+  address: string;
+  data: Partial<NodeData>;
+  // Labels of the properties whose values changed
+  changed: string[];
+}
+
+export interface TerraformReconciliation {
+  updates: NodeReconciliation[];
+  // Resources added in code, with their connections
+  added: { nodes: Node[]; edges: Edge[] };
+  // Nodes whose resource block was removed from the code; they are flagged, not deleted
+  removed: string[];
+  report: ImportReportEntry[];
+}
+
+interface ModuleCode {
+  main: string;
+  variables: Record<string, HCLValue>;
+  // Resource and data source address -> block, with variable references resolved
+  resources: Map<string, HCLBlock>;
+}
+
+// Space to the right of the existing diagram where new nodes are placed
+const NEW_NODE_OFFSET = 200;
+
+/**
+ * Returns the address of a resource or data block (e.g. "aws_iam_role.api_role" or
+ * "data.archive_file.api_package"), or null for other blocks
+ */
+function blockAddress(block: HCLBlock): string | null {
+  if (block.labels.length !== 2) return null;
+  if (block.type === 'resource') return `${block.labels[0]}.${block.labels[1]}`;
+  if (block.type === 'data') return `data.${block.labels[0]}.${block.labels[1]}`;
+  return null;
+}
+
+function readModule(files: TerraformFile[]): ModuleCode {
+  const main = files.find((file) => file.path === 'main.tf')?.content ?? '';
+  const variables = readVariableDefaults(parseHCL(files.find((file) => file.path === 'variables.tf')?.content ?? ''));
+  const resources = new Map<string, HCLBlock>();
+
+  for (const block of parseHCL(main)) {
+    const address = blockAddress(block);
+    if (address) resources.set(address, resolveVariables(block, variables));
+  }
+
+  return { main, variables, resources };
+}
+
+/**
+ * Converts a value to a form where equivalent HCL compares equal: object keys are
+ * sorted and whitespace inside expressions is collapsed
+ */
+function canonicalValue(value: HCLValue): unknown {
+  if (isHCLExpression(value)) {
+    return { expression: value.raw.replace(/\s+/g, ' ') };
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .map((key) => [key, canonicalValue(value[key])]);
+  }
+  return value;
+}
+
+function canonicalBlock(block: HCLBlock): unknown {
+  return {
+    type: block.type,
+    labels: block.labels,
+    attributes: canonicalValue(block.attributes),
+    blocks: block.blocks.map(canonicalBlock),
+  };
+}
+
+function sameBlock(a: HCLBlock, b: HCLBlock): boolean {
+  return JSON.stringify(canonicalBlock(a)) === JSON.stringify(canonicalBlock(b));
+}
+
+/**
+ * Replaces `var.<name>` references in block source with the variable's value, so an
+ * override still works if the property is no longer lifted into a variable
+ */
+function inlineVariables(source: string, variables: Record<string, HCLValue>): string {
+  return source.replace(/\bvar\.([A-Za-z_][A-Za-z0-9_-]*)\b/g, (reference, name: string) => {
+    const value = variables[name];
+    if (!Object.prototype.hasOwnProperty.call(variables, name) || isHCLExpression(value)) return reference;
+    return JSON.stringify(value);
+  });
+}
+
+function indexByAddress(nodes: Node[], addresses: Record<string, string>): Map<string, Node> {
+  return new Map(nodes.map((node) => [addresses[node.id], node]));
+}
+
+/**
+ * Compares refined Terraform code with the canvas and works out the node changes that
+ * reproduce it. Property edits become node updates, new resource blocks become nodes,
+ * and removed blocks are reported. Resource blocks the schema cannot reproduce are kept
+ * as the node's HCL override, together with any unsupported resources that reference it.
+ * Only main.tf (with variables.tf defaults) is read; connections between existing nodes
+ * are not changed.
+ * @param files - Module files after refinement
+ * @param nodes - Nodes on the canvas
+ * @param edges - Edges on the canvas
+ * @returns Node updates, added nodes and edges, removed node ids and warnings
+ * @throws HCLParseError if the code is not valid HCL
+ */
+export function reconcileTerraformModule(files: TerraformFile[], nodes: Node[], edges: Edge[]): TerraformReconciliation {
+  const refined = readModule(files);
+  const current = readModule(generateTerraformModule(nodes, edges));
+  const report: ImportReportEntry[] = [];
+
+  // Importing both versions the same way means properties the importer cannot read
+  // back (or defaults) cancel out, and only real edits show up as differences.
+  // Resources new to the canvas are laid out right of the diagram.
+  const right = nodes.reduce((max, node) => Math.max(max, node.position.x), 0);
+  const top = nodes.length > 0 ? Math.min(...nodes.map((node) => node.position.y)) : 100;
+  const refinedImport = importTerraform(refined.main, {
+    variables: refined.variables,
+    origin: { x: right + NEW_NODE_OFFSET, y: top },
+  });
+  const currentImport = importTerraform(current.main, { idPrefix: 'current', variables: current.variables });
+  const refinedNodes = indexByAddress(refinedImport.nodes, refinedImport.addresses);
+  // Values the schema cannot hold were replaced by defaults; they are not edits
+  const unmapped = new Set(
+    refinedImport.report.filter((entry) => entry.property).map((entry) => `${entry.address}|${entry.property}`)
+  );
+  const currentNodes = indexByAddress(currentImport.nodes, currentImport.addresses);
+
+  const updates = new Map<string, NodeReconciliation>();
+  const removed: string[] = [];
+  const nodeAddresses = new Map<string, Node>();
+  const addressOf = getResourceAddresses(nodes);
+
+  for (const node of nodes) {
+    const address = addressOf.get(node.id);
+    if (!address) continue;
+    nodeAddresses.set(address, node);
+
+    if (!refined.resources.has(address)) {
+      if (current.resources.has(address)) {
+        removed.push(node.id);
+        if (!node.data.removedInCode) {
+          updates.set(node.id, { nodeId: node.id, address, data: { removedInCode: true }, changed: [] });
+        }
+      }
+      continue;
+    }
+
+    const before = currentNodes.get(address)?.data.properties as Record<string, unknown> | undefined;
+    const after = refinedNodes.get(address)?.data.properties as Record<string, unknown> | undefined;
+    const properties = { ...(node.data.properties as Record<string, unknown>) };
+    const changed: string[] = [];
+
+    if (before && after) {
+      for (const field of getResourceSchema(node.type)?.fields ?? []) {
+        if (unmapped.has(`${address}|${field.name}`)) continue;
+        if (JSON.stringify(after[field.name]) !== JSON.stringify(before[field.name])) {
+          properties[field.name] = after[field.name];
+          changed.push(field.label);
+        }
+      }
+    }
+
+    const data: Partial<NodeData> = { properties };
+    if (node.data.removedInCode) data.removedInCode = undefined;
+    updates.set(node.id, { nodeId: node.id, address, data, changed });
+  }
+
+  // Regenerate with the new properties; blocks that still differ need an override
+  const candidates = nodes.map((node) => {
+    const update = updates.get(node.id);
+    return update?.data.properties ? { ...node, data: { ...node.data, properties: update.data.properties, hclOverride: undefined } } : node;
+  });
+  const expected = readModule(generateTerraformModule(candidates, edges));
+  const nodeBlocks = generateNodeBlocks(candidates, edges);
+  const overrides = new Map<string, string>();
+  // Blocks emitted alongside a node's own (e.g. a Lambda function's role) belong to its override
+  const ownedAddresses = new Set<string>();
+  const ownedSources = new Map<string, string>();
+
+  for (const [address, node] of nodeAddresses) {
+    if (!refined.resources.has(address)) continue;
+
+    const addresses = [address];
+    for (const block of parseHCL(nodeBlocks.get(node.id) ?? '')) {
+      const owned = blockAddress(block);
+      if (owned && owned !== address) addresses.push(owned);
+    }
+    addresses.forEach((owned) => ownedAddresses.add(owned));
+
+    const edited = addresses.some((owned) => {
+      const refinedBlock = refined.resources.get(owned);
+      const expectedBlock = expected.resources.get(owned);
+      return !refinedBlock || !expectedBlock || !sameBlock(refinedBlock, expectedBlock);
+    });
+    const source = addresses
+      .map((owned) => refined.resources.get(owned))
+      .filter((block): block is HCLBlock => block !== undefined)
+      .map((block) => inlineVariables(block.source, refined.variables))
+      .join('\n\n');
+    ownedSources.set(node.id, source);
+    if (edited) overrides.set(node.id, source);
+  }
+
+  // New resource blocks that map to a resource type become nodes, unless the canvas generates
+  // them (e.g. the security group of an instance)
+  const addedNodes = refinedImport.nodes.filter((node) => {
+    const address = refinedImport.addresses[node.id];
+    return !nodeAddresses.has(address) && !current.resources.has(address);
+  });
+  const addedIds = new Set(addedNodes.map((node) => node.id));
+  const canvasIds = new Map(
+    refinedImport.nodes.map((node) => [node.id, nodeAddresses.get(refinedImport.addresses[node.id])?.id ?? node.id])
+  );
+  const addedEdges = refinedImport.edges
+    .filter((edge) => addedIds.has(edge.source) || addedIds.has(edge.target))
+    .map((edge) => {
+      const [source, target] = [canvasIds.get(edge.source)!, canvasIds.get(edge.target)!];
+      return { ...edge, id: `edge-${source}-${target}`, source, target };
+    });
+  const addedAddresses = new Set(addedNodes.map((node) => refinedImport.addresses[node.id]));
+  const mergedAddresses = new Set(
+    refinedImport.report.filter((entry) => entry.status === 'merged').map((entry) => entry.address)
+  );
+
+  // Other new blocks (unsupported types, hand-written companions) are kept with the node
+  // they reference; generated blocks that were edited cannot be kept
+  for (const [address, block] of refined.resources) {
+    if (ownedAddresses.has(address) || addedAddresses.has(address) || mergedAddresses.has(address)) continue;
+
+    const expectedBlock = expected.resources.get(address);
+    if (expectedBlock) {
+      if (!sameBlock(block, expectedBlock)) {
+        report.push({
+          status: 'warning',
+          address,
+          line: block.line,
+          message: 'Edits to this block were not kept; it is generated from the connections on the canvas',
+        });
+      }
+      continue;
+    }
+
+    const owner = collectBlockReferences(block)
+      .map((reference) => nodeAddresses.get(reference))
+      .find((node): node is Node => node !== undefined && ownedSources.has(node.id));
+    if (!owner) {
+      report.push({
+        status: 'skipped',
+        address,
+        line: block.line,
+        message: 'Not kept: the resource is not supported on the canvas and references no resource on it',
+      });
+      continue;
+    }
+
+    const ownerSource = overrides.get(owner.id) ?? ownedSources.get(owner.id)!;
+    overrides.set(owner.id, `${ownerSource}\n\n${inlineVariables(block.source, refined.variables)}`);
+    report.push({ status: 'merged', address, line: block.line, message: `Kept as HCL on ${owner.data.label}` });
+  }
+
+  // Set or clear overrides, skipping updates that change nothing
+  for (const node of nodes) {
+    const update = updates.get(node.id);
+    if (!update?.data.properties) continue;
+
+    const override = overrides.get(node.id);
+    if (override !== node.data.hclOverride) {
+      update.data.hclOverride = override;
+    } else if (update.changed.length === 0 && !('removedInCode' in update.data)) {
+      updates.delete(node.id);
+    }
+  }
+
+  return {
+    updates: [...updates.values()],
+    added: { nodes: addedNodes, edges: addedEdges },
+    removed,
+    report,
+  };
+}
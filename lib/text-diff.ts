@@ -0,0 +1,196 @@
+// Line-based text diff split into hunks that can be accepted or rejected one by one
+
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers; removed lines have no new number and added lines no old number
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+/**
+ * One contiguous change with the unchanged lines around it. Hunks never overlap,
+ * so each can be applied independently.
+ */
+export interface DiffHunk {
+  index: number;
+  oldStart: number;
+  newStart: number;
+  // Unchanged lines shown before and after the change
+  before: DiffLine[];
+  after: DiffLine[];
+  removed: string[];
+  added: string[];
+}
+
+export interface TextDiff {
+  lines: DiffLine[];
+  hunks: DiffHunk[];
+}
+
+// Keeps the longest-common-subsequence table small for very different texts
+const MAX_TABLE_SIZE = 4_000_000;
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+/**
+ * Diffs two texts line by line
+ * @param oldText - Text before the change
+ * @param newText - Text after the change
+ * @returns Every line of both texts, marked as unchanged, added or removed
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Trim the common prefix and suffix; refinements usually touch a small region
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+  const ops: DiffLineType[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_TABLE_SIZE) {
+    // Too large to align: replace the whole middle section
+    ops.push(...a.map(() => 'remove' as const), ...b.map(() => 'add' as const));
+  } else {
+    // lengths[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[i] === b[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        ops.push('context');
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        // Removals come before additions, as in unified diffs
+        ops.push('remove');
+        i++;
+      } else {
+        ops.push('add');
+        j++;
+      }
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  const pushContext = (text: string) => lines.push({ type: 'context', text, oldNumber: oldNumber++, newNumber: newNumber++ });
+
+  oldLines.slice(0, start).forEach(pushContext);
+  let ai = 0;
+  let bi = 0;
+  for (const op of ops) {
+    if (op === 'context') {
+      pushContext(a[ai++]);
+      bi++;
+    } else if (op === 'remove') {
+      lines.push({ type: 'remove', text: a[ai++], oldNumber: oldNumber++ });
+    } else {
+      lines.push({ type: 'add', text: b[bi++], newNumber: newNumber++ });
+    }
+  }
+  oldLines.slice(oldEnd).forEach(pushContext);
+
+  return lines;
+}
+
+/**
+ * Diffs two texts and groups the changes into hunks
+ * @param oldText - Text before the change
+ * @param newText - Text after the change
+ * @param contextLines - Unchanged lines to show around each change
+ * @returns The full line diff and its hunks
+ */
+export function diffText(oldText: string, newText: string, contextLines = 3): TextDiff {
+  const lines = diffLines(oldText, newText);
+  const hunks: DiffHunk[] = [];
+
+  let position = 0;
+  // End of the previous hunk's trailing context, so no line is shown twice
+  let previousEnd = 0;
+  while (position < lines.length) {
+    if (lines[position].type === 'context') {
+      position++;
+      continue;
+    }
+
+    const start = position;
+    while (position < lines.length && lines[position].type !== 'context') position++;
+    const changed = lines.slice(start, position);
+
+    const beforeStart = Math.max(start - contextLines, previousEnd);
+    let afterEnd = position;
+    while (afterEnd < lines.length && afterEnd < position + contextLines && lines[afterEnd].type === 'context') {
+      afterEnd++;
+    }
+
+    const firstContext = lines[start - 1];
+    hunks.push({
+      index: hunks.length,
+      oldStart: (firstContext?.oldNumber ?? 0) + 1,
+      newStart: (firstContext?.newNumber ?? 0) + 1,
+      before: lines.slice(beforeStart, start),
+      after: lines.slice(position, afterEnd),
+      removed: changed.filter((line) => line.type === 'remove').map((line) => line.text),
+      added: changed.filter((line) => line.type === 'add').map((line) => line.text),
+    });
+    previousEnd = afterEnd;
+  }
+
+  return { lines, hunks };
+}
+
+/**
+ * Builds the text that results from accepting some hunks of a diff
+ * @param diff - Diff from diffText
+ * @param accepted - Indexes of the hunks to apply; the rest keep the old lines
+ * @returns The merged text
+ */
+export function applyHunks(diff: TextDiff, accepted: ReadonlySet<number>): string {
+  const result: string[] = [];
+  let hunkIndex = -1;
+  let inChange = false;
+
+  for (const line of diff.lines) {
+    if (line.type === 'context') {
+      inChange = false;
+      result.push(line.text);
+      continue;
+    }
+
+    if (!inChange) {
+      hunkIndex++;
+      inChange = true;
+    }
+    const keep = accepted.has(hunkIndex) ? line.type === 'add' : line.type === 'remove';
+    if (keep) result.push(line.text);
+  }
+
+  return result.join('\n');
+}
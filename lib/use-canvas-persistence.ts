@@ -0,0 +1,224 @@
+// Canvas persistence hook: restores the active project on load and autosaves changes
+'use client';
+
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { useCanvas } from './canvas-context';
+import {
+  CanvasStorageError,
+  ProjectMeta,
+  listProjects,
+  loadProject,
+  saveProject,
+  createProject as createStoredProject,
+  renameProject as renameStoredProject,
+  deleteProject as deleteStoredProject,
+  importProject as importStoredProject,
+  getActiveProjectId,
+  setActiveProjectId,
+  serializeCanvasDocument,
+  getProjectFileName,
+  CanvasDocument,
+} from './canvas-storage';
+import { validateEdges } from './connection-rules';
+import { downloadFile } from './utils';
+import { toast } from 'sonner';
+
+const DEFAULT_PROJECT_NAME = 'Untitled Project';
+
+interface CanvasPersistenceOptions {
+  autosaveDelayMs?: number;
+  enabled?: boolean;
+}
+
+export function useCanvasPersistence(options: CanvasPersistenceOptions = {}) {
+  const { autosaveDelayMs = 500, enabled = true } = options;
+  const { state, loadCanvas, setError } = useCanvas();
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [activeProjectId, setActiveId] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+
+  // Refs let project operations flush the latest diagram without re-creating callbacks
+  const diagramRef = useRef({ nodes: state.nodes, edges: state.edges });
+  const activeIdRef = useRef<string | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const restoredRef = useRef(false);
+
+  useEffect(() => {
+    diagramRef.current = { nodes: state.nodes, edges: state.edges };
+  }, [state.nodes, state.edges]);
+
+  const reportError = useCallback((error: unknown, title: string) => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown storage error';
+    setError(errorMessage);
+    toast.error(title, { description: errorMessage });
+    console.error(`${title}:`, error);
+  }, [setError]);
+
+  const activate = useCallback((doc: CanvasDocument) => {
+    setActiveProjectId(doc.project.id);
+    activeIdRef.current = doc.project.id;
+    setActiveId(doc.project.id);
+
+    // Projects saved before connection rules existed may contain edges the canvas no longer allows
+    const { valid, invalid } = validateEdges(doc.nodes, doc.edges);
+    loadCanvas(doc.nodes, valid);
+    if (invalid.length > 0) {
+      toast.warning(`Removed ${invalid.length} invalid connection${invalid.length === 1 ? '' : 's'}`, {
+        description: invalid.map(({ reason }) => reason).join('\n'),
+      });
+    }
+    setProjects(listProjects());
+  }, [loadCanvas]);
+
+  // Writes the current diagram to the active project immediately
+  const flush = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+
+    const id = activeIdRef.current;
+    if (!id) return;
+
+    try {
+      const doc = saveProject(id, diagramRef.current.nodes, diagramRef.current.edges);
+      setLastSavedAt(doc.project.updatedAt);
+    } catch (error) {
+      reportError(error, 'Autosave failed');
+    }
+  }, [reportError]);
+
+  // Restore the last active project (or create a first one) on mount
+  useEffect(() => {
+    if (!enabled || restoredRef.current) return;
+    restoredRef.current = true;
+
+    try {
+      const storedId = getActiveProjectId();
+      let doc = storedId ? loadProject(storedId) : null;
+
+      if (!doc) {
+        const mostRecent = listProjects()[0];
+        doc = mostRecent ? loadProject(mostRecent.id) : null;
+      }
+
+      activate(doc ?? createStoredProject(DEFAULT_PROJECT_NAME));
+    } catch (error) {
+      reportError(error, 'Failed to restore project');
+    }
+  }, [enabled, activate, reportError]);
+
+  // Debounced autosave whenever the diagram changes
+  useEffect(() => {
+    if (!enabled || !activeProjectId) return;
+
+    saveTimerRef.current = setTimeout(flush, autosaveDelayMs);
+    return () => {
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+      }
+    };
+  }, [enabled, activeProjectId, state.nodes, state.edges, autosaveDelayMs, flush]);
+
+  const switchProject = useCallback((id: string) => {
+    if (id === activeIdRef.current) return;
+
+    try {
+      flush();
+      const doc = loadProject(id);
+      if (!doc) {
+        throw new CanvasStorageError('Project no longer exists');
+      }
+      activate(doc);
+    } catch (error) {
+      reportError(error, 'Failed to open project');
+    }
+  }, [flush, activate, reportError]);
+
+  const createProject = useCallback((name: string) => {
+    try {
+      flush();
+      const doc = createStoredProject(name || DEFAULT_PROJECT_NAME);
+      activate(doc);
+      toast.success(`Project "${doc.project.name}" created`);
+    } catch (error) {
+      reportError(error, 'Failed to create project');
+    }
+  }, [flush, activate, reportError]);
+
+  const renameProject = useCallback((id: string, name: string) => {
+    try {
+      if (id === activeIdRef.current) flush();
+      renameStoredProject(id, name);
+      setProjects(listProjects());
+    } catch (error) {
+      reportError(error, 'Failed to rename project');
+    }
+  }, [flush, reportError]);
+
+  const deleteProject = useCallback((id: string) => {
+    try {
+      const wasActive = id === activeIdRef.current;
+      if (wasActive && saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+      }
+      deleteStoredProject(id);
+
+      if (wasActive) {
+        const next = listProjects()[0];
+        const doc = next ? loadProject(next.id) : null;
+        activate(doc ?? createStoredProject(DEFAULT_PROJECT_NAME));
+      } else {
+        setProjects(listProjects());
+      }
+      toast.success('Project deleted');
+    } catch (error) {
+      reportError(error, 'Failed to delete project');
+    }
+  }, [activate, reportError]);
+
+  const exportProject = useCallback(() => {
+    const id = activeIdRef.current;
+    if (!id) return;
+
+    try {
+      flush();
+      const doc = loadProject(id);
+      if (!doc) {
+        throw new CanvasStorageError('Project no longer exists');
+      }
+      downloadFile(getProjectFileName(doc.project.name), serializeCanvasDocument(doc), 'application/json');
+    } catch (error) {
+      reportError(error, 'Failed to export project');
+    }
+  }, [flush, reportError]);
+
+  const importProjectFile = useCallback(async (file: File) => {
+    try {
+      flush();
+      const doc = importStoredProject(await file.text());
+      activate(doc);
+      toast.success(`Project "${doc.project.name}" imported`);
+    } catch (error) {
+      reportError(error, 'Failed to import project');
+    }
+  }, [flush, activate, reportError]);
+
+  const activeProject = projects.find((project) => project.id === activeProjectId) ?? null;
+
+  return {
+    projects,
+    activeProject,
+    lastSavedAt,
+    switchProject,
+    createProject,
+    renameProject,
+    deleteProject,
+    exportProject,
+    importProjectFile,
+  };
+}
+
+export type CanvasPersistence = ReturnType<typeof useCanvasPersistence>;
@@ -3,7 +3,7 @@
 
 import { useEffect, useCallback } from 'react';
 import { useCanvas } from './canvas-context';
-import { Node } from '@/types';
+import { copySelection, serializeClipboard, parseClipboard, pasteClipboard, ClipboardPayload } from './clipboard';
 import { toast } from 'sonner';
 
 interface KeyboardShortcutsOptions {
@@ -11,9 +11,42 @@ interface KeyboardShortcutsOptions {
   enabled?: boolean;
 }
 
+/**
+ * Whether a clipboard event belongs to a text field or selected text rather than the canvas
+ */
+function isEditingText(event: ClipboardEvent): boolean {
+  const target = event.target as HTMLElement;
+  if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+    return true;
+  }
+  return event.type === 'copy' && Boolean(window.getSelection()?.toString());
+}
+
 export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
   const { onGenerateCode, enabled = true } = options;
-  const { state, deleteNode, selectNode, addNode, setNodes } = useCanvas();
+  const {
+    state,
+    deleteNodes,
+    selectNode,
+    selectNodes,
+    mergeCanvas,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    autoLayout,
+  } = useCanvas();
+
+  // Adds copied nodes to the canvas and selects the copies
+  const paste = useCallback(
+    (payload: ClipboardPayload) => {
+      const { nodes, edges } = pasteClipboard(payload, state.nodes, Date.now().toString(36));
+      mergeCanvas(nodes, edges);
+      selectNodes(nodes.map((node) => node.id));
+      return nodes.length;
+    },
+    [state.nodes, mergeCanvas, selectNodes]
+  );
 
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
@@ -32,23 +65,49 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
       const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
       const modKey = isMac ? event.metaKey : event.ctrlKey;
 
-      // Delete selected node (Delete or Backspace)
+      // Undo (Ctrl/Cmd + Z) and redo (Ctrl/Cmd + Shift + Z or Ctrl/Cmd + Y)
+      if (modKey && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          if (canRedo) redo();
+        } else if (canUndo) {
+          undo();
+        }
+        return;
+      }
+
+      // Auto-layout with the last layout used (Ctrl/Cmd + Shift + L)
+      if (modKey && event.shiftKey && event.key.toLowerCase() === 'l') {
+        event.preventDefault();
+        if (state.nodes.length > 0) autoLayout();
+        return;
+      }
+
+      if (modKey && event.key === 'y') {
+        event.preventDefault();
+        if (canRedo) redo();
+        return;
+      }
+
+      // Delete selected nodes (Delete or Backspace)
       if (
         (event.key === 'Delete' || event.key === 'Backspace') &&
-        state.selectedNodeId &&
+        state.selectedNodeIds.length > 0 &&
         !modKey
       ) {
         event.preventDefault();
         const selectedNode = state.nodes.find((n) => n.id === state.selectedNodeId);
-        if (selectedNode) {
-          deleteNode(state.selectedNodeId);
-          toast.success(`${selectedNode.data.label} deleted`);
-        }
+        deleteNodes(state.selectedNodeIds);
+        toast.success(
+          state.selectedNodeIds.length === 1 && selectedNode
+            ? `${selectedNode.data.label} deleted`
+            : `${state.selectedNodeIds.length} nodes deleted`
+        );
         return;
       }
 
       // Deselect node (Escape)
-      if (event.key === 'Escape' && state.selectedNodeId) {
+      if (event.key === 'Escape' && state.selectedNodeIds.length > 0) {
         event.preventDefault();
         selectNode(null);
         return;
@@ -68,68 +127,19 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
       // Select all nodes (Ctrl/Cmd + A)
       if (modKey && event.key === 'a') {
         event.preventDefault();
-        if (state.nodes.length > 0) {
-          // Select the first node (React Flow handles multi-select differently)
-          selectNode(state.nodes[0].id);
-          toast.info('Node selected');
-        }
-        return;
-      }
-
-      // Copy selected node (Ctrl/Cmd + C)
-      if (modKey && event.key === 'c' && state.selectedNodeId) {
-        event.preventDefault();
-        const selectedNode = state.nodes.find((n) => n.id === state.selectedNodeId);
-        if (selectedNode) {
-          // Store in sessionStorage for paste operation
-          sessionStorage.setItem('copiedNode', JSON.stringify(selectedNode));
-          toast.success('Node copied');
-        }
+        selectNodes(state.nodes.map((node) => node.id));
         return;
       }
 
-      // Paste node (Ctrl/Cmd + V)
-      if (modKey && event.key === 'v') {
-        event.preventDefault();
-        const copiedNodeStr = sessionStorage.getItem('copiedNode');
-        if (copiedNodeStr) {
-          try {
-            const copiedNode = JSON.parse(copiedNodeStr) as Node;
-            // Create a new node with offset position
-            const newNode: Node = {
-              ...copiedNode,
-              id: `${copiedNode.type}-${Date.now()}`,
-              position: {
-                x: copiedNode.position.x + 50,
-                y: copiedNode.position.y + 50,
-              },
-            };
-            addNode(newNode);
-            selectNode(newNode.id);
-            toast.success('Node pasted');
-          } catch (error) {
-            toast.error('Failed to paste node');
-          }
-        }
-        return;
-      }
+      // Copy and paste (Ctrl/Cmd + C and V) go through the clipboard events below
 
-      // Duplicate selected node (Ctrl/Cmd + D)
-      if (modKey && event.key === 'd' && state.selectedNodeId) {
+      // Duplicate selected nodes (Ctrl/Cmd + D)
+      if (modKey && event.key === 'd' && state.selectedNodeIds.length > 0) {
         event.preventDefault();
-        const selectedNode = state.nodes.find((n) => n.id === state.selectedNodeId);
-        if (selectedNode) {
-          const newNode: Node = {
-            ...selectedNode,
-            id: `${selectedNode.type}-${Date.now()}`,
-            position: {
-              x: selectedNode.position.x + 50,
-              y: selectedNode.position.y + 50,
-            },
-          };
-          addNode(newNode);
-          selectNode(newNode.id);
-          toast.success('Node duplicated');
+        const payload = copySelection(state.nodes, state.edges, state.selectedNodeIds);
+        if (payload) {
+          const count = paste(payload);
+          toast.success(count === 1 ? 'Node duplicated' : `${count} nodes duplicated`);
         }
         return;
       }
@@ -137,22 +147,64 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
     [
       enabled,
       state.selectedNodeId,
+      state.selectedNodeIds,
       state.nodes,
-      deleteNode,
+      state.edges,
+      deleteNodes,
       selectNode,
-      addNode,
+      selectNodes,
+      paste,
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      autoLayout,
       onGenerateCode,
     ]
   );
 
+  // Copy the selection as text, so it can be pasted into the canvas in another tab
+  const handleCopy = useCallback(
+    (event: ClipboardEvent) => {
+      if (!enabled || !event.clipboardData || isEditingText(event)) return;
+
+      const payload = copySelection(state.nodes, state.edges, state.selectedNodeIds);
+      if (!payload) return;
+
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', serializeClipboard(payload));
+      toast.success(payload.nodes.length === 1 ? 'Node copied' : `${payload.nodes.length} nodes copied`);
+    },
+    [enabled, state.nodes, state.edges, state.selectedNodeIds]
+  );
+
+  const handlePaste = useCallback(
+    (event: ClipboardEvent) => {
+      if (!enabled || !event.clipboardData || isEditingText(event)) return;
+
+      // Anything other than copied nodes is left to the browser
+      const payload = parseClipboard(event.clipboardData.getData('text/plain'));
+      if (!payload) return;
+
+      event.preventDefault();
+      const count = paste(payload);
+      toast.success(count === 1 ? 'Node pasted' : `${count} nodes pasted`);
+    },
+    [enabled, paste]
+  );
+
   useEffect(() => {
     if (!enabled) return;
 
     window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('paste', handlePaste);
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('paste', handlePaste);
     };
-  }, [handleKeyDown, enabled]);
+  }, [handleKeyDown, handleCopy, handlePaste, enabled]);
 
   return null;
 }
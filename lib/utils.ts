@@ -4,3 +4,22 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function downloadFile(filename: string, content: BlobPart, type = "application/octet-stream") {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// Removes ```hcl, ```terraform, ```json or ``` fences that models wrap code in
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/```(?:hcl|terraform|json)?\n?/g, "")
+    .replace(/```\n?/g, "")
+    .trim()
+}
@@ -1,8 +1,16 @@
 // TypeScript type definitions for InfraCanvas
 
-// Resource types supported by the application
-export type ResourceTypeId = 'ec2' | 'lambda' | 'vpc' | 'alb' | 'apigateway' | 'rds' | 'dynamodb' | 's3' | 'waf';
-export type ResourceCategory = 'compute' | 'network' | 'database' | 'storage' | 'security';
+// Resource types that ship with the application
+export type BuiltInResourceTypeId =
+  | 'ec2' | 'lambda' | 'ecs' | 'eks'
+  | 'vpc' | 'subnet' | 'az' | 'alb' | 'apigateway' | 'natgateway' | 'internetgateway' | 'securitygroup' | 'cloudfront' | 'route53'
+  | 'sqs' | 'sns' | 'eventbridge'
+  | 'rds' | 'dynamodb' | 'elasticache'
+  | 's3'
+  | 'waf' | 'cognito' | 'secretsmanager' | 'kms';
+// Built-in types plus any custom types added through the resource registry
+export type ResourceTypeId = BuiltInResourceTypeId | (string & {});
+export type ResourceCategory = 'compute' | 'network' | 'integration' | 'database' | 'storage' | 'security';
 
 // Node types for React Flow
 export interface Node {
@@ -10,11 +18,28 @@ export interface Node {
   type: ResourceTypeId;
   position: { x: number; y: number };
   data: NodeData;
+  // Enclosing container (VPC, availability zone or subnet); position is then relative to it
+  parentId?: string;
+  // Size of resizable container nodes
+  width?: number;
+  height?: number;
+  // Rendered size, filled in by React Flow
+  measured?: { width?: number; height?: number };
+  // Selection highlight, kept in step with CanvasState.selectedNodeIds
+  selected?: boolean;
 }
 
 export interface NodeData {
   label: string;
   properties: ResourceProperties;
+  // Resource HCL emitted verbatim instead of the generated block, kept from refined code the schema cannot express
+  hclOverride?: string;
+  // Set when refined code no longer contains this node's resource block
+  removedInCode?: boolean;
+  // Terraform resource name, unique on the canvas (follows the label, see movedFrom)
+  resourceName?: string;
+  // Earlier resource names, oldest first; each rename is emitted as a moved block
+  movedFrom?: string[];
   [key: string]: unknown; // Index signature for React Flow compatibility
 }
 
@@ -26,10 +51,21 @@ export interface EC2Properties {
   securityGroups?: string[];
 }
 
+export interface S3LifecycleRule {
+  id?: string;
+  // Key prefix of the objects the rule applies to, the whole bucket if empty
+  prefix?: string;
+  enabled?: boolean;
+  transition?: { days?: number; storageClass?: string };
+  expiration?: { days?: number };
+}
+
 export interface S3Properties {
   bucketName?: string;
   versioning?: boolean;
   encryption?: boolean;
+  lifecycleRules?: S3LifecycleRule[];
+  tags?: Record<string, string>;
 }
 
 export interface RDSProperties {
@@ -37,6 +73,11 @@ export interface RDSProperties {
   instanceClass?: string;
   allocatedStorage?: number;
   dbName?: string;
+  username?: string;
+  // How the master password is provided; the password is never written into the HCL
+  credentials?: 'managed' | 'random' | 'variable';
+  // Value for the sensitive password variable (variable mode only)
+  masterPassword?: string;
 }
 
 export type ResourceProperties = EC2Properties | S3Properties | RDSProperties | Record<string, any>;
@@ -47,13 +88,38 @@ export interface Edge {
   source: string;
   target: string;
   type?: string;
+  data?: EdgeData;
+  // Set by React Flow while the edge is selected
+  selected?: boolean;
+}
+
+// What a connection means: traffic between resources, a call, data access, a permission or an event
+export type EdgeKind = 'network' | 'invokes' | 'data' | 'iam' | 'event';
+
+export type EdgeProtocol = 'tcp' | 'udp' | 'http' | 'https';
+
+// Two-way network connections let traffic in on both ends
+export type EdgeDirection = 'one-way' | 'two-way';
+
+export interface EdgeData {
+  // Inferred from the connected resource types when not set
+  kind?: EdgeKind;
+  protocol?: EdgeProtocol;
+  // Ports the connection opens in the target's security group, replacing the inferred ones
+  ports?: number[];
+  direction?: EdgeDirection;
+  label?: string;
+  [key: string]: unknown; // Index signature for React Flow compatibility
 }
 
 // Canvas state
 export interface CanvasState {
   nodes: Node[];
   edges: Edge[];
+  // Primary selection: the node shown in the properties panel
   selectedNodeId: string | null;
+  // Every selected node (box select, shift-click), including the primary one
+  selectedNodeIds: string[];
   isLoading?: boolean;
   error?: string | null;
 }
@@ -71,11 +137,22 @@ export type CanvasAction =
   | { type: 'ADD_NODE'; payload: Node }
   | { type: 'UPDATE_NODE'; payload: { id: string; data: Partial<NodeData> } }
   | { type: 'DELETE_NODE'; payload: string }
+  | { type: 'DELETE_NODES'; payload: string[] }
+  | { type: 'UPDATE_NODES'; payload: { ids: string[]; properties: Record<string, unknown> } }
   | { type: 'ADD_EDGE'; payload: Edge }
+  | { type: 'UPDATE_EDGE'; payload: { id: string; data: Partial<EdgeData> } }
   | { type: 'DELETE_EDGE'; payload: string }
   | { type: 'SET_NODES'; payload: Node[] }
   | { type: 'SET_EDGES'; payload: Edge[] }
+  | { type: 'LOAD_CANVAS'; payload: { nodes: Node[]; edges: Edge[] } }
+  | { type: 'MERGE_CANVAS'; payload: { nodes: Node[]; edges: Edge[] } }
+  | { type: 'REPLACE_CANVAS'; payload: { nodes: Node[]; edges: Edge[] } }
+  | { type: 'SET_NODE_PARENT'; payload: { id: string; parentId: string | null } }
   | { type: 'SELECT_NODE'; payload: string | null }
+  | { type: 'SELECT_NODES'; payload: string[] }
   | { type: 'UPDATE_NODE_POSITION'; payload: { id: string; position: { x: number; y: number } } }
   | { type: 'SET_LOADING'; payload: boolean }
-  | { type: 'SET_ERROR'; payload: string | null };
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'JUMP_TO_HISTORY'; payload: number };